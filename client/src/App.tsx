@@ -4,6 +4,12 @@ import SignIn from "@/pages/signin";
 import MenuManagementPage from "./pages/menu";
 import ProfilePage from "./pages/profile";
 import HistoryPage from "./pages/history";
+import ReservationsPage from "./pages/reservations";
+import CustomersPage from "./pages/customers";
+import CustomerDetailPage from "./pages/customer-detail";
+import GiftCardsPage from "./pages/gift-cards";
+import VouchersPage from "./pages/vouchers";
+import MembershipsPage from "./pages/memberships";
 
 export default function App() {
   return (
@@ -14,6 +20,12 @@ export default function App() {
       {/* Protected route */}
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/history" component={HistoryPage} />
+      <Route path="/reservations" component={ReservationsPage} />
+      <Route path="/customers" component={CustomersPage} />
+      <Route path="/customers/:id" component={CustomerDetailPage} />
+      <Route path="/gift-cards" component={GiftCardsPage} />
+      <Route path="/vouchers" component={VouchersPage} />
+      <Route path="/memberships" component={MembershipsPage} />
       <Route path="/menu" component={MenuManagementPage} />
       <Route path="/settings" component={ProfilePage} />
 
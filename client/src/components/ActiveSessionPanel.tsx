@@ -1,9 +1,10 @@
 import { useMemo, useState } from "react";
-import { ArrowRightLeft, Check, Clock, Pencil, Receipt, ShoppingBag, Trash2, X } from "lucide-react";
+import { ArrowRightLeft, Check, Clock, LogOut, Merge, Pencil, Receipt, ShoppingBag, Trash2, UserPlus, Users, X } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { tierLabel } from "@/lib/tiers";
 
 export interface SessionItem {
   id: string;
@@ -23,10 +24,12 @@ interface ActiveSessionPanelProps {
     stationName: string;
     effectiveSeconds: number;
     pricingTier: "solo" | "group";
+    stationRateName?: string | null;
     rateHourlyApplied: number;
     timeAmount: number;
   }>;
   currentPricingTier?: "solo" | "group";
+  currentStationRateName?: string | null;
   currentHourlyRate?: number;
   currentSegmentCharge?: number;
   items: SessionItem[];
@@ -35,7 +38,12 @@ interface ActiveSessionPanelProps {
   onAddItems: () => void;
   onCheckout: () => void;
   onTransfer: () => void;
+  onMerge: () => void;
   onRequestRemoveItem: (item: SessionItem) => void;
+  /** Players tracked on the session; playedSeconds should already include live time. */
+  players?: Array<{ id: string; name: string; playedSeconds: number; leftAt: string | null }>;
+  onAddPlayer?: (name: string) => void;
+  onRemovePlayer?: (playerId: string) => void;
 }
 
 export function ActiveSessionPanel({
@@ -45,6 +53,7 @@ export function ActiveSessionPanel({
   startTime,
   timeSegments = [],
   currentPricingTier = "group",
+  currentStationRateName,
   currentHourlyRate = 0,
   currentSegmentCharge = 0,
   customerName,
@@ -53,11 +62,24 @@ export function ActiveSessionPanel({
   onAddItems,
   onCheckout,
   onTransfer,
+  onMerge,
   onRequestRemoveItem,
+  players = [],
+  onAddPlayer,
+  onRemovePlayer,
 }: ActiveSessionPanelProps) {
-  const [activeTab, setActiveTab] = useState<"breakdown" | "items">("items");
+  const [activeTab, setActiveTab] = useState<"breakdown" | "items" | "players">("items");
   const [isEditingName, setIsEditingName] = useState(false);
   const [editNameValue, setEditNameValue] = useState("");
+  const [newPlayerName, setNewPlayerName] = useState("");
+  const activePlayerCount = players.filter((player) => !player.leftAt).length;
+
+  const addPlayer = () => {
+    const name = newPlayerName.trim();
+    if (!name) return;
+    onAddPlayer?.(name);
+    setNewPlayerName("");
+  };
 
   const formatTime = (seconds: number) => {
     const hrs = Math.floor(seconds / 3600);
@@ -245,6 +267,24 @@ export function ActiveSessionPanel({
               </span>
             )}
           </button>
+          <button
+            className={`flex items-center gap-1.5 px-3 pb-2 text-sm font-medium transition-colors ${
+              activeTab === "players"
+                ? "border-b-2 border-primary text-primary"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+            onClick={() => setActiveTab("players")}
+          >
+            <Users className="h-3.5 w-3.5" />
+            Players
+            {activePlayerCount > 0 && (
+              <span className={`rounded-full px-1.5 py-0.5 text-xs leading-none ${
+                activeTab === "players" ? "bg-primary/15 text-primary" : "bg-muted text-muted-foreground"
+              }`}>
+                {activePlayerCount}
+              </span>
+            )}
+          </button>
         </div>
 
         {/* Tab content */}
@@ -264,7 +304,7 @@ export function ActiveSessionPanel({
                         <span className="font-mono font-semibold">${segment.timeAmount.toFixed(2)}</span>
                       </div>
                       <div className="mt-0.5 flex items-center justify-between text-muted-foreground">
-                        <span>{segment.pricingTier === "solo" ? "Solo" : "Group"}</span>
+                        <span>{tierLabel(segment.pricingTier, segment.stationRateName)}</span>
                         <span className="font-mono">{formatTime(segment.effectiveSeconds)}</span>
                       </div>
                     </div>
@@ -273,11 +313,77 @@ export function ActiveSessionPanel({
               )}
               <div className="flex items-center justify-between rounded-md border bg-background/60 px-3 py-2 text-xs shrink-0">
                 <span className="text-muted-foreground">
-                  Current ({currentPricingTier === "solo" ? "Solo" : "Group"}) @ ${currentHourlyRate.toFixed(2)}/hr
+                  Current ({tierLabel(currentPricingTier, currentStationRateName)}) @ ${currentHourlyRate.toFixed(2)}/hr
                 </span>
                 <span className="font-mono font-semibold">${currentSegmentCharge.toFixed(2)}</span>
               </div>
             </div>
+          ) : activeTab === "players" ? (
+            <div className="flex min-h-0 flex-1 flex-col gap-2">
+              <div className="flex items-center gap-2 shrink-0">
+                <Input
+                  value={newPlayerName}
+                  onChange={(e) => setNewPlayerName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") addPlayer();
+                  }}
+                  placeholder="Player name"
+                  className="h-8 text-sm"
+                  maxLength={60}
+                  data-testid="input-add-player"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addPlayer}
+                  disabled={!newPlayerName.trim()}
+                  data-testid="button-add-player"
+                >
+                  <UserPlus className="mr-1.5 h-3.5 w-3.5" />
+                  Add
+                </Button>
+              </div>
+
+              {players.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center">
+                  <p className="text-sm text-muted-foreground">No players tracked.</p>
+                </div>
+              ) : (
+                <div className="flex-1 min-h-0 overflow-y-auto space-y-1.5 pr-1">
+                  {players.map((player) => (
+                    <div
+                      key={player.id}
+                      className="flex items-center justify-between gap-2 rounded-md border bg-muted/20 px-3 py-2"
+                      data-testid={`player-${player.id}`}
+                    >
+                      <div className="min-w-0">
+                        <p className={`text-sm font-medium truncate ${player.leftAt ? "text-muted-foreground" : ""}`}>
+                          {player.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {player.leftAt ? `Left at ${formatStartTime(new Date(player.leftAt).getTime())}` : "Playing"}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <span className="text-xs font-mono">{formatTime(player.playedSeconds)}</span>
+                        {!player.leftAt && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onRemovePlayer?.(player.id)}
+                            aria-label={`${player.name} leaves`}
+                            data-testid={`button-remove-player-${player.id}`}
+                          >
+                            <LogOut className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           ) : (
             <div className="flex min-h-0 flex-1 flex-col gap-2">
               <div className="flex items-center justify-between shrink-0">
@@ -356,11 +462,15 @@ export function ActiveSessionPanel({
         </div>
 
         {/* Action buttons */}
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           <Button variant="outline" size="lg" onClick={onTransfer} data-testid="button-transfer-session">
             <ArrowRightLeft className="mr-2 h-4 w-4" />
             Transfer
           </Button>
+          <Button variant="outline" size="lg" onClick={onMerge} data-testid="button-merge-session">
+            <Merge className="mr-2 h-4 w-4" />
+            Merge
+          </Button>
           <Button size="lg" onClick={onCheckout} data-testid="button-end-session">
             <Receipt className="mr-2 h-4 w-4" />
             Checkout
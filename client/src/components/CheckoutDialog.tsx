@@ -1,14 +1,20 @@
 import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import {
+  Banknote,
   ChevronDown,
   ChevronUp,
   Clock,
+  CreditCard,
   DollarSign,
   Gift,
+  Hourglass,
+  Plus,
   ShoppingBag,
+  Tag,
   User,
   Users,
+  X,
 } from "lucide-react";
 import {
   Dialog,
@@ -30,22 +36,171 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { fetchWithAuth, postWithAuth } from "@/lib/api";
+import { fromTierValue, toTierValue, type StationRateOption, type TierValue } from "@/lib/tiers";
 import { useToast } from "@/hooks/use-toast";
+import { type LoyaltyProgram, type LoyaltyReward } from "@/components/LoyaltyProgramCard";
 
-interface CheckoutItem {
+export type TenderType = "cash" | "card" | "other";
+
+const TENDER_OPTIONS: Array<{ value: TenderType; label: string }> = [
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" },
+  { value: "other", label: "Other" },
+];
+
+interface QuoteSegment {
+  segmentId: string | null;
+  /** Segment id, or `current:<window start>` for the open stretch. */
+  lineId: string;
+  isCurrent: boolean;
+  stationId: string;
+  stationName: string;
+  startedAt: string;
+  effectiveSeconds: number;
+  billableSeconds: number;
+  pricingTier: "group" | "solo";
+  stationRateId: string | null;
+  stationRateName: string | null;
+  rateHourlyApplied: number;
+  rateScheduleName: string | null;
+  playerCount: number | null;
+  billedPerPlayer: boolean;
+  timeAmount: number;
+}
+
+interface QuotePlayer {
   id: string;
   name: string;
-  price: number;
-  quantity: number;
+  leftAt: string | null;
+  playedSeconds: number;
 }
 
-interface CheckoutTimeSegment {
+interface QuoteItem {
   id: string;
-  stationName: string;
+  menuItemId: string | null;
+  name: string;
+  unitPrice: number;
+  qty: number;
+  lineTotal: number;
+}
+
+interface QuotePrepaid {
+  prepaidSeconds: number;
+  prepaidAmount: number;
+  overtimeSeconds: number;
+  overtimeAmount: number;
+}
+
+interface QuoteTaxLine {
+  sequence: number;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+interface QuoteDiscountLine {
+  sequence: number;
+  source: "loyalty" | "promotion" | "manual" | "reward" | "tier" | "voucher" | "membership";
+  code: string | null;
+  name: string;
+  amount: number;
+}
+
+/** Present when the quote has a loyalty customer, by phone or attached at start. */
+interface QuoteLoyalty {
+  customerFound: boolean;
+  program: LoyaltyProgram;
+  /** After the reward being redeemed, if any. */
+  pointsBalance: number;
+  tierName: string | null;
+  pointsEarned: number;
+}
+
+interface SessionQuote {
   effectiveSeconds: number;
-  pricingTier: "group" | "solo";
-  rateSoloHourlySnapshot: number;
-  rateGroupHourlySnapshot: number;
+  segments: QuoteSegment[];
+  items: QuoteItem[];
+  players: QuotePlayer[];
+  prepaid: QuotePrepaid | null;
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  subtotal: number;
+  discountRate: number;
+  discountAmount: number;
+  discountLines: QuoteDiscountLine[];
+  prepaidCredit: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+  taxLines: QuoteTaxLine[];
+  finalTotal: number;
+  tipAmount: number;
+  payments: Array<{ sequence: number; tenderType: TenderType | "gift_card"; amount: number; tipAmount: number }>;
+  payers: Array<{ sequence: number; name: string; subtotal: number; discountAmount: number; total: number }>;
+  loyalty: QuoteLoyalty | null;
+  /** The gift card named at checkout and what this bill takes off it. */
+  giftCard: { code: string; balance: number; amount: number } | null;
+  /** The time voucher named at checkout: how many of its minutes this bill uses, and what they take off. */
+  voucher: { code: string; minutes: number; stationType: string | null; redeemedMinutes: number; amount: number } | null;
+  /** The customer's membership: included time left coming in, what this bill spends, and what the plan takes off. */
+  membership: {
+    planName: string;
+    renewsAt: string;
+    includedSecondsLeft: number;
+    includedSeconds: number;
+    amount: number;
+  } | null;
+}
+
+export interface CheckoutPayerPayload {
+  name: string;
+  tenderType: TenderType;
+  discountApplied: boolean;
+  allocations: Array<{ kind: "item" | "segment"; lineId: string; share: number }>;
+}
+
+export type DiscountReason = "comp" | "service_recovery" | "staff" | "price_match" | "other";
+
+export interface ManualDiscountPayload {
+  kind: "percent" | "amount";
+  /** Fraction for percent discounts, dollars for amount ones. */
+  value: number;
+  scope: "all" | "time" | "items";
+  reasonCode: DiscountReason;
+  note?: string;
+}
+
+const DISCOUNT_REASONS: Array<{ value: DiscountReason; label: string }> = [
+  { value: "comp", label: "Comp" },
+  { value: "service_recovery", label: "Service recovery" },
+  { value: "staff", label: "Staff" },
+  { value: "price_match", label: "Price match" },
+  { value: "other", label: "Other" },
+];
+
+const MANUAL_DISCOUNT_SCOPES: Array<{ value: ManualDiscountPayload["scope"]; label: string }> = [
+  { value: "all", label: "Whole bill" },
+  { value: "time", label: "Time only" },
+  { value: "items", label: "Items only" },
+];
+
+type SplitMode = "even" | "items";
+
+const TIP_PRESETS = [0.15, 0.18, 0.2];
+/** No tip, a preset rate, or a typed dollar amount. */
+type TipChoice = "none" | "custom" | number;
+
+/** Assignment value for a line divided equally between every payer. */
+const SHARED = "shared";
+
+/** 5400 → "1.5h". */
+function formatHours(seconds: number): string {
+  return `${Number((seconds / 3600).toFixed(2))}h`;
+}
+
+/** 0.0825 → "8.25%". */
+function formatTaxRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(3))}%`;
 }
 
 interface CheckoutDialogProps {
@@ -54,22 +209,36 @@ interface CheckoutDialogProps {
   sessionId: string;
   stationName: string;
   customerName?: string | null;
+  /** Phone of the loyalty customer attached at start; prefills the loyalty section. */
+  customerPhone?: string | null;
   activeSessions: Array<{ sessionId: string; stationName: string }>;
   onSessionChange: (sessionId: string) => void;
-  currentSegmentSeconds: number;
-  accruedTimeSeconds: number;
-  groupHourlyRate: number;
-  soloHourlyRate: number;
-  items: CheckoutItem[];
   pricingTier: "group" | "solo";
-  timeSegments: CheckoutTimeSegment[];
+  stationRateId?: string | null;
   onConfirmCheckout: (checkoutData: {
     timeCharge: number;
     grandTotal: number;
     pricingTier: "group" | "solo";
+    stationRateId: string | null;
     currentSegmentPricingTier: "group" | "solo";
-    segmentTierOverrides: Array<{ segmentId: string; pricingTier: "group" | "solo" }>;
-  }) => void;
+    currentSegmentStationRateId: string | null;
+    segmentTierOverrides: Array<{ segmentId: string; pricingTier: "group" | "solo"; stationRateId: string | null }>;
+    payment: {
+      tenderType: TenderType;
+      loyaltyDiscountApplied: boolean;
+      promoCode?: string;
+      manualDiscount?: ManualDiscountPayload;
+      rewardId?: string;
+      giftCardCode?: string;
+      giftCardAmount?: number;
+      voucherCode?: string;
+      splits?: Array<{ tenderType: TenderType }>;
+      payers?: CheckoutPayerPayload[];
+      tipRate?: number;
+      tipAmount?: number;
+    };
+    loyaltyPhone?: string;
+  }) => void | Promise<void>;
 }
 
 export function CheckoutDialog({
@@ -78,26 +247,21 @@ export function CheckoutDialog({
   sessionId,
   stationName,
   customerName,
+  customerPhone = null,
   activeSessions,
   onSessionChange,
-  currentSegmentSeconds,
-  accruedTimeSeconds,
-  groupHourlyRate,
-  soloHourlyRate,
-  items,
   pricingTier,
-  timeSegments,
+  stationRateId = null,
   onConfirmCheckout,
 }: CheckoutDialogProps) {
   const MIN_SPLIT_COUNT = 2;
   const MAX_SPLIT_COUNT = 20;
   const [isSplitBill, setIsSplitBill] = useState(false);
   const [splitCountInput, setSplitCountInput] = useState(String(MIN_SPLIT_COUNT));
-  const [selectedPricingTier, setSelectedPricingTier] = useState<"group" | "solo">(pricingTier);
-  const [segmentTierSelections, setSegmentTierSelections] = useState<Record<string, "group" | "solo">>({});
+  const [selectedPricingTier, setSelectedPricingTier] = useState<TierValue>(toTierValue(pricingTier, stationRateId));
+  const [segmentTierSelections, setSegmentTierSelections] = useState<Record<string, TierValue>>({});
   const [loyaltyPhone, setLoyaltyPhone] = useState("");
   const [discountApplied, setDiscountApplied] = useState(false);
-  const [appliedDiscountRate, setAppliedDiscountRate] = useState<number | null>(null);
   const [checkDiscountLoading, setCheckDiscountLoading] = useState(false);
   const [checkoutLoading, setCheckoutLoading] = useState(false);
   const [discountConfirmOpen, setDiscountConfirmOpen] = useState(false);
@@ -105,10 +269,43 @@ export function CheckoutDialog({
   const [timeExpanded, setTimeExpanded] = useState(false);
   const [itemsExpanded, setItemsExpanded] = useState(false);
   const [loyaltyExpanded, setLoyaltyExpanded] = useState(false);
+  const [discountsExpanded, setDiscountsExpanded] = useState(false);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [voucherCodeInput, setVoucherCodeInput] = useState("");
+  const [voucherCode, setVoucherCode] = useState("");
+  const [rewardId, setRewardId] = useState<string | null>(null);
+  const [manualKind, setManualKind] = useState<ManualDiscountPayload["kind"]>("percent");
+  const [manualValue, setManualValue] = useState("");
+  const [manualScope, setManualScope] = useState<ManualDiscountPayload["scope"]>("all");
+  const [manualReason, setManualReason] = useState<DiscountReason>("comp");
+  const [manualNote, setManualNote] = useState("");
+  const [tenderType, setTenderType] = useState<TenderType>("card");
+  const [giftCodeInput, setGiftCodeInput] = useState("");
+  const [giftCode, setGiftCode] = useState("");
+  const [giftAmountInput, setGiftAmountInput] = useState("");
+  const [splitTenders, setSplitTenders] = useState<Record<number, TenderType>>({});
+  const [tipChoice, setTipChoice] = useState<TipChoice>("none");
+  const [customTip, setCustomTip] = useState("");
+  const [splitMode, setSplitMode] = useState<SplitMode>("even");
+  const [payers, setPayers] = useState<Array<Omit<CheckoutPayerPayload, "allocations">>>([]);
+  /** Line key (`kind:lineId`) to a payer index, or SHARED. */
+  const [lineAssignments, setLineAssignments] = useState<Record<string, string>>({});
   const { toast } = useToast();
-  const { data: me } = useQuery<{ discountRate: string }>({
+  const { data: me } = useQuery<{ discountRate: string; loyaltyProgram: LoyaltyProgram }>({
     queryKey: ["me"],
-    queryFn: () => fetchWithAuth<{ discountRate: string }>("/api/me"),
+    queryFn: () => fetchWithAuth<{ discountRate: string; loyaltyProgram: LoyaltyProgram }>("/api/me"),
+    enabled: open,
+  });
+  const usesPoints = me?.loyaltyProgram === "points";
+  const { data: rewards = [] } = useQuery<LoyaltyReward[]>({
+    queryKey: ["loyalty-rewards"],
+    queryFn: () => fetchWithAuth<LoyaltyReward[]>("/api/loyalty/rewards"),
+    enabled: open && usesPoints,
+  });
+  const { data: stations = [] } = useQuery<Array<{ id: string; rates: StationRateOption[] }>>({
+    queryKey: ["stations"],
+    queryFn: () => fetchWithAuth<Array<{ id: string; rates: StationRateOption[] }>>("/api/stations"),
     enabled: open,
   });
   const storeDiscountRatePct =
@@ -116,27 +313,161 @@ export function CheckoutDialog({
 
   const hasValidPhone = (value: string) => value.replace(/\D/g, "").length >= 10;
 
-  const totalSecondsPlayed = Math.round(accruedTimeSeconds + currentSegmentSeconds);
-  const currentHourlyRate = selectedPricingTier === "solo" ? soloHourlyRate : groupHourlyRate;
-  const currentSegmentCharge = (currentSegmentSeconds / 3600) * currentHourlyRate;
-
-  const segmentRows = useMemo(() => {
-    return timeSegments.map((segment) => {
-      const selectedTier = segmentTierSelections[segment.id] ?? segment.pricingTier;
-      const appliedRate =
-        selectedTier === "solo" ? segment.rateSoloHourlySnapshot : segment.rateGroupHourlySnapshot;
-      const amount = (segment.effectiveSeconds / 3600) * appliedRate;
-      return {
-        ...segment,
-        selectedTier,
-        appliedRate,
-        amount,
-      };
+  const parsedSplitCount = Number(splitCountInput);
+  const isValidSplitCount =
+    Number.isInteger(parsedSplitCount) &&
+    parsedSplitCount >= MIN_SPLIT_COUNT &&
+    parsedSplitCount <= MAX_SPLIT_COUNT;
+  const splitCount = isValidSplitCount ? parsedSplitCount : MIN_SPLIT_COUNT;
+
+  const splitPayments = isSplitBill && splitMode === "even" && isValidSplitCount
+    ? Array.from({ length: splitCount }, (_, index) => ({ tenderType: splitTenders[index] ?? tenderType }))
+    : undefined;
+
+  const isItemized = isSplitBill && splitMode === "items";
+  const validPayers = payers.length >= MIN_SPLIT_COUNT && payers.every((payer) => payer.name.trim().length > 0);
+
+  const tierOverrides = Object.entries(segmentTierSelections).map(([segmentId, tier]) => ({
+    segmentId,
+    ...fromTierValue(tier),
+  }));
+  const selectedTier = fromTierValue(selectedPricingTier);
+
+  // Lines come from the last quote; an itemized quote is re-requested whenever assignments change.
+  const [splitLines, setSplitLines] = useState<Array<{ kind: "item" | "segment"; lineId: string; label: string; amount: number }>>([]);
+
+  const payerPayloads: CheckoutPayerPayload[] | undefined =
+    isItemized && validPayers && splitLines.length > 0
+      ? payers.map((payer, index) => ({
+          name: payer.name.trim(),
+          tenderType: payer.tenderType,
+          discountApplied: discountApplied && payer.discountApplied,
+          allocations: splitLines.flatMap((line) => {
+            const assigned = lineAssignments[`${line.kind}:${line.lineId}`] ?? SHARED;
+            if (assigned === SHARED) return [{ kind: line.kind, lineId: line.lineId, share: 1 / payers.length }];
+            return assigned === String(index) ? [{ kind: line.kind, lineId: line.lineId, share: 1 }] : [];
+          }),
+        }))
+      : undefined;
+
+  const parsedCustomTip = Number(customTip);
+  const isValidCustomTip = customTip.trim() !== "" && Number.isFinite(parsedCustomTip) && parsedCustomTip >= 0;
+
+  // Percent is typed as a whole number (10 → 10%); the API takes a fraction.
+  const parsedManualValue = Number(manualValue);
+  const manualDiscount: ManualDiscountPayload | undefined =
+    manualValue.trim() !== "" && Number.isFinite(parsedManualValue) && parsedManualValue > 0
+      ? {
+          kind: manualKind,
+          value:
+            manualKind === "percent"
+              ? Math.min(parsedManualValue, 100) / 100
+              : Math.round(parsedManualValue * 100) / 100,
+          scope: manualScope,
+          reasonCode: manualReason,
+          note: manualNote.trim() || undefined,
+        }
+      : undefined;
+  const hasExtraDiscount = !!promoCode || !!voucherCode || !!manualDiscount || !!rewardId;
+
+  // Gift cards pay a whole bill or part of one, never a split; a blank amount takes as much as the card covers.
+  const giftCardCode = giftCode && !isSplitBill ? giftCode : undefined;
+  const parsedGiftAmount = Number(giftAmountInput);
+  const giftCardAmount =
+    giftCardCode && giftAmountInput.trim() !== "" && Number.isFinite(parsedGiftAmount) && parsedGiftAmount > 0
+      ? Math.round(parsedGiftAmount * 100) / 100
+      : undefined;
+
+  // The quote looks the customer up by phone so it can show their points and tier.
+  const quotedPhone = hasValidPhone(loyaltyPhone) ? loyaltyPhone.trim() : undefined;
+
+  const quoteBody = {
+    loyaltyPhone: quotedPhone,
+    pricingTier: selectedTier.pricingTier,
+    stationRateId: selectedTier.stationRateId,
+    currentSegmentPricingTier: selectedTier.pricingTier,
+    currentSegmentStationRateId: selectedTier.stationRateId,
+    segmentTierOverrides: tierOverrides,
+    payment: {
+      tenderType,
+      loyaltyDiscountApplied: discountApplied,
+      promoCode: promoCode || undefined,
+      manualDiscount,
+      rewardId: rewardId ?? undefined,
+      voucherCode: voucherCode || undefined,
+      giftCardCode,
+      giftCardAmount,
+      splits: splitPayments,
+      payers: payerPayloads,
+      tipRate: typeof tipChoice === "number" ? tipChoice : undefined,
+      tipAmount: tipChoice === "custom" && isValidCustomTip ? Math.round(parsedCustomTip * 100) / 100 : undefined,
+    },
+  };
+
+  const { data: quote, isFetching: quoteFetching, error: quoteError } = useQuery<SessionQuote>({
+    queryKey: ["session-quote", sessionId, quoteBody],
+    queryFn: () => postWithAuth<SessionQuote>(`/api/sessions/${sessionId}/quote`, quoteBody),
+    enabled: open && !!sessionId,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!quote) return;
+    const next = [
+      ...quote.segments.map((segment) => ({
+        kind: "segment" as const,
+        lineId: segment.lineId,
+        label: `${segment.isCurrent ? "Current: " : ""}${segment.stationName} · ${formatTime(segment.effectiveSeconds)}`,
+        amount: segment.timeAmount,
+      })),
+      ...quote.items.map((item) => ({
+        kind: "item" as const,
+        lineId: item.id,
+        label: `${item.qty}x ${item.name}`,
+        amount: item.lineTotal,
+      })),
+    ];
+    setSplitLines((prev) => {
+      const same =
+        prev.length === next.length &&
+        prev.every((line, index) => line.lineId === next[index].lineId && line.amount === next[index].amount);
+      return same ? prev : next;
     });
-  }, [segmentTierSelections, timeSegments]);
+  }, [quote]);
+
+  const priorSegments = quote?.segments.filter((segment) => !segment.isCurrent) ?? [];
+  const currentSegments = quote?.segments.filter((segment) => segment.isCurrent) ?? [];
+  const currentStationId = currentSegments[0]?.stationId;
+  const currentSeconds = currentSegments.reduce((sum, segment) => sum + segment.effectiveSeconds, 0);
+  const totalSecondsPlayed = quote?.effectiveSeconds ?? 0;
+  const timeCharge = quote?.timeSubtotal ?? 0;
+  const itemsTotal = quote?.itemsSubtotal ?? 0;
+  const finalTotal = quote?.finalTotal ?? 0;
+  const tipAmount = quote?.tipAmount ?? 0;
+  const taxLines = quote?.taxLines ?? [];
+  const preTaxDue = finalTotal - (quote?.taxAmount ?? 0);
+  const splitAmounts =
+    isSplitBill && splitMode === "even" && isValidSplitCount ? (quote?.payments ?? []).map((payment) => payment.amount) : [];
+  const payerQuotes = isItemized ? quote?.payers ?? [] : [];
+
+  const items = useMemo(() => {
+    const grouped = new Map<string, { key: string; name: string; quantity: number; lineTotal: number }>();
+    for (const item of quote?.items ?? []) {
+      const key = `${item.menuItemId ?? item.id}:${item.name}:${item.unitPrice}`;
+      const existing = grouped.get(key);
+      if (existing) {
+        existing.quantity += item.qty;
+        existing.lineTotal += item.lineTotal;
+      } else {
+        grouped.set(key, { key, name: item.name, quantity: item.qty, lineTotal: item.lineTotal });
+      }
+    }
+    return Array.from(grouped.values());
+  }, [quote?.items]);
 
-  const accruedSegmentsCharge = segmentRows.reduce((sum, row) => sum + row.amount, 0);
-  const recalculatedTimeCharge = accruedSegmentsCharge + currentSegmentCharge;
+  const formatPlayerCount = (segment: QuoteSegment) =>
+    segment.billedPerPlayer && segment.playerCount ? ` (${segment.playerCount} players)` : "";
 
   const formatTime = (seconds: number) => {
     const total = Math.max(0, Math.floor(seconds));
@@ -145,26 +476,16 @@ export function CheckoutDialog({
     return hrs > 0 ? `${hrs}h ${mins}m` : `${mins}m`;
   };
 
-  const itemsTotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const grandTotal = recalculatedTimeCharge + itemsTotal;
-  const discountMultiplier = appliedDiscountRate != null ? 1 - appliedDiscountRate : 1;
-  const finalTotal = grandTotal * discountMultiplier;
-  const parsedSplitCount = Number(splitCountInput);
-  const isValidSplitCount =
-    Number.isInteger(parsedSplitCount) &&
-    parsedSplitCount >= MIN_SPLIT_COUNT &&
-    parsedSplitCount <= MAX_SPLIT_COUNT;
-  const splitCount = isValidSplitCount ? parsedSplitCount : MIN_SPLIT_COUNT;
-  const splitAmounts = useMemo(() => {
-    if (!isSplitBill || !isValidSplitCount) return [];
-    const totalCents = Math.max(0, Math.round(finalTotal * 100));
-    const base = Math.floor(totalCents / splitCount);
-    const remainder = totalCents % splitCount;
-
-    return Array.from({ length: splitCount }, (_, index) =>
-      (base + (index < remainder ? 1 : 0)) / 100
+  // Disabled tiers stay listed for a stretch already on them, so the select keeps its value.
+  const tierOptionsFor = (stationId: string | undefined, selected: TierValue) =>
+    (stations.find((st) => st.id === stationId)?.rates ?? []).filter(
+      (option) => option.isEnabled || option.id === selected,
     );
-  }, [finalTotal, isSplitBill, isValidSplitCount, splitCount]);
+
+  const formatSegmentTime = (segment: QuoteSegment) =>
+    segment.billableSeconds === segment.effectiveSeconds
+      ? formatTime(segment.effectiveSeconds)
+      : `${formatTime(segment.effectiveSeconds)} (billed ${formatTime(segment.billableSeconds)})`;
 
   const allSplitAmountsEqual =
     splitAmounts.length > 0 && splitAmounts.every((amount) => amount === splitAmounts[0]);
@@ -175,33 +496,97 @@ export function CheckoutDialog({
     setSplitCountInput(String(MIN_SPLIT_COUNT));
     setLoyaltyPhone("");
     setDiscountApplied(false);
-    setAppliedDiscountRate(null);
     setDiscountConfirmOpen(false);
     setLoyaltyPhoneError(null);
     setItemsExpanded(false);
     setTimeExpanded(false);
     setLoyaltyExpanded(false);
+    setTenderType("card");
+    setGiftCodeInput("");
+    setGiftCode("");
+    setGiftAmountInput("");
+    setSplitTenders({});
+    setTipChoice("none");
+    setCustomTip("");
+    setSplitMode("even");
+    setPayers([]);
+    setLineAssignments({});
+    setDiscountsExpanded(false);
+    setPromoCodeInput("");
+    setPromoCode("");
+    setVoucherCodeInput("");
+    setVoucherCode("");
+    setRewardId(null);
+    setManualKind("percent");
+    setManualValue("");
+    setManualScope("all");
+    setManualReason("comp");
+    setManualNote("");
   }, [open]);
 
   useEffect(() => {
     if (!open) return;
-    setSelectedPricingTier(pricingTier);
-    const initial: Record<string, "group" | "solo"> = {};
-    for (const segment of timeSegments) {
-      initial[segment.id] = segment.pricingTier;
-    }
-    setSegmentTierSelections(initial);
-    setLoyaltyPhone("");
+    setSelectedPricingTier(toTierValue(pricingTier, stationRateId));
+    setSegmentTierSelections({});
+    setLoyaltyPhone(customerPhone ?? "");
     setDiscountApplied(false);
-    setAppliedDiscountRate(null);
     setLoyaltyPhoneError(null);
     setIsSplitBill(false);
     setSplitCountInput(String(MIN_SPLIT_COUNT));
     setTimeExpanded(false);
     setItemsExpanded(false);
-    setLoyaltyExpanded(false);
+    setLoyaltyExpanded(!!customerPhone);
+    setTenderType("card");
+    setGiftCodeInput("");
+    setGiftCode("");
+    setGiftAmountInput("");
+    setSplitTenders({});
+    setTipChoice("none");
+    setCustomTip("");
+    setSplitMode("even");
+    setPayers([]);
+    setLineAssignments({});
+    setDiscountsExpanded(false);
+    setPromoCodeInput("");
+    setPromoCode("");
+    setVoucherCodeInput("");
+    setVoucherCode("");
+    setRewardId(null);
+    setManualKind("percent");
+    setManualValue("");
+    setManualScope("all");
+    setManualReason("comp");
+    setManualNote("");
+    setSplitLines([]);
   }, [open, sessionId]);
 
+  function startItemizedSplit() {
+    setSplitMode("items");
+    setPayers((prev) =>
+      prev.length > 0
+        ? prev
+        : Array.from({ length: MIN_SPLIT_COUNT }, (_, index) => ({
+            name: `Person ${index + 1}`,
+            tenderType,
+            discountApplied: false,
+          })),
+    );
+  }
+
+  function removePayer(index: number) {
+    setPayers((prev) => prev.filter((_, i) => i !== index));
+    // Lines given to the removed payer go back to everyone; later payers shift down one.
+    setLineAssignments((prev) => {
+      const next: Record<string, string> = {};
+      for (const [key, value] of Object.entries(prev)) {
+        if (value === SHARED || value === String(index)) continue;
+        const assigned = Number(value);
+        next[key] = String(assigned > index ? assigned - 1 : assigned);
+      }
+      return next;
+    });
+  }
+
   function handleSplitCountBlur() {
     const next = Number(splitCountInput);
     if (!Number.isFinite(next)) {
@@ -213,10 +598,6 @@ export function CheckoutDialog({
     setSplitCountInput(String(clamped));
   }
 
-  const tierOverrides = segmentRows
-    .filter((row) => row.selectedTier !== row.pricingTier)
-    .map((row) => ({ segmentId: row.id, pricingTier: row.selectedTier }));
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent
@@ -276,20 +657,28 @@ export function CheckoutDialog({
               {timeExpanded && (
                 <div className="mt-3 max-h-[38dvh] overflow-y-auto rounded-md border bg-background sm:max-h-[40vh]">
                   <div className="space-y-3 p-2 pr-3">
-                    {segmentRows.length > 0 ? (
+                    {priorSegments.length > 0 ? (
                       <div className="space-y-2">
-                        {segmentRows.map((row) => (
-                          <div key={row.id} className="rounded border bg-background p-3">
+                        {priorSegments.map((row) => (
+                          <div key={row.segmentId} className="rounded border bg-background p-3">
                             <div className="mb-2 flex items-center justify-between text-sm">
-                              <span className="font-medium">{row.stationName}</span>
-                              <span className="font-mono text-xs">{formatTime(row.effectiveSeconds)}</span>
+                              <span className="font-medium">
+                                {row.stationName}
+                                {row.rateScheduleName && (
+                                  <span className="ml-1 text-xs font-normal text-muted-foreground">
+                                    ({row.rateScheduleName})
+                                  </span>
+                                )}
+                              </span>
+                              <span className="font-mono text-xs">{formatSegmentTime(row)}</span>
                             </div>
                             <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
                               <Select
-                                value={row.selectedTier}
-                                onValueChange={(value: "group" | "solo") =>
-                                  setSegmentTierSelections((prev) => ({ ...prev, [row.id]: value }))
-                                }
+                                value={toTierValue(row.pricingTier, row.stationRateId)}
+                                onValueChange={(value: TierValue) => {
+                                  const segmentId = row.segmentId;
+                                  if (segmentId) setSegmentTierSelections((prev) => ({ ...prev, [segmentId]: value }));
+                                }}
                               >
                                 <SelectTrigger>
                                   <SelectValue />
@@ -297,11 +686,18 @@ export function CheckoutDialog({
                                 <SelectContent>
                                   <SelectItem value="solo">Solo</SelectItem>
                                   <SelectItem value="group">Group</SelectItem>
+                                  {tierOptionsFor(row.stationId, toTierValue(row.pricingTier, row.stationRateId)).map((option) => (
+                                    <SelectItem key={option.id} value={option.id}>
+                                      {option.name}
+                                    </SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
                               <div className="text-right text-sm">
-                                <div className="text-muted-foreground">@ ${row.appliedRate.toFixed(2)}/hr</div>
-                                <div className="font-mono">${row.amount.toFixed(2)}</div>
+                                <div className="text-muted-foreground">
+                                  @ ${row.rateHourlyApplied.toFixed(2)}/hr{formatPlayerCount(row)}
+                                </div>
+                                <div className="font-mono">${row.timeAmount.toFixed(2)}</div>
                               </div>
                             </div>
                           </div>
@@ -314,12 +710,12 @@ export function CheckoutDialog({
                     <div className="rounded border bg-background p-3">
                       <div className="mb-2 flex items-center justify-between text-sm">
                         <span className="font-medium">Current: {stationName}</span>
-                        <span className="font-mono text-xs">{formatTime(currentSegmentSeconds)}</span>
+                        <span className="font-mono text-xs">{formatTime(currentSeconds)}</span>
                       </div>
                       <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
                         <Select
                           value={selectedPricingTier}
-                          onValueChange={(value: "group" | "solo") => setSelectedPricingTier(value)}
+                          onValueChange={(value: TierValue) => setSelectedPricingTier(value)}
                         >
                           <SelectTrigger>
                             <SelectValue />
@@ -327,11 +723,27 @@ export function CheckoutDialog({
                           <SelectContent>
                             <SelectItem value="solo">Solo</SelectItem>
                             <SelectItem value="group">Group</SelectItem>
+                            {tierOptionsFor(currentStationId, selectedPricingTier).map((option) => (
+                              <SelectItem key={option.id} value={option.id}>
+                                {option.name}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
-                        <div className="text-right text-sm">
-                          <div className="text-muted-foreground">@ ${currentHourlyRate.toFixed(2)}/hr</div>
-                          <div className="font-mono">${currentSegmentCharge.toFixed(2)}</div>
+                        <div className="space-y-1 text-right text-sm">
+                          {currentSegments.map((segment) => (
+                            <div key={segment.startedAt}>
+                              <div className="text-muted-foreground">
+                                {currentSegments.length > 1 && (
+                                  <span>
+                                    {segment.rateScheduleName ?? "Standard"} &middot; {formatSegmentTime(segment)}{" "}
+                                  </span>
+                                )}
+                                @ ${segment.rateHourlyApplied.toFixed(2)}/hr{formatPlayerCount(segment)}
+                              </div>
+                              <div className="font-mono">${segment.timeAmount.toFixed(2)}</div>
+                            </div>
+                          ))}
                         </div>
                       </div>
                     </div>
@@ -342,7 +754,7 @@ export function CheckoutDialog({
                         <span>Total time: {formatTime(totalSecondsPlayed)}</span>
                       </div>
                       <span className="font-mono font-semibold" data-testid="text-time-charge">
-                        ${recalculatedTimeCharge.toFixed(2)}
+                        ${timeCharge.toFixed(2)}
                       </span>
                     </div>
                   </div>
@@ -356,12 +768,53 @@ export function CheckoutDialog({
                     <span>Total time: {formatTime(totalSecondsPlayed)}</span>
                   </div>
                   <span className="font-mono font-semibold" data-testid="text-time-charge">
-                    ${recalculatedTimeCharge.toFixed(2)}
+                    ${timeCharge.toFixed(2)}
                   </span>
                 </div>
               )}
             </div>
 
+            {quote && quote.players.length > 0 && (
+              <div className="rounded-lg border bg-muted/30 p-4 space-y-2 text-sm" data-testid="section-players">
+                <div className="flex items-center gap-2 font-semibold">
+                  <Users className="h-4 w-4" />
+                  <span>Players</span>
+                </div>
+                {quote.players.map((player) => (
+                  <div key={player.id} className="flex items-center justify-between" data-testid={`row-player-${player.id}`}>
+                    <span>
+                      {player.name}
+                      {!player.leftAt && <span className="text-muted-foreground"> · still playing</span>}
+                    </span>
+                    <span className="font-mono">{formatTime(player.playedSeconds)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {quote?.prepaid && (
+              <div className="rounded-lg border bg-muted/30 p-4 space-y-2 text-sm" data-testid="section-prepaid">
+                <div className="flex items-center gap-2 font-semibold">
+                  <Hourglass className="h-4 w-4" />
+                  <span>Prepaid Time</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">
+                    {formatTime(quote.prepaid.prepaidSeconds)} paid up front
+                  </span>
+                  <span className="font-mono">${quote.prepaid.prepaidAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className={quote.prepaid.overtimeSeconds > 0 ? "text-destructive" : "text-muted-foreground"}>
+                    Overtime {formatTime(quote.prepaid.overtimeSeconds)} at normal rates
+                  </span>
+                  <span className="font-mono" data-testid="text-overtime-charge">
+                    ${quote.prepaid.overtimeAmount.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+            )}
+
             {items.length > 0 && (
               <div className="rounded-lg border bg-muted/30 p-4">
                 <div className="flex items-center justify-between gap-3">
@@ -385,15 +838,15 @@ export function CheckoutDialog({
                       <div className="space-y-2">
                         {items.map((item) => (
                           <div
-                            key={item.id}
+                            key={item.key}
                             className="flex items-center justify-between text-sm"
-                            data-testid={`item-checkout-${item.id}`}
+                            data-testid={`item-checkout-${item.key}`}
                           >
                             <span className="text-muted-foreground">
                               {item.quantity}x {item.name}
                             </span>
-                            <span className="font-mono" data-testid={`text-item-total-${item.id}`}>
-                              ${(item.price * item.quantity).toFixed(2)}
+                            <span className="font-mono" data-testid={`text-item-total-${item.key}`}>
+                              ${item.lineTotal.toFixed(2)}
                             </span>
                           </div>
                         ))}
@@ -426,6 +879,14 @@ export function CheckoutDialog({
                 </Button>
               </div>
 
+              {quote?.membership && (
+                <p className="mt-2 text-xs text-muted-foreground" data-testid="text-membership-summary">
+                  {quote.membership.planName} member · uses {formatHours(quote.membership.includedSeconds)} of{" "}
+                  {formatHours(quote.membership.includedSecondsLeft)} included time left
+                  {quote.membership.amount > 0 && ` · $${quote.membership.amount.toFixed(2)} off`}
+                </p>
+              )}
+
               {loyaltyExpanded && (
                 <div className="mt-3 space-y-2">
                   <Input
@@ -434,6 +895,8 @@ export function CheckoutDialog({
                     onChange={(e) => {
                       setLoyaltyPhone(e.target.value);
                       setLoyaltyPhoneError(null);
+                      // The discount was checked for the previous customer.
+                      setDiscountApplied(false);
                     }}
                     className={loyaltyPhoneError ? "border-destructive" : undefined}
                     data-testid="input-loyalty-phone"
@@ -443,50 +906,237 @@ export function CheckoutDialog({
                       {loyaltyPhoneError}
                     </p>
                   )}
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    disabled={checkDiscountLoading || discountApplied}
-                    onClick={async () => {
-                      setLoyaltyPhoneError(null);
-                      const phone = loyaltyPhone.trim();
-                      if (!phone || !hasValidPhone(phone)) {
-                        setLoyaltyPhoneError("Please enter a valid phone number");
-                        return;
-                      }
-                      setCheckDiscountLoading(true);
-                      try {
-                        const res = await fetchWithAuth<{ discountAvailable: boolean }>(
-                          `/api/customers/${encodeURIComponent(phone)}/discounts/check?secondsPlayed=${encodeURIComponent(totalSecondsPlayed)}`
-                        );
-                        if (res.discountAvailable) {
-                          setDiscountConfirmOpen(true);
-                        } else {
-                          toast({
-                            title: "No discount",
-                            description: "This customer does not qualify for a discount yet.",
-                          });
-                        }
-                      } catch (e: unknown) {
-                        const message = e instanceof Error ? e.message : "Please try again";
-                        if (message.toLowerCase().includes("phone") || message.toLowerCase().includes("invalid")) {
+                  {usesPoints ? (
+                    <PointsRewards
+                      loyalty={quote?.loyalty ?? null}
+                      rewards={rewards}
+                      rewardId={rewardId}
+                      onRewardChange={setRewardId}
+                    />
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={checkDiscountLoading || discountApplied}
+                      onClick={async () => {
+                        setLoyaltyPhoneError(null);
+                        const phone = loyaltyPhone.trim();
+                        if (!phone || !hasValidPhone(phone)) {
                           setLoyaltyPhoneError("Please enter a valid phone number");
-                        } else {
-                          toast({
-                            title: "Check failed",
-                            description: message,
-                            variant: "destructive",
-                          });
+                          return;
                         }
-                      } finally {
-                        setCheckDiscountLoading(false);
-                      }
-                    }}
-                    data-testid="button-check-discount"
-                  >
-                    {checkDiscountLoading ? "Checking..." : discountApplied ? "Discount Applied" : "Check for discount"}
-                  </Button>
+                        setCheckDiscountLoading(true);
+                        try {
+                          const res = await fetchWithAuth<{ discountAvailable: boolean }>(
+                            `/api/customers/${encodeURIComponent(phone)}/discounts/check?secondsPlayed=${encodeURIComponent(totalSecondsPlayed)}`
+                          );
+                          if (res.discountAvailable) {
+                            setDiscountConfirmOpen(true);
+                          } else {
+                            toast({
+                              title: "No discount",
+                              description: "This customer does not qualify for a discount yet.",
+                            });
+                          }
+                        } catch (e: unknown) {
+                          const message = e instanceof Error ? e.message : "Please try again";
+                          if (message.toLowerCase().includes("phone") || message.toLowerCase().includes("invalid")) {
+                            setLoyaltyPhoneError("Please enter a valid phone number");
+                          } else {
+                            toast({
+                              title: "Check failed",
+                              description: message,
+                              variant: "destructive",
+                            });
+                          }
+                        } finally {
+                          setCheckDiscountLoading(false);
+                        }
+                      }}
+                      data-testid="button-check-discount"
+                    >
+                      {checkDiscountLoading ? "Checking..." : discountApplied ? "Discount Applied" : "Check for discount"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-lg border bg-muted/30 p-4">
+              <div className="flex items-center justify-between gap-3">
+                <Label className="flex items-center gap-2 text-sm font-semibold">
+                  <Tag className="h-4 w-4 text-muted-foreground" />
+                  Discounts
+                </Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDiscountsExpanded((prev) => !prev)}
+                  data-testid="button-toggle-discounts"
+                >
+                  {discountsExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </Button>
+              </div>
+
+              {discountsExpanded && (
+                <div className="mt-3 space-y-4">
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Promo code</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="CODE"
+                        value={promoCodeInput}
+                        onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                        className="font-mono"
+                        data-testid="input-promo-code"
+                      />
+                      {promoCode ? (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setPromoCode("");
+                            setPromoCodeInput("");
+                          }}
+                          data-testid="button-remove-promo"
+                        >
+                          Remove
+                        </Button>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={!promoCodeInput.trim()}
+                          onClick={() => setPromoCode(promoCodeInput.trim())}
+                          data-testid="button-apply-promo"
+                        >
+                          Apply
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Time voucher</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="VOUCHER CODE"
+                        value={voucherCodeInput}
+                        onChange={(e) => setVoucherCodeInput(e.target.value.toUpperCase())}
+                        className="font-mono"
+                        data-testid="input-voucher-code"
+                      />
+                      {voucherCode ? (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setVoucherCode("");
+                            setVoucherCodeInput("");
+                          }}
+                          data-testid="button-remove-voucher"
+                        >
+                          Remove
+                        </Button>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={!voucherCodeInput.trim()}
+                          onClick={() => setVoucherCode(voucherCodeInput.trim())}
+                          data-testid="button-apply-voucher"
+                        >
+                          Apply
+                        </Button>
+                      )}
+                    </div>
+                    {voucherCode && quoteError ? (
+                      <p className="text-xs text-destructive" data-testid="text-voucher-error">
+                        {(quoteError as Error).message}
+                      </p>
+                    ) : (
+                      quote?.voucher && (
+                        <p className="text-xs text-muted-foreground" data-testid="text-voucher-summary">
+                          {quote.voucher.redeemedMinutes} of {quote.voucher.minutes} min
+                          {quote.voucher.stationType ? ` on ${quote.voucher.stationType}` : ""}, $
+                          {quote.voucher.amount.toFixed(2)} off the time
+                        </p>
+                      )
+                    )}
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Manual discount</Label>
+                    <div className="flex gap-2">
+                      <Select value={manualKind} onValueChange={(value) => setManualKind(value as ManualDiscountPayload["kind"])}>
+                        <SelectTrigger className="w-24" data-testid="select-manual-kind">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="percent">%</SelectItem>
+                          <SelectItem value="amount">$</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min="0"
+                        step={manualKind === "percent" ? "1" : "0.01"}
+                        placeholder={manualKind === "percent" ? "10" : "0.00"}
+                        value={manualValue}
+                        onChange={(e) => setManualValue(e.target.value)}
+                        className="w-28 font-mono"
+                        aria-label="Manual discount value"
+                        data-testid="input-manual-discount"
+                      />
+                      <Select value={manualScope} onValueChange={(value) => setManualScope(value as ManualDiscountPayload["scope"])}>
+                        <SelectTrigger data-testid="select-manual-scope">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MANUAL_DISCOUNT_SCOPES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex gap-2">
+                      <Select value={manualReason} onValueChange={(value) => setManualReason(value as DiscountReason)}>
+                        <SelectTrigger className="w-44" data-testid="select-manual-reason">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DISCOUNT_REASONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Note (optional)"
+                        value={manualNote}
+                        onChange={(e) => setManualNote(e.target.value)}
+                        maxLength={200}
+                        data-testid="input-manual-note"
+                      />
+                    </div>
+                  </div>
+
+                  {hasExtraDiscount && quoteError && (
+                    <p className="text-sm text-destructive" data-testid="text-discount-error">
+                      {(quoteError as Error).message}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -515,6 +1165,170 @@ export function CheckoutDialog({
               </div>
 
               {isSplitBill && (
+                <div className="mt-3 flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={splitMode === "even" ? "default" : "outline"}
+                    onClick={() => setSplitMode("even")}
+                    data-testid="button-split-even"
+                  >
+                    Evenly
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={splitMode === "items" ? "default" : "outline"}
+                    onClick={startItemizedSplit}
+                    data-testid="button-split-items"
+                  >
+                    By item
+                  </Button>
+                </div>
+              )}
+
+              {isItemized && (
+                <div className="mt-3 space-y-4" data-testid="section-split-items">
+                  <div className="space-y-2">
+                    {payers.map((payer, index) => {
+                      const payerQuote = payerQuotes.find((row) => row.sequence === index + 1);
+                      return (
+                        <div
+                          key={`payer-${index}`}
+                          className="flex flex-wrap items-center gap-2"
+                          data-testid={`row-split-payer-${index + 1}`}
+                        >
+                          <Input
+                            value={payer.name}
+                            onChange={(e) =>
+                              setPayers((prev) => prev.map((row, i) => (i === index ? { ...row, name: e.target.value } : row)))
+                            }
+                            maxLength={100}
+                            className="h-8 w-36"
+                            aria-label={`Payer ${index + 1} name`}
+                            data-testid={`input-payer-name-${index + 1}`}
+                          />
+                          <Select
+                            value={payer.tenderType}
+                            onValueChange={(value: TenderType) =>
+                              setPayers((prev) => prev.map((row, i) => (i === index ? { ...row, tenderType: value } : row)))
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-24" data-testid={`select-payer-tender-${index + 1}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {TENDER_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {discountApplied && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant={payer.discountApplied ? "default" : "outline"}
+                              className="h-8"
+                              onClick={() =>
+                                setPayers((prev) =>
+                                  prev.map((row, i) => (i === index ? { ...row, discountApplied: !row.discountApplied } : row)),
+                                )
+                              }
+                              data-testid={`button-payer-discount-${index + 1}`}
+                            >
+                              <Gift className="mr-1 h-3.5 w-3.5" />
+                              {storeDiscountRatePct}%
+                            </Button>
+                          )}
+                          <span className="ml-auto font-mono text-sm" data-testid={`text-payer-total-${index + 1}`}>
+                            {payerQuote ? `$${payerQuote.total.toFixed(2)}` : "—"}
+                          </span>
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={payers.length <= MIN_SPLIT_COUNT}
+                            onClick={() => removePayer(index)}
+                            aria-label={`Remove ${payer.name || `payer ${index + 1}`}`}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={payers.length >= MAX_SPLIT_COUNT}
+                      onClick={() =>
+                        setPayers((prev) => [
+                          ...prev,
+                          { name: `Person ${prev.length + 1}`, tenderType, discountApplied: false },
+                        ])
+                      }
+                      data-testid="button-add-payer"
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add payer
+                    </Button>
+                    {!validPayers && (
+                      <p className="text-xs text-destructive">Every payer needs a name.</p>
+                    )}
+                    {discountApplied && !payers.some((payer) => payer.discountApplied) && (
+                      <p className="text-xs text-muted-foreground">Choose which payers get the loyalty discount.</p>
+                    )}
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Give each line to one payer, or leave it shared to divide it equally.
+                    </p>
+                    {splitLines.map((line) => {
+                      const key = `${line.kind}:${line.lineId}`;
+                      return (
+                        <div key={key} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="flex min-w-0 items-center gap-2 text-muted-foreground">
+                            {line.kind === "segment" ? <Clock className="h-3 w-3 shrink-0" /> : <ShoppingBag className="h-3 w-3 shrink-0" />}
+                            <span className="truncate">{line.label}</span>
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-xs">${line.amount.toFixed(2)}</span>
+                            <Select
+                              value={lineAssignments[key] ?? SHARED}
+                              onValueChange={(value) => setLineAssignments((prev) => ({ ...prev, [key]: value }))}
+                            >
+                              <SelectTrigger className="h-8 w-32" data-testid={`select-line-payer-${line.lineId}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={SHARED}>Shared</SelectItem>
+                                {payers.map((payer, index) => (
+                                  <SelectItem key={`assign-${index}`} value={String(index)}>
+                                    {payer.name || `Person ${index + 1}`}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {quoteError && (
+                    <p className="text-xs text-destructive" data-testid="text-split-error">
+                      {(quoteError as Error).message}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {isSplitBill && splitMode === "even" && (
                 <div className="mt-3 space-y-3" data-testid="section-split-bill">
                   <div className="space-y-1">
                     <Label htmlFor="split-count">Number of people</Label>
@@ -543,32 +1357,205 @@ export function CheckoutDialog({
                   {isValidSplitCount && (
                     <div className="space-y-2" data-testid="section-split-breakdown">
                       <p className="text-sm text-muted-foreground">Split between {splitCount} people</p>
-                      {allSplitAmountsEqual ? (
+                      {allSplitAmountsEqual && (
                         <p className="text-sm font-medium" data-testid="text-split-each">
                           ${splitAmounts[0].toFixed(2)} each
                         </p>
-                      ) : (
-                        <div className="space-y-1">
-                          {splitAmounts.map((amount, index) => (
-                            <div
-                              key={`split-person-${index}`}
-                              className="flex items-center justify-between text-sm"
-                              data-testid={`text-split-person-${index + 1}`}
-                            >
-                              <span className="flex items-center gap-2 text-muted-foreground">
-                                <User className="h-3 w-3" />
-                                Person {index + 1}
-                              </span>
+                      )}
+                      <div className="space-y-1">
+                        {splitAmounts.map((amount, index) => (
+                          <div
+                            key={`split-person-${index}`}
+                            className="flex items-center justify-between gap-2 text-sm"
+                            data-testid={`text-split-person-${index + 1}`}
+                          >
+                            <span className="flex items-center gap-2 text-muted-foreground">
+                              <User className="h-3 w-3" />
+                              Person {index + 1}
+                            </span>
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value={splitTenders[index] ?? tenderType}
+                                onValueChange={(value: TenderType) =>
+                                  setSplitTenders((prev) => ({ ...prev, [index]: value }))
+                                }
+                              >
+                                <SelectTrigger className="h-8 w-24" data-testid={`select-split-tender-${index + 1}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {TENDER_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                               <span className="font-mono">${amount.toFixed(2)}</span>
                             </div>
-                          ))}
-                        </div>
-                      )}
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   )}
                 </div>
               )}
             </div>
+
+            <div className="rounded-lg border bg-muted/30 p-4">
+              <div className="mb-3 flex items-center gap-2">
+                <CreditCard className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-semibold">Payment Method</span>
+              </div>
+              <div className="flex gap-2">
+                {TENDER_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    variant={tenderType === option.value ? "default" : "outline"}
+                    className="flex-1"
+                    onClick={() => setTenderType(option.value)}
+                    data-testid={`button-tender-${option.value}`}
+                  >
+                    {option.value === "cash" && <Banknote className="mr-2 h-4 w-4" />}
+                    {option.value === "card" && <CreditCard className="mr-2 h-4 w-4" />}
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              {isSplitBill && splitMode === "even" && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Applies to every person unless changed in the split above.
+                </p>
+              )}
+              {!isSplitBill && (
+                <div className="mt-3 space-y-2" data-testid="section-gift-card">
+                  <Label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Gift className="h-3.5 w-3.5" />
+                    Gift card
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="XXXX-XXXX-XXXX-XXXX"
+                      value={giftCodeInput}
+                      onChange={(e) => setGiftCodeInput(e.target.value.toUpperCase())}
+                      className="font-mono"
+                      data-testid="input-gift-card-code"
+                    />
+                    {giftCode ? (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setGiftCode("");
+                          setGiftCodeInput("");
+                          setGiftAmountInput("");
+                        }}
+                        data-testid="button-remove-gift-card"
+                      >
+                        Remove
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={!giftCodeInput.trim()}
+                        onClick={() => setGiftCode(giftCodeInput.trim())}
+                        data-testid="button-apply-gift-card"
+                      >
+                        Apply
+                      </Button>
+                    )}
+                  </div>
+                  {giftCode && (
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Amount (defaults to as much as the card covers)"
+                      value={giftAmountInput}
+                      onChange={(e) => setGiftAmountInput(e.target.value)}
+                      className="font-mono"
+                      aria-label="Amount to take off the gift card"
+                      data-testid="input-gift-card-amount"
+                    />
+                  )}
+                  {giftCode && quoteError ? (
+                    <p className="text-xs text-destructive" data-testid="text-gift-card-error">
+                      {(quoteError as Error).message}
+                    </p>
+                  ) : (
+                    quote?.giftCard && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-gift-card-summary">
+                        ${quote.giftCard.amount.toFixed(2)} off the card (balance ${quote.giftCard.balance.toFixed(2)})
+                        {finalTotal + tipAmount - quote.giftCard.amount > 0.005 &&
+                          `, $${(finalTotal + tipAmount - quote.giftCard.amount).toFixed(2)} by ${tenderType}`}
+                      </p>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-lg border bg-muted/30 p-4" data-testid="section-tip">
+              <div className="mb-3 flex items-center gap-2">
+                <Banknote className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-semibold">Tip</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={tipChoice === "none" ? "default" : "outline"}
+                  onClick={() => setTipChoice("none")}
+                  data-testid="button-tip-none"
+                >
+                  No tip
+                </Button>
+                {TIP_PRESETS.map((rate) => (
+                  <Button
+                    key={rate}
+                    type="button"
+                    size="sm"
+                    variant={tipChoice === rate ? "default" : "outline"}
+                    onClick={() => setTipChoice(rate)}
+                    data-testid={`button-tip-${Math.round(rate * 100)}`}
+                  >
+                    {Math.round(rate * 100)}%
+                  </Button>
+                ))}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={tipChoice === "custom" ? "default" : "outline"}
+                  onClick={() => setTipChoice("custom")}
+                  data-testid="button-tip-custom"
+                >
+                  Custom
+                </Button>
+              </div>
+              {tipChoice === "custom" && (
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={customTip}
+                  onChange={(e) => setCustomTip(e.target.value)}
+                  className="mt-2 w-32 font-mono"
+                  aria-label="Custom tip amount"
+                  data-testid="input-tip-custom"
+                />
+              )}
+              {tipAmount > 0 && (
+                <p className="mt-2 text-xs text-muted-foreground" data-testid="text-tip-amount">
+                  ${tipAmount.toFixed(2)} tip on top of the ${finalTotal.toFixed(2)} bill
+                  {(quote?.payments.length ?? 0) > 1 && ", shared across payers by what each pays"}
+                </p>
+              )}
+            </div>
             </div>
           </div>
 
@@ -579,14 +1566,40 @@ export function CheckoutDialog({
                   <DollarSign className="h-5 w-5 text-primary" />
                   <span className="text-lg font-semibold">Total Amount</span>
                 </div>
-                {discountApplied && appliedDiscountRate != null && (
-                  <span className="text-xs text-muted-foreground">
-                    {Math.round(appliedDiscountRate * 100)}% loyalty discount applied
+                {quote && quote.prepaidCredit > 0 && (
+                  <span className="text-xs text-muted-foreground" data-testid="text-prepaid-credit">
+                    Prepaid credit (-${quote.prepaidCredit.toFixed(2)})
                   </span>
                 )}
+                {taxLines.length > 0 && (
+                  <div className="text-xs text-muted-foreground font-mono" data-testid="list-tax-lines">
+                    <div>Pre-tax ${preTaxDue.toFixed(2)}</div>
+                    {taxLines.map((line) => (
+                      <div key={line.sequence}>
+                        {quote?.taxInclusive ? "incl. " : "+ "}
+                        {line.name} {formatTaxRate(line.rate)} ${line.taxAmount.toFixed(2)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {tipAmount > 0 && (
+                  <span className="text-xs text-muted-foreground">Includes ${tipAmount.toFixed(2)} tip</span>
+                )}
+                {quote?.discountLines
+                  .filter((line) => line.amount > 0)
+                  .map((line) => (
+                    <span key={line.sequence} className="text-xs text-muted-foreground" data-testid={`text-discount-line-${line.sequence}`}>
+                      {line.source === "loyalty"
+                        ? `${Math.round(quote.discountRate * 100)}% loyalty discount`
+                        : line.code
+                          ? `${line.name} (${line.code})`
+                          : line.name}{" "}
+                      (-${line.amount.toFixed(2)})
+                    </span>
+                  ))}
               </div>
               <span className="text-3xl font-mono font-bold text-primary" data-testid="text-grand-total">
-                ${finalTotal.toFixed(2)}
+                ${(finalTotal + tipAmount).toFixed(2)}
               </span>
             </div>
 
@@ -595,7 +1608,7 @@ export function CheckoutDialog({
             <Button
               className="w-full"
               size="lg"
-              disabled={checkoutLoading}
+              disabled={checkoutLoading || !quote || quoteFetching || (isItemized && (!payerPayloads || !!quoteError)) || (hasExtraDiscount && !!quoteError) || (!!giftCardCode && !!quoteError) || (tipChoice === "custom" && !isValidCustomTip)}
               onClick={async () => {
                 setLoyaltyPhoneError(null);
                 const phone = loyaltyPhone.trim();
@@ -606,29 +1619,13 @@ export function CheckoutDialog({
 
                 setCheckoutLoading(true);
                 try {
-                  if (phone && !discountApplied) {
-                    await postWithAuth(`/api/customers/${encodeURIComponent(phone)}/seconds`, {
-                      seconds: totalSecondsPlayed,
-                    });
-                  }
-                  onConfirmCheckout({
-                    timeCharge: recalculatedTimeCharge,
-                    grandTotal: finalTotal,
-                    pricingTier: selectedPricingTier,
-                    currentSegmentPricingTier: selectedPricingTier,
-                    segmentTierOverrides: tierOverrides,
+                  // The server credits the played seconds to this customer when it closes the session.
+                  await onConfirmCheckout({
+                    timeCharge,
+                    grandTotal: finalTotal + tipAmount,
+                    ...quoteBody,
+                    loyaltyPhone: phone || undefined,
                   });
-                } catch (e: unknown) {
-                  const message = e instanceof Error ? e.message : "Please try again";
-                  if (message.toLowerCase().includes("phone") || message.toLowerCase().includes("invalid")) {
-                    setLoyaltyPhoneError("Please enter a valid phone number");
-                  } else {
-                    toast({
-                      title: "Checkout failed",
-                      description: message,
-                      variant: "destructive",
-                    });
-                  }
                 } finally {
                   setCheckoutLoading(false);
                 }
@@ -658,27 +1655,14 @@ export function CheckoutDialog({
               No
             </Button>
             <Button
-              onClick={async () => {
-                const phone = loyaltyPhone.trim();
-                if (!phone) return;
-                try {
-                  const res = await postWithAuth<{ customer: unknown; discountRate: string }>(
-                    `/api/customers/${encodeURIComponent(phone)}/discounts/apply`,
-                    { secondsPlayed: totalSecondsPlayed }
-                  );
-                  const rate = parseFloat(res.discountRate);
-                  setAppliedDiscountRate(rate);
-                  setDiscountApplied(true);
-                  setDiscountConfirmOpen(false);
-                  const pct = Math.round(rate * 100);
-                  toast({ title: "Discount applied", description: `${pct}% discount has been applied to the total.` });
-                } catch (e: unknown) {
-                  toast({
-                    title: "Failed to apply discount",
-                    description: e instanceof Error ? e.message : "Please try again",
-                    variant: "destructive",
-                  });
-                }
+              onClick={() => {
+                // The server redeems the discount from the customer's balance when the checkout completes.
+                setDiscountApplied(true);
+                setDiscountConfirmOpen(false);
+                toast({
+                  title: "Discount applied",
+                  description: `${storeDiscountRatePct}% discount has been applied to the total.`,
+                });
               }}
               data-testid="button-discount-yes"
             >
@@ -690,3 +1674,63 @@ export function CheckoutDialog({
     </Dialog>
   );
 }
+
+/** Points program: the customer's balance and tier, what this checkout earns, and rewards to spend. */
+function PointsRewards({
+  loyalty,
+  rewards,
+  rewardId,
+  onRewardChange,
+}: {
+  loyalty: QuoteLoyalty | null;
+  rewards: LoyaltyReward[];
+  rewardId: string | null;
+  onRewardChange: (rewardId: string | null) => void;
+}) {
+  if (!loyalty) {
+    return <p className="text-xs text-muted-foreground">Enter the customer's phone to see their points.</p>;
+  }
+  if (!loyalty.customerFound) {
+    return (
+      <p className="text-xs text-muted-foreground" data-testid="text-points-new-customer">
+        New customer · earns {loyalty.pointsEarned} pts on this checkout
+      </p>
+    );
+  }
+
+  const selected = rewards.find((reward) => reward.id === rewardId);
+  // The quoted balance already has the selected reward taken off.
+  const available = loyalty.pointsBalance + (selected?.pointsCost ?? 0);
+  const offered = rewards.filter((reward) => reward.isEnabled);
+
+  return (
+    <div className="space-y-2" data-testid="section-points">
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {available} pts
+          {loyalty.tierName && <span className="ml-2 text-xs text-muted-foreground">{loyalty.tierName}</span>}
+        </span>
+        <span className="text-xs text-muted-foreground" data-testid="text-points-earned">
+          +{loyalty.pointsEarned} pts on this checkout
+        </span>
+      </div>
+      {offered.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {offered.map((reward) => (
+            <Button
+              key={reward.id}
+              type="button"
+              size="sm"
+              variant={reward.id === rewardId ? "default" : "outline"}
+              disabled={reward.id !== rewardId && reward.pointsCost > available}
+              onClick={() => onRewardChange(reward.id === rewardId ? null : reward.id)}
+              data-testid={`button-reward-${reward.id}`}
+            >
+              {reward.name} · {reward.pointsCost} pts
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
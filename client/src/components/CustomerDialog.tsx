@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { Mail, Phone, Tag, User } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface Customer {
+  id: string;
+  phoneNumber: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  notes: string | null;
+  tags: string[];
+  totalSeconds: number;
+  pointsBalance: number;
+  isDiscountAvailable: boolean;
+  createdAt: string;
+}
+
+export interface CustomerPayload {
+  phoneNumber: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  notes: string | null;
+  tags: string[];
+}
+
+interface CustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this customer; omit to create one. */
+  customer?: Customer | null;
+  saving?: boolean;
+  onSave: (payload: CustomerPayload) => void;
+}
+
+export function customerName(customer: Pick<Customer, "firstName" | "lastName" | "phoneNumber">): string {
+  return [customer.firstName, customer.lastName].filter(Boolean).join(" ") || customer.phoneNumber;
+}
+
+function parseTags(value: string): string[] {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function CustomerDialog({ open, onOpenChange, customer, saving = false, onSave }: CustomerDialogProps) {
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [email, setEmail] = useState("");
+  const [tags, setTags] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setFirstName(customer?.firstName ?? "");
+    setLastName(customer?.lastName ?? "");
+    setPhoneNumber(customer?.phoneNumber ?? "");
+    setEmail(customer?.email ?? "");
+    setTags(customer?.tags.join(", ") ?? "");
+    setNotes(customer?.notes ?? "");
+  }, [open, customer]);
+
+  const canSave = phoneNumber.replace(/\D/g, "").length >= 10;
+
+  const handleSave = () => {
+    onSave({
+      phoneNumber: phoneNumber.trim(),
+      firstName: firstName.trim() || null,
+      lastName: lastName.trim() || null,
+      email: email.trim() || null,
+      notes: notes.trim() || null,
+      tags: parseTags(tags),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-customer">
+        <DialogHeader>
+          <DialogTitle>{customer ? "Edit Customer" : "New Customer"}</DialogTitle>
+          <DialogDescription>Loyalty time and visits are tracked by phone number.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="customer-first-name" className="flex items-center gap-2">
+                <User className="w-4 h-4" />
+                First name
+              </Label>
+              <Input
+                id="customer-first-name"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                maxLength={100}
+                data-testid="input-customer-first-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customer-last-name">Last name</Label>
+              <Input
+                id="customer-last-name"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                maxLength={100}
+                data-testid="input-customer-last-name"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="customer-phone" className="flex items-center gap-2">
+                <Phone className="w-4 h-4" />
+                Phone
+              </Label>
+              <Input
+                id="customer-phone"
+                type="tel"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                maxLength={32}
+                data-testid="input-customer-phone"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customer-email" className="flex items-center gap-2">
+                <Mail className="w-4 h-4" />
+                Email
+              </Label>
+              <Input
+                id="customer-email"
+                type="email"
+                placeholder="Optional"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                maxLength={200}
+                data-testid="input-customer-email"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-tags" className="flex items-center gap-2">
+              <Tag className="w-4 h-4" />
+              Tags
+            </Label>
+            <Input
+              id="customer-tags"
+              placeholder="Comma separated, e.g. league, regular"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              data-testid="input-customer-tags"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-notes">Notes</Label>
+            <textarea
+              id="customer-notes"
+              placeholder="Optional"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              data-testid="input-customer-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving} data-testid="button-save-customer">
+            {customer ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Merge } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { fetchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { customerName, type Customer } from "@/components/CustomerDialog";
+
+interface DuplicateGroup {
+  reason: "phone" | "name";
+  customers: Customer[];
+}
+
+const REASON_LABELS: Record<DuplicateGroup["reason"], string> = {
+  phone: "Same phone",
+  name: "Similar name",
+};
+
+function groupKey(group: DuplicateGroup): string {
+  return group.customers.map((customer) => customer.id).join(",");
+}
+
+function oldest(customers: Customer[]): Customer {
+  return customers.reduce((a, b) => (a.createdAt <= b.createdAt ? a : b));
+}
+
+interface DuplicateCustomersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Likely duplicate customers, grouped. Merging keeps the chosen customer's phone and folds the others'
+ * loyalty time, points and sessions into it.
+ */
+export function DuplicateCustomersDialog({ open, onOpenChange }: DuplicateCustomersDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [keep, setKeep] = useState<Record<string, string>>({});
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateGroup[]>({
+    queryKey: ["customers", "duplicates"],
+    queryFn: () => fetchWithAuth<DuplicateGroup[]>("/api/customers/duplicates"),
+    enabled: open,
+  });
+
+  async function handleMerge(group: DuplicateGroup) {
+    const key = groupKey(group);
+    const survivorId = keep[key] ?? oldest(group.customers).id;
+    const sourceIds = group.customers.map((customer) => customer.id).filter((id) => id !== survivorId);
+    if (!window.confirm(`Merge ${sourceIds.length} customer(s) into the one kept? This can't be undone.`)) return;
+    setMergingKey(key);
+    try {
+      const merged = await postWithAuth<Customer>(`/api/customers/${survivorId}/merge`, { sourceIds });
+      toast({ title: "Customers merged", description: customerName(merged) });
+      await qc.invalidateQueries({ queryKey: ["customers"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't merge customers", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setMergingKey(null);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-duplicate-customers">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>Pick the customer to keep in each group, then merge the rest into it.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No likely duplicates found.</p>
+        ) : (
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto py-2">
+            {groups.map((group) => {
+              const key = groupKey(group);
+              const survivorId = keep[key] ?? oldest(group.customers).id;
+              return (
+                <div key={key} className="space-y-2 rounded-md border p-3" data-testid={`duplicate-group-${key}`}>
+                  <Badge variant="outline">{REASON_LABELS[group.reason]}</Badge>
+                  {group.customers.map((customer) => (
+                    <div key={customer.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{customerName(customer)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {customer.phoneNumber} · {(customer.totalSeconds / 3600).toFixed(1)} hrs
+                          {customer.pointsBalance > 0 ? ` · ${customer.pointsBalance} pts` : ""}
+                        </div>
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={survivorId === customer.id ? "default" : "outline"}
+                        onClick={() => setKeep((prev) => ({ ...prev, [key]: customer.id }))}
+                      >
+                        Keep
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    disabled={mergingKey !== null}
+                    onClick={() => handleMerge(group)}
+                    data-testid={`button-merge-${key}`}
+                  >
+                    <Merge className="w-4 h-4 mr-1.5" />
+                    Merge into kept customer
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Clock, ShoppingCart } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetchWithAuth } from "@/lib/api";
+import { fromTierValue, toTierValue, type StationRateOption, type TierValue } from "@/lib/tiers";
+
+type PricingTier = "solo" | "group";
+
+export interface EditableSegment {
+  id: string;
+  sequence: number;
+  stationId: string;
+  stationName: string;
+  startedAt: string;
+  endedAt: string;
+  pricingTier: PricingTier;
+  stationRateId: string | null;
+  rateHourlyApplied: number;
+}
+
+export interface EditableItem {
+  id: string;
+  nameSnapshot: string;
+  priceSnapshot: number;
+  qty: number;
+}
+
+export interface EditClosedSessionPayload {
+  reason: string;
+  segments?: Array<SegmentChange>;
+  items?: Array<{ id: string; qty: number }>;
+}
+
+interface EditClosedSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stationName: string;
+  segments: EditableSegment[];
+  items: EditableItem[];
+  saving?: boolean;
+  onSave: (payload: EditClosedSessionPayload) => void;
+}
+
+type SegmentChange = {
+  id: string;
+  startedAt?: string;
+  endedAt?: string;
+  pricingTier?: PricingTier;
+  stationRateId?: string | null;
+};
+
+type SegmentDraft = { startedAt: string; endedAt: string; tier: TierValue };
+
+/** ISO timestamp to the value a datetime-local input expects, in local time. */
+function toLocalInput(value: string): string {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromLocalInput(value: string): string {
+  return new Date(value).toISOString();
+}
+
+export function EditClosedSessionDialog({
+  open,
+  onOpenChange,
+  stationName,
+  segments,
+  items,
+  saving = false,
+  onSave,
+}: EditClosedSessionDialogProps) {
+  const [segmentDrafts, setSegmentDrafts] = useState<Record<string, SegmentDraft>>({});
+  const [itemDrafts, setItemDrafts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const { data: stations = [] } = useQuery<Array<{ id: string; rates: StationRateOption[] }>>({
+    queryKey: ["stations"],
+    queryFn: () => fetchWithAuth<Array<{ id: string; rates: StationRateOption[] }>>("/api/stations"),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setSegmentDrafts(
+      Object.fromEntries(
+        segments.map((segment) => [
+          segment.id,
+          {
+            startedAt: toLocalInput(segment.startedAt),
+            endedAt: toLocalInput(segment.endedAt),
+            tier: toTierValue(segment.pricingTier, segment.stationRateId),
+          },
+        ]),
+      ),
+    );
+    setItemDrafts(Object.fromEntries(items.map((item) => [item.id, String(item.qty)])));
+    setReason("");
+  }, [open, segments, items]);
+
+  const updateSegment = (id: string, patch: Partial<SegmentDraft>) =>
+    setSegmentDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const segmentChanges = segments.flatMap((segment) => {
+    const draft = segmentDrafts[segment.id];
+    if (!draft) return [];
+    const change: SegmentChange = { id: segment.id };
+    if (draft.startedAt !== toLocalInput(segment.startedAt)) change.startedAt = fromLocalInput(draft.startedAt);
+    if (draft.endedAt !== toLocalInput(segment.endedAt)) change.endedAt = fromLocalInput(draft.endedAt);
+    if (draft.tier !== toTierValue(segment.pricingTier, segment.stationRateId)) {
+      const tier = fromTierValue(draft.tier);
+      change.pricingTier = tier.pricingTier;
+      change.stationRateId = tier.stationRateId;
+    }
+    return Object.keys(change).length > 1 ? [change] : [];
+  });
+
+  const itemChanges = items.flatMap((item) => {
+    const qty = Number(itemDrafts[item.id]);
+    return Number.isInteger(qty) && qty !== item.qty ? [{ id: item.id, qty }] : [];
+  });
+
+  const invalidSegment = segments.some((segment) => {
+    const draft = segmentDrafts[segment.id];
+    return !!draft && (!draft.startedAt || !draft.endedAt || draft.endedAt <= draft.startedAt);
+  });
+  const invalidItem = items.some((item) => {
+    const qty = Number(itemDrafts[item.id]);
+    return !Number.isInteger(qty) || qty < 0;
+  });
+  const canSave =
+    reason.trim().length > 0 &&
+    !invalidSegment &&
+    !invalidItem &&
+    (segmentChanges.length > 0 || itemChanges.length > 0);
+
+  const handleSave = () => {
+    onSave({
+      reason: reason.trim(),
+      segments: segmentChanges.length > 0 ? segmentChanges : undefined,
+      items: itemChanges.length > 0 ? itemChanges : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-edit-closed-session">
+        <DialogHeader>
+          <DialogTitle>Edit Session — {stationName}</DialogTitle>
+          <DialogDescription>
+            Charges are recomputed at the rates recorded for each segment. The change is logged with your reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Time segments
+            </Label>
+            {segments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No time segments were recorded for this session.</p>
+            ) : (
+              segments.map((segment) => {
+                const draft = segmentDrafts[segment.id];
+                if (!draft) return null;
+                const invalid = !!draft.startedAt && !!draft.endedAt && draft.endedAt <= draft.startedAt;
+                return (
+                  <div key={segment.id} className="rounded-md border bg-muted/20 p-3 space-y-2">
+                    <div className="text-sm font-medium">
+                      {segment.sequence}. {segment.stationName}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground font-mono">
+                        ${segment.rateHourlyApplied.toFixed(2)}/hr
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                      <Input
+                        type="datetime-local"
+                        value={draft.startedAt}
+                        onChange={(e) => updateSegment(segment.id, { startedAt: e.target.value })}
+                        className="font-mono text-xs"
+                        aria-label="Started at"
+                        data-testid={`input-segment-start-${segment.id}`}
+                      />
+                      <Input
+                        type="datetime-local"
+                        value={draft.endedAt}
+                        onChange={(e) => updateSegment(segment.id, { endedAt: e.target.value })}
+                        className={`font-mono text-xs ${invalid ? "border-destructive" : ""}`}
+                        aria-label="Ended at"
+                        data-testid={`input-segment-end-${segment.id}`}
+                      />
+                      <Select
+                        value={draft.tier}
+                        onValueChange={(value) => updateSegment(segment.id, { tier: value })}
+                      >
+                        <SelectTrigger className="w-32" data-testid={`select-segment-tier-${segment.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="solo">Solo</SelectItem>
+                          <SelectItem value="group">Group</SelectItem>
+                          {(stations.find((st) => st.id === segment.stationId)?.rates ?? [])
+                            .filter((option) => option.isEnabled || option.id === segment.stationRateId)
+                            .map((option) => (
+                              <SelectItem key={option.id} value={option.id}>
+                                {option.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {invalid && <p className="text-xs text-destructive">The segment must end after it starts.</p>}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <ShoppingCart className="w-4 h-4" />
+              Items
+            </Label>
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No items were added to this session.</p>
+            ) : (
+              items.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between gap-3 rounded-md border bg-muted/20 px-3 py-2 text-sm"
+                >
+                  <span className="font-medium">{item.nameSnapshot}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs text-muted-foreground">${item.priceSnapshot.toFixed(2)} ×</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="999"
+                      value={itemDrafts[item.id] ?? ""}
+                      onChange={(e) => setItemDrafts((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                      className="w-20 h-8 font-mono"
+                      aria-label={`${item.nameSnapshot} quantity`}
+                      data-testid={`input-item-qty-${item.id}`}
+                    />
+                  </div>
+                </div>
+              ))
+            )}
+            {items.length > 0 && <p className="text-xs text-muted-foreground">Set a quantity to 0 to remove the line.</p>}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-session-reason">Reason</Label>
+            <Input
+              id="edit-session-reason"
+              placeholder="e.g. Table was left open overnight"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              data-testid="input-edit-session-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving} data-testid="button-save-session-edit">
+            Save changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
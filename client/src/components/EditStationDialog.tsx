@@ -8,15 +8,23 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { StationRatesEditor } from "@/components/StationRatesEditor";
+import {
+    DEFAULT_BILLING_RULE,
+    type BillingRoundingMode,
+    type BillingRule,
+    type PlayerBillingMode,
+} from "@shared/billing";
 
 type StationType = "pool" | "gaming" | "foosball";
 
-export interface EditStationDialogStation {
+export interface EditStationDialogStation extends Partial<BillingRule> {
     id: string;
     name: string;
     stationType: StationType;
     rateSoloHourly: string | number;
     rateGroupHourly: string | number;
+    playerBillingMode?: PlayerBillingMode;
     isEnabled: boolean;
 }
 
@@ -31,7 +39,8 @@ interface EditStationDialogProps {
         rateSoloHourly: string;
         rateGroupHourly: string;
         isEnabled: boolean;
-    }) => Promise<void> | void;
+        playerBillingMode: PlayerBillingMode;
+    } & BillingRule) => Promise<void> | void;
 }
 
 function toNumber(v: string | number | null | undefined): number {
@@ -39,6 +48,11 @@ function toNumber(v: string | number | null | undefined): number {
     return typeof v === "number" ? v : Number(v);
 }
 
+function isWholeMinutes(value: string, max: number): boolean {
+    const n = Number(value);
+    return value.trim() !== "" && Number.isInteger(n) && n >= 0 && n <= max;
+}
+
 export function EditStationDialog({
 open,
 onOpenChange,
@@ -50,6 +64,11 @@ const [stationType, setStationType] = useState<StationType>("pool");
 const [rateSoloHourly, setRateSoloHourly] = useState("0.00");
 const [rateGroupHourly, setRateGroupHourly] = useState("0.00");
 const [isEnabled, setIsEnabled] = useState(true);
+const [incrementMinutes, setIncrementMinutes] = useState("0");
+const [roundingMode, setRoundingMode] = useState<BillingRoundingMode>("up");
+const [minimumMinutes, setMinimumMinutes] = useState("0");
+const [graceMinutes, setGraceMinutes] = useState("0");
+const [playerBillingMode, setPlayerBillingMode] = useState<PlayerBillingMode>("headcount");
 const [saving, setSaving] = useState(false);
 
 
@@ -61,6 +80,11 @@ useEffect(() => {
     setRateSoloHourly(toNumber(station.rateSoloHourly).toFixed(2));
     setRateGroupHourly(toNumber(station.rateGroupHourly).toFixed(2));
     setIsEnabled(!!station.isEnabled);
+    setIncrementMinutes(String(station.billingIncrementMinutes ?? DEFAULT_BILLING_RULE.billingIncrementMinutes));
+    setRoundingMode(station.billingRoundingMode ?? DEFAULT_BILLING_RULE.billingRoundingMode);
+    setMinimumMinutes(String(station.minimumBillableMinutes ?? DEFAULT_BILLING_RULE.minimumBillableMinutes));
+    setGraceMinutes(String(station.graceMinutes ?? DEFAULT_BILLING_RULE.graceMinutes));
+    setPlayerBillingMode(station.playerBillingMode ?? "headcount");
 }, [station]);
 
 const canSave = useMemo(() => {
@@ -73,9 +97,12 @@ const canSave = useMemo(() => {
     if (!Number.isFinite(solo) || solo < 0) return false;
     if (!Number.isFinite(group) || group < 0) return false;
 
+    if (!isWholeMinutes(incrementMinutes, 240)) return false;
+    if (!isWholeMinutes(minimumMinutes, 1440)) return false;
+    if (!isWholeMinutes(graceMinutes, 240)) return false;
 
     return true;
-}, [name, rateSoloHourly, rateGroupHourly]);
+}, [name, rateSoloHourly, rateGroupHourly, incrementMinutes, minimumMinutes, graceMinutes]);
 
 async function handleSave() {
     if (!station) return;
@@ -87,6 +114,7 @@ async function handleSave() {
     if (!trimmed) return;
     if (!Number.isFinite(solo) || solo < 0) return;
     if (!Number.isFinite(group) || group < 0) return;
+    if (!canSave) return;
 
     try {
     setSaving(true);
@@ -97,6 +125,11 @@ async function handleSave() {
         rateSoloHourly: solo.toFixed(2),
         rateGroupHourly: group.toFixed(2),
         isEnabled,
+        billingIncrementMinutes: Number(incrementMinutes),
+        billingRoundingMode: roundingMode,
+        minimumBillableMinutes: Number(minimumMinutes),
+        graceMinutes: Number(graceMinutes),
+        playerBillingMode,
     });
     onOpenChange(false);
     } finally {
@@ -180,6 +213,96 @@ return (
                 </div>
             </div>
 
+            <StationRatesEditor stationId={station.id} />
+
+            <div className="space-y-3 border rounded-md p-3">
+            <div>
+                <div className="text-sm font-medium">Billing</div>
+                <div className="text-xs text-muted-foreground">
+                Increment 0 bills exact time. Play within the grace period is free.
+                </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                <label className="text-xs font-medium">Increment (min)</label>
+                <Input
+                    inputMode="numeric"
+                    value={incrementMinutes}
+                    onChange={(e) => setIncrementMinutes(e.target.value)}
+                    data-testid="input-billing-increment"
+                />
+                </div>
+                <div className="space-y-1">
+                <label className="text-xs font-medium">Minimum (min)</label>
+                <Input
+                    inputMode="numeric"
+                    value={minimumMinutes}
+                    onChange={(e) => setMinimumMinutes(e.target.value)}
+                    data-testid="input-billing-minimum"
+                />
+                </div>
+                <div className="space-y-1">
+                <label className="text-xs font-medium">Grace (min)</label>
+                <Input
+                    inputMode="numeric"
+                    value={graceMinutes}
+                    onChange={(e) => setGraceMinutes(e.target.value)}
+                    data-testid="input-billing-grace"
+                />
+                </div>
+            </div>
+            <div className="flex gap-2">
+                <Button
+                type="button"
+                variant={roundingMode === "up" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setRoundingMode("up")}
+                data-testid="button-rounding-up"
+                >
+                Round up
+                </Button>
+                <Button
+                type="button"
+                variant={roundingMode === "nearest" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setRoundingMode("nearest")}
+                data-testid="button-rounding-nearest"
+                >
+                Round to nearest
+                </Button>
+            </div>
+            </div>
+
+            <div className="space-y-2 border rounded-md p-3">
+            <div>
+                <div className="text-sm font-medium">Player billing</div>
+                <div className="text-xs text-muted-foreground">
+                {playerBillingMode === "headcount"
+                    ? "Switches between solo and group as players join and leave."
+                    : "Charges the hourly rate once for every player at the table."}
+                </div>
+            </div>
+            <div className="flex gap-2">
+                <Button
+                type="button"
+                variant={playerBillingMode === "headcount" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setPlayerBillingMode("headcount")}
+                data-testid="button-player-billing-headcount"
+                >
+                By headcount
+                </Button>
+                <Button
+                type="button"
+                variant={playerBillingMode === "per_player" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setPlayerBillingMode("per_player")}
+                data-testid="button-player-billing-per-player"
+                >
+                Per player
+                </Button>
+            </div>
+            </div>
 
             <div className="flex items-center justify-between border rounded-md p-3 gap-3">
             <div>
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  GIFT_CARD_TENDERS,
+  formatGiftCardCode,
+  type GiftCard,
+  type GiftCardTender,
+} from "@/components/IssueGiftCardDialog";
+
+export type GiftCardBalanceMode = "reload" | "adjust";
+
+interface GiftCardBalanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: GiftCardBalanceMode;
+  card: GiftCard;
+}
+
+const COPY: Record<GiftCardBalanceMode, { title: string; description: string; confirm: string }> = {
+  reload: {
+    title: "Reload Gift Card",
+    description: "Add money the customer paid for onto the card.",
+    confirm: "Reload",
+  },
+  adjust: {
+    title: "Correct Balance",
+    description: "Add or, with a negative amount, take money off the card. The reason is kept in its history.",
+    confirm: "Save",
+  },
+};
+
+/** Reload a card, or correct its balance by hand. */
+export function GiftCardBalanceDialog({ open, onOpenChange, mode, card }: GiftCardBalanceDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [tenderType, setTenderType] = useState<GiftCardTender>("card");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount("");
+    setTenderType("card");
+    setNote("");
+  }, [open]);
+
+  const parsedAmount = Math.round(Number(amount) * 100) / 100;
+  const validAmount =
+    amount.trim() !== "" &&
+    Number.isFinite(parsedAmount) &&
+    (mode === "reload" ? parsedAmount > 0 : parsedAmount !== 0) &&
+    Math.abs(parsedAmount) <= 10000;
+  const canSave = validAmount && (mode === "reload" || note.trim().length > 0);
+  const copy = COPY[mode];
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await postWithAuth(
+        `/api/gift-cards/${card.id}/${mode}`,
+        mode === "reload"
+          ? { amount: parsedAmount, tenderType, note: note.trim() || undefined }
+          : { amount: parsedAmount, note: note.trim() },
+      );
+      await qc.invalidateQueries({ queryKey: ["gift-cards"] });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Couldn't update gift card", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" data-testid={`dialog-gift-card-${mode}`}>
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>
+            {formatGiftCardCode(card.code)} · balance ${Number(card.balance).toFixed(2)}. {copy.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="gift-card-balance-amount">Amount</Label>
+              <Input
+                id="gift-card-balance-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="font-mono"
+                data-testid="input-gift-card-balance-amount"
+              />
+            </div>
+            {mode === "reload" && (
+              <div className="space-y-2">
+                <Label>Paid by</Label>
+                <Select value={tenderType} onValueChange={(value) => setTenderType(value as GiftCardTender)}>
+                  <SelectTrigger data-testid="select-gift-card-reload-tender">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GIFT_CARD_TENDERS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gift-card-balance-note">{mode === "reload" ? "Note" : "Reason"}</Label>
+            <Input
+              id="gift-card-balance-note"
+              placeholder={mode === "reload" ? "Optional" : "Required"}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={200}
+              data-testid="input-gift-card-balance-note"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving} data-testid="button-confirm-gift-card-balance">
+            {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            {copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
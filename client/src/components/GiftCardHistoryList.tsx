@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchWithAuth } from "@/lib/api";
+
+export type GiftCardTransactionKind = "issue" | "reload" | "redeem" | "refund" | "adjust";
+
+interface GiftCardTransaction {
+  id: string;
+  kind: GiftCardTransactionKind;
+  amount: string;
+  balanceAfter: string;
+  tenderType: "cash" | "card" | "other" | null;
+  sessionId: string | null;
+  actorEmail: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export const GIFT_CARD_KIND_LABELS: Record<GiftCardTransactionKind, string> = {
+  issue: "Issued",
+  reload: "Reloaded",
+  redeem: "Spent",
+  refund: "Refunded",
+  adjust: "Corrected",
+};
+
+function formatAmount(amount: number): string {
+  return `${amount < 0 ? "−" : "+"}$${Math.abs(amount).toFixed(2)}`;
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** Every change to a gift card's balance, newest first. */
+export function GiftCardHistoryList({ giftCardId }: { giftCardId: string }) {
+  const { data: transactions = [], isLoading } = useQuery<GiftCardTransaction[]>({
+    queryKey: ["gift-cards", giftCardId, "transactions"],
+    queryFn: () => fetchWithAuth<GiftCardTransaction[]>(`/api/gift-cards/${giftCardId}/transactions`),
+  });
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading history…</p>;
+  if (transactions.length === 0) return <p className="text-xs text-muted-foreground">No activity yet.</p>;
+
+  return (
+    <div className="max-h-60 space-y-2 overflow-y-auto" data-testid={`list-gift-card-history-${giftCardId}`}>
+      {transactions.map((transaction) => {
+        const amount = Number(transaction.amount);
+        return (
+          <div key={transaction.id} className="flex items-start justify-between gap-3 text-xs">
+            <div>
+              <div className="font-medium">
+                {GIFT_CARD_KIND_LABELS[transaction.kind]}
+                {transaction.tenderType && <span className="text-muted-foreground"> · paid by {transaction.tenderType}</span>}
+              </div>
+              <div className="text-muted-foreground">{formatDateTime(transaction.createdAt)}</div>
+              {(transaction.note || transaction.actorEmail) && (
+                <div className="text-muted-foreground">
+                  {[transaction.note, transaction.actorEmail].filter(Boolean).join(" · ")}
+                </div>
+              )}
+            </div>
+            <div className="text-right font-mono">
+              <div className={amount < 0 ? "text-destructive" : ""}>{formatAmount(amount)}</div>
+              <div className="text-muted-foreground">${Number(transaction.balanceAfter).toFixed(2)}</div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
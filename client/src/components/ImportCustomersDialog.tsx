@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileUp, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface ImportRow {
+  line: number;
+  firstName: string | null;
+  lastName: string | null;
+  phoneNumber: string;
+  seconds: number | null;
+  error: string | null;
+  action: "create" | "update" | null;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  rows: ImportRow[];
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+interface ImportCustomersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Upload a spreadsheet of customers as CSV. The file is previewed first, so rows that can't be
+ * imported are listed before anything is saved.
+ */
+export function ImportCustomersDialog({ open, onOpenChange }: ImportCustomersDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCsv("");
+    setFileName("");
+    setPreview(null);
+  }, [open]);
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    setPreview(null);
+  }
+
+  async function run(dryRun: boolean) {
+    setBusy(true);
+    try {
+      const result = await postWithAuth<ImportResult>("/api/customers/import", { csv, dryRun });
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Customers imported",
+        description: `${result.created} created, ${result.updated} updated${result.skipped ? `, ${result.skipped} skipped` : ""}.`,
+      });
+      await qc.invalidateQueries({ queryKey: ["customers"] });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Couldn't import customers", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const importable = preview ? preview.created + preview.updated : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-import-customers">
+        <DialogHeader>
+          <DialogTitle>Import Customers</DialogTitle>
+          <DialogDescription>
+            A CSV with a header row naming first name, last name, phone and, optionally, existing hours. Customers
+            already on file are matched by phone and updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            data-testid="input-import-file"
+          />
+
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline">{preview.created} new</Badge>
+                <Badge variant="outline">{preview.updated} to update</Badge>
+                {preview.skipped > 0 && <Badge variant="destructive">{preview.skipped} with errors</Badge>}
+              </div>
+              <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2" data-testid="list-import-preview">
+                {preview.rows.map((row) => (
+                  <div key={row.line} className="flex items-start justify-between gap-3 text-xs">
+                    <div className="min-w-0">
+                      <span className="font-mono text-muted-foreground mr-2">#{row.line}</span>
+                      <span className="font-medium">
+                        {[row.firstName, row.lastName].filter(Boolean).join(" ") || "—"}
+                      </span>
+                      <span className="text-muted-foreground"> · {row.phoneNumber || "no phone"}</span>
+                      {row.error && <div className="text-destructive">{row.error}</div>}
+                    </div>
+                    <div className="shrink-0 text-right font-mono">
+                      {row.action === "create" ? "New" : row.action === "update" ? "Update" : "Skip"}
+                      {row.seconds !== null && (
+                        <div className="text-muted-foreground">{(row.seconds / 3600).toFixed(2)} hrs</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button onClick={() => run(false)} disabled={busy || importable === 0} data-testid="button-confirm-import">
+              {busy && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              Import {importable} {importable === 1 ? "customer" : "customers"}
+            </Button>
+          ) : (
+            <Button onClick={() => run(true)} disabled={busy || !csv} data-testid="button-preview-import">
+              {busy ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <FileUp className="w-4 h-4 mr-1.5" />}
+              Preview {fileName || "file"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
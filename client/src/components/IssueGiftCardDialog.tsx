@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Gift, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { customerName, type Customer } from "@/components/CustomerDialog";
+
+export interface GiftCard {
+  id: string;
+  code: string;
+  customerId: string | null;
+  initialAmount: string;
+  balance: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+/** What a card can be paid for with. */
+export type GiftCardTender = "cash" | "card" | "other";
+
+export const GIFT_CARD_TENDERS: Array<{ value: GiftCardTender; label: string }> = [
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" },
+  { value: "other", label: "Other" },
+];
+
+/** Codes are stored without dashes; print them in groups of four. */
+export function formatGiftCardCode(code: string): string {
+  return code.match(/.{1,4}/g)?.join("-") ?? code;
+}
+
+const NO_CUSTOMER = "none";
+
+interface IssueGiftCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Link the card to this customer; omit to choose one (or none). */
+  customerId?: string;
+  onIssued?: (card: GiftCard) => void;
+}
+
+/** Sell a new card: the amount loaded, how it was paid for, and optionally who it belongs to. */
+export function IssueGiftCardDialog({ open, onOpenChange, customerId, onIssued }: IssueGiftCardDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [tenderType, setTenderType] = useState<GiftCardTender>("card");
+  const [selectedCustomer, setSelectedCustomer] = useState(NO_CUSTOMER);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["customers"],
+    queryFn: () => fetchWithAuth<Customer[]>("/api/customers"),
+    enabled: open && !customerId,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount("");
+    setTenderType("card");
+    setSelectedCustomer(NO_CUSTOMER);
+    setNote("");
+  }, [open]);
+
+  const parsedAmount = Number(amount);
+  const validAmount = Number.isFinite(parsedAmount) && parsedAmount > 0 && parsedAmount <= 10000;
+
+  async function handleIssue() {
+    setSaving(true);
+    try {
+      const card = await postWithAuth<GiftCard>("/api/gift-cards", {
+        amount: Math.round(parsedAmount * 100) / 100,
+        tenderType,
+        customerId: customerId ?? (selectedCustomer === NO_CUSTOMER ? null : selectedCustomer),
+        note: note.trim() || undefined,
+      });
+      toast({ title: "Gift card issued", description: formatGiftCardCode(card.code) });
+      await qc.invalidateQueries({ queryKey: ["gift-cards"] });
+      onOpenChange(false);
+      onIssued?.(card);
+    } catch (e: any) {
+      toast({ title: "Couldn't issue gift card", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const sortedCustomers = [...customers].sort((a, b) => customerName(a).localeCompare(customerName(b)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-issue-gift-card">
+        <DialogHeader>
+          <DialogTitle>Issue Gift Card</DialogTitle>
+          <DialogDescription>A code is generated for the card. Its balance can be spent at checkout.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="gift-card-amount">Amount</Label>
+              <Input
+                id="gift-card-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="font-mono"
+                data-testid="input-gift-card-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Paid by</Label>
+              <Select value={tenderType} onValueChange={(value) => setTenderType(value as GiftCardTender)}>
+                <SelectTrigger data-testid="select-gift-card-tender">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GIFT_CARD_TENDERS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!customerId && (
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={selectedCustomer} onValueChange={setSelectedCustomer}>
+                <SelectTrigger data-testid="select-gift-card-customer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CUSTOMER}>No customer</SelectItem>
+                  {sortedCustomers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customerName(customer)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="gift-card-note">Note</Label>
+            <Input
+              id="gift-card-note"
+              placeholder="Optional"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={200}
+              data-testid="input-gift-card-note"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleIssue} disabled={!validAmount || saving} data-testid="button-confirm-issue-gift-card">
+            {saving ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Gift className="w-4 h-4 mr-1.5" />}
+            Issue ${validAmount ? parsedAmount.toFixed(2) : "0.00"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
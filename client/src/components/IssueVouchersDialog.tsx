@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Ticket } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+export type TimeVoucherStatus = "active" | "redeemed" | "expired";
+
+export interface TimeVoucher {
+  id: string;
+  code: string;
+  minutes: number;
+  stationType: string | null;
+  expiresAt: string | null;
+  note: string | null;
+  createdByEmail: string | null;
+  redeemedAt: string | null;
+  redeemedSessionId: string | null;
+  redeemedMinutes: number | null;
+  redeemedAmount: string | null;
+  createdAt: string;
+  status: TimeVoucherStatus;
+}
+
+/** Codes are stored without dashes; print them in groups of five. */
+export function formatVoucherCode(code: string): string {
+  return code.match(/.{1,5}/g)?.join("-") ?? code;
+}
+
+/** e.g. "90 min" or "2 h", as the server names vouchers. */
+export function formatVoucherMinutes(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+const STATION_TYPES = ["pool", "gaming", "foosball"];
+const ANY_TYPE = "any";
+const MINUTE_PRESETS = [30, 60, 120];
+
+interface IssueVouchersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onIssued?: (vouchers: TimeVoucher[]) => void;
+}
+
+/** Print one or more vouchers for the same amount of time, each with its own code. */
+export function IssueVouchersDialog({ open, onOpenChange, onIssued }: IssueVouchersDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [minutes, setMinutes] = useState("60");
+  const [stationType, setStationType] = useState(ANY_TYPE);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [count, setCount] = useState("1");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMinutes("60");
+    setStationType(ANY_TYPE);
+    setExpiresOn("");
+    setCount("1");
+    setNote("");
+  }, [open]);
+
+  const parsedMinutes = Number(minutes);
+  const parsedCount = Number(count);
+  const validMinutes = Number.isInteger(parsedMinutes) && parsedMinutes >= 1 && parsedMinutes <= 24 * 60;
+  const validCount = Number.isInteger(parsedCount) && parsedCount >= 1 && parsedCount <= 100;
+  // A voucher is good through the end of its expiry day, in the store's local time.
+  const expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`) : null;
+  const validExpiry = !expiresAt || (!Number.isNaN(expiresAt.getTime()) && expiresAt > new Date());
+
+  async function handleIssue() {
+    setSaving(true);
+    try {
+      const vouchers = await postWithAuth<TimeVoucher[]>("/api/vouchers", {
+        minutes: parsedMinutes,
+        stationType: stationType === ANY_TYPE ? null : stationType,
+        expiresAt: expiresAt ? expiresAt.toISOString() : null,
+        count: parsedCount,
+        note: note.trim() || undefined,
+      });
+      toast({
+        title: vouchers.length === 1 ? "Voucher issued" : `${vouchers.length} vouchers issued`,
+        description: vouchers.length === 1 ? formatVoucherCode(vouchers[0].code) : undefined,
+      });
+      await qc.invalidateQueries({ queryKey: ["vouchers"] });
+      onOpenChange(false);
+      onIssued?.(vouchers);
+    } catch (e: any) {
+      toast({ title: "Couldn't issue vouchers", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-issue-vouchers">
+        <DialogHeader>
+          <DialogTitle>Issue Time Vouchers</DialogTitle>
+          <DialogDescription>
+            Each voucher takes its minutes off one checkout, starting with the cheapest time on the bill.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="voucher-minutes">Minutes</Label>
+            <div className="flex gap-2">
+              <Input
+                id="voucher-minutes"
+                type="number"
+                min="1"
+                step="1"
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+                className="font-mono"
+                data-testid="input-voucher-minutes"
+              />
+              {MINUTE_PRESETS.map((preset) => (
+                <Button
+                  key={preset}
+                  type="button"
+                  variant={parsedMinutes === preset ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setMinutes(String(preset))}
+                >
+                  {formatVoucherMinutes(preset)}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Good on</Label>
+              <Select value={stationType} onValueChange={setStationType}>
+                <SelectTrigger data-testid="select-voucher-station-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TYPE}>Any station</SelectItem>
+                  {STATION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voucher-expires">Expires</Label>
+              <Input
+                id="voucher-expires"
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                data-testid="input-voucher-expires"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="voucher-count">How many</Label>
+              <Input
+                id="voucher-count"
+                type="number"
+                min="1"
+                max="100"
+                step="1"
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="font-mono"
+                data-testid="input-voucher-count"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voucher-note">Note</Label>
+              <Input
+                id="voucher-note"
+                placeholder="Optional"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={200}
+                data-testid="input-voucher-note"
+              />
+            </div>
+          </div>
+          {!validExpiry && <p className="text-xs text-destructive">Expiry must be in the future.</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleIssue}
+            disabled={!validMinutes || !validCount || !validExpiry || saving}
+            data-testid="button-confirm-issue-vouchers"
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Ticket className="w-4 h-4 mr-1.5" />}
+            Issue {validCount && parsedCount > 1 ? `${parsedCount} vouchers` : "voucher"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchWithAuth } from "@/lib/api";
+
+type LoyaltyTransactionKind = "earn" | "redeem" | "adjust" | "reverse";
+
+interface LoyaltyTransaction {
+  id: string;
+  kind: LoyaltyTransactionKind;
+  seconds: number;
+  points: number;
+  sessionId: string | null;
+  sessionStartedAt: string | null;
+  actorEmail: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+const KIND_LABELS: Record<LoyaltyTransactionKind, string> = {
+  earn: "Earned",
+  redeem: "Redeemed",
+  adjust: "Adjusted",
+  reverse: "Reversed",
+};
+
+function formatHours(seconds: number): string {
+  const sign = seconds < 0 ? "−" : "+";
+  return `${sign}${(Math.abs(seconds) / 3600).toFixed(2)} hrs`;
+}
+
+function formatPoints(points: number): string {
+  return `${points < 0 ? "−" : "+"}${Math.abs(points)} pts`;
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** Every change to a customer's loyalty hours and points, newest first. */
+export function LoyaltyHistoryList({ customerId }: { customerId: string }) {
+  const { data: transactions = [], isLoading } = useQuery<LoyaltyTransaction[]>({
+    queryKey: ["customers", customerId, "loyalty"],
+    queryFn: () => fetchWithAuth<LoyaltyTransaction[]>(`/api/customers/${customerId}/loyalty`),
+  });
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading history…</p>;
+  if (transactions.length === 0) return <p className="text-xs text-muted-foreground">No loyalty activity yet.</p>;
+
+  return (
+    <div className="max-h-60 space-y-2 overflow-y-auto" data-testid="list-loyalty-history">
+      {transactions.map((transaction) => (
+        <div key={transaction.id} className="flex items-start justify-between gap-3 text-xs">
+          <div>
+            <div className="font-medium">{KIND_LABELS[transaction.kind]}</div>
+            <div className="text-muted-foreground">
+              {formatDateTime(transaction.createdAt)}
+              {transaction.sessionStartedAt && <> · session from {formatDateTime(transaction.sessionStartedAt)}</>}
+            </div>
+            {(transaction.note || transaction.actorEmail) && (
+              <div className="text-muted-foreground">
+                {[transaction.note, transaction.actorEmail].filter(Boolean).join(" · ")}
+              </div>
+            )}
+          </div>
+          <div className="text-right font-mono">
+            {transaction.seconds !== 0 && (
+              <div className={transaction.seconds < 0 ? "text-destructive" : ""}>{formatHours(transaction.seconds)}</div>
+            )}
+            {transaction.points !== 0 && (
+              <div className={transaction.points < 0 ? "text-destructive" : ""}>{formatPoints(transaction.points)}</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { fetchWithAuth } from "@/lib/api";
+import { LoyaltyHistoryList } from "@/components/LoyaltyHistoryList";
 
 interface Customer {
   id: string;
@@ -18,11 +19,14 @@ interface Customer {
   lastName: string | null;
   totalSeconds: number;
   isDiscountAvailable: boolean;
+  pointsBalance: number;
 }
 
 interface LookupResult {
   customer: Customer;
   thresholdSeconds: number;
+  program: "hours" | "points";
+  tierName: string | null;
 }
 
 interface LoyaltyLookupDialogProps {
@@ -135,7 +139,12 @@ export function LoyaltyLookupDialog({ open, onOpenChange }: LoyaltyLookupDialogP
               <span className="font-mono font-medium">{hoursPlayed} hrs</span>
             </div>
 
-            {result.customer.isDiscountAvailable ? (
+            {result.program === "points" ? (
+              <div className="flex items-center justify-between text-sm" data-testid="text-lookup-points">
+                <span className="text-muted-foreground">Points{result.tierName && ` · ${result.tierName}`}</span>
+                <span className="font-mono font-medium">{result.customer.pointsBalance} pts</span>
+              </div>
+            ) : result.customer.isDiscountAvailable ? (
               <div className="rounded-md bg-primary/10 border border-primary/20 px-3 py-2 text-sm font-medium text-primary">
                 ✓ Discount available
               </div>
@@ -154,6 +163,11 @@ export function LoyaltyLookupDialog({ open, onOpenChange }: LoyaltyLookupDialogP
                 <p className="text-xs text-muted-foreground">{hoursUntil} hrs until next discount</p>
               </div>
             )}
+
+            <div className="space-y-2 border-t border-border/60 pt-3">
+              <p className="text-xs font-medium text-muted-foreground">History</p>
+              <LoyaltyHistoryList customerId={result.customer.id} />
+            </div>
           </div>
         )}
       </DialogContent>
@@ -0,0 +1,655 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type LoyaltyProgram = "hours" | "points";
+type RewardKind = "free_time" | "free_item" | "percent_off";
+
+export interface LoyaltyReward {
+  id: string;
+  name: string;
+  kind: RewardKind;
+  pointsCost: number;
+  minutes: number | null;
+  menuItemId: string | null;
+  percentOff: string | null;
+  isEnabled: boolean;
+  sortOrder: number;
+}
+
+interface LoyaltyTier {
+  id: string;
+  name: string;
+  minPoints: number;
+  discountRate: string;
+  pointsMultiplier: string;
+}
+
+interface MenuItemOption {
+  id: string;
+  name: string;
+}
+
+interface LoyaltyProgramCardProps {
+  program: LoyaltyProgram;
+  pointsPerDollar: string;
+  pointsPerHour: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const REWARD_KIND_LABELS: Record<RewardKind, string> = {
+  free_time: "Free time",
+  free_item: "Free item",
+  percent_off: "Percent off",
+};
+
+/** "Free 60 min", "Free Soda", "10% off". */
+export function describeReward(reward: LoyaltyReward, menuName?: string): string {
+  if (reward.kind === "free_time") return `Free ${reward.minutes ?? 0} min`;
+  if (reward.kind === "free_item") return `Free ${menuName ?? "item"}`;
+  return `${Number((Number(reward.percentOff ?? 0) * 100).toFixed(2))}% off`;
+}
+
+function isNonNegative(value: string): boolean {
+  const n = Number(value);
+  return value.trim() !== "" && Number.isFinite(n) && n >= 0;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function LoyaltyProgramCard({ program, pointsPerDollar, pointsPerHour }: LoyaltyProgramCardProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [perDollar, setPerDollar] = useState("");
+  const [perHour, setPerHour] = useState("");
+  const [editingReward, setEditingReward] = useState<LoyaltyReward | null>(null);
+  const [rewardDialogOpen, setRewardDialogOpen] = useState(false);
+  const [editingTier, setEditingTier] = useState<LoyaltyTier | null>(null);
+  const [tierDialogOpen, setTierDialogOpen] = useState(false);
+
+  useEffect(() => {
+    setPerDollar(String(Number(pointsPerDollar)));
+    setPerHour(String(Number(pointsPerHour)));
+  }, [pointsPerDollar, pointsPerHour]);
+
+  const { data: rewards = [] } = useQuery<LoyaltyReward[]>({
+    queryKey: ["loyalty-rewards"],
+    queryFn: () => fetchWithAuth<LoyaltyReward[]>("/api/loyalty/rewards"),
+  });
+
+  const { data: tiers = [] } = useQuery<LoyaltyTier[]>({
+    queryKey: ["loyalty-tiers"],
+    queryFn: () => fetchWithAuth<LoyaltyTier[]>("/api/loyalty/tiers"),
+  });
+
+  const { data: menu = [] } = useQuery<MenuItemOption[]>({
+    queryKey: ["menu"],
+    queryFn: () => fetchWithAuth<MenuItemOption[]>("/api/menu"),
+  });
+
+  const menuName = (id: string | null) => menu.find((item) => item.id === id)?.name;
+
+  async function saveProgram(next: { loyaltyProgram: LoyaltyProgram; pointsPerDollar: number; pointsPerHour: number }) {
+    try {
+      await patchWithAuth("/api/settings/loyalty", next);
+      await qc.invalidateQueries({ queryKey: ["me"] });
+      toast({ title: "Loyalty program saved" });
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  async function removeReward(reward: LoyaltyReward) {
+    try {
+      await deleteWithAuth(`/api/loyalty/rewards/${reward.id}`);
+      await qc.invalidateQueries({ queryKey: ["loyalty-rewards"] });
+      toast({ title: "Reward deleted" });
+    } catch (e: any) {
+      toast({ title: "Failed to delete", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  async function removeTier(tier: LoyaltyTier) {
+    try {
+      await deleteWithAuth(`/api/loyalty/tiers/${tier.id}`);
+      await qc.invalidateQueries({ queryKey: ["loyalty-tiers"] });
+      toast({ title: "Tier deleted" });
+    } catch (e: any) {
+      toast({ title: "Failed to delete", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  const ratesValid = isNonNegative(perDollar) && isNonNegative(perHour);
+  const usesPoints = program === "points";
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-1">Points & Rewards</p>
+        <p className="text-sm text-muted-foreground">
+          Reward customers with points instead of the hours discount. Points are added up when a session is checked
+          out and spent on rewards at checkout; tiers give regulars a standing discount and faster earning.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between border rounded-md p-3 gap-3">
+        <div>
+          <div className="text-sm font-medium">Program</div>
+          <div className="text-xs text-muted-foreground">
+            {usesPoints
+              ? "Customers earn points and redeem rewards."
+              : "Customers earn the discount after the hours set above."}
+          </div>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant={usesPoints ? "outline" : "default"}
+            onClick={() =>
+              usesPoints &&
+              saveProgram({
+                loyaltyProgram: "hours",
+                pointsPerDollar: Number(pointsPerDollar),
+                pointsPerHour: Number(pointsPerHour),
+              })
+            }
+            data-testid="button-program-hours"
+          >
+            Hours
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={usesPoints ? "default" : "outline"}
+            onClick={() =>
+              !usesPoints &&
+              saveProgram({
+                loyaltyProgram: "points",
+                pointsPerDollar: Number(pointsPerDollar),
+                pointsPerHour: Number(pointsPerHour),
+              })
+            }
+            data-testid="button-program-points"
+          >
+            Points
+          </Button>
+        </div>
+      </div>
+
+      {usesPoints && (
+        <>
+          <div className="border-t border-border/50 pt-4 space-y-3">
+            <label className="text-sm font-medium">Earning</label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Points per $1 paid</label>
+                <Input
+                  inputMode="decimal"
+                  value={perDollar}
+                  onChange={(e) => setPerDollar(e.target.value)}
+                  className="font-mono"
+                  data-testid="input-points-per-dollar"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Points per hour played</label>
+                <Input
+                  inputMode="decimal"
+                  value={perHour}
+                  onChange={(e) => setPerHour(e.target.value)}
+                  className="font-mono"
+                  data-testid="input-points-per-hour"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                disabled={!ratesValid}
+                onClick={() =>
+                  saveProgram({
+                    loyaltyProgram: "points",
+                    pointsPerDollar: Number(perDollar),
+                    pointsPerHour: Number(perHour),
+                  })
+                }
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <div className="border-t border-border/50 pt-4 space-y-3">
+            <label className="text-sm font-medium">Rewards</label>
+            {rewards.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rewards yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {rewards.map((reward) => (
+                  <div
+                    key={reward.id}
+                    className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                    data-testid={`loyalty-reward-${reward.id}`}
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="text-sm font-medium truncate">
+                        {reward.name}
+                        {!reward.isEnabled && <span className="ml-2 text-xs text-muted-foreground">(disabled)</span>}
+                      </p>
+                      <p className="text-xs font-mono text-muted-foreground">
+                        {describeReward(reward, menuName(reward.menuItemId))} · {reward.pointsCost} pts
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit reward"
+                        onClick={() => {
+                          setEditingReward(reward);
+                          setRewardDialogOpen(true);
+                        }}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" aria-label="Delete reward" onClick={() => removeReward(reward)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEditingReward(null);
+                  setRewardDialogOpen(true);
+                }}
+                data-testid="button-add-reward"
+              >
+                <Plus className="w-4 h-4 mr-1.5" />
+                Add reward
+              </Button>
+            </div>
+          </div>
+
+          <div className="border-t border-border/50 pt-4 space-y-3">
+            <label className="text-sm font-medium">Tiers</label>
+            {tiers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No tiers. Every customer earns at the base rate.</p>
+            ) : (
+              <div className="space-y-2">
+                {tiers.map((tier) => (
+                  <div
+                    key={tier.id}
+                    className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                    data-testid={`loyalty-tier-${tier.id}`}
+                  >
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="text-sm font-medium truncate">{tier.name}</p>
+                      <p className="text-xs font-mono text-muted-foreground">
+                        From {tier.minPoints} pts · {Number((Number(tier.discountRate) * 100).toFixed(2))}% off ·{" "}
+                        {Number(tier.pointsMultiplier)}× points
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit tier"
+                        onClick={() => {
+                          setEditingTier(tier);
+                          setTierDialogOpen(true);
+                        }}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" aria-label="Delete tier" onClick={() => removeTier(tier)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEditingTier(null);
+                  setTierDialogOpen(true);
+                }}
+                data-testid="button-add-loyalty-tier"
+              >
+                <Plus className="w-4 h-4 mr-1.5" />
+                Add tier
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <RewardDialog
+        open={rewardDialogOpen}
+        onOpenChange={setRewardDialogOpen}
+        reward={editingReward}
+        menu={menu}
+        sortOrder={rewards.length}
+      />
+      <TierDialog open={tierDialogOpen} onOpenChange={setTierDialogOpen} tier={editingTier} />
+    </Card>
+  );
+}
+
+// ─── Dialogs ──────────────────────────────────────────────────────────────────
+
+function RewardDialog({
+  open,
+  onOpenChange,
+  reward,
+  menu,
+  sortOrder,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reward: LoyaltyReward | null;
+  menu: MenuItemOption[];
+  sortOrder: number;
+}) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<RewardKind>("free_time");
+  const [pointsCost, setPointsCost] = useState("");
+  const [minutes, setMinutes] = useState("");
+  const [menuItemId, setMenuItemId] = useState<string | null>(null);
+  const [percentOff, setPercentOff] = useState("");
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(reward?.name ?? "");
+    setKind(reward?.kind ?? "free_time");
+    setPointsCost(reward ? String(reward.pointsCost) : "");
+    setMinutes(reward?.minutes ? String(reward.minutes) : "60");
+    setMenuItemId(reward?.menuItemId ?? null);
+    setPercentOff(reward?.percentOff ? String(Number((Number(reward.percentOff) * 100).toFixed(2))) : "");
+    setIsEnabled(reward?.isEnabled ?? true);
+  }, [open, reward]);
+
+  const cost = Number(pointsCost);
+  const pct = Number(percentOff);
+  const mins = Number(minutes);
+  const termValid =
+    kind === "free_time"
+      ? Number.isInteger(mins) && mins > 0
+      : kind === "free_item"
+        ? !!menuItemId
+        : Number.isFinite(pct) && pct > 0 && pct <= 100;
+  const canSave = name.trim().length > 0 && Number.isInteger(cost) && cost > 0 && termValid;
+
+  async function handleSave() {
+    if (!canSave) return;
+    const body = {
+      name: name.trim(),
+      kind,
+      pointsCost: cost,
+      minutes: kind === "free_time" ? mins : null,
+      menuItemId: kind === "free_item" ? menuItemId : null,
+      percentOff: kind === "percent_off" ? Number((pct / 100).toFixed(4)) : null,
+      isEnabled,
+      ...(!reward && { sortOrder }),
+    };
+    try {
+      setSaving(true);
+      if (reward) {
+        await patchWithAuth(`/api/loyalty/rewards/${reward.id}`, body);
+      } else {
+        await postWithAuth("/api/loyalty/rewards", body);
+      }
+      await qc.invalidateQueries({ queryKey: ["loyalty-rewards"] });
+      toast({ title: reward ? "Reward updated" : "Reward added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-loyalty-reward">
+        <DialogHeader>
+          <DialogTitle>{reward ? "Edit Reward" : "Add Reward"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Free hour" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Reward</label>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(REWARD_KIND_LABELS) as RewardKind[]).map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={kind === option ? "default" : "outline"}
+                  onClick={() => setKind(option)}
+                >
+                  {REWARD_KIND_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {kind === "free_time" && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Minutes of table time</label>
+              <Input inputMode="numeric" value={minutes} onChange={(e) => setMinutes(e.target.value)} className="font-mono" />
+            </div>
+          )}
+          {kind === "free_item" && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Menu item</label>
+              <div className="flex max-h-40 flex-wrap gap-1 overflow-y-auto">
+                {menu.map((item) => (
+                  <Button
+                    key={item.id}
+                    type="button"
+                    size="sm"
+                    variant={menuItemId === item.id ? "default" : "outline"}
+                    onClick={() => setMenuItemId(item.id)}
+                  >
+                    {item.name}
+                  </Button>
+                ))}
+              </div>
+              {menu.length === 0 && <p className="text-xs text-muted-foreground">Add menu items to offer them.</p>}
+            </div>
+          )}
+          {kind === "percent_off" && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Percent off the bill</label>
+              <Input
+                inputMode="decimal"
+                value={percentOff}
+                onChange={(e) => setPercentOff(e.target.value)}
+                placeholder="10"
+                className="font-mono"
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Points cost</label>
+            <Input
+              inputMode="numeric"
+              value={pointsCost}
+              onChange={(e) => setPointsCost(e.target.value)}
+              placeholder="100"
+              className="font-mono"
+              data-testid="input-reward-cost"
+            />
+          </div>
+          <div className="flex items-center justify-between border rounded-md p-3 gap-3">
+            <div className="text-sm font-medium">Enabled</div>
+            <Button type="button" variant={isEnabled ? "default" : "outline"} onClick={() => setIsEnabled((v) => !v)}>
+              {isEnabled ? "Enabled" : "Disabled"}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TierDialog({
+  open,
+  onOpenChange,
+  tier,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tier: LoyaltyTier | null;
+}) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [name, setName] = useState("");
+  const [minPoints, setMinPoints] = useState("");
+  const [discountPct, setDiscountPct] = useState("");
+  const [multiplier, setMultiplier] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(tier?.name ?? "");
+    setMinPoints(tier ? String(tier.minPoints) : "");
+    setDiscountPct(tier ? String(Number((Number(tier.discountRate) * 100).toFixed(2))) : "0");
+    setMultiplier(tier ? String(Number(tier.pointsMultiplier)) : "1");
+  }, [open, tier]);
+
+  const min = Number(minPoints);
+  const pct = Number(discountPct);
+  const mult = Number(multiplier);
+  const canSave =
+    name.trim().length > 0 &&
+    Number.isInteger(min) &&
+    min >= 0 &&
+    isNonNegative(discountPct) &&
+    pct <= 100 &&
+    isNonNegative(multiplier);
+
+  async function handleSave() {
+    if (!canSave) return;
+    const body = {
+      name: name.trim(),
+      minPoints: min,
+      discountRate: Number((pct / 100).toFixed(4)),
+      pointsMultiplier: mult,
+    };
+    try {
+      setSaving(true);
+      if (tier) {
+        await patchWithAuth(`/api/loyalty/tiers/${tier.id}`, body);
+      } else {
+        await postWithAuth("/api/loyalty/tiers", body);
+      }
+      await qc.invalidateQueries({ queryKey: ["loyalty-tiers"] });
+      toast({ title: tier ? "Tier updated" : "Tier added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" data-testid="dialog-loyalty-tier">
+        <DialogHeader>
+          <DialogTitle>{tier ? "Edit Tier" : "Add Tier"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Gold" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Points to reach</label>
+            <Input
+              inputMode="numeric"
+              value={minPoints}
+              onChange={(e) => setMinPoints(e.target.value)}
+              placeholder="1000"
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">Counts points earned, whatever has been spent since.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Discount (%)</label>
+              <Input
+                inputMode="decimal"
+                value={discountPct}
+                onChange={(e) => setDiscountPct(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Points ×</label>
+              <Input
+                inputMode="decimal"
+                value={multiplier}
+                onChange={(e) => setMultiplier(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { BadgeCheck, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+export interface MembershipPlan {
+  id: string;
+  name: string;
+  price: string;
+  includedHours: string;
+  memberRateName: string | null;
+  isEnabled: boolean;
+  sortOrder: number;
+}
+
+export type MembershipStatus = "active" | "lapsed";
+
+export interface Membership {
+  id: string;
+  customerId: string;
+  planId: string;
+  periodStart: string;
+  renewsAt: string;
+  usedSeconds: number;
+  status: MembershipStatus;
+  plan: Pick<MembershipPlan, "id" | "name" | "price" | "includedHours" | "memberRateName">;
+  customer: { id: string; firstName: string | null; lastName: string | null; phoneNumber: string };
+  includedSecondsLeft: number;
+}
+
+/** e.g. "10h" or "2.5h". */
+export function formatIncludedHours(seconds: number): string {
+  return `${Number((seconds / 3600).toFixed(2))}h`;
+}
+
+/** What a plan gives its members, e.g. "$40.00/mo · 10h included · Member rate". */
+export function describePlan(plan: Pick<MembershipPlan, "price" | "includedHours" | "memberRateName">): string {
+  const parts = [`$${Number(plan.price).toFixed(2)}/mo`];
+  if (Number(plan.includedHours) > 0) parts.push(`${Number(plan.includedHours)}h included`);
+  if (plan.memberRateName) parts.push(`${plan.memberRateName} rate`);
+  return parts.join(" · ");
+}
+
+interface MembershipDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: string;
+  /** The customer's current membership, to change it; null to sign them up. */
+  membership: Membership | null;
+}
+
+/** Put a customer on a plan, or move them to another plan or renewal date. */
+export function MembershipDialog({ open, onOpenChange, customerId, membership }: MembershipDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [planId, setPlanId] = useState("");
+  const [renewsOn, setRenewsOn] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const { data: plans = [] } = useQuery<MembershipPlan[]>({
+    queryKey: ["membership-plans"],
+    queryFn: () => fetchWithAuth<MembershipPlan[]>("/api/membership-plans"),
+    enabled: open,
+  });
+  // A disabled plan can't take new members, but its current members can stay on it.
+  const choices = plans.filter((plan) => plan.isEnabled || plan.id === membership?.planId);
+
+  useEffect(() => {
+    if (!open) return;
+    setPlanId(membership?.planId ?? "");
+    setRenewsOn("");
+  }, [open, membership]);
+
+  // A membership renews at the start of its renewal day, in the store's local time.
+  const renewsAt = renewsOn ? new Date(`${renewsOn}T00:00:00`) : null;
+  const validRenewal = !renewsAt || (!Number.isNaN(renewsAt.getTime()) && renewsAt > new Date());
+  const planChanged = !!membership && planId !== membership.planId;
+  const canSave = !!planId && validRenewal && (!membership || planChanged || !!renewsAt);
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      if (membership) {
+        await patchWithAuth(`/api/memberships/${membership.id}`, {
+          planId: planChanged ? planId : undefined,
+          renewsAt: renewsAt ? renewsAt.toISOString() : undefined,
+        });
+      } else {
+        await postWithAuth("/api/memberships", {
+          customerId,
+          planId,
+          renewsAt: renewsAt ? renewsAt.toISOString() : undefined,
+        });
+      }
+      await qc.invalidateQueries({ queryKey: ["memberships"] });
+      toast({ title: membership ? "Membership updated" : "Membership started" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Couldn't save membership", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-membership">
+        <DialogHeader>
+          <DialogTitle>{membership ? "Change Membership" : "Start Membership"}</DialogTitle>
+          <DialogDescription>
+            {membership
+              ? "A new plan starts a fresh period with its full included time."
+              : "The membership runs for a month unless you pick a renewal date."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Plan</Label>
+            {choices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No plans yet. Add one on the Memberships page.</p>
+            ) : (
+              <Select value={planId} onValueChange={setPlanId}>
+                <SelectTrigger data-testid="select-membership-plan">
+                  <SelectValue placeholder="Choose a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name} · {describePlan(plan)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="membership-renews">Renews on</Label>
+            <Input
+              id="membership-renews"
+              type="date"
+              value={renewsOn}
+              onChange={(e) => setRenewsOn(e.target.value)}
+              data-testid="input-membership-renews"
+            />
+            {membership && (
+              <p className="text-xs text-muted-foreground">
+                Currently {new Date(membership.renewsAt).toLocaleDateString()}. Leave blank to keep it.
+              </p>
+            )}
+            {!validRenewal && <p className="text-xs text-destructive">Renewal date must be in the future.</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving} data-testid="button-save-membership">
+            {saving ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <BadgeCheck className="w-4 h-4 mr-1.5" />}
+            {membership ? "Save" : "Start membership"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
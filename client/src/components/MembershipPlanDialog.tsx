@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { MembershipPlan } from "@/components/MembershipDialog";
+
+const MAX_INCLUDED_HOURS = 744;
+
+function isNonNegative(value: string): boolean {
+  const n = Number(value);
+  return value.trim() !== "" && Number.isFinite(n) && n >= 0;
+}
+
+interface MembershipPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The plan to edit; null to add one. */
+  plan: MembershipPlan | null;
+  sortOrder: number;
+}
+
+export function MembershipPlanDialog({ open, onOpenChange, plan, sortOrder }: MembershipPlanDialogProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState("");
+  const [includedHours, setIncludedHours] = useState("");
+  const [memberRateName, setMemberRateName] = useState("");
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(plan?.name ?? "");
+    setPrice(plan ? String(Number(plan.price)) : "");
+    setIncludedHours(plan ? String(Number(plan.includedHours)) : "0");
+    setMemberRateName(plan?.memberRateName ?? "");
+    setIsEnabled(plan?.isEnabled ?? true);
+  }, [open, plan]);
+
+  const canSave =
+    name.trim().length > 0 &&
+    isNonNegative(price) &&
+    isNonNegative(includedHours) &&
+    Number(includedHours) <= MAX_INCLUDED_HOURS;
+
+  async function handleSave() {
+    if (!canSave) return;
+    const body = {
+      name: name.trim(),
+      price: Number(price),
+      includedHours: Number(includedHours),
+      memberRateName: memberRateName.trim() || null,
+      isEnabled,
+    };
+    try {
+      setSaving(true);
+      if (plan) {
+        await patchWithAuth(`/api/membership-plans/${plan.id}`, body);
+      } else {
+        await postWithAuth("/api/membership-plans", { ...body, sortOrder });
+      }
+      await qc.invalidateQueries({ queryKey: ["membership-plans"] });
+      await qc.invalidateQueries({ queryKey: ["memberships"] });
+      toast({ title: plan ? "Plan updated" : "Plan added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-membership-plan">
+        <DialogHeader>
+          <DialogTitle>{plan ? "Edit Plan" : "Add Plan"}</DialogTitle>
+          <DialogDescription>
+            Included hours come off members&apos; cheapest time first. Time beyond them is charged at the member rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="plan-name">Name</Label>
+            <Input id="plan-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Regular" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="plan-price">Price per month ($)</Label>
+              <Input
+                id="plan-price"
+                inputMode="decimal"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="40"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-hours">Included hours</Label>
+              <Input
+                id="plan-hours"
+                inputMode="decimal"
+                value={includedHours}
+                onChange={(e) => setIncludedHours(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="plan-rate">Member rate</Label>
+            <Input
+              id="plan-rate"
+              value={memberRateName}
+              onChange={(e) => setMemberRateName(e.target.value)}
+              placeholder="Optional, e.g., Member"
+            />
+            <p className="text-xs text-muted-foreground">
+              The name of a station rate. Members pay it on stations that have one.
+            </p>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-medium">Enabled</div>
+              <div className="text-xs text-muted-foreground">Disabled plans keep their members but take no new ones.</div>
+            </div>
+            <Button type="button" variant={isEnabled ? "default" : "outline"} onClick={() => setIsEnabled((v) => !v)}>
+              {isEnabled ? "Enabled" : "Disabled"}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving} data-testid="button-save-membership-plan">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { Merge } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { fromTierValue, toTierValue, type StationRateOption, type TierValue } from "@/lib/tiers";
+import { StationType } from "./StationCard";
+
+interface MergeTarget {
+  sessionId: string;
+  stationId: string;
+  stationName: string;
+  stationType: StationType;
+  customerName: string | null;
+  status: "active" | "paused";
+}
+
+interface MergeSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentStationName: string;
+  currentPricingTier: "solo" | "group";
+  currentStationRateId?: string | null;
+  currentStationRates?: StationRateOption[];
+  targets: MergeTarget[];
+  onConfirmMerge: (payload: {
+    targetSessionId: string;
+    targetStationId: string;
+    endingPricingTier: "solo" | "group";
+    endingStationRateId: string | null;
+  }) => void;
+}
+
+const stationColors = {
+  pool: "border-l-chart-1",
+  gaming: "border-l-chart-2",
+  foosball: "border-l-chart-3",
+};
+
+export function MergeSessionDialog({
+  open,
+  onOpenChange,
+  currentStationName,
+  currentPricingTier,
+  currentStationRateId = null,
+  currentStationRates = [],
+  targets,
+  onConfirmMerge,
+}: MergeSessionDialogProps) {
+  const [endingPricingTier, setEndingPricingTier] =
+    useState<TierValue>(toTierValue(currentPricingTier, currentStationRateId));
+
+  useEffect(() => {
+    if (!open) return;
+    setEndingPricingTier(toTierValue(currentPricingTier, currentStationRateId));
+  }, [currentPricingTier, currentStationRateId, open]);
+
+  const endingTierOptions = currentStationRates.filter(
+    (option) => option.isEnabled || option.id === currentStationRateId,
+  );
+  const endingTier = fromTierValue(endingPricingTier);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-merge-session">
+        <DialogHeader>
+          <DialogTitle className="text-2xl flex items-center gap-2">
+            <Merge className="w-6 h-6" />
+            Merge Session
+          </DialogTitle>
+          <DialogDescription>
+            Move <span className="font-semibold text-foreground">{currentStationName}</span>'s time and items onto
+            another running tab. {currentStationName} will be free afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1 rounded-lg border bg-muted/30 p-3">
+          <Label className="text-xs">Ending Segment Tier</Label>
+          <Select value={endingPricingTier} onValueChange={(v: TierValue) => setEndingPricingTier(v)}>
+            <SelectTrigger data-testid="select-merge-ending-tier">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="solo">Solo</SelectItem>
+              <SelectItem value="group">Group</SelectItem>
+              {endingTierOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="max-h-[400px] pr-4">
+          <div className="space-y-2 py-2">
+            {targets.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No other running sessions to merge into
+              </div>
+            ) : (
+              targets.map((target) => (
+                <Button
+                  key={target.sessionId}
+                  variant="outline"
+                  className={cn(
+                    "w-full justify-start gap-3 h-auto py-3 hover-elevate border-l-4",
+                    stationColors[target.stationType]
+                  )}
+                  onClick={() =>
+                    onConfirmMerge({
+                      targetSessionId: target.sessionId,
+                      targetStationId: target.stationId,
+                      endingPricingTier: endingTier.pricingTier,
+                      endingStationRateId: endingTier.stationRateId,
+                    })
+                  }
+                  data-testid={`button-merge-into-${target.stationId}`}
+                >
+                  <div className="flex-1 text-left">
+                    <p className="font-semibold">{target.stationName}</p>
+                    {target.customerName && (
+                      <p className="text-xs text-muted-foreground">{target.customerName}</p>
+                    )}
+                  </div>
+                  <Badge variant="secondary" className="ml-auto">
+                    {target.status === "paused" ? "Paused" : "Running"}
+                  </Badge>
+                </Button>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,13 +7,15 @@ interface PaymentProcessingOverlayProps {
   onComplete: () => void;
   totalAmount: number;
   itemCount: number;
+  tenderType?: "cash" | "card" | "other";
 }
 
 export function PaymentProcessingOverlay({ 
   show, 
   onComplete, 
   totalAmount, 
-  itemCount 
+  itemCount,
+  tenderType = "card",
 }: PaymentProcessingOverlayProps) {
   const [stage, setStage] = useState<"payment" | "confirmed">("payment");
 
@@ -49,19 +51,31 @@ export function PaymentProcessingOverlay({
             {/* Left side - Instructions and terminal image */}
             <div className="flex-1 flex flex-col gap-6">
               <div className="space-y-3">
-                <h2 className="text-2xl font-bold">Pay with credit or debit card</h2>
+                <h2 className="text-2xl font-bold">
+                  {tenderType === "card"
+                    ? "Pay with credit or debit card"
+                    : tenderType === "cash"
+                      ? "Collect cash payment"
+                      : "Collect payment"}
+                </h2>
                 <p className="text-lg text-muted-foreground">
-                  Follow instructions on PIN pad below
+                  {tenderType === "card"
+                    ? "Follow instructions on PIN pad below"
+                    : tenderType === "cash"
+                      ? "Count the cash and hand back any change"
+                      : "Collect each payment before clearing the table"}
                 </p>
               </div>
               
-              <div className="relative rounded-lg overflow-hidden">
-                <img 
-                  src={terminalImage} 
-                  alt="Card reader terminal" 
-                  className="w-full h-auto object-cover"
-                />
-              </div>
+              {tenderType === "card" && (
+                <div className="relative rounded-lg overflow-hidden">
+                  <img 
+                    src={terminalImage} 
+                    alt="Card reader terminal" 
+                    className="w-full h-auto object-cover"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Right side - Total and items */}
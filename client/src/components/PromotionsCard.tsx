@@ -0,0 +1,485 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type DiscountKind = "percent" | "amount";
+type DiscountScope = "all" | "time" | "items" | "categories" | "stations";
+
+interface Promotion {
+  id: string;
+  code: string;
+  name: string;
+  kind: DiscountKind;
+  value: string;
+  scope: DiscountScope;
+  categories: string[];
+  stationIds: string[];
+  startsAt: string | null;
+  endsAt: string | null;
+  maxUses: number | null;
+  usesCount: number;
+  isEnabled: boolean;
+}
+
+interface MenuItemCategory {
+  category: string;
+}
+
+interface StationOption {
+  id: string;
+  name: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const SCOPE_OPTIONS: Array<{ value: DiscountScope; label: string }> = [
+  { value: "all", label: "Whole bill" },
+  { value: "time", label: "Time only" },
+  { value: "items", label: "Items only" },
+  { value: "categories", label: "Categories" },
+  { value: "stations", label: "Stations" },
+];
+
+function formatValue(promotion: Promotion): string {
+  const value = Number(promotion.value);
+  return promotion.kind === "percent" ? `${Number((value * 100).toFixed(2))}% off` : `$${value.toFixed(2)} off`;
+}
+
+function formatWindow(promotion: Promotion): string | null {
+  const format = (value: string) => new Date(value).toLocaleDateString();
+  if (promotion.startsAt && promotion.endsAt) return `${format(promotion.startsAt)} – ${format(promotion.endsAt)}`;
+  if (promotion.startsAt) return `From ${format(promotion.startsAt)}`;
+  if (promotion.endsAt) return `Until ${format(promotion.endsAt)}`;
+  return null;
+}
+
+/** ISO timestamp to the value a datetime-local input expects, in local time. */
+function toLocalInput(value: string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value];
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function PromotionsCard() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: promotions = [] } = useQuery<Promotion[]>({
+    queryKey: ["promotions"],
+    queryFn: () => fetchWithAuth<Promotion[]>("/api/promotions"),
+  });
+
+  const { data: menu = [] } = useQuery<MenuItemCategory[]>({
+    queryKey: ["menu"],
+    queryFn: () => fetchWithAuth<MenuItemCategory[]>("/api/menu"),
+  });
+
+  const { data: stations = [] } = useQuery<StationOption[]>({
+    queryKey: ["stations"],
+    queryFn: () => fetchWithAuth<StationOption[]>("/api/stations"),
+  });
+
+  const stationNames = useMemo(() => new Map(stations.map((st) => [st.id, st.name])), [stations]);
+  const menuCategories = useMemo(
+    () => Array.from(new Set(menu.map((item) => item.category))).sort((a, b) => a.localeCompare(b)),
+    [menu],
+  );
+
+  async function remove(promotion: Promotion) {
+    try {
+      await deleteWithAuth(`/api/promotions/${promotion.id}`);
+      await qc.invalidateQueries({ queryKey: ["promotions"] });
+      toast({ title: "Promotion deleted" });
+    } catch (e: any) {
+      toast({ title: "Failed to delete", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  function describeScope(promotion: Promotion): string {
+    if (promotion.scope === "categories") return promotion.categories.join(", ");
+    if (promotion.scope === "stations") {
+      return promotion.stationIds.map((id) => stationNames.get(id) ?? "Deleted station").join(", ");
+    }
+    return SCOPE_OPTIONS.find((option) => option.value === promotion.scope)?.label ?? promotion.scope;
+  }
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-1">Promotions</p>
+        <p className="text-sm text-muted-foreground">
+          Codes staff can enter at checkout. A promotion is taken before the loyalty discount, and each checkout that
+          uses it counts toward its usage limit.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {promotions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No promotions yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {promotions.map((promotion) => {
+              const window = formatWindow(promotion);
+              return (
+                <div
+                  key={promotion.id}
+                  className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                  data-testid={`promotion-${promotion.id}`}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="text-sm font-medium truncate">
+                      <span className="font-mono">{promotion.code}</span>
+                      <span className="ml-2 text-muted-foreground">{promotion.name}</span>
+                      {!promotion.isEnabled && <span className="ml-2 text-xs text-muted-foreground">(disabled)</span>}
+                    </p>
+                    <p className="text-xs font-mono text-muted-foreground">
+                      {formatValue(promotion)} · {describeScope(promotion)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {promotion.maxUses != null
+                        ? `Used ${promotion.usesCount} of ${promotion.maxUses}`
+                        : `Used ${promotion.usesCount}`}
+                      {window && ` · ${window}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Edit promotion"
+                      onClick={() => {
+                        setEditing(promotion);
+                        setDialogOpen(true);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" aria-label="Delete promotion" onClick={() => remove(promotion)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setEditing(null);
+              setDialogOpen(true);
+            }}
+            data-testid="button-add-promotion"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add promotion
+          </Button>
+        </div>
+      </div>
+
+      <PromotionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        promotion={editing}
+        menuCategories={menuCategories}
+        stations={stations}
+      />
+    </Card>
+  );
+}
+
+// ─── Dialog ───────────────────────────────────────────────────────────────────
+
+function PromotionDialog({
+  open,
+  onOpenChange,
+  promotion,
+  menuCategories,
+  stations,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  promotion: Promotion | null;
+  menuCategories: string[];
+  stations: StationOption[];
+}) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<DiscountKind>("percent");
+  const [valueInput, setValueInput] = useState("");
+  const [scope, setScope] = useState<DiscountScope>("all");
+  const [categories, setCategories] = useState<string[]>([]);
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCode(promotion?.code ?? "");
+    setName(promotion?.name ?? "");
+    setKind(promotion?.kind ?? "percent");
+    setValueInput(
+      promotion
+        ? promotion.kind === "percent"
+          ? String(Number((Number(promotion.value) * 100).toFixed(2)))
+          : Number(promotion.value).toFixed(2)
+        : "",
+    );
+    setScope(promotion?.scope ?? "all");
+    setCategories(promotion?.categories ?? []);
+    setStationIds(promotion?.stationIds ?? []);
+    setStartsAt(toLocalInput(promotion?.startsAt ?? null));
+    setEndsAt(toLocalInput(promotion?.endsAt ?? null));
+    setMaxUses(promotion?.maxUses != null ? String(promotion.maxUses) : "");
+    setIsEnabled(promotion?.isEnabled ?? true);
+  }, [open, promotion]);
+
+  // Keep categories the promotion already has even if no menu item uses them any more.
+  const categoryOptions = useMemo(
+    () => Array.from(new Set([...menuCategories, ...(promotion?.categories ?? [])])),
+    [menuCategories, promotion],
+  );
+
+  const value = Number(valueInput);
+  const uses = Number(maxUses);
+  const validValue =
+    valueInput.trim() !== "" && Number.isFinite(value) && value > 0 && (kind === "amount" || value <= 100);
+  const validUses = maxUses.trim() === "" || (Number.isInteger(uses) && uses > 0);
+  const canSave =
+    code.trim().length >= 2 &&
+    name.trim().length > 0 &&
+    validValue &&
+    validUses &&
+    (scope !== "categories" || categories.length > 0) &&
+    (scope !== "stations" || stationIds.length > 0);
+
+  async function handleSave() {
+    if (!canSave) return;
+    const body = {
+      code: code.trim(),
+      name: name.trim(),
+      kind,
+      value: kind === "percent" ? Number((value / 100).toFixed(4)) : Math.round(value * 100) / 100,
+      scope,
+      categories: scope === "categories" ? categories : [],
+      stationIds: scope === "stations" ? stationIds : [],
+      startsAt: fromLocalInput(startsAt),
+      endsAt: fromLocalInput(endsAt),
+      maxUses: maxUses.trim() === "" ? null : uses,
+      isEnabled,
+    };
+    try {
+      setSaving(true);
+      if (promotion) {
+        await patchWithAuth(`/api/promotions/${promotion.id}`, body);
+      } else {
+        await postWithAuth("/api/promotions", body);
+      }
+      await qc.invalidateQueries({ queryKey: ["promotions"] });
+      toast({ title: promotion ? "Promotion updated" : "Promotion added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-promotion">
+        <DialogHeader>
+          <DialogTitle>{promotion ? "Edit Promotion" : "Add Promotion"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Code</label>
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="SUMMER10"
+                className="font-mono"
+                data-testid="input-promotion-code"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Summer special" />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Discount</label>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={kind === "percent" ? "default" : "outline"}
+                onClick={() => setKind("percent")}
+              >
+                %
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={kind === "amount" ? "default" : "outline"}
+                onClick={() => setKind("amount")}
+              >
+                $
+              </Button>
+              <Input
+                inputMode="decimal"
+                value={valueInput}
+                onChange={(e) => setValueInput(e.target.value)}
+                placeholder={kind === "percent" ? "10" : "5.00"}
+                className="w-28 font-mono"
+                data-testid="input-promotion-value"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Applies to</label>
+            <div className="flex flex-wrap gap-1">
+              {SCOPE_OPTIONS.map((option) => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  size="sm"
+                  variant={scope === option.value ? "default" : "outline"}
+                  onClick={() => setScope(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            {scope === "categories" && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {categoryOptions.map((category) => (
+                  <Button
+                    key={category}
+                    type="button"
+                    size="sm"
+                    variant={categories.includes(category) ? "default" : "outline"}
+                    onClick={() => setCategories((prev) => toggle(prev, category))}
+                  >
+                    {category}
+                  </Button>
+                ))}
+                {categoryOptions.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Add menu items to choose their categories.</p>
+                )}
+              </div>
+            )}
+            {scope === "stations" && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {stations.map((station) => (
+                  <Button
+                    key={station.id}
+                    type="button"
+                    size="sm"
+                    variant={stationIds.includes(station.id) ? "default" : "outline"}
+                    onClick={() => setStationIds((prev) => toggle(prev, station.id))}
+                  >
+                    {station.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Starts</label>
+              <Input
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                className="font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Ends</label>
+              <Input
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className="font-mono text-xs"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Usage limit</label>
+              <Input
+                inputMode="numeric"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                placeholder="Unlimited"
+                className="font-mono"
+                data-testid="input-promotion-max-uses"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Status</label>
+              <Button
+                type="button"
+                className="w-full"
+                variant={isEnabled ? "default" : "outline"}
+                onClick={() => setIsEnabled((v) => !v)}
+              >
+                {isEnabled ? "Enabled" : "Disabled"}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,414 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface RateSchedule {
+  id: string;
+  name: string;
+  stationId: string | null;
+  stationType: string | null;
+  daysOfWeek: number[];
+  startMinute: number;
+  endMinute: number;
+  rateSoloHourly: string;
+  rateGroupHourly: string;
+  priority: number;
+  isEnabled: boolean;
+}
+
+interface StationOption {
+  id: string;
+  name: string;
+}
+
+interface RateSchedulesCardProps {
+  timeZone: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const STATION_TYPES = ["pool", "gaming", "foosball"];
+
+function minutesToTime(minutes: number): string {
+  const clamped = minutes % 1440;
+  return `${String(Math.floor(clamped / 60)).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+}
+
+function timeToMinutes(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function listTimeZones(): string[] {
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supported ? supported("timeZone") : ["UTC"];
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function RateSchedulesCard({ timeZone }: RateSchedulesCardProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [selectedTimeZone, setSelectedTimeZone] = useState(timeZone);
+  const [editing, setEditing] = useState<RateSchedule | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => setSelectedTimeZone(timeZone), [timeZone]);
+
+  const timeZones = useMemo(() => {
+    const zones = listTimeZones();
+    return zones.includes(timeZone) ? zones : [timeZone, ...zones];
+  }, [timeZone]);
+
+  const { data: schedules = [] } = useQuery<RateSchedule[]>({
+    queryKey: ["rate-schedules"],
+    queryFn: () => fetchWithAuth<RateSchedule[]>("/api/rate-schedules"),
+  });
+
+  const { data: stations = [] } = useQuery<StationOption[]>({
+    queryKey: ["stations"],
+    queryFn: () => fetchWithAuth<StationOption[]>("/api/stations"),
+  });
+
+  const stationNames = useMemo(() => new Map(stations.map((st) => [st.id, st.name])), [stations]);
+
+  async function saveTimeZone() {
+    try {
+      await patchWithAuth("/api/settings/timezone", { timeZone: selectedTimeZone });
+      await qc.invalidateQueries({ queryKey: ["me"] });
+      toast({ title: "Time zone saved" });
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  async function removeSchedule(schedule: RateSchedule) {
+    try {
+      await deleteWithAuth(`/api/rate-schedules/${schedule.id}`);
+      await qc.invalidateQueries({ queryKey: ["rate-schedules"] });
+      toast({ title: "Rate schedule deleted" });
+    } catch (e: any) {
+      toast({ title: "Failed to delete", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-1">
+          Rate Schedules
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Charge different hourly rates by time of day and day of week. Times use the store time zone.
+        </p>
+      </div>
+
+      <div className="border-t border-border/50 pt-4 space-y-3">
+        <label className="text-sm font-medium">Store time zone</label>
+        <div className="flex gap-2">
+          <Select value={selectedTimeZone} onValueChange={setSelectedTimeZone}>
+            <SelectTrigger data-testid="select-time-zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone}>
+                  {zone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={saveTimeZone} disabled={selectedTimeZone === timeZone}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-t border-border/50 pt-4 space-y-3">
+        {schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No schedules. Stations bill at their base rates.</p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                data-testid={`rate-schedule-${schedule.id}`}
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium truncate">
+                    {schedule.name}
+                    {!schedule.isEnabled && <span className="ml-2 text-xs text-muted-foreground">(disabled)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.stationId
+                      ? stationNames.get(schedule.stationId) ?? "Station"
+                      : `All ${schedule.stationType} stations`}{" "}
+                    &middot; {schedule.daysOfWeek.map((day) => DAY_LABELS[day]).join(", ")} &middot;{" "}
+                    {minutesToTime(schedule.startMinute)}–{minutesToTime(schedule.endMinute)}
+                  </p>
+                  <p className="text-xs font-mono text-muted-foreground">
+                    Solo ${Number(schedule.rateSoloHourly).toFixed(2)}/hr &middot; Group $
+                    {Number(schedule.rateGroupHourly).toFixed(2)}/hr
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Edit schedule"
+                    onClick={() => {
+                      setEditing(schedule);
+                      setDialogOpen(true);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label="Delete schedule" onClick={() => removeSchedule(schedule)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setEditing(null);
+              setDialogOpen(true);
+            }}
+            data-testid="button-add-rate-schedule"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add schedule
+          </Button>
+        </div>
+      </div>
+
+      <RateScheduleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        schedule={editing}
+        stations={stations}
+      />
+    </Card>
+  );
+}
+
+// ─── Dialog ───────────────────────────────────────────────────────────────────
+
+function RateScheduleDialog({
+  open,
+  onOpenChange,
+  schedule,
+  stations,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: RateSchedule | null;
+  stations: StationOption[];
+}) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("type:pool");
+  const [days, setDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [startTime, setStartTime] = useState("12:00");
+  const [endTime, setEndTime] = useState("17:00");
+  const [rateSolo, setRateSolo] = useState("0.00");
+  const [rateGroup, setRateGroup] = useState("0.00");
+  const [priority, setPriority] = useState("0");
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(schedule?.name ?? "");
+    setTarget(schedule?.stationId ? `station:${schedule.stationId}` : `type:${schedule?.stationType ?? "pool"}`);
+    setDays(schedule?.daysOfWeek ?? [1, 2, 3, 4, 5]);
+    setStartTime(minutesToTime(schedule?.startMinute ?? 12 * 60));
+    setEndTime(minutesToTime(schedule?.endMinute ?? 17 * 60));
+    setRateSolo(Number(schedule?.rateSoloHourly ?? 0).toFixed(2));
+    setRateGroup(Number(schedule?.rateGroupHourly ?? 0).toFixed(2));
+    setPriority(String(schedule?.priority ?? 0));
+    setIsEnabled(schedule?.isEnabled ?? true);
+  }, [open, schedule]);
+
+  const startMinute = timeToMinutes(startTime);
+  const endMinuteRaw = timeToMinutes(endTime);
+  // "00:00" as an end time means midnight at the end of the day.
+  const endMinute = endMinuteRaw === 0 ? 1440 : endMinuteRaw;
+  const solo = Number(rateSolo);
+  const group = Number(rateGroup);
+  const canSave =
+    name.trim().length > 0 &&
+    days.length > 0 &&
+    startMinute !== null &&
+    endMinute !== null &&
+    startMinute !== endMinute % 1440 &&
+    Number.isFinite(solo) && solo >= 0 &&
+    Number.isFinite(group) && group >= 0 &&
+    Number.isInteger(Number(priority));
+
+  async function handleSave() {
+    if (!canSave) return;
+    const [kind, value] = target.split(":");
+    const body = {
+      name: name.trim(),
+      stationId: kind === "station" ? value : null,
+      stationType: kind === "type" ? value : null,
+      daysOfWeek: days,
+      startMinute,
+      endMinute,
+      rateSoloHourly: solo,
+      rateGroupHourly: group,
+      priority: Number(priority),
+      isEnabled,
+    };
+    try {
+      setSaving(true);
+      if (schedule) {
+        await patchWithAuth(`/api/rate-schedules/${schedule.id}`, body);
+      } else {
+        await postWithAuth("/api/rate-schedules", body);
+      }
+      await qc.invalidateQueries({ queryKey: ["rate-schedules"] });
+      toast({ title: schedule ? "Rate schedule updated" : "Rate schedule added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-rate-schedule">
+        <DialogHeader>
+          <DialogTitle>{schedule ? "Edit Rate Schedule" : "Add Rate Schedule"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Weekday happy hour" />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Applies to</label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATION_TYPES.map((type) => (
+                  <SelectItem key={type} value={`type:${type}`}>
+                    All {type} stations
+                  </SelectItem>
+                ))}
+                {stations.map((st) => (
+                  <SelectItem key={st.id} value={`station:${st.id}`}>
+                    {st.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Days</label>
+            <div className="flex flex-wrap gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={days.includes(day) ? "default" : "outline"}
+                  onClick={() =>
+                    setDays((prev) =>
+                      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+                    )
+                  }
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Starts</label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Ends</label>
+              <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            An end time earlier than the start runs past midnight into the next day.
+          </p>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Solo / hr</label>
+              <Input value={rateSolo} onChange={(e) => setRateSolo(e.target.value)} placeholder="0.00" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Group / hr</label>
+              <Input value={rateGroup} onChange={(e) => setRateGroup(e.target.value)} placeholder="0.00" />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Priority</label>
+              <Input inputMode="numeric" value={priority} onChange={(e) => setPriority(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between border rounded-md p-3 gap-3">
+            <div className="text-sm font-medium">Enabled</div>
+            <Button type="button" variant={isEnabled ? "default" : "outline"} onClick={() => setIsEnabled((v) => !v)}>
+              {isEnabled ? "Enabled" : "Disabled"}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, Phone, User, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type ReservationStatus = "booked" | "seated" | "cancelled" | "no_show";
+
+export interface Reservation {
+  id: string;
+  customerName: string;
+  customerPhone: string | null;
+  stationId: string | null;
+  stationType: string | null;
+  startsAt: string;
+  endsAt: string;
+  partySize: number;
+  status: ReservationStatus;
+  notes: string | null;
+  sessionId: string | null;
+}
+
+export interface ReservationPayload {
+  customerName: string;
+  customerPhone: string | null;
+  stationId: string | null;
+  stationType: string | null;
+  startsAt: string;
+  endsAt: string;
+  partySize: number;
+  notes: string | null;
+}
+
+interface StationOption {
+  id: string;
+  name: string;
+  stationType: string;
+}
+
+interface ReservationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stations: StationOption[];
+  /** Edit this reservation; omit to create one. */
+  reservation?: Reservation | null;
+  /** Local date (YYYY-MM-DD) new reservations default to. */
+  defaultDate: string;
+  saving?: boolean;
+  onSave: (payload: ReservationPayload) => void;
+}
+
+const STATION_TYPES = ["pool", "gaming", "foosball"];
+const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240];
+
+export function formatReservationTime(value: string): string {
+  return new Date(value).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true });
+}
+
+function toLocalDate(value: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function toLocalTime(value: Date): string {
+  return value.toTimeString().slice(0, 5);
+}
+
+export function ReservationDialog({
+  open,
+  onOpenChange,
+  stations,
+  reservation,
+  defaultDate,
+  saving = false,
+  onSave,
+}: ReservationDialogProps) {
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [target, setTarget] = useState("type:pool");
+  const [date, setDate] = useState(defaultDate);
+  const [time, setTime] = useState("19:00");
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [partySize, setPartySize] = useState("2");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    if (reservation) {
+      const startsAt = new Date(reservation.startsAt);
+      const endsAt = new Date(reservation.endsAt);
+      setCustomerName(reservation.customerName);
+      setCustomerPhone(reservation.customerPhone ?? "");
+      setTarget(reservation.stationId ? `station:${reservation.stationId}` : `type:${reservation.stationType ?? "pool"}`);
+      setDate(toLocalDate(startsAt));
+      setTime(toLocalTime(startsAt));
+      setDurationMinutes(Math.max(15, Math.round((endsAt.getTime() - startsAt.getTime()) / 60000)));
+      setPartySize(String(reservation.partySize));
+      setNotes(reservation.notes ?? "");
+    } else {
+      setCustomerName("");
+      setCustomerPhone("");
+      setTarget("type:pool");
+      setDate(defaultDate);
+      setTime("19:00");
+      setDurationMinutes(60);
+      setPartySize("2");
+      setNotes("");
+    }
+  }, [open, reservation, defaultDate]);
+
+  const party = Number(partySize);
+  const canSave = customerName.trim().length > 0 && !!date && !!time && Number.isInteger(party) && party >= 1;
+
+  const handleSave = () => {
+    const startsAt = new Date(`${date}T${time}:00`);
+    const endsAt = new Date(startsAt.getTime() + durationMinutes * 60000);
+    const [kind, value] = target.split(":");
+    onSave({
+      customerName: customerName.trim(),
+      customerPhone: customerPhone.trim() || null,
+      stationId: kind === "station" ? value : null,
+      stationType: kind === "type" ? value : null,
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      partySize: party,
+      notes: notes.trim() || null,
+    });
+  };
+
+  const durationOptions = DURATION_OPTIONS.includes(durationMinutes)
+    ? DURATION_OPTIONS
+    : [...DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-reservation">
+        <DialogHeader>
+          <DialogTitle>{reservation ? "Edit Reservation" : "New Reservation"}</DialogTitle>
+          <DialogDescription>Book a station, or any station of a type, ahead of time.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="reservation-name" className="flex items-center gap-2">
+                <User className="w-4 h-4" />
+                Name
+              </Label>
+              <Input
+                id="reservation-name"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                maxLength={100}
+                data-testid="input-reservation-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation-phone" className="flex items-center gap-2">
+                <Phone className="w-4 h-4" />
+                Phone
+              </Label>
+              <Input
+                id="reservation-phone"
+                type="tel"
+                placeholder="Optional"
+                value={customerPhone}
+                onChange={(e) => setCustomerPhone(e.target.value)}
+                maxLength={32}
+                data-testid="input-reservation-phone"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Station</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger data-testid="select-reservation-station">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATION_TYPES.map((type) => (
+                  <SelectItem key={type} value={`type:${type}`}>
+                    Any {type} station
+                  </SelectItem>
+                ))}
+                {stations.map((station) => (
+                  <SelectItem key={station.id} value={`station:${station.id}`}>
+                    {station.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2 col-span-1">
+              <Label htmlFor="reservation-date" className="flex items-center gap-2">
+                <CalendarClock className="w-4 h-4" />
+                Date
+              </Label>
+              <Input
+                id="reservation-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservation-time">Time</Label>
+              <Input
+                id="reservation-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Length</Label>
+              <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+                <SelectTrigger data-testid="select-reservation-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durationOptions.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="reservation-party" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Party
+              </Label>
+              <Input
+                id="reservation-party"
+                type="number"
+                min="1"
+                max="50"
+                value={partySize}
+                onChange={(e) => setPartySize(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="reservation-notes">Notes</Label>
+              <Input
+                id="reservation-notes"
+                placeholder="Optional"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving} data-testid="button-save-reservation">
+            {reservation ? "Save" : "Book"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type SessionAdjustmentType = "reopen" | "void" | "refund";
+
+type TenderType = "cash" | "card" | "other" | "gift_card";
+
+export interface SessionAdjustmentPayload {
+  reason: string;
+  /** Reopen only. */
+  status?: "active" | "paused";
+  /** Refund only. */
+  amount?: number;
+  tenderType?: TenderType;
+}
+
+interface SessionAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: SessionAdjustmentType;
+  stationName: string;
+  /** Amount still refundable on the checkout. */
+  refundable: number;
+  defaultTenderType: TenderType;
+  /** Offer refunding to the gift card that paid. */
+  giftCardPaid?: boolean;
+  saving?: boolean;
+  onConfirm: (payload: SessionAdjustmentPayload) => void;
+}
+
+const COPY: Record<SessionAdjustmentType, { title: string; description: string; confirm: string }> = {
+  reopen: {
+    title: "Reopen Session",
+    description: "The checkout is removed and the session goes back on its station.",
+    confirm: "Reopen",
+  },
+  void: {
+    title: "Void Session",
+    description: "The sale stops counting toward totals. Payments stay on record.",
+    confirm: "Void",
+  },
+  refund: {
+    title: "Refund Session",
+    description: "Record money returned to the customer as a negative payment.",
+    confirm: "Refund",
+  },
+};
+
+export function SessionAdjustmentDialog({
+  open,
+  onOpenChange,
+  type,
+  stationName,
+  refundable,
+  defaultTenderType,
+  giftCardPaid = false,
+  saving = false,
+  onConfirm,
+}: SessionAdjustmentDialogProps) {
+  const [reason, setReason] = useState("");
+  const [status, setStatus] = useState<"active" | "paused">("paused");
+  const [amount, setAmount] = useState("");
+  const [tenderType, setTenderType] = useState<TenderType>(defaultTenderType);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason("");
+    setStatus("paused");
+    setAmount(refundable.toFixed(2));
+    setTenderType(defaultTenderType);
+  }, [open, refundable, defaultTenderType]);
+
+  const parsedAmount = Number(amount);
+  const validAmount = Number.isFinite(parsedAmount) && parsedAmount > 0 && parsedAmount <= refundable;
+  const canConfirm = reason.trim().length > 0 && (type !== "refund" || validAmount);
+  const copy = COPY[type];
+
+  const handleConfirm = () => {
+    onConfirm({
+      reason: reason.trim(),
+      ...(type === "reopen" && { status }),
+      ...(type === "refund" && { amount: parsedAmount, tenderType }),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" data-testid={`dialog-session-${type}`}>
+        <DialogHeader>
+          <DialogTitle>
+            {copy.title} — {stationName}
+          </DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {type === "reopen" && (
+            <div className="space-y-2">
+              <Label>Reopen as</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as "active" | "paused")}>
+                <SelectTrigger data-testid="select-reopen-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paused">Paused at checkout time</SelectItem>
+                  <SelectItem value="active">Running (time since checkout is billed)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type === "refund" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="refund-amount">Amount</Label>
+                <Input
+                  id="refund-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={refundable.toFixed(2)}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="font-mono"
+                  data-testid="input-refund-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Refund to</Label>
+                <Select value={tenderType} onValueChange={(value) => setTenderType(value as TenderType)}>
+                  <SelectTrigger data-testid="select-refund-tender">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                    {giftCardPaid && <SelectItem value="gift_card">Gift card</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Up to ${refundable.toFixed(2)} can be refunded.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-reason">Reason</Label>
+            <Input
+              id="adjustment-reason"
+              placeholder="Required"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              data-testid="input-adjustment-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={type === "reopen" ? "default" : "destructive"}
+            onClick={handleConfirm}
+            disabled={!canConfirm || saving}
+            data-testid="button-confirm-adjustment"
+          >
+            {copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
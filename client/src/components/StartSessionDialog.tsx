@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { Clock, User } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CalendarClock, Clock, Hourglass, User, UserPlus, Users, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +12,45 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { fetchWithAuth } from "@/lib/api";
+import { fromTierValue, tierRate, type StationRateOption, type TierValue } from "@/lib/tiers";
+
+export interface PrepaidSelection {
+  minutes: number;
+  /** Omitted to let the server charge the station's rate for the prepaid minutes. */
+  amount?: number;
+}
+
+const PREPAID_OPTIONS = [
+  { minutes: 30, label: "30m" },
+  { minutes: 60, label: "1h" },
+  { minutes: 120, label: "2h" },
+  { minutes: 180, label: "3h" },
+];
+
+/** The loyalty customer a new session is attached to: an existing record, or a phone to find or create. */
+export type SessionCustomerSelection = { customerId: string } | { customerPhone: string };
+
+interface CustomerOption {
+  id: string;
+  phoneNumber: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+function customerLabel(customer: CustomerOption): string {
+  return [customer.firstName, customer.lastName].filter(Boolean).join(" ") || customer.phoneNumber;
+}
+
+const MAX_CUSTOMER_MATCHES = 5;
+
+export interface StationReservation {
+  id: string;
+  customerName: string;
+  startsAt: string;
+  endsAt: string;
+  partySize: number;
+}
 
 interface StartSessionDialogProps {
   open: boolean;
@@ -18,7 +58,24 @@ interface StartSessionDialogProps {
   stationName: string;
   rateSoloHourly?: number | string;
   rateGroupHourly?: number | string;
-  onConfirmStart: (customStartTime: number, pricingTier: "solo" | "group", customerName?: string) => void;
+  /** The station's own tiers; disabled ones are not offered. */
+  stationRates?: StationRateOption[];
+  /** A booking on this station that a walk-in session would run into. */
+  reservation?: StationReservation | null;
+  /** Open already set to seat `reservation`. */
+  seatReservation?: boolean;
+  /** A party being seated from the waitlist; fills in the name and tier. */
+  waitlistParty?: { customerName: string; partySize: number } | null;
+  onConfirmStart: (
+    customStartTime: number,
+    pricingTier: "solo" | "group",
+    customerName?: string,
+    prepaid?: PrepaidSelection,
+    reservationId?: string,
+    stationRateId?: string,
+    players?: string[],
+    customer?: SessionCustomerSelection,
+  ) => void;
 }
 
 export function StartSessionDialog({
@@ -27,13 +84,52 @@ export function StartSessionDialog({
   stationName,
   rateSoloHourly,
   rateGroupHourly,
+  stationRates = [],
+  reservation,
+  seatReservation = false,
+  waitlistParty,
   onConfirmStart,
 }: StartSessionDialogProps) {
   const now = new Date();
   const defaultTime = now.toTimeString().slice(0, 5); // HH:MM format
   const [customTime, setCustomTime] = useState(defaultTime);
-  const [pricingTier, setPricingTier] = useState<"solo" | "group">("solo");
+  const [pricingTier, setPricingTier] = useState<TierValue>("solo");
   const [customerName, setCustomerName] = useState("");
+  const [playerNames, setPlayerNames] = useState("");
+  const [customerQuery, setCustomerQuery] = useState("");
+  const [selectedCustomer, setSelectedCustomer] = useState<CustomerOption | null>(null);
+  const [newCustomerPhone, setNewCustomerPhone] = useState<string | null>(null);
+
+  const { data: customers = [] } = useQuery<CustomerOption[]>({
+    queryKey: ["customers"],
+    queryFn: () => fetchWithAuth<CustomerOption[]>("/api/customers"),
+    enabled: open,
+  });
+  const [prepaidMinutes, setPrepaidMinutes] = useState<number | null>(null);
+  const [prepaidAmount, setPrepaidAmount] = useState("");
+  const [seating, setSeating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSeating(seatReservation && !!reservation);
+    if (seatReservation && reservation) {
+      setCustomerName(reservation.customerName);
+      setPricingTier(reservation.partySize > 1 ? "group" : "solo");
+    } else if (waitlistParty) {
+      setCustomerName(waitlistParty.customerName);
+      setPricingTier(waitlistParty.partySize > 1 ? "group" : "solo");
+    }
+  }, [open, seatReservation, reservation, waitlistParty]);
+
+  const formatClock = (value: string) =>
+    new Date(value).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true });
+
+  const seatReservationNow = () => {
+    if (!reservation) return;
+    setSeating(true);
+    setCustomerName(reservation.customerName);
+    setPricingTier(reservation.partySize > 1 ? "group" : "solo");
+  };
 
   const formatRate = (val: number | string | undefined) => {
     if (val === undefined || val === null) return "—";
@@ -42,7 +138,77 @@ export function StartSessionDialog({
     return `$${n.toFixed(2)}`;
   };
 
-  const selectedRate = pricingTier === "group" ? rateGroupHourly : rateSoloHourly;
+  const tierOptions = stationRates.filter((option) => option.isEnabled);
+  const selectedRate = tierRate(pricingTier, { rateSoloHourly, rateGroupHourly, rates: stationRates });
+  const selectedTier = fromTierValue(pricingTier);
+  const suggestedPrepaidAmount =
+    prepaidMinutes !== null ? (Number(selectedRate ?? 0) * prepaidMinutes) / 60 : null;
+
+  const getPlayers = (): string[] | undefined => {
+    const names = playerNames
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    return names.length > 0 ? names : undefined;
+  };
+
+  const queryText = customerQuery.trim().toLowerCase();
+  const queryDigits = customerQuery.replace(/\D/g, "");
+  const customerMatches = queryText
+    ? customers
+        .filter(
+          (customer) =>
+            customerLabel(customer).toLowerCase().includes(queryText) ||
+            (queryDigits.length >= 3 && customer.phoneNumber.includes(queryDigits)),
+        )
+        .slice(0, MAX_CUSTOMER_MATCHES)
+    : [];
+  const canCreateCustomer = queryDigits.length >= 10 && customerMatches.length === 0;
+
+  const selectCustomer = (customer: CustomerOption) => {
+    setSelectedCustomer(customer);
+    setNewCustomerPhone(null);
+    setCustomerQuery("");
+    if (!customerName.trim()) {
+      const fullName = [customer.firstName, customer.lastName].filter(Boolean).join(" ");
+      if (fullName) setCustomerName(fullName);
+    }
+  };
+
+  const clearCustomer = () => {
+    setSelectedCustomer(null);
+    setNewCustomerPhone(null);
+  };
+
+  const getCustomer = (): SessionCustomerSelection | undefined => {
+    if (selectedCustomer) return { customerId: selectedCustomer.id };
+    if (newCustomerPhone) return { customerPhone: newCustomerPhone };
+    return undefined;
+  };
+
+  const getPrepaid = (): PrepaidSelection | undefined => {
+    if (prepaidMinutes === null) return undefined;
+    const amount = Number(prepaidAmount);
+    return {
+      minutes: prepaidMinutes,
+      amount: prepaidAmount.trim() !== "" && Number.isFinite(amount) && amount >= 0 ? amount : undefined,
+    };
+  };
+
+  const resetForm = () => {
+    setCustomTime(defaultTime);
+    setPricingTier("solo");
+    setCustomerName("");
+    setPlayerNames("");
+    setCustomerQuery("");
+    setSelectedCustomer(null);
+    setNewCustomerPhone(null);
+    setPrepaidMinutes(null);
+    setPrepaidAmount("");
+    setSeating(false);
+  };
+
+  const reservationId = seating ? reservation?.id : undefined;
 
   const handleConfirm = () => {
     const [hours, minutes] = customTime.split(':').map(Number);
@@ -54,19 +220,33 @@ export function StartSessionDialog({
       startDate.setDate(startDate.getDate() - 1);
     }
     
-    onConfirmStart(startDate.getTime(), pricingTier, customerName.trim() || undefined);
+    onConfirmStart(
+      startDate.getTime(),
+      selectedTier.pricingTier,
+      customerName.trim() || undefined,
+      getPrepaid(),
+      reservationId,
+      selectedTier.stationRateId ?? undefined,
+      getPlayers(),
+      getCustomer(),
+    );
     onOpenChange(false);
-    setCustomTime(defaultTime); // Reset for next time
-    setPricingTier("solo");
-    setCustomerName("");
+    resetForm(); // Reset for next time
   };
 
   const handleUseCurrentTime = () => {
-    onConfirmStart(Date.now(), pricingTier, customerName.trim() || undefined);
+    onConfirmStart(
+      Date.now(),
+      selectedTier.pricingTier,
+      customerName.trim() || undefined,
+      getPrepaid(),
+      reservationId,
+      selectedTier.stationRateId ?? undefined,
+      getPlayers(),
+      getCustomer(),
+    );
     onOpenChange(false);
-    setCustomTime(defaultTime);
-    setPricingTier("solo");
-    setCustomerName("");
+    resetForm();
   };
 
   return (
@@ -82,6 +262,46 @@ export function StartSessionDialog({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {waitlistParty && (
+            <div
+              className="flex items-start gap-2 rounded-md border border-primary/40 bg-primary/10 p-3 text-sm"
+              data-testid="text-seating-waitlist"
+            >
+              <Users className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+              <span>
+                Seating {waitlistParty.customerName}&apos;s party of {waitlistParty.partySize} from the waitlist.
+              </span>
+            </div>
+          )}
+          {reservation && (seating ? (
+            <div
+              className="flex items-start gap-2 rounded-md border border-primary/40 bg-primary/10 p-3 text-sm"
+              data-testid="text-seating-reservation"
+            >
+              <CalendarClock className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+              <span>
+                Seating {reservation.customerName}&apos;s reservation ({formatClock(reservation.startsAt)}, party of{" "}
+                {reservation.partySize}).
+              </span>
+            </div>
+          ) : (
+            <div
+              className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm"
+              data-testid="text-reservation-conflict"
+            >
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+              <div className="space-y-2">
+                <p>
+                  Reserved for {reservation.customerName} at {formatClock(reservation.startsAt)}–
+                  {formatClock(reservation.endsAt)}. A walk-in session here may run into that booking.
+                </p>
+                <Button type="button" size="sm" variant="outline" onClick={seatReservationNow} data-testid="button-seat-instead">
+                  Seat {reservation.customerName} instead
+                </Button>
+              </div>
+            </div>
+          ))}
+
           <div className="space-y-2">
             <Label htmlFor="customer-name" className="flex items-center gap-2">
               <User className="w-4 h-4" />
@@ -101,6 +321,97 @@ export function StartSessionDialog({
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="customer-search" className="flex items-center gap-2">
+              <UserPlus className="w-4 h-4" />
+              Loyalty Customer
+            </Label>
+            {selectedCustomer || newCustomerPhone ? (
+              <div
+                className="flex items-center justify-between rounded-md border bg-muted/30 px-3 py-2 text-sm"
+                data-testid="text-selected-customer"
+              >
+                <span>
+                  {selectedCustomer
+                    ? `${customerLabel(selectedCustomer)} · ${selectedCustomer.phoneNumber}`
+                    : `New customer · ${newCustomerPhone}`}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove customer"
+                  onClick={clearCustomer}
+                  data-testid="button-clear-customer"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <Input
+                  id="customer-search"
+                  type="text"
+                  placeholder="Search by name or phone"
+                  value={customerQuery}
+                  onChange={(e) => setCustomerQuery(e.target.value)}
+                  data-testid="input-customer-search"
+                />
+                {customerMatches.length > 0 && (
+                  <div className="rounded-md border divide-y">
+                    {customerMatches.map((customer) => (
+                      <button
+                        key={customer.id}
+                        type="button"
+                        className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-muted/50"
+                        onClick={() => selectCustomer(customer)}
+                        data-testid={`button-customer-${customer.id}`}
+                      >
+                        <span>{customerLabel(customer)}</span>
+                        <span className="text-muted-foreground">{customer.phoneNumber}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {canCreateCustomer && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setNewCustomerPhone(queryDigits);
+                      setCustomerQuery("");
+                    }}
+                    data-testid="button-create-customer"
+                  >
+                    Add new customer {queryDigits}
+                  </Button>
+                )}
+              </>
+            )}
+            <p className="text-xs text-muted-foreground">
+              The customer earns this session&apos;s time toward their loyalty discount when it closes.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="player-names" className="flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Players
+            </Label>
+            <Input
+              id="player-names"
+              type="text"
+              placeholder="Optional - e.g., Sam, Alex"
+              value={playerNames}
+              onChange={(e) => setPlayerNames(e.target.value)}
+              data-testid="input-player-names"
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma-separated. Players can also join or leave once the session is running.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label className="flex items-center gap-2">Pricing Tier</Label>
 
@@ -126,11 +437,74 @@ export function StartSessionDialog({
               </Button>
             </div>
 
+            {tierOptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {tierOptions.map((option) => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    size="sm"
+                    variant={pricingTier === option.id ? "default" : "outline"}
+                    onClick={() => setPricingTier(option.id)}
+                    data-testid={`button-tier-${option.id}`}
+                  >
+                    {option.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             <p className="text-xs text-muted-foreground" data-testid="text-selected-rate">
               Selected rate: {formatRate(selectedRate)} / hr
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Hourglass className="w-4 h-4" />
+              Prepaid Time
+            </Label>
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant={prepaidMinutes === null ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setPrepaidMinutes(null)}
+                data-testid="button-prepaid-none"
+              >
+                Open
+              </Button>
+              {PREPAID_OPTIONS.map((option) => (
+                <Button
+                  key={option.minutes}
+                  type="button"
+                  variant={prepaidMinutes === option.minutes ? "default" : "outline"}
+                  className="flex-1"
+                  onClick={() => setPrepaidMinutes(option.minutes)}
+                  data-testid={`button-prepaid-${option.minutes}`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            {prepaidMinutes !== null && (
+              <Input
+                id="prepaid-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={`Amount paid - defaults to ${formatRate(suggestedPrepaidAmount ?? undefined)}`}
+                value={prepaidAmount}
+                onChange={(e) => setPrepaidAmount(e.target.value)}
+                data-testid="input-prepaid-amount"
+              />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Prepaid sessions count down; time past the end is billed at the normal rate
+            </p>
+          </div>
 
           <div className="space-y-2">
             <Label htmlFor="start-time" className="flex items-center gap-2">
@@ -1,9 +1,11 @@
-import { Clock, Play, Square, Pencil, Trash2, Receipt, GripVertical } from "lucide-react";
+import { AlertTriangle, CalendarClock, Clock, Hourglass, Play, Square, Pencil, Trash2, Receipt, GripVertical } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { tierLabel } from "@/lib/tiers";
 import type { HTMLAttributes } from "react";
+import type { StationReservation } from "./StartSessionDialog";
 
 export type StationType = "pool" | "gaming" | "foosball";
 
@@ -15,11 +17,18 @@ interface StationCardProps {
   rateSoloHourly?: number | string;
   rateGroupHourly?: number | string;
   currentPricingTier?: "solo" | "group";
+  /** The station tier the session runs on, in place of solo/group. */
+  currentStationRate?: { name: string; rateHourly: number | string } | null;
   isPaused?: boolean;
   timeElapsed?: number;
   currentCharge?: number;
   startTime?: number;
   customerName?: string | null;
+  /** Set for prepaid sessions: the timer counts down from this and flags overtime. */
+  prepaidSeconds?: number | null;
+  /** The next booked reservation for this station, or one for its type that it is holding. */
+  nextReservation?: StationReservation | null;
+  onSeatReservation?: () => void;
   onStart: () => void;
   onStop: () => void;
   onResume?: () => void;
@@ -178,11 +187,15 @@ export function StationCard({
   rateSoloHourly,
   rateGroupHourly,
   currentPricingTier,
+  currentStationRate,
   isPaused = false,
   timeElapsed = 0,
   currentCharge = 0,
   startTime,
   customerName,
+  prepaidSeconds,
+  nextReservation,
+  onSeatReservation,
   onStart,
   onStop,
   onResume,
@@ -220,9 +233,14 @@ export function StationCard({
     });
 
   const showCurrentRateOnly = isActive && !!currentPricingTier;
-  const currentRate = currentPricingTier === "solo" ? rateSoloHourly : rateGroupHourly;
-  const currentTierLabel = currentPricingTier === "solo" ? "Solo" : "Group";
+  const currentRate =
+    currentStationRate?.rateHourly ?? (currentPricingTier === "solo" ? rateSoloHourly : rateGroupHourly);
+  const currentTierLabel = tierLabel(currentPricingTier ?? "group", currentStationRate?.name);
   const statusState: StatusState = !isActive ? "available" : isPaused ? "paused" : "active";
+  const prepaidTotal = prepaidSeconds ?? 0;
+  const isPrepaid = isActive && prepaidTotal > 0;
+  const remainingSeconds = prepaidTotal - timeElapsed;
+  const isOvertime = isPrepaid && remainingSeconds <= 0;
 
   return (
     <Card
@@ -231,6 +249,7 @@ export function StationCard({
         stationLeftBorder[type],
         isActive && !isPaused && "ring-1 ring-chart-3/30",
         isActive && isPaused && "ring-1 ring-chart-4/30",
+        isOvertime && "ring-2 ring-destructive/60",
         !isActive && "opacity-75",
         isDragOver && "ring-2 ring-primary"
       )}
@@ -320,6 +339,35 @@ export function StationCard({
 
         <div className="border-t border-border/40" />
 
+        {nextReservation && (
+          <div
+            className="flex items-center justify-between gap-2 rounded-md bg-primary/10 px-2.5 py-1.5 text-xs"
+            data-testid={`text-reservation-${id}`}
+          >
+            <span className="flex items-center gap-1.5 min-w-0">
+              <CalendarClock className="w-3.5 h-3.5 shrink-0 text-primary" />
+              <span className="truncate">
+                Reserved {formatStartTime(new Date(nextReservation.startsAt).getTime())} · {nextReservation.customerName} (
+                {nextReservation.partySize})
+              </span>
+            </span>
+            {!isActive && onSeatReservation && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSeatReservation();
+                }}
+                data-testid={`button-seat-reservation-${id}`}
+              >
+                Seat
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Body: live session data or idle rate grid */}
         {isActive ? (
           <div className="space-y-3">
@@ -335,15 +383,45 @@ export function StationCard({
                   Started {formatStartTime(startTime)}
                 </div>
               )}
-              <div className="flex items-center justify-center gap-2">
-                <Clock className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
-                <span
-                  className="text-2xl font-mono font-bold text-foreground leading-none"
-                  data-testid={`text-timer-${id}`}
-                >
-                  {formatTime(timeElapsed)}
-                </span>
-              </div>
+              {isPrepaid ? (
+                <>
+                  <div className="flex items-center justify-center gap-2">
+                    <Hourglass
+                      className={cn("w-3.5 h-3.5 shrink-0", isOvertime ? "text-destructive" : "text-muted-foreground")}
+                    />
+                    <span
+                      className={cn(
+                        "text-2xl font-mono font-bold leading-none",
+                        isOvertime ? "text-destructive" : "text-foreground"
+                      )}
+                      data-testid={`text-timer-${id}`}
+                    >
+                      {isOvertime ? "+" : ""}
+                      {formatTime(Math.abs(remainingSeconds))}
+                    </span>
+                  </div>
+                  {isOvertime ? (
+                    <Badge variant="destructive" className="text-xs gap-1" data-testid={`badge-overtime-${id}`}>
+                      <AlertTriangle className="w-3 h-3" />
+                      Over prepaid time
+                    </Badge>
+                  ) : (
+                    <div className="text-xs text-muted-foreground" data-testid={`text-prepaid-${id}`}>
+                      Remaining of {formatTime(prepaidTotal)} prepaid
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="flex items-center justify-center gap-2">
+                  <Clock className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                  <span
+                    className="text-2xl font-mono font-bold text-foreground leading-none"
+                    data-testid={`text-timer-${id}`}
+                  >
+                    {formatTime(timeElapsed)}
+                  </span>
+                </div>
+              )}
               <div>
                 <span
                   className="text-xl font-mono font-semibold text-primary"
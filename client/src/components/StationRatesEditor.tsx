@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { StationRateOption } from "@/lib/tiers";
+
+interface StationWithRates {
+  id: string;
+  rates: StationRateOption[];
+}
+
+type RateDraft = { name: string; rateHourly: string; isEnabled: boolean };
+
+function isValidDraft(draft: RateDraft): boolean {
+  const rate = Number(draft.rateHourly);
+  return draft.name.trim().length > 0 && draft.rateHourly.trim() !== "" && Number.isFinite(rate) && rate >= 0;
+}
+
+function toPayload(draft: RateDraft) {
+  return { name: draft.name.trim(), rateHourly: Number(draft.rateHourly).toFixed(2), isEnabled: draft.isEnabled };
+}
+
+/**
+ * Named tiers a station offers besides solo and group. Each row saves on its own;
+ * sessions snapshot the tier's name and rate, so edits only reach time billed afterwards.
+ */
+export function StationRatesEditor({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, RateDraft>>({});
+  const [newDraft, setNewDraft] = useState<RateDraft>({ name: "", rateHourly: "", isEnabled: true });
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: stations = [] } = useQuery<StationWithRates[]>({
+    queryKey: ["stations"],
+    queryFn: () => fetchWithAuth<StationWithRates[]>("/api/stations"),
+  });
+  const rates = stations.find((st) => st.id === stationId)?.rates ?? [];
+
+  useEffect(() => {
+    setDrafts(
+      Object.fromEntries(
+        rates.map((rate) => [
+          rate.id,
+          { name: rate.name, rateHourly: Number(rate.rateHourly).toFixed(2), isEnabled: rate.isEnabled },
+        ]),
+      ),
+    );
+  }, [stations, stationId]);
+
+  const updateDraft = (id: string, patch: Partial<RateDraft>) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  async function run(id: string, action: () => Promise<unknown>, failure: string) {
+    setBusyId(id);
+    try {
+      await action();
+      await qc.invalidateQueries({ queryKey: ["stations"] });
+      return true;
+    } catch (e: any) {
+      toast({ title: failure, description: e?.message ?? "Please try again", variant: "destructive" });
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function add() {
+    const added = await run(
+      "new",
+      () => postWithAuth(`/api/stations/${stationId}/rates`, { ...toPayload(newDraft), sortOrder: rates.length }),
+      "Failed to add tier",
+    );
+    if (added) setNewDraft({ name: "", rateHourly: "", isEnabled: true });
+  }
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div>
+        <div className="text-sm font-medium">Pricing tiers</div>
+        <div className="text-xs text-muted-foreground">
+          Extra tiers such as Student or League night, offered next to Solo and Group.
+        </div>
+      </div>
+
+      {rates.map((rate) => {
+        const draft = drafts[rate.id];
+        if (!draft) return null;
+        return (
+          <div key={rate.id} className="flex items-center gap-2" data-testid={`station-rate-${rate.id}`}>
+            <Input
+              value={draft.name}
+              onChange={(e) => updateDraft(rate.id, { name: e.target.value })}
+              aria-label="Tier name"
+              className="flex-1"
+            />
+            <Input
+              value={draft.rateHourly}
+              onChange={(e) => updateDraft(rate.id, { rateHourly: e.target.value })}
+              aria-label="Hourly rate"
+              className="w-24"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant={draft.isEnabled ? "default" : "outline"}
+              onClick={() => updateDraft(rate.id, { isEnabled: !draft.isEnabled })}
+            >
+              {draft.isEnabled ? "On" : "Off"}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Save tier"
+              disabled={!isValidDraft(draft) || busyId !== null}
+              onClick={() =>
+                run(
+                  rate.id,
+                  () => patchWithAuth(`/api/stations/${stationId}/rates/${rate.id}`, toPayload(draft)),
+                  "Failed to save tier",
+                )
+              }
+            >
+              <Save className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Delete tier"
+              disabled={busyId !== null}
+              onClick={() =>
+                run(rate.id, () => deleteWithAuth(`/api/stations/${stationId}/rates/${rate.id}`), "Failed to delete tier")
+              }
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newDraft.name}
+          onChange={(e) => setNewDraft((prev) => ({ ...prev, name: e.target.value }))}
+          placeholder="New tier"
+          className="flex-1"
+          data-testid="input-new-tier-name"
+        />
+        <Input
+          value={newDraft.rateHourly}
+          onChange={(e) => setNewDraft((prev) => ({ ...prev, rateHourly: e.target.value }))}
+          placeholder="0.00"
+          className="w-24"
+          data-testid="input-new-tier-rate"
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={!isValidDraft(newDraft) || busyId !== null}
+          onClick={add}
+          data-testid="button-add-tier"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
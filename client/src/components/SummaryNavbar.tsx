@@ -1,12 +1,16 @@
 import {
+  CalendarDays,
+  Gift,
   LogOut,
   Moon,
   Pause,
   Sun,
   Search,
   Settings as SettingsIcon,
+  Ticket,
   History as HistoryIcon,
   UtensilsCrossed,
+  Users,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -19,6 +23,10 @@ interface SummaryNavbarProps {
   onLookup: () => void;
   onMenu: () => void;
   onHistory: () => void;
+  onReservations: () => void;
+  onCustomers: () => void;
+  onGiftCards: () => void;
+  onVouchers: () => void;
   onSettings: () => void;
   onLogout: () => void;
   onToggleTheme: () => void;
@@ -34,6 +42,10 @@ export function SummaryNavbar({
   onLookup,
   onMenu,
   onHistory,
+  onReservations,
+  onCustomers,
+  onGiftCards,
+  onVouchers,
   onSettings,
   onLogout,
   onToggleTheme,
@@ -102,6 +114,22 @@ export function SummaryNavbar({
             <HistoryIcon className="w-4 h-4 sm:mr-1.5" />
             <span className="hidden sm:inline">History</span>
           </Button>
+          <Button variant="outline" size="sm" onClick={onReservations}>
+            <CalendarDays className="w-4 h-4 sm:mr-1.5" />
+            <span className="hidden sm:inline">Bookings</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={onCustomers}>
+            <Users className="w-4 h-4 sm:mr-1.5" />
+            <span className="hidden sm:inline">Customers</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={onGiftCards}>
+            <Gift className="w-4 h-4 sm:mr-1.5" />
+            <span className="hidden sm:inline">Gift Cards</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={onVouchers}>
+            <Ticket className="w-4 h-4 sm:mr-1.5" />
+            <span className="hidden sm:inline">Vouchers</span>
+          </Button>
           <Button variant="outline" size="sm" onClick={onSettings}>
             <SettingsIcon className="w-4 h-4 sm:mr-1.5" />
             <span className="hidden sm:inline">Settings</span>
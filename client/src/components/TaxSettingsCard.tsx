@@ -0,0 +1,496 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface TaxRate {
+  id: string;
+  name: string;
+  rate: string;
+  isEnabled: boolean;
+}
+
+interface TaxClass {
+  id: string;
+  name: string;
+  taxRateIds: string[];
+  categories: string[];
+  appliesToTime: boolean;
+}
+
+interface MenuItemCategory {
+  category: string;
+}
+
+interface TaxSettingsCardProps {
+  pricesIncludeTax: boolean;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** 0.0825 → "8.25%". */
+function formatTaxRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(3))}%`;
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value];
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function TaxSettingsCard({ pricesIncludeTax }: TaxSettingsCardProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [editingRate, setEditingRate] = useState<TaxRate | null>(null);
+  const [rateDialogOpen, setRateDialogOpen] = useState(false);
+  const [editingClass, setEditingClass] = useState<TaxClass | null>(null);
+  const [classDialogOpen, setClassDialogOpen] = useState(false);
+
+  const { data: rates = [] } = useQuery<TaxRate[]>({
+    queryKey: ["tax-rates"],
+    queryFn: () => fetchWithAuth<TaxRate[]>("/api/tax-rates"),
+  });
+
+  const { data: classes = [] } = useQuery<TaxClass[]>({
+    queryKey: ["tax-classes"],
+    queryFn: () => fetchWithAuth<TaxClass[]>("/api/tax-classes"),
+  });
+
+  const { data: menu = [] } = useQuery<MenuItemCategory[]>({
+    queryKey: ["menu"],
+    queryFn: () => fetchWithAuth<MenuItemCategory[]>("/api/menu"),
+  });
+
+  const rateById = useMemo(() => new Map(rates.map((rate) => [rate.id, rate])), [rates]);
+  const menuCategories = useMemo(
+    () => Array.from(new Set(menu.map((item) => item.category))).sort((a, b) => a.localeCompare(b)),
+    [menu],
+  );
+
+  async function saveInclusive(value: boolean) {
+    try {
+      await patchWithAuth("/api/settings/tax", { pricesIncludeTax: value });
+      await qc.invalidateQueries({ queryKey: ["me"] });
+      toast({ title: "Tax setting saved" });
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  async function removeRate(rate: TaxRate) {
+    try {
+      await deleteWithAuth(`/api/tax-rates/${rate.id}`);
+      await qc.invalidateQueries({ queryKey: ["tax-rates"] });
+      await qc.invalidateQueries({ queryKey: ["tax-classes"] });
+      toast({ title: "Tax rate deleted" });
+    } catch (e: any) {
+      toast({ title: "Failed to delete", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  async function removeClass(taxClass: TaxClass) {
+    try {
+      await deleteWithAuth(`/api/tax-classes/${taxClass.id}`);
+      await qc.invalidateQueries({ queryKey: ["tax-classes"] });
+      toast({ title: "Tax class deleted" });
+    } catch (e: any) {
+      toast({ title: "Failed to delete", description: e?.message ?? "Please try again", variant: "destructive" });
+    }
+  }
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-1">Sales Tax</p>
+        <p className="text-sm text-muted-foreground">
+          Group tax rates into classes and assign each class to menu categories or table time. Anything without a
+          class is not taxed. Tax is worked out when a session is checked out and kept with its checkout.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between border rounded-md p-3 gap-3">
+        <div>
+          <div className="text-sm font-medium">Prices include tax</div>
+          <div className="text-xs text-muted-foreground">
+            {pricesIncludeTax
+              ? "Tax is backed out of menu and table prices."
+              : "Tax is added on top of menu and table prices."}
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant={pricesIncludeTax ? "default" : "outline"}
+          onClick={() => saveInclusive(!pricesIncludeTax)}
+          data-testid="button-toggle-prices-include-tax"
+        >
+          {pricesIncludeTax ? "Included" : "Added"}
+        </Button>
+      </div>
+
+      <div className="border-t border-border/50 pt-4 space-y-3">
+        <label className="text-sm font-medium">Tax rates</label>
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tax rates yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {rates.map((rate) => (
+              <div
+                key={rate.id}
+                className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                data-testid={`tax-rate-${rate.id}`}
+              >
+                <p className="text-sm font-medium truncate">
+                  {rate.name}
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">{formatTaxRate(Number(rate.rate))}</span>
+                  {!rate.isEnabled && <span className="ml-2 text-xs text-muted-foreground">(disabled)</span>}
+                </p>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Edit tax rate"
+                    onClick={() => {
+                      setEditingRate(rate);
+                      setRateDialogOpen(true);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label="Delete tax rate" onClick={() => removeRate(rate)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setEditingRate(null);
+              setRateDialogOpen(true);
+            }}
+            data-testid="button-add-tax-rate"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add rate
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-t border-border/50 pt-4 space-y-3">
+        <label className="text-sm font-medium">Tax classes</label>
+        {classes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tax classes. Nothing is taxed.</p>
+        ) : (
+          <div className="space-y-2">
+            {classes.map((taxClass) => {
+              const classRates = taxClass.taxRateIds.flatMap((id) => {
+                const rate = rateById.get(id);
+                return rate ? [rate] : [];
+              });
+              const appliesTo = [...(taxClass.appliesToTime ? ["Table time"] : []), ...taxClass.categories];
+              return (
+                <div
+                  key={taxClass.id}
+                  className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                  data-testid={`tax-class-${taxClass.id}`}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <p className="text-sm font-medium truncate">{taxClass.name}</p>
+                    <p className="text-xs font-mono text-muted-foreground">
+                      {classRates.length > 0
+                        ? classRates.map((rate) => `${rate.name} ${formatTaxRate(Number(rate.rate))}`).join(" + ")
+                        : "No rates"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {appliesTo.length > 0 ? appliesTo.join(", ") : "Not assigned"}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Edit tax class"
+                      onClick={() => {
+                        setEditingClass(taxClass);
+                        setClassDialogOpen(true);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" aria-label="Delete tax class" onClick={() => removeClass(taxClass)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setEditingClass(null);
+              setClassDialogOpen(true);
+            }}
+            disabled={rates.length === 0}
+            data-testid="button-add-tax-class"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add class
+          </Button>
+        </div>
+      </div>
+
+      <TaxRateDialog open={rateDialogOpen} onOpenChange={setRateDialogOpen} rate={editingRate} />
+      <TaxClassDialog
+        open={classDialogOpen}
+        onOpenChange={setClassDialogOpen}
+        taxClass={editingClass}
+        rates={rates}
+        menuCategories={menuCategories}
+      />
+    </Card>
+  );
+}
+
+// ─── Dialogs ──────────────────────────────────────────────────────────────────
+
+function TaxRateDialog({
+  open,
+  onOpenChange,
+  rate,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rate: TaxRate | null;
+}) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [name, setName] = useState("");
+  const [ratePct, setRatePct] = useState("");
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rate?.name ?? "");
+    setRatePct(rate ? String(Number((Number(rate.rate) * 100).toFixed(3))) : "");
+    setIsEnabled(rate?.isEnabled ?? true);
+  }, [open, rate]);
+
+  const pct = Number(ratePct);
+  const canSave = name.trim().length > 0 && ratePct.trim() !== "" && Number.isFinite(pct) && pct >= 0 && pct <= 100;
+
+  async function handleSave() {
+    if (!canSave) return;
+    const body = { name: name.trim(), rate: Number((pct / 100).toFixed(5)), isEnabled };
+    try {
+      setSaving(true);
+      if (rate) {
+        await patchWithAuth(`/api/tax-rates/${rate.id}`, body);
+      } else {
+        await postWithAuth("/api/tax-rates", body);
+      }
+      await qc.invalidateQueries({ queryKey: ["tax-rates"] });
+      toast({ title: rate ? "Tax rate updated" : "Tax rate added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm" data-testid="dialog-tax-rate">
+        <DialogHeader>
+          <DialogTitle>{rate ? "Edit Tax Rate" : "Add Tax Rate"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., State sales tax" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Rate (%)</label>
+            <Input
+              inputMode="decimal"
+              value={ratePct}
+              onChange={(e) => setRatePct(e.target.value)}
+              placeholder="8.25"
+              className="font-mono"
+              data-testid="input-tax-rate"
+            />
+          </div>
+          <div className="flex items-center justify-between border rounded-md p-3 gap-3">
+            <div className="text-sm font-medium">Enabled</div>
+            <Button type="button" variant={isEnabled ? "default" : "outline"} onClick={() => setIsEnabled((v) => !v)}>
+              {isEnabled ? "Enabled" : "Disabled"}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TaxClassDialog({
+  open,
+  onOpenChange,
+  taxClass,
+  rates,
+  menuCategories,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taxClass: TaxClass | null;
+  rates: TaxRate[];
+  menuCategories: string[];
+}) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [name, setName] = useState("");
+  const [taxRateIds, setTaxRateIds] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [appliesToTime, setAppliesToTime] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(taxClass?.name ?? "");
+    setTaxRateIds(taxClass?.taxRateIds ?? []);
+    setCategories(taxClass?.categories ?? []);
+    setAppliesToTime(taxClass?.appliesToTime ?? false);
+  }, [open, taxClass]);
+
+  // Keep categories the class already has even if no menu item uses them any more.
+  const categoryOptions = useMemo(
+    () => Array.from(new Set([...menuCategories, ...(taxClass?.categories ?? [])])),
+    [menuCategories, taxClass],
+  );
+
+  const canSave = name.trim().length > 0 && taxRateIds.length > 0;
+
+  async function handleSave() {
+    if (!canSave) return;
+    const body = { name: name.trim(), taxRateIds, categories, appliesToTime };
+    try {
+      setSaving(true);
+      if (taxClass) {
+        await patchWithAuth(`/api/tax-classes/${taxClass.id}`, body);
+      } else {
+        await postWithAuth("/api/tax-classes", body);
+      }
+      await qc.invalidateQueries({ queryKey: ["tax-classes"] });
+      toast({ title: taxClass ? "Tax class updated" : "Tax class added" });
+      onOpenChange(false);
+    } catch (e: any) {
+      toast({ title: "Failed to save", description: e?.message ?? "Please try again", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-tax-class">
+        <DialogHeader>
+          <DialogTitle>{taxClass ? "Edit Tax Class" : "Add Tax Class"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Name</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Prepared food" />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Rates charged</label>
+            <div className="flex flex-wrap gap-1">
+              {rates.map((rate) => (
+                <Button
+                  key={rate.id}
+                  type="button"
+                  size="sm"
+                  variant={taxRateIds.includes(rate.id) ? "default" : "outline"}
+                  onClick={() => setTaxRateIds((prev) => toggle(prev, rate.id))}
+                >
+                  {rate.name} {formatTaxRate(Number(rate.rate))}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Applies to</label>
+            <div className="flex flex-wrap gap-1">
+              <Button
+                type="button"
+                size="sm"
+                variant={appliesToTime ? "default" : "outline"}
+                onClick={() => setAppliesToTime((v) => !v)}
+                data-testid="button-tax-class-time"
+              >
+                Table time
+              </Button>
+              {categoryOptions.map((category) => (
+                <Button
+                  key={category}
+                  type="button"
+                  size="sm"
+                  variant={categories.includes(category) ? "default" : "outline"}
+                  onClick={() => setCategories((prev) => toggle(prev, category))}
+                >
+                  {category}
+                </Button>
+              ))}
+            </div>
+            {categoryOptions.length === 0 && (
+              <p className="text-xs text-muted-foreground">Add menu items to assign their categories.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,12 +13,14 @@ import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { fromTierValue, toTierValue, type StationRateOption, type TierValue } from "@/lib/tiers";
 import { StationType } from "./StationCard";
 
 interface Station {
   id: string;
   name: string;
   stationType: StationType;
+  rates?: StationRateOption[];
 }
 
 interface TransferSessionDialogProps {
@@ -27,10 +29,15 @@ interface TransferSessionDialogProps {
   currentStationName: string;
   availableStations: Station[];
   currentPricingTier: "solo" | "group";
+  currentStationRateId?: string | null;
+  /** Tiers of the station being left, for the ending segment. */
+  currentStationRates?: StationRateOption[];
   onConfirmTransfer: (payload: {
     destinationStationId: string;
     endingPricingTier: "solo" | "group";
+    endingStationRateId: string | null;
     nextPricingTier: "solo" | "group";
+    nextStationRateId: string | null;
   }) => void;
 }
 
@@ -52,6 +59,8 @@ export function TransferSessionDialog({
   currentStationName,
   availableStations,
   currentPricingTier,
+  currentStationRateId = null,
+  currentStationRates = [],
   onConfirmTransfer,
 }: TransferSessionDialogProps) {
   const groupedStations = availableStations.reduce((acc, station) => {
@@ -63,21 +72,37 @@ export function TransferSessionDialog({
   }, {} as Record<StationType, Station[]>);
 
   const [endingPricingTier, setEndingPricingTier] =
-    useState<"solo" | "group">(currentPricingTier);
+    useState<TierValue>(toTierValue(currentPricingTier, currentStationRateId));
+  // A station tier belongs to the station being left, so the next segment starts from its base tier.
   const [nextPricingTier, setNextPricingTier] =
-    useState<"solo" | "group">(currentPricingTier);
+    useState<TierValue>(currentPricingTier);
 
   useEffect(() => {
     if (!open) return;
-    setEndingPricingTier(currentPricingTier);
+    setEndingPricingTier(toTierValue(currentPricingTier, currentStationRateId));
     setNextPricingTier(currentPricingTier);
-  }, [currentPricingTier, open]);
+  }, [currentPricingTier, currentStationRateId, open]);
+
+  const endingTierOptions = currentStationRates.filter(
+    (option) => option.isEnabled || option.id === currentStationRateId,
+  );
+  const nextTierOptions = availableStations.flatMap((station) =>
+    (station.rates ?? [])
+      .filter((option) => option.isEnabled)
+      .map((option) => ({ ...option, stationId: station.id, stationName: station.name })),
+  );
+  // A station tier on the next segment limits the move to the station that owns it.
+  const nextTierStationId = nextTierOptions.find((option) => option.id === nextPricingTier)?.stationId ?? null;
 
   const handleTransfer = (stationId: string) => {
+    const ending = fromTierValue(endingPricingTier);
+    const next = fromTierValue(nextPricingTier);
     onConfirmTransfer({
       destinationStationId: stationId,
-      endingPricingTier,
-      nextPricingTier,
+      endingPricingTier: ending.pricingTier,
+      endingStationRateId: ending.stationRateId,
+      nextPricingTier: next.pricingTier,
+      nextStationRateId: next.stationRateId,
     });
     onOpenChange(false);
   };
@@ -98,25 +123,35 @@ export function TransferSessionDialog({
         <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/30 p-3">
           <div className="space-y-1">
             <Label className="text-xs">Ending Segment Tier</Label>
-            <Select value={endingPricingTier} onValueChange={(v: "solo" | "group") => setEndingPricingTier(v)}>
+            <Select value={endingPricingTier} onValueChange={(v: TierValue) => setEndingPricingTier(v)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="solo">Solo</SelectItem>
                 <SelectItem value="group">Group</SelectItem>
+                {endingTierOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
           <div className="space-y-1">
             <Label className="text-xs">Next Segment Tier</Label>
-            <Select value={nextPricingTier} onValueChange={(v: "solo" | "group") => setNextPricingTier(v)}>
+            <Select value={nextPricingTier} onValueChange={(v: TierValue) => setNextPricingTier(v)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="solo">Solo</SelectItem>
                 <SelectItem value="group">Group</SelectItem>
+                {nextTierOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.stationName} · {option.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -143,6 +178,7 @@ export function TransferSessionDialog({
                           "w-full justify-start gap-3 h-auto py-3 hover-elevate border-l-4",
                           stationColors[station.stationType]
                         )}
+                        disabled={nextTierStationId !== null && nextTierStationId !== station.id}
                         onClick={() => handleTransfer(station.id)}
                         data-testid={`button-transfer-to-${station.id}`}
                       >
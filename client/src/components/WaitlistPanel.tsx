@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ListOrdered, Phone, Play, Plus, Users, X } from "lucide-react";
+import { fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+export interface WaitlistEntry {
+  id: string;
+  customerName: string;
+  customerPhone: string | null;
+  partySize: number;
+  stationType: string | null;
+  quotedWaitMinutes: number;
+  notes: string | null;
+  createdAt: string;
+}
+
+interface WaitlistEstimate {
+  partiesAhead: number;
+  estimatedWaitMinutes: number;
+}
+
+interface WaitlistPanelProps {
+  enabled: boolean;
+  now: number;
+  /** Whether a free station can take this party right now. */
+  canSeat: (entry: WaitlistEntry) => boolean;
+  onSeat: (entry: WaitlistEntry) => void;
+}
+
+const STATION_TYPES = ["pool", "gaming", "foosball"];
+const ANY_TYPE = "any";
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hrs = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins ? `${hrs}h ${mins}m` : `${hrs}h`;
+}
+
+export function WaitlistPanel({ enabled, now, canSeat, onSeat }: WaitlistPanelProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [addOpen, setAddOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [partySize, setPartySize] = useState("2");
+  const [stationType, setStationType] = useState(ANY_TYPE);
+  const [quotedOverride, setQuotedOverride] = useState("");
+
+  const { data: entries } = useQuery<WaitlistEntry[]>({
+    queryKey: ["waitlist"],
+    queryFn: () => fetchWithAuth<WaitlistEntry[]>("/api/waitlist"),
+    retry: false,
+    enabled,
+    refetchInterval: 60_000,
+  });
+
+  const { data: estimate, error: estimateError } = useQuery<WaitlistEstimate>({
+    queryKey: ["waitlist-estimate", stationType],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (stationType !== ANY_TYPE) params.set("stationType", stationType);
+      return fetchWithAuth<WaitlistEstimate>(`/api/waitlist/estimate?${params}`);
+    },
+    retry: false,
+    enabled: enabled && addOpen,
+  });
+
+  const resetForm = () => {
+    setCustomerName("");
+    setCustomerPhone("");
+    setPartySize("2");
+    setStationType(ANY_TYPE);
+    setQuotedOverride("");
+  };
+
+  const party = Number(partySize);
+  const override = quotedOverride.trim() === "" ? undefined : Number(quotedOverride);
+  const canAdd =
+    customerName.trim().length > 0 &&
+    Number.isInteger(party) &&
+    party >= 1 &&
+    (override === undefined || (Number.isInteger(override) && override >= 0));
+
+  async function handleAdd() {
+    setSaving(true);
+    try {
+      const created = await postWithAuth<WaitlistEntry>("/api/waitlist", {
+        customerName: customerName.trim(),
+        customerPhone: customerPhone.trim() || null,
+        partySize: party,
+        stationType: stationType === ANY_TYPE ? null : stationType,
+        quotedWaitMinutes: override,
+      });
+      toast({
+        title: "Added to waitlist",
+        description: `${created.customerName} was quoted ${formatMinutes(created.quotedWaitMinutes)}.`,
+      });
+      setAddOpen(false);
+      resetForm();
+      await qc.invalidateQueries({ queryKey: ["waitlist"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't add to waitlist", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRemove(entry: WaitlistEntry) {
+    try {
+      await patchWithAuth(`/api/waitlist/${entry.id}`, { status: "left" });
+      await qc.invalidateQueries({ queryKey: ["waitlist"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't update waitlist", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  const list = entries ?? [];
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="panel-waitlist">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <ListOrdered className="w-4 h-4" />
+          <span>Waitlist ({list.length})</span>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setAddOpen(true)} data-testid="button-add-waitlist">
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {list.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No one is waiting.</p>
+      ) : (
+        <div className="space-y-2">
+          {list.map((entry, index) => {
+            const waitedMinutes = Math.max(0, Math.floor((now - new Date(entry.createdAt).getTime()) / 60000));
+            const overdue = waitedMinutes > entry.quotedWaitMinutes;
+            const seatable = canSeat(entry);
+            return (
+              <div
+                key={entry.id}
+                className="flex items-center gap-2 rounded-md border bg-muted/20 px-3 py-2"
+                data-testid={`row-waitlist-${entry.id}`}
+              >
+                <span className="text-xs font-mono text-muted-foreground w-4">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {entry.customerName}
+                    <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                      <Users className="inline w-3 h-3 mr-0.5" />
+                      {entry.partySize} · {entry.stationType ?? "any"}
+                    </span>
+                  </div>
+                  <div className={cn("text-xs", overdue ? "text-destructive" : "text-muted-foreground")}>
+                    Waited {formatMinutes(waitedMinutes)} of {formatMinutes(entry.quotedWaitMinutes)} quoted
+                    {entry.customerPhone && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · <Phone className="inline w-3 h-3" /> {entry.customerPhone}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => onSeat(entry)}
+                  disabled={!seatable}
+                  title={seatable ? "Seat at a free station" : "No free station for this party"}
+                  data-testid={`button-seat-waitlist-${entry.id}`}
+                >
+                  <Play className="w-3.5 h-3.5 mr-1" />
+                  Seat
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => handleRemove(entry)}
+                  aria-label="Remove from waitlist"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog
+        open={addOpen}
+        onOpenChange={(open) => {
+          setAddOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent className="max-w-sm" data-testid="dialog-add-waitlist">
+          <DialogHeader>
+            <DialogTitle>Add to Waitlist</DialogTitle>
+            <DialogDescription>The quoted wait is estimated from the sessions running now.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-name">Name</Label>
+              <Input
+                id="waitlist-name"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                maxLength={100}
+                data-testid="input-waitlist-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="waitlist-phone">Phone</Label>
+                <Input
+                  id="waitlist-phone"
+                  type="tel"
+                  placeholder="Optional"
+                  value={customerPhone}
+                  onChange={(e) => setCustomerPhone(e.target.value)}
+                  maxLength={32}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="waitlist-party">Party size</Label>
+                <Input
+                  id="waitlist-party"
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={partySize}
+                  onChange={(e) => setPartySize(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Preferred station</Label>
+              <Select value={stationType} onValueChange={setStationType}>
+                <SelectTrigger data-testid="select-waitlist-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TYPE}>Any station</SelectItem>
+                  {STATION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-quote">Quoted wait (minutes)</Label>
+              <Input
+                id="waitlist-quote"
+                type="number"
+                min="0"
+                placeholder={estimate ? `Estimated ${estimate.estimatedWaitMinutes}` : "Estimating..."}
+                value={quotedOverride}
+                onChange={(e) => setQuotedOverride(e.target.value)}
+                data-testid="input-waitlist-quote"
+              />
+              <p className="text-xs text-muted-foreground" data-testid="text-waitlist-estimate">
+                {estimateError
+                  ? (estimateError as Error).message
+                  : estimate
+                    ? `About ${formatMinutes(estimate.estimatedWaitMinutes)} with ${estimate.partiesAhead} ${estimate.partiesAhead === 1 ? "party" : "parties"} ahead`
+                    : "Estimating..."}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={!canAdd || saving} data-testid="button-confirm-waitlist">
+              Add
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
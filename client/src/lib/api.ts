@@ -32,4 +32,24 @@ export const patchWithAuth = <T>(url: string, body?: unknown) =>
     fetchWithAuth<T>(url, { method: "PATCH", body: body ? JSON.stringify(body) : undefined });
   
   export const deleteWithAuth = <T>(url: string) =>
-    fetchWithAuth<T>(url, { method: "DELETE" });
\ No newline at end of file
+    fetchWithAuth<T>(url, { method: "DELETE" });
+
+/** Fetch a file the server builds (such as a CSV export) and save it through the browser. */
+export async function downloadWithAuth(url: string, filename: string): Promise<void> {
+    const user = auth.currentUser;
+    if(!user) throw new Error("Not authenticated");
+    const token = await user.getIdToken();
+
+    const res = await fetch(`${BASE}${url}`, { headers: { Authorization: `Bearer ${token}` } });
+    if(!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(text || `Request failed: ${res.status}`);
+    }
+
+    const href = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = href;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(href);
+}
@@ -0,0 +1,42 @@
+export type PricingTier = "solo" | "group";
+
+/** A station's own named tier, as /api/stations lists it under `rates`. */
+export interface StationRateOption {
+  id: string;
+  name: string;
+  rateHourly: string | number;
+  isEnabled: boolean;
+}
+
+/** What a tier picker holds: "solo", "group", or the id of a station tier. */
+export type TierValue = string;
+
+export function toTierValue(pricingTier: PricingTier, stationRateId?: string | null): TierValue {
+  return stationRateId ?? pricingTier;
+}
+
+/** Station tiers are sent on the group tier; the rate comes from the tier itself. */
+export function fromTierValue(value: TierValue): { pricingTier: PricingTier; stationRateId: string | null } {
+  if (value === "solo" || value === "group") return { pricingTier: value, stationRateId: null };
+  return { pricingTier: "group", stationRateId: value };
+}
+
+export function tierLabel(pricingTier: PricingTier, stationRateName?: string | null): string {
+  if (stationRateName) return stationRateName;
+  return pricingTier === "solo" ? "Solo" : "Group";
+}
+
+/** Hourly rate a tier value charges at a station today. */
+export function tierRate(
+  value: TierValue,
+  station: { rateSoloHourly?: string | number; rateGroupHourly?: string | number; rates?: StationRateOption[] },
+): number {
+  const rate =
+    value === "solo"
+      ? station.rateSoloHourly
+      : value === "group"
+        ? station.rateGroupHourly
+        : station.rates?.find((option) => option.id === value)?.rateHourly;
+  const n = Number(rate ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
@@ -0,0 +1,381 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthReady } from "@/lib/useAuthReady";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "@/hooks/useTheme";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LoyaltyHistoryList } from "@/components/LoyaltyHistoryList";
+import { IssueGiftCardDialog, formatGiftCardCode, type GiftCard } from "@/components/IssueGiftCardDialog";
+import {
+  MembershipDialog,
+  describePlan,
+  formatIncludedHours,
+  type Membership,
+} from "@/components/MembershipDialog";
+import {
+  CustomerDialog,
+  customerName,
+  type Customer,
+  type CustomerPayload,
+} from "@/components/CustomerDialog";
+import { ArrowLeft, BadgeCheck, Gift, Loader2, Mail, Moon, Pencil, Phone, RefreshCw, Sun, Trash2 } from "lucide-react";
+
+interface CustomerVisit {
+  sessionId: string;
+  stationName: string;
+  startedAt: string;
+  closedAt: string | null;
+  seconds: number;
+  spend: string;
+}
+
+interface CustomerStats {
+  visitCount: number;
+  totalSeconds: number;
+  totalSpend: string;
+  favoriteStation: string | null;
+  lastVisitAt: string | null;
+  visits: CustomerVisit[];
+}
+
+function formatDateTime(input: string): string {
+  return new Date(input).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatHours(seconds: number): string {
+  return `${(seconds / 3600).toFixed(1)} hrs`;
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <Card className="p-4">
+      <div className="text-xs text-muted-foreground uppercase tracking-wide">{label}</div>
+      <div className="mt-1 text-lg font-semibold font-mono truncate">{value}</div>
+    </Card>
+  );
+}
+
+export default function CustomerDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { ready: authReady, user } = useAuthReady();
+  const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [membershipOpen, setMembershipOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authReady) return;
+    if (!user) window.location.replace("/signin");
+  }, [authReady, user]);
+
+  const { data: customer, isLoading, error } = useQuery<Customer>({
+    queryKey: ["customers", id],
+    queryFn: () => fetchWithAuth<Customer>(`/api/customers/${id}`),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const { data: stats } = useQuery<CustomerStats>({
+    queryKey: ["customers", id, "stats"],
+    queryFn: () => fetchWithAuth<CustomerStats>(`/api/customers/${id}/stats`),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const { data: giftCards = [] } = useQuery<GiftCard[]>({
+    queryKey: ["gift-cards", { customerId: id }],
+    queryFn: () => fetchWithAuth<GiftCard[]>(`/api/gift-cards?customerId=${encodeURIComponent(id)}`),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+  const { data: memberships = [] } = useQuery<Membership[]>({
+    queryKey: ["memberships", { customerId: id }],
+    queryFn: () => fetchWithAuth<Membership[]>(`/api/memberships?customerId=${encodeURIComponent(id)}`),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+  const membership = memberships[0] ?? null;
+
+  // The customer's account balance is what is left on their active cards.
+  const accountBalance = giftCards
+    .filter((card) => card.isActive)
+    .reduce((sum, card) => sum + Number(card.balance), 0);
+
+  async function handleSave(payload: CustomerPayload) {
+    setSaving(true);
+    try {
+      await patchWithAuth(`/api/customers/${id}`, payload);
+      await qc.invalidateQueries({ queryKey: ["customers"] });
+      setEditing(false);
+      toast({ title: "Customer updated" });
+    } catch (e: any) {
+      toast({ title: "Couldn't save customer", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRenewMembership() {
+    if (!membership) return;
+    try {
+      await postWithAuth(`/api/memberships/${membership.id}/renew`);
+      await qc.invalidateQueries({ queryKey: ["memberships"] });
+      toast({ title: "Membership renewed" });
+    } catch (e: any) {
+      toast({ title: "Couldn't renew membership", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  async function handleCancelMembership() {
+    if (!membership) return;
+    if (!window.confirm(`Cancel the ${membership.plan.name} membership? Any included time left is lost.`)) return;
+    try {
+      await deleteWithAuth(`/api/memberships/${membership.id}`);
+      await qc.invalidateQueries({ queryKey: ["memberships"] });
+      toast({ title: "Membership cancelled" });
+    } catch (e: any) {
+      toast({ title: "Couldn't cancel membership", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  async function handleDelete() {
+    if (!customer) return;
+    if (!window.confirm(`Delete ${customerName(customer)}? Their loyalty balance and history will be removed.`)) return;
+    try {
+      await deleteWithAuth(`/api/customers/${id}`);
+      await qc.invalidateQueries({ queryKey: ["customers"] });
+      window.location.assign("/customers");
+    } catch (e: any) {
+      toast({ title: "Couldn't delete customer", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 sticky top-0 bg-background/90 backdrop-blur-sm z-10">
+        <div className="container mx-auto max-w-screen-xl px-4 py-3 flex justify-between items-center gap-4">
+          <h1 className="text-3xl font-bold font-display leading-tight truncate">
+            {customer ? customerName(customer) : "Customer"}
+          </h1>
+          <div className="flex items-center gap-1.5">
+            <Button variant="outline" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+              {theme === "dark" ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/customers")}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Customers
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-screen-xl px-4 py-6 space-y-6">
+        {error ? (
+          <Card className="p-6 max-w-lg mx-auto space-y-3">
+            <h2 className="text-lg font-semibold">Couldn&apos;t load this customer</h2>
+            <p className="text-sm text-muted-foreground">They may have been deleted.</p>
+            <Button variant="outline" onClick={() => window.location.assign("/customers")}>
+              Back to customers
+            </Button>
+          </Card>
+        ) : isLoading || !customer ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Contact */}
+            <Card className="p-5 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Phone className="w-4 h-4 text-muted-foreground" />
+                    <span className="font-mono">{customer.phoneNumber}</span>
+                  </div>
+                  {customer.email && (
+                    <div className="flex items-center gap-2">
+                      <Mail className="w-4 h-4 text-muted-foreground" />
+                      <span>{customer.email}</span>
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground">Customer since {formatDateTime(customer.createdAt)}</div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="outline" size="sm" onClick={() => setEditing(true)} data-testid="button-edit-customer">
+                    <Pencil className="w-3.5 h-3.5 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={handleDelete}
+                    aria-label="Delete customer"
+                    data-testid="button-delete-customer"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+              {customer.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {customer.tags.map((tag) => (
+                    <Badge key={tag} variant="outline">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {customer.notes && <p className="text-sm whitespace-pre-wrap text-muted-foreground">{customer.notes}</p>}
+            </Card>
+
+            {/* Stats from closed sessions credited to this customer */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <StatTile label="Visits" value={String(stats?.visitCount ?? 0)} />
+              <StatTile label="Total time" value={formatHours(stats?.totalSeconds ?? 0)} />
+              <StatTile label="Total spend" value={`$${stats?.totalSpend ?? "0.00"}`} />
+              <StatTile label="Favorite" value={stats?.favoriteStation ?? "—"} />
+              <StatTile label="Last visit" value={stats?.lastVisitAt ? formatDateTime(stats.lastVisitAt) : "—"} />
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card className="p-5 space-y-3">
+                <h2 className="font-semibold">Visits</h2>
+                {!stats || stats.visits.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No visits yet.</p>
+                ) : (
+                  <div className="max-h-80 space-y-2 overflow-y-auto" data-testid="list-customer-visits">
+                    {stats.visits.map((visit) => (
+                      <div key={visit.sessionId} className="flex items-start justify-between gap-3 text-xs">
+                        <div>
+                          <div className="font-medium">{visit.stationName}</div>
+                          <div className="text-muted-foreground">{formatDateTime(visit.startedAt)}</div>
+                        </div>
+                        <div className="text-right font-mono">
+                          <div>${visit.spend}</div>
+                          <div className="text-muted-foreground">{formatHours(visit.seconds)}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-5 space-y-3">
+                <h2 className="font-semibold">Loyalty history</h2>
+                <LoyaltyHistoryList customerId={customer.id} />
+              </Card>
+            </div>
+
+            <Card className="p-5 space-y-3" data-testid="section-customer-membership">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <h2 className="font-semibold">Membership</h2>
+                  {membership && (
+                    <div className="text-xs text-muted-foreground">
+                      {membership.plan.name} · {describePlan(membership.plan)}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-1.5">
+                  {membership && (
+                    <Button variant="outline" size="sm" onClick={handleRenewMembership} data-testid="button-renew-membership">
+                      <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                      Renew
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setMembershipOpen(true)} data-testid="button-customer-membership">
+                    <BadgeCheck className="w-3.5 h-3.5 mr-1" />
+                    {membership ? "Change" : "Start"}
+                  </Button>
+                </div>
+              </div>
+              {!membership ? (
+                <p className="text-xs text-muted-foreground">Not a member.</p>
+              ) : (
+                <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+                  <span className="flex items-center gap-2">
+                    {membership.status === "lapsed" ? <Badge variant="destructive">Lapsed</Badge> : <Badge>Active</Badge>}
+                    <span className="text-muted-foreground">
+                      {membership.status === "lapsed" ? "Lapsed" : "Renews"} {formatDateTime(membership.renewsAt)}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {Number(membership.plan.includedHours) > 0 && (
+                      <span className="font-mono">{formatIncludedHours(membership.includedSecondsLeft)} included left</span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={handleCancelMembership}
+                      data-testid="button-cancel-membership"
+                    >
+                      Cancel
+                    </Button>
+                  </span>
+                </div>
+              )}
+            </Card>
+
+            <Card className="p-5 space-y-3" data-testid="section-customer-gift-cards">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <h2 className="font-semibold">Gift cards</h2>
+                  <div className="text-xs text-muted-foreground">
+                    Account balance <span className="font-mono">${accountBalance.toFixed(2)}</span>
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setIssueOpen(true)} data-testid="button-customer-issue-gift-card">
+                  <Gift className="w-3.5 h-3.5 mr-1" />
+                  Issue
+                </Button>
+              </div>
+              {giftCards.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No gift cards.</p>
+              ) : (
+                <div className="space-y-2">
+                  {giftCards.map((card) => (
+                    <div key={card.id} className="flex items-center justify-between gap-3 text-xs">
+                      <span className="font-mono">{formatGiftCardCode(card.code)}</span>
+                      <span className="flex items-center gap-2">
+                        {!card.isActive && <Badge variant="destructive">Inactive</Badge>}
+                        <span className="font-mono">${Number(card.balance).toFixed(2)}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </main>
+
+      <IssueGiftCardDialog open={issueOpen} onOpenChange={setIssueOpen} customerId={id} />
+      <MembershipDialog open={membershipOpen} onOpenChange={setMembershipOpen} customerId={id} membership={membership} />
+      <CustomerDialog open={editing} onOpenChange={setEditing} customer={customer} saving={saving} onSave={handleSave} />
+    </div>
+  );
+}
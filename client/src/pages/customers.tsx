@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthReady } from "@/lib/useAuthReady";
+import { downloadWithAuth, fetchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "@/hooks/useTheme";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  CustomerDialog,
+  customerName,
+  type Customer,
+  type CustomerPayload,
+} from "@/components/CustomerDialog";
+import { DuplicateCustomersDialog } from "@/components/DuplicateCustomersDialog";
+import { ImportCustomersDialog } from "@/components/ImportCustomersDialog";
+import {
+  ArrowLeft,
+  BadgeCheck,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Download,
+  Loader2,
+  Moon,
+  Plus,
+  Search,
+  Sun,
+  Upload,
+} from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+function matchesSearch(customer: Customer, query: string): boolean {
+  const digits = query.replace(/\D/g, "");
+  if (digits && customer.phoneNumber.includes(digits)) return true;
+  const text = query.toLowerCase();
+  return [customerName(customer), customer.email ?? "", ...customer.tags].some((value) =>
+    value.toLowerCase().includes(text)
+  );
+}
+
+export default function CustomersPage() {
+  const { ready: authReady, user } = useAuthReady();
+  const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(0);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authReady) return;
+    if (!user) window.location.replace("/signin");
+  }, [authReady, user]);
+
+  const { data: customers, isLoading, error } = useQuery<Customer[]>({
+    queryKey: ["customers"],
+    queryFn: () => fetchWithAuth<Customer[]>("/api/customers"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const filtered = useMemo(() => {
+    const query = search.trim();
+    const list = [...(customers ?? [])].sort((a, b) => customerName(a).localeCompare(customerName(b)));
+    return query ? list.filter((customer) => matchesSearch(customer, query)) : list;
+  }, [customers, search]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  async function handleCreate(payload: CustomerPayload) {
+    setSaving(true);
+    try {
+      const created = await postWithAuth<Customer>("/api/customers", payload);
+      await qc.invalidateQueries({ queryKey: ["customers"] });
+      setDialogOpen(false);
+      window.location.assign(`/customers/${created.id}`);
+    } catch (e: any) {
+      toast({ title: "Couldn't create customer", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleExport() {
+    try {
+      await downloadWithAuth("/api/customers/export", "customers.csv");
+    } catch (e: any) {
+      toast({ title: "Couldn't export customers", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 sticky top-0 bg-background/90 backdrop-blur-sm z-10">
+        <div className="container mx-auto max-w-screen-xl px-4 py-3 flex justify-between items-center gap-4">
+          <h1 className="text-3xl font-bold font-display leading-tight">Customers</h1>
+          <div className="flex items-center gap-1.5">
+            <Button variant="outline" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+              {theme === "dark" ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <div className="container mx-auto max-w-screen-xl px-4 pb-3">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(0);
+                }}
+                placeholder="Search name, phone, email or tag"
+                className="pl-9"
+                data-testid="input-customer-search"
+              />
+            </div>
+            <div className="flex-1" />
+            <Button variant="outline" size="sm" onClick={() => setImportOpen(true)} data-testid="button-import-customers">
+              <Upload className="w-4 h-4 sm:mr-1.5" />
+              <span className="hidden sm:inline">Import</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} data-testid="button-export-customers">
+              <Download className="w-4 h-4 sm:mr-1.5" />
+              <span className="hidden sm:inline">Export</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDuplicatesOpen(true)} data-testid="button-duplicates">
+              <Copy className="w-4 h-4 sm:mr-1.5" />
+              <span className="hidden sm:inline">Duplicates</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/memberships")} data-testid="button-memberships">
+              <BadgeCheck className="w-4 h-4 sm:mr-1.5" />
+              <span className="hidden sm:inline">Memberships</span>
+            </Button>
+            <Button size="sm" onClick={() => setDialogOpen(true)} data-testid="button-new-customer">
+              <Plus className="w-4 h-4 mr-1.5" />
+              New Customer
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-screen-xl px-4 py-6 space-y-4">
+        {error ? (
+          <Card className="p-6 max-w-lg mx-auto space-y-3">
+            <h2 className="text-lg font-semibold">Couldn&apos;t load customers</h2>
+            <p className="text-sm text-muted-foreground">Please refresh. If this continues, sign out and sign back in.</p>
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              Refresh
+            </Button>
+          </Card>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border/60 bg-card/30 p-10 text-center">
+            <p className="font-medium text-foreground/60">{search.trim() ? "No customers match" : "No customers yet"}</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {pageRows.map((customer) => (
+                <Card
+                  key={customer.id}
+                  className="p-4 flex flex-wrap items-center gap-3 cursor-pointer hover:bg-muted/30"
+                  onClick={() => window.location.assign(`/customers/${customer.id}`)}
+                  data-testid={`row-customer-${customer.id}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold truncate">{customerName(customer)}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {customer.phoneNumber}
+                      {customer.email ? ` · ${customer.email}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {customer.tags.map((tag) => (
+                      <Badge key={tag} variant="outline">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {currentPage * PAGE_SIZE + 1}–{currentPage * PAGE_SIZE + pageRows.length} of {filtered.length}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-9 w-9"
+                  disabled={currentPage === 0}
+                  onClick={() => setPage(currentPage - 1)}
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="font-mono">
+                  {currentPage + 1} / {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-9 w-9"
+                  disabled={currentPage >= pageCount - 1}
+                  onClick={() => setPage(currentPage + 1)}
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+
+      <CustomerDialog open={dialogOpen} onOpenChange={setDialogOpen} saving={saving} onSave={handleCreate} />
+      <DuplicateCustomersDialog open={duplicatesOpen} onOpenChange={setDuplicatesOpen} />
+      <ImportCustomersDialog open={importOpen} onOpenChange={setImportOpen} />
+    </div>
+  );
+}
@@ -4,13 +4,25 @@ import { Clock, Lock, Unlock } from "lucide-react";
 import { useTheme } from "@/hooks/useTheme";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
+import { WaitlistPanel, type WaitlistEntry } from "@/components/WaitlistPanel";
 import { StationCard, StationType } from "@/components/StationCard";
 import { ActiveSessionPanel, SessionItem } from "@/components/ActiveSessionPanel";
 import { SetupStationDialog } from "@/components/SetupStationDialog";
 import { AddItemsDialog, MenuItem, VariableItemEntry } from "@/components/AddItemsDialog";
-import { CheckoutDialog } from "@/components/CheckoutDialog";
-import { StartSessionDialog } from "@/components/StartSessionDialog";
+import {
+  CheckoutDialog,
+  type CheckoutPayerPayload,
+  type ManualDiscountPayload,
+  type TenderType,
+} from "@/components/CheckoutDialog";
+import {
+  StartSessionDialog,
+  type PrepaidSelection,
+  type SessionCustomerSelection,
+  type StationReservation,
+} from "@/components/StartSessionDialog";
 import { TransferSessionDialog } from "@/components/TransferSessionDialog";
+import { MergeSessionDialog } from "@/components/MergeSessionDialog";
 import { PaymentProcessingOverlay } from "@/components/PaymentProcessingOverlay";
 import { SummaryNavbar } from "@/components/SummaryNavbar";
 import { Button } from "@/components/ui/button";
@@ -18,6 +30,13 @@ import { useToast } from "@/hooks/use-toast";
 import { fetchWithAuth, postWithAuth, patchWithAuth, deleteWithAuth } from "@/lib/api";
 import { auth } from "@/lib/firebaseClient";
 import { signOut } from "firebase/auth";
+import {
+  computeBillableSeconds,
+  playerRateMultiplier,
+  type BillingRoundingMode,
+  type BillingRule,
+  type PlayerBillingMode,
+} from "@shared/billing";
 import {
   Select,
   SelectContent,
@@ -36,6 +55,7 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { tierRate, toTierValue, type StationRateOption } from "@/lib/tiers";
 
 /* ============================= TYPES ============================= */
 
@@ -58,6 +78,15 @@ interface ApiSessionItem {
   createdAt: string;
 }
 
+interface ApiSessionPlayer {
+  id: string;
+  name: string;
+  joinedAt: string;
+  leftAt: string | null;
+  joinedAtSeconds: number;
+  playedSeconds: number;
+}
+
 interface ApiSession {
   id: string;
   userId: string;
@@ -68,8 +97,13 @@ interface ApiSession {
   pausedAt: string | null;
   totalPausedSeconds: number;
   pricingTier: PricingTier;
+  stationRateId: string | null;
   closedAt: string | null;
+  prepaidMinutes: number | null;
+  prepaidAmount: string | number | null;
   items?: ApiSessionItem[];
+  players?: ApiSessionPlayer[];
+  customer?: { id: string; firstName: string | null; lastName: string | null; phoneNumber: string } | null;
   timeSegments?: Array<{
     id: string;
     sequence: number;
@@ -79,16 +113,27 @@ interface ApiSession {
     startedAt: string;
     endedAt: string;
     effectiveSeconds: number;
+    billableSeconds: number;
     pricingTier: PricingTier;
+    stationRateId: string | null;
+    stationRateName: string | null;
     rateSoloHourlySnapshot: number;
     rateGroupHourlySnapshot: number;
     rateHourlyApplied: number;
+    playerCount: number | null;
+    billedPerPlayer: boolean;
     timeAmount: number;
   }>;
   accruedTimeSeconds?: number;
   accruedTimeCharge?: number;
 }
 
+interface ApiReservation extends StationReservation {
+  stationId: string | null;
+  stationType: string | null;
+  status: "booked" | "seated" | "cancelled" | "no_show";
+}
+
 interface ApiStation {
   id: string;
   userId: string;
@@ -96,11 +141,22 @@ interface ApiStation {
   stationType: StationType;
   rateSoloHourly: string | number;
   rateGroupHourly: string | number;
+  billingIncrementMinutes: number;
+  billingRoundingMode: BillingRoundingMode;
+  minimumBillableMinutes: number;
+  graceMinutes: number;
+  playerBillingMode: PlayerBillingMode;
   isEnabled: boolean;
   sortOrder: number;
+  rates: StationRateOption[];
   activeSession: (ApiSession & { items: ApiSessionItem[] }) | null;
 }
 
+const PREPAID_WARNING_SECONDS = 5 * 60;
+/** How far ahead a booking counts as a conflict for a walk-in session. */
+const RESERVATION_WARNING_MS = 2 * 3600 * 1000;
+const RESERVATION_LOOKAHEAD_MS = 24 * 3600 * 1000;
+
 /* ============================= Helpers ============================= */
 function toNumber(v: string | number | null | undefined): number {
   if(v === null || v === undefined) return 0;
@@ -162,10 +218,13 @@ export default function Dashboard() {
   //dialogs
   const [startSessionOpen, setStartSessionOpen] = useState(false);
   const [stationToStart, setStationToStart] = useState<ApiStation | null>(null);
+  const [seatReservation, setSeatReservation] = useState(false);
+  const [seatingWaitlistEntry, setSeatingWaitlistEntry] = useState<WaitlistEntry | null>(null);
 
   const [addItemsOpen, setAddItemsOpen] = useState(false);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
   const [transferOpen, setTransferOpen] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
 
   //add-items local selection before confirm
   const [tempItems, setTempItems] = useState<Record<string, number>>({});
@@ -173,7 +232,11 @@ export default function Dashboard() {
 
   // payment overlay (still optional UI)
   const [showPaymentProcessing, setShowPaymentProcessing] = useState(false);
-  const [paymentData, setPaymentData] = useState({ totalAmount: 0, itemCount: 0 });
+  const [paymentData, setPaymentData] = useState<{ totalAmount: number; itemCount: number; tenderType: TenderType }>({
+    totalAmount: 0,
+    itemCount: 0,
+    tenderType: "card",
+  });
 
   const [editStationOpen, setEditStationOpen] = useState(false);
   const [stationToEdit, setStationToEdit] = useState<ApiStation | null>(null);
@@ -188,6 +251,7 @@ export default function Dashboard() {
   const [reorderingStations, setReorderingStations] = useState(false);
   const [localStationOrder, setLocalStationOrder] = useState<string[] | null>(null);
   const autoPausedSessionIdRef = useRef<string | null>(null);
+  const prepaidAlertsRef = useRef<Map<string, "warned" | "expired">>(new Map());
 
 
   useEffect(() => {
@@ -218,6 +282,63 @@ export default function Dashboard() {
     enabled: authReady && !!user,
   });
 
+  const { data: upcomingReservations } = useQuery<ApiReservation[]>({
+    queryKey: ["reservations", "upcoming"],
+    queryFn: () => {
+      const from = new Date();
+      const params = new URLSearchParams({
+        from: from.toISOString(),
+        to: new Date(from.getTime() + RESERVATION_LOOKAHEAD_MS).toISOString(),
+        status: "booked",
+      });
+      return fetchWithAuth<ApiReservation[]>(`/api/reservations?${params}`);
+    },
+    retry: false,
+    enabled: authReady && !!user,
+    refetchInterval: 60_000,
+  });
+
+  const nextReservationByStation = useMemo(() => {
+    const byStation = new Map<string, ApiReservation>();
+    for (const reservation of upcomingReservations ?? []) {
+      if (!reservation.stationId || byStation.has(reservation.stationId)) continue;
+      byStation.set(reservation.stationId, reservation);
+    }
+    // A booking for a station type holds one station of that type that has no booking of its own.
+    const candidates = [...(stations ?? [])]
+      .filter((st) => st.isEnabled)
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+    for (const reservation of upcomingReservations ?? []) {
+      if (reservation.stationId || !reservation.stationType) continue;
+      const station = candidates.find((st) => st.stationType === reservation.stationType && !byStation.has(st.id));
+      if (station) byStation.set(station.id, reservation);
+    }
+    return byStation;
+  }, [upcomingReservations, stations]);
+
+  function getReservedSoon(st: ApiStation): ApiReservation | null {
+    const reservation = nextReservationByStation.get(st.id);
+    if (!reservation) return null;
+    return new Date(reservation.startsAt).getTime() - now <= RESERVATION_WARNING_MS ? reservation : null;
+  }
+
+  function getConflictingReservation(st: ApiStation | null): ApiReservation | null {
+    if (!st) return null;
+    if (seatReservation) return nextReservationByStation.get(st.id) ?? null;
+    return getReservedSoon(st);
+  }
+
+  /** First free station for a waiting party, preferring ones without a booking coming up. */
+  function findFreeStation(entry: WaitlistEntry): ApiStation | null {
+    const free = orderedStations.filter(
+      (st) =>
+        st.isEnabled &&
+        (!st.activeSession || st.activeSession.status === "closed") &&
+        (!entry.stationType || st.stationType === entry.stationType)
+    );
+    return free.find((st) => !getReservedSoon(st)) ?? free[0] ?? null;
+  }
+
   // If token expired / logged out
   useEffect(() => {
     if (!authReady) return;
@@ -281,15 +402,27 @@ export default function Dashboard() {
     return computeElapsedSeconds(st.activeSession, now);
   }
 
-  function getCurrentSegmentChargeForStation(st: ApiStation, pricingTier: PricingTier = "group"): number {
+  function getCurrentHourlyRateForStation(st: ApiStation): number {
+    if (!st.activeSession) return 0;
+    const rate = tierRate(toTierValue(st.activeSession.pricingTier, st.activeSession.stationRateId), st);
+    return rate * playerRateMultiplier(st.playerBillingMode, getActivePlayers(st).length);
+  }
+
+  function getActivePlayers(st: ApiStation): ApiSessionPlayer[] {
+    return (st.activeSession?.players ?? []).filter((player) => !player.leftAt);
+  }
+
+  function getCurrentSegmentChargeForStation(st: ApiStation): number {
     if (!st.activeSession) return 0;
   
     const elapsed = computeElapsedSeconds(st.activeSession, now);
-
-    const rate =
-      pricingTier === "solo" ? toNumber(st.rateSoloHourly) : toNumber(st.rateGroupHourly);
+    // The billing rule carries on from the session's earlier segments at this station, as the server bills it.
+    const earlier = (st.activeSession.timeSegments ?? []).filter((segment) => segment.stationId === st.id);
+    const earlierSeconds = earlier.reduce((sum, segment) => sum + segment.effectiveSeconds, 0);
+    const earlierBillable = earlier.reduce((sum, segment) => sum + segment.billableSeconds, 0);
+    const billable = Math.max(0, computeBillableSeconds(earlierSeconds + elapsed, st) - earlierBillable);
   
-    return (elapsed / 3600) * rate;
+    return Math.round((billable / 3600) * getCurrentHourlyRateForStation(st) * 100) / 100;
   }
 
   function getAccruedTimeSeconds(st: ApiStation): number {
@@ -304,11 +437,57 @@ export default function Dashboard() {
     return getAccruedTimeSeconds(st) + getCurrentSegmentElapsedForStation(st);
   }
 
-  function getTotalTimeChargeForStation(st: ApiStation, pricingTier: PricingTier = "group"): number {
-    return getAccruedTimeCharge(st) + getCurrentSegmentChargeForStation(st, pricingTier);
+  /** Players still at the table keep counting; those who left keep what the server recorded. */
+  function getPlayersForStation(st: ApiStation) {
+    const clock = getTotalElapsedForStation(st);
+    return (st.activeSession?.players ?? []).map((player) => ({
+      id: player.id,
+      name: player.name,
+      leftAt: player.leftAt,
+      playedSeconds: player.leftAt ? player.playedSeconds : Math.max(0, clock - player.joinedAtSeconds),
+    }));
+  }
+
+  function getPrepaidSecondsForStation(st: ApiStation): number {
+    return (st.activeSession?.prepaidMinutes ?? 0) * 60;
+  }
+
+  function getTotalTimeChargeForStation(st: ApiStation): number {
+    const prepaidSeconds = getPrepaidSecondsForStation(st);
+    if (prepaidSeconds > 0) {
+      // Prepaid time is sold for its fixed amount; only overtime runs at the hourly rate.
+      const overtimeSeconds = Math.max(0, getTotalElapsedForStation(st) - prepaidSeconds);
+      const rate = getCurrentHourlyRateForStation(st);
+      return toNumber(st.activeSession?.prepaidAmount) + (overtimeSeconds / 3600) * rate;
+    }
+    return getAccruedTimeCharge(st) + getCurrentSegmentChargeForStation(st);
   }
   
 
+  // Alert once when a prepaid session nears its end and once when it runs over.
+  useEffect(() => {
+    const alerts = prepaidAlertsRef.current;
+    for (const st of activeStations) {
+      const session = st.activeSession;
+      const prepaidSeconds = getPrepaidSecondsForStation(st);
+      if (!session || prepaidSeconds <= 0 || session.status !== "active") continue;
+
+      const remaining = prepaidSeconds - getTotalElapsedForStation(st);
+      const alerted = alerts.get(session.id);
+      if (remaining <= 0 && alerted !== "expired") {
+        alerts.set(session.id, "expired");
+        toast({
+          title: "Prepaid time is up",
+          description: `${st.name} is now in overtime and billing at the normal rate.`,
+          variant: "destructive",
+        });
+      } else if (remaining > 0 && remaining <= PREPAID_WARNING_SECONDS && !alerted) {
+        alerts.set(session.id, "warned");
+        toast({ title: "Prepaid time ending soon", description: `${st.name} has 5 minutes left.` });
+      }
+    }
+  }, [now, activeStations]);
+
   async function handleLogout() {
     try {
       await signOut(auth);
@@ -397,13 +576,31 @@ export default function Dashboard() {
     }
   }  
 
-  async function handleStartSession(st: ApiStation, pricingTier: PricingTier, customStartTime?: number | null, customerName?: string) {
+  async function handleStartSession(
+    st: ApiStation,
+    pricingTier: PricingTier,
+    customStartTime?: number | null,
+    customerName?: string,
+    prepaid?: PrepaidSelection,
+    reservationId?: string,
+    waitlistEntryId?: string,
+    stationRateId?: string,
+    players?: string[],
+    customer?: SessionCustomerSelection,
+  ) {
     try {
       await postWithAuth("/api/sessions/start", {
         stationId: st.id,
         pricingTier,
+        stationRateId,
         startedAt: customStartTime ? new Date(customStartTime).toISOString() : undefined,
         customerName,
+        prepaidMinutes: prepaid?.minutes,
+        prepaidAmount: prepaid?.amount,
+        reservationId,
+        waitlistEntryId,
+        players: players?.length ? players : undefined,
+        ...customer,
       });
 
       toast({ title: "Session started", description: `${st.name} is now active.` });
@@ -413,6 +610,9 @@ export default function Dashboard() {
       setSelectedStationId(st.id);
 
       await qc.invalidateQueries({ queryKey: ["stations"] });
+      if (reservationId) await qc.invalidateQueries({ queryKey: ["reservations"] });
+      if (waitlistEntryId) await qc.invalidateQueries({ queryKey: ["waitlist"] });
+      if (customer && "customerPhone" in customer) await qc.invalidateQueries({ queryKey: ["customers"] });
     } catch (e: any) {
       toast({
         title: "Failed to start session",
@@ -422,6 +622,34 @@ export default function Dashboard() {
     }
   }
 
+  async function handleAddPlayer(st: ApiStation, name: string) {
+    if (!st.activeSession) return;
+    try {
+      await postWithAuth(`/api/sessions/${st.activeSession.id}/players`, { name });
+      await qc.invalidateQueries({ queryKey: ["stations"] });
+    } catch (e: any) {
+      toast({
+        title: "Failed to add player",
+        description: e?.message ?? "Please try again",
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function handleRemovePlayer(st: ApiStation, playerId: string) {
+    if (!st.activeSession) return;
+    try {
+      await postWithAuth(`/api/sessions/${st.activeSession.id}/players/${playerId}/leave`, {});
+      await qc.invalidateQueries({ queryKey: ["stations"] });
+    } catch (e: any) {
+      toast({
+        title: "Failed to remove player",
+        description: e?.message ?? "Please try again",
+        variant: "destructive",
+      });
+    }
+  }
+
   async function handleUpdateSessionName(sessionId: string, customerName: string | null) {
     try {
       await patchWithAuth(`/api/sessions/${sessionId}/name`, { customerName });
@@ -466,13 +694,15 @@ export default function Dashboard() {
   async function handleConfirmTransfer(payload: {
     destinationStationId: string;
     endingPricingTier: PricingTier;
+    endingStationRateId: string | null;
     nextPricingTier: PricingTier;
+    nextStationRateId: string | null;
   }) {
     const st = selectedStation;
     const session = st?.activeSession;
   
     if (!st || !session) return;
-    const { destinationStationId, endingPricingTier, nextPricingTier } = payload;
+    const { destinationStationId, endingPricingTier, endingStationRateId, nextPricingTier, nextStationRateId } = payload;
     const destination = stations?.find((s) => s.id === destinationStationId);
     if (!destination) {
       toast({
@@ -487,7 +717,9 @@ export default function Dashboard() {
       await postWithAuth(`/api/sessions/${session.id}/transfer`, {
         destinationStationId,
         endingPricingTier,
+        endingStationRateId,
         nextPricingTier,
+        nextStationRateId,
       });
   
       toast({
@@ -508,6 +740,42 @@ export default function Dashboard() {
     }
   }
 
+  async function handleConfirmMerge(payload: {
+    targetSessionId: string;
+    targetStationId: string;
+    endingPricingTier: PricingTier;
+    endingStationRateId: string | null;
+  }) {
+    const st = selectedStation;
+    const session = st?.activeSession;
+    if (!st || !session) return;
+    const target = stations?.find((s) => s.id === payload.targetStationId);
+
+    try {
+      await postWithAuth(`/api/sessions/${session.id}/merge`, {
+        targetSessionId: payload.targetSessionId,
+        endingPricingTier: payload.endingPricingTier,
+        endingStationRateId: payload.endingStationRateId,
+      });
+
+      toast({
+        title: "Sessions merged",
+        description: `${st.name} was added to ${target?.name ?? "the selected"}'s tab.`,
+      });
+
+      setMergeOpen(false);
+      setSelectedStationId(payload.targetStationId);
+
+      await qc.invalidateQueries({ queryKey: ["stations"] });
+    } catch (e: any) {
+      toast({
+        title: "Failed to merge",
+        description: e?.message ?? "Please try again",
+        variant: "destructive",
+      });
+    }
+  }
+
   async function openCheckoutWithAutoPause(st: ApiStation) {
     const session = st.activeSession;
     if (!session) return;
@@ -529,31 +797,64 @@ export default function Dashboard() {
     st: ApiStation,
     payload: {
       pricingTier: PricingTier;
+      stationRateId: string | null;
       currentSegmentPricingTier: PricingTier;
-      segmentTierOverrides: Array<{ segmentId: string; pricingTier: PricingTier }>;
+      currentSegmentStationRateId: string | null;
+      segmentTierOverrides: Array<{ segmentId: string; pricingTier: PricingTier; stationRateId: string | null }>;
       grandTotal: number;
+      payment: {
+        tenderType: TenderType;
+        loyaltyDiscountApplied: boolean;
+        promoCode?: string;
+        manualDiscount?: ManualDiscountPayload;
+        rewardId?: string;
+        giftCardCode?: string;
+        giftCardAmount?: number;
+        voucherCode?: string;
+        splits?: Array<{ tenderType: TenderType }>;
+        payers?: CheckoutPayerPayload[];
+        tipRate?: number;
+        tipAmount?: number;
+      };
+      loyaltyPhone?: string;
     }
   ) {
     if (!st.activeSession) return;
     autoPausedSessionIdRef.current = null;
-    const { pricingTier, currentSegmentPricingTier, segmentTierOverrides, grandTotal } = payload;
+    const {
+      pricingTier,
+      stationRateId,
+      currentSegmentPricingTier,
+      currentSegmentStationRateId,
+      segmentTierOverrides,
+      grandTotal,
+      payment,
+      loyaltyPhone,
+    } = payload;
 
     try {
       await postWithAuth(`/api/sessions/${st.activeSession.id}/close`, {
         pricingTier,
+        stationRateId,
         currentSegmentPricingTier,
+        currentSegmentStationRateId,
         segmentTierOverrides,
+        payment,
+        loyaltyPhone,
       });
 
       setCheckoutOpen(false);
       setPaymentData({
         totalAmount: grandTotal,
         itemCount: (st.activeSession.items ?? []).reduce((sum, row) => sum + row.qty, 0),
+        tenderType: payment.splits || payment.payers ? "other" : payment.tenderType,
       });
       setShowPaymentProcessing(true);
 
       await qc.invalidateQueries({ queryKey: ["stations"] });
       await qc.invalidateQueries({ queryKey: ["session-history"] });
+      if (payment.giftCardCode) await qc.invalidateQueries({ queryKey: ["gift-cards"] });
+      if (payment.voucherCode) await qc.invalidateQueries({ queryKey: ["vouchers"] });
     } catch (e: any) {
       toast({
         title: "Failed to checkout",
@@ -617,7 +918,8 @@ export default function Dashboard() {
     rateSoloHourly: string;
     rateGroupHourly: string;
     isEnabled: boolean;
-  }) {
+    playerBillingMode: PlayerBillingMode;
+  } & BillingRule) {
     try{
       await patchWithAuth(`/api/stations/${patch.id}`, {
         name: patch.name,
@@ -625,6 +927,11 @@ export default function Dashboard() {
         rateSoloHourly: patch.rateSoloHourly,
         rateGroupHourly: patch.rateGroupHourly,
         isEnabled: patch.isEnabled,
+        billingIncrementMinutes: patch.billingIncrementMinutes,
+        billingRoundingMode: patch.billingRoundingMode,
+        minimumBillableMinutes: patch.minimumBillableMinutes,
+        graceMinutes: patch.graceMinutes,
+        playerBillingMode: patch.playerBillingMode,
       });
 
       toast({ title: "Station updated" });
@@ -729,6 +1036,10 @@ export default function Dashboard() {
         onLookup={() => setLoyaltyOpen(true)}
         onMenu={() => window.location.assign("/menu")}
         onHistory={() => window.location.assign("/history")}
+        onReservations={() => window.location.assign("/reservations")}
+        onCustomers={() => window.location.assign("/customers")}
+        onGiftCards={() => window.location.assign("/gift-cards")}
+        onVouchers={() => window.location.assign("/vouchers")}
         onSettings={() => window.location.assign("/settings")}
         onLogout={handleLogout}
         onToggleTheme={toggleTheme}
@@ -787,14 +1098,25 @@ export default function Dashboard() {
                     rateSoloHourly={st.rateSoloHourly}
                     rateGroupHourly={st.rateGroupHourly}
                     currentPricingTier={session?.pricingTier}
+                    currentStationRate={st.rates.find((option) => option.id === session?.stationRateId) ?? null}
                     startTime={session ? new Date(session.startedAt).getTime() : undefined}
                     customerName={session?.customerName ?? null}
+                    prepaidSeconds={isActive ? getPrepaidSecondsForStation(st) : null}
+                    nextReservation={nextReservationByStation.get(st.id) ?? null}
+                    onSeatReservation={() => {
+                      setStationToStart(st);
+                      setSeatReservation(true);
+                      setSeatingWaitlistEntry(null);
+                      setStartSessionOpen(true);
+                    }}
                     timeElapsed={isActive ? getTotalElapsedForStation(st) : 0}
-                    currentCharge={isActive ? getTotalTimeChargeForStation(st, (session?.pricingTier ?? "group") as PricingTier) : 0}
+                    currentCharge={isActive ? getTotalTimeChargeForStation(st) : 0}
                     onEdit={() => openEditStation(st)}
                     onDelete={() => handleDeleteStation(st)}
                     onStart={() => {
                       setStationToStart(st);
+                      setSeatReservation(false);
+                      setSeatingWaitlistEntry(null);
                       setStartSessionOpen(true);
                     }}
                     onStop={() => handlePause(st)}
@@ -859,30 +1181,34 @@ export default function Dashboard() {
                 <ActiveSessionPanel
                   stationName={selectedStation.name}
                   timeElapsed={getTotalElapsedForStation(selectedStation)}
-                  timeCharge={getTotalTimeChargeForStation(selectedStation, selectedStation.activeSession.pricingTier)}
+                  timeCharge={getTotalTimeChargeForStation(selectedStation)}
                   startTime={new Date(selectedStation.activeSession.startedAt).getTime()}
                   timeSegments={(selectedStation.activeSession.timeSegments ?? []).map((segment) => ({
                     id: segment.id,
                     stationName: segment.stationName,
                     effectiveSeconds: segment.effectiveSeconds,
                     pricingTier: segment.pricingTier,
+                    stationRateName: segment.stationRateName,
                     rateHourlyApplied: toNumber(segment.rateHourlyApplied),
                     timeAmount: toNumber(segment.timeAmount),
                   }))}
                   currentPricingTier={selectedStation.activeSession.pricingTier}
-                  currentHourlyRate={
-                    selectedStation.activeSession.pricingTier === "solo"
-                      ? toNumber(selectedStation.rateSoloHourly)
-                      : toNumber(selectedStation.rateGroupHourly)
+                  currentStationRateName={
+                    selectedStation.rates.find((option) => option.id === selectedStation.activeSession?.stationRateId)?.name
                   }
-                  currentSegmentCharge={getCurrentSegmentChargeForStation(selectedStation, selectedStation.activeSession.pricingTier)}
+                  currentHourlyRate={getCurrentHourlyRateForStation(selectedStation)}
+                  currentSegmentCharge={getCurrentSegmentChargeForStation(selectedStation)}
                   customerName={selectedStation.activeSession.customerName ?? null}
                   onUpdateName={(name) => handleUpdateSessionName(selectedStation.activeSession!.id, name)}
                   items={aggregateSessionItems(selectedStation.activeSession.items ?? [], menu ?? [])}
                   onAddItems={() => setAddItemsOpen(true)}
                   onCheckout={() => { if (selectedStation) openCheckoutWithAutoPause(selectedStation); }}
                   onTransfer={() => setTransferOpen(true)}
+                  onMerge={() => setMergeOpen(true)}
                   onRequestRemoveItem={openRemoveItemDialog}
+                  players={getPlayersForStation(selectedStation)}
+                  onAddPlayer={(name) => handleAddPlayer(selectedStation, name)}
+                  onRemovePlayer={(playerId) => handleRemovePlayer(selectedStation, playerId)}
                 />
               </div>
             ) : (
@@ -896,6 +1222,22 @@ export default function Dashboard() {
                 </p>
               </div>
             )}
+
+            <div className="mt-4">
+              <WaitlistPanel
+                enabled={authReady && !!user}
+                now={now}
+                canSeat={(entry) => !!findFreeStation(entry)}
+                onSeat={(entry) => {
+                  const st = findFreeStation(entry);
+                  if (!st) return;
+                  setStationToStart(st);
+                  setSeatReservation(false);
+                  setSeatingWaitlistEntry(entry);
+                  setStartSessionOpen(true);
+                }}
+              />
+            </div>
           </div>
         </div>
       </main>
@@ -923,9 +1265,24 @@ export default function Dashboard() {
         stationName={stationToStart?.name ?? ""}
         rateSoloHourly={stationToStart?.rateSoloHourly}
         rateGroupHourly={stationToStart?.rateGroupHourly}
-        onConfirmStart={(customStartTime, pricingTier, customerName) => {
+        stationRates={stationToStart?.rates}
+        reservation={getConflictingReservation(stationToStart)}
+        seatReservation={seatReservation}
+        waitlistParty={seatingWaitlistEntry}
+        onConfirmStart={(customStartTime, pricingTier, customerName, prepaid, reservationId, stationRateId, players, customer) => {
           if(!stationToStart) return;
-          handleStartSession(stationToStart, pricingTier, customStartTime ?? null, customerName);
+          handleStartSession(
+            stationToStart,
+            pricingTier,
+            customStartTime ?? null,
+            customerName,
+            prepaid,
+            reservationId,
+            seatingWaitlistEntry?.id,
+            stationRateId,
+            players,
+            customer
+          );
         }}
       />
 
@@ -975,6 +1332,7 @@ export default function Dashboard() {
             sessionId={selectedStation.activeSession.id}
             stationName={selectedStation.name}
             customerName={selectedStation.activeSession.customerName ?? null}
+            customerPhone={selectedStation.activeSession.customer?.phoneNumber ?? null}
             activeSessions={activeCheckoutSessions}
             onSessionChange={(nextSessionId) => {
               const targetStation = activeStations.find(
@@ -982,26 +1340,27 @@ export default function Dashboard() {
               );
               if (targetStation) setSelectedStationId(targetStation.id);
             }}
-            currentSegmentSeconds={getCurrentSegmentElapsedForStation(selectedStation)}
-            accruedTimeSeconds={getAccruedTimeSeconds(selectedStation)}
-            groupHourlyRate={toNumber(selectedStation.rateGroupHourly)}
-            soloHourlyRate={toNumber(selectedStation.rateSoloHourly)}
             pricingTier={selectedStation.activeSession.pricingTier}
-            timeSegments={(selectedStation.activeSession.timeSegments ?? []).map((segment) => ({
-              id: segment.id,
-              stationName: segment.stationName,
-              effectiveSeconds: segment.effectiveSeconds,
-              pricingTier: segment.pricingTier,
-              rateSoloHourlySnapshot: toNumber(segment.rateSoloHourlySnapshot),
-              rateGroupHourlySnapshot: toNumber(segment.rateGroupHourlySnapshot),
-            }))}
-            items={aggregateSessionItems(selectedStation.activeSession.items ?? [], menu ?? [])}
-            onConfirmCheckout={({ grandTotal, pricingTier, currentSegmentPricingTier, segmentTierOverrides }) =>
+            stationRateId={selectedStation.activeSession.stationRateId}
+            onConfirmCheckout={({
+              grandTotal,
+              pricingTier,
+              stationRateId,
+              currentSegmentPricingTier,
+              currentSegmentStationRateId,
+              segmentTierOverrides,
+              payment,
+              loyaltyPhone,
+            }) =>
               handleCheckoutConfirm(selectedStation, {
                 grandTotal,
                 pricingTier,
+                stationRateId,
                 currentSegmentPricingTier,
+                currentSegmentStationRateId,
                 segmentTierOverrides,
+                payment,
+                loyaltyPhone,
               })
             }
           />
@@ -1011,14 +1370,38 @@ export default function Dashboard() {
         onOpenChange={setTransferOpen}
         currentStationName={selectedStation.name}
         currentPricingTier={selectedStation.activeSession.pricingTier}
+        currentStationRateId={selectedStation.activeSession.stationRateId}
+        currentStationRates={selectedStation.rates}
         availableStations={(stations ?? []).filter((s) => 
           s.id !== selectedStationId && 
           (!s.activeSession || s.activeSession.status === "closed")
         )
-        .map((s) => ({id: s.id, name: s.name, stationType: s.stationType }))}
+        .map((s) => ({id: s.id, name: s.name, stationType: s.stationType, rates: s.rates }))}
         onConfirmTransfer={handleConfirmTransfer}
         />
 
+        <MergeSessionDialog
+          open={mergeOpen}
+          onOpenChange={setMergeOpen}
+          currentStationName={selectedStation.name}
+          currentPricingTier={selectedStation.activeSession.pricingTier}
+          currentStationRateId={selectedStation.activeSession.stationRateId}
+          currentStationRates={selectedStation.rates}
+          targets={(stations ?? []).flatMap((s) => {
+            const target = s.activeSession;
+            if (s.id === selectedStationId || !target || target.status === "closed") return [];
+            return [{
+              sessionId: target.id,
+              stationId: s.id,
+              stationName: s.name,
+              stationType: s.stationType,
+              customerName: target.customerName ?? null,
+              status: target.status,
+            }];
+          })}
+          onConfirmMerge={handleConfirmMerge}
+        />
+
 <Dialog open={removeItemOpen} onOpenChange={setRemoveItemOpen}>
   <DialogContent className="max-w-md">
     <DialogHeader>
@@ -1084,6 +1467,7 @@ export default function Dashboard() {
         }}
         totalAmount={paymentData.totalAmount}
         itemCount={paymentData.itemCount}
+        tenderType={paymentData.tenderType}
       />
     </div>
   );
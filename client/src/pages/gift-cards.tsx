@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthReady } from "@/lib/useAuthReady";
+import { fetchWithAuth, patchWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "@/hooks/useTheme";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { customerName, type Customer } from "@/components/CustomerDialog";
+import { IssueGiftCardDialog, formatGiftCardCode, type GiftCard } from "@/components/IssueGiftCardDialog";
+import { GiftCardBalanceDialog, type GiftCardBalanceMode } from "@/components/GiftCardBalanceDialog";
+import {
+  GIFT_CARD_KIND_LABELS,
+  GiftCardHistoryList,
+  type GiftCardTransactionKind,
+} from "@/components/GiftCardHistoryList";
+import { ArrowLeft, ChevronDown, ChevronUp, Loader2, Moon, Plus, Search, Sun } from "lucide-react";
+
+interface GiftCardLiability {
+  outstanding: number;
+  activeOutstanding: number;
+  inactiveOutstanding: number;
+  cardCount: number;
+  activeCount: number;
+  kinds: Array<{ kind: GiftCardTransactionKind; amount: number; count: number }>;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function StatTile({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <Card className="p-4">
+      <div className="text-xs text-muted-foreground uppercase tracking-wide">{label}</div>
+      <div className="mt-1 text-lg font-semibold font-mono truncate">{value}</div>
+      {hint && <div className="text-xs text-muted-foreground">{hint}</div>}
+    </Card>
+  );
+}
+
+/** Codes match however they are typed: case, dashes and spaces are ignored. */
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export default function GiftCardsPage() {
+  const { ready: authReady, user } = useAuthReady();
+  const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [search, setSearch] = useState("");
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [balanceEdit, setBalanceEdit] = useState<{ mode: GiftCardBalanceMode; card: GiftCard } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authReady) return;
+    if (!user) window.location.replace("/signin");
+  }, [authReady, user]);
+
+  const { data: cards, isLoading, error } = useQuery<GiftCard[]>({
+    queryKey: ["gift-cards"],
+    queryFn: () => fetchWithAuth<GiftCard[]>("/api/gift-cards"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const { data: liability } = useQuery<GiftCardLiability>({
+    queryKey: ["gift-cards", "liability"],
+    queryFn: () => fetchWithAuth<GiftCardLiability>("/api/reports/gift-cards"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["customers"],
+    queryFn: () => fetchWithAuth<Customer[]>("/api/customers"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+  const customersById = useMemo(() => new Map(customers.map((customer) => [customer.id, customer])), [customers]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim();
+    if (!query) return cards ?? [];
+    const code = normalizeCode(query);
+    const text = query.toLowerCase();
+    return (cards ?? []).filter((card) => {
+      if (code && card.code.includes(code)) return true;
+      const customer = card.customerId ? customersById.get(card.customerId) : undefined;
+      return !!customer && customerName(customer).toLowerCase().includes(text);
+    });
+  }, [cards, search, customersById]);
+
+  const kindTotal = (kind: GiftCardTransactionKind) =>
+    liability?.kinds.find((row) => row.kind === kind)?.amount ?? 0;
+
+  async function handleToggleActive(card: GiftCard) {
+    if (card.isActive && !window.confirm(`Deactivate ${formatGiftCardCode(card.code)}? It can't be spent until reactivated.`)) {
+      return;
+    }
+    try {
+      await patchWithAuth(`/api/gift-cards/${card.id}`, { isActive: !card.isActive });
+      await qc.invalidateQueries({ queryKey: ["gift-cards"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't update gift card", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 sticky top-0 bg-background/90 backdrop-blur-sm z-10">
+        <div className="container mx-auto max-w-screen-xl px-4 py-3 flex justify-between items-center gap-4">
+          <h1 className="text-3xl font-bold font-display leading-tight">Gift Cards</h1>
+          <div className="flex items-center gap-1.5">
+            <Button variant="outline" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+              {theme === "dark" ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <div className="container mx-auto max-w-screen-xl px-4 pb-3">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Look up a code or customer"
+                className="pl-9 font-mono"
+                data-testid="input-gift-card-search"
+              />
+            </div>
+            <div className="flex-1" />
+            <Button size="sm" onClick={() => setIssueOpen(true)} data-testid="button-issue-gift-card">
+              <Plus className="w-4 h-4 mr-1.5" />
+              Issue Card
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-screen-xl px-4 py-6 space-y-6">
+        {/* Liability: what the store still owes on its cards */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3" data-testid="section-gift-card-liability">
+          <StatTile
+            label="Outstanding"
+            value={formatMoney(liability?.outstanding ?? 0)}
+            hint={liability?.inactiveOutstanding ? `${formatMoney(liability.inactiveOutstanding)} on inactive cards` : undefined}
+          />
+          <StatTile
+            label="Cards"
+            value={String(liability?.cardCount ?? 0)}
+            hint={`${liability?.activeCount ?? 0} active`}
+          />
+          <StatTile label="Sold" value={formatMoney(kindTotal("issue") + kindTotal("reload"))} />
+          <StatTile label="Spent" value={formatMoney(-(kindTotal("redeem") + kindTotal("refund")))} />
+        </div>
+
+        {error ? (
+          <Card className="p-6 max-w-lg mx-auto space-y-3">
+            <h2 className="text-lg font-semibold">Couldn&apos;t load gift cards</h2>
+            <p className="text-sm text-muted-foreground">Please refresh. If this continues, sign out and sign back in.</p>
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              Refresh
+            </Button>
+          </Card>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border/60 bg-card/30 p-10 text-center">
+            <p className="font-medium text-foreground/60">{search.trim() ? "No gift cards match" : "No gift cards yet"}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map((card) => {
+              const customer = card.customerId ? customersById.get(card.customerId) : undefined;
+              const expanded = expandedId === card.id;
+              return (
+                <Card key={card.id} className="p-4 space-y-3" data-testid={`row-gift-card-${card.id}`}>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-mono font-semibold">{formatGiftCardCode(card.code)}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {customer ? (
+                          <button
+                            type="button"
+                            className="underline-offset-2 hover:underline"
+                            onClick={() => window.location.assign(`/customers/${customer.id}`)}
+                          >
+                            {customerName(customer)}
+                          </button>
+                        ) : (
+                          "No customer"
+                        )}
+                        {` · issued ${formatMoney(Number(card.initialAmount))}`}
+                      </div>
+                    </div>
+                    {!card.isActive && <Badge variant="destructive">Inactive</Badge>}
+                    <div className="font-mono text-lg font-semibold">{formatMoney(Number(card.balance))}</div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!card.isActive}
+                        onClick={() => setBalanceEdit({ mode: "reload", card })}
+                        data-testid={`button-reload-${card.id}`}
+                      >
+                        Reload
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setBalanceEdit({ mode: "adjust", card })}
+                        data-testid={`button-adjust-${card.id}`}
+                      >
+                        Correct
+                      </Button>
+                      <Button
+                        variant={card.isActive ? "outline" : "default"}
+                        size="sm"
+                        onClick={() => handleToggleActive(card)}
+                        data-testid={`button-toggle-active-${card.id}`}
+                      >
+                        {card.isActive ? "Deactivate" : "Activate"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setExpandedId(expanded ? null : card.id)}
+                        aria-label="Show history"
+                        data-testid={`button-history-${card.id}`}
+                      >
+                        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                  {expanded && <GiftCardHistoryList giftCardId={card.id} />}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {liability && liability.kinds.length > 0 && (
+          <Card className="p-5 space-y-2">
+            <h2 className="font-semibold">Ledger totals</h2>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              {liability.kinds.map((row) => (
+                <div key={row.kind}>
+                  <div className="text-xs text-muted-foreground">
+                    {GIFT_CARD_KIND_LABELS[row.kind]} ({row.count})
+                  </div>
+                  <div className="font-mono">{formatMoney(row.amount)}</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+      </main>
+
+      <IssueGiftCardDialog open={issueOpen} onOpenChange={setIssueOpen} />
+      {balanceEdit && (
+        <GiftCardBalanceDialog
+          open
+          onOpenChange={(open) => !open && setBalanceEdit(null)}
+          mode={balanceEdit.mode}
+          card={balanceEdit.card}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuthReady } from "@/lib/useAuthReady";
-import { fetchWithAuth } from "@/lib/api";
+import { fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { tierLabel } from "@/lib/tiers";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  SessionAdjustmentDialog,
+  type SessionAdjustmentPayload,
+  type SessionAdjustmentType,
+} from "@/components/SessionAdjustmentDialog";
+import { EditClosedSessionDialog, type EditClosedSessionPayload } from "@/components/EditClosedSessionDialog";
 import { useTheme } from "@/hooks/useTheme";
-import { Moon, Sun, ArrowLeft, Clock, Search, X, Loader2, CalendarDays } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Moon, Sun, ArrowLeft, Clock, Search, X, Loader2, CalendarDays, Ban, Pencil, RotateCcw, Undo2 } from "lucide-react";
 
 interface SessionHistoryItem {
   id: string;
@@ -29,28 +38,121 @@ interface SessionHistoryTimeSegment {
   startedAt: string;
   endedAt: string;
   effectiveSeconds: number;
+  billableSeconds: number;
   pricingTier: "solo" | "group";
+  stationRateId: string | null;
+  stationRateName: string | null;
   rateHourlyApplied: number;
+  rateScheduleName: string | null;
   timeAmount: number;
 }
 
+interface SessionHistoryPayment {
+  id: string;
+  payerId: string | null;
+  sequence: number;
+  tenderType: "cash" | "card" | "other" | "gift_card";
+  amount: number;
+  tipAmount: number;
+}
+
+interface SessionHistoryTaxLine {
+  taxRateId: string | null;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+interface SessionHistoryDiscountLine {
+  source: "loyalty" | "promotion" | "manual";
+  code: string | null;
+  name: string;
+  reasonCode: string | null;
+  note: string | null;
+  amount: number;
+}
+
+interface SessionHistoryCheckout {
+  subtotal: number;
+  discountRate: number;
+  discountAmount: number;
+  discountLines: SessionHistoryDiscountLine[];
+  prepaidCredit: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+  taxLines: SessionHistoryTaxLine[];
+  finalTotal: number;
+  splitCount: number;
+  tipAmount: number;
+  closedByEmail: string | null;
+  refundedAmount: number;
+  voidedAt: string | null;
+  payments: SessionHistoryPayment[];
+  payers: SessionHistoryPayer[];
+}
+
+interface SessionHistoryPayer {
+  id: string;
+  sequence: number;
+  name: string;
+  tenderType: SessionHistoryPayment["tenderType"];
+  discountRate: number;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  total: number;
+  allocations: Array<{ kind: "item" | "segment"; lineId: string; share: number }>;
+}
+
+interface SessionHistoryEditChange {
+  target: "segment" | "item" | "checkout";
+  id: string;
+  label: string;
+  field: "startedAt" | "endedAt" | "pricingTier" | "stationRate" | "qty" | "finalTotal";
+  before: string | number;
+  after: string | number;
+}
+
+interface SessionHistoryAdjustment {
+  id: string;
+  type: SessionAdjustmentType | "edit";
+  reason: string;
+  amount: number | null;
+  tenderType: SessionHistoryPayment["tenderType"] | null;
+  loyaltySecondsReversed: number;
+  changes: SessionHistoryEditChange[];
+  actorEmail: string | null;
+  createdAt: string;
+}
+
 interface SessionHistoryRow {
   id: string;
   stationId: string;
   stationName: string;
   stationType: string;
   pricingTier: "solo" | "group";
+  stationRateId: string | null;
+  stationRateName: string | null;
   customerName: string | null;
   startedAt: string;
   closedAt: string;
   totalPausedSeconds: number;
   effectiveSeconds: number;
+  prepaidMinutes: number | null;
+  prepaidAmount: number | null;
   timeCharge: number;
   itemsSubtotal: number;
+  preTaxTotal: number;
+  taxAmount: number;
   grandTotal: number;
+  amountPaid: number;
+  voided: boolean;
   itemCount: number;
   items: SessionHistoryItem[];
   timeSegments: SessionHistoryTimeSegment[];
+  checkout: SessionHistoryCheckout | null;
+  adjustments: SessionHistoryAdjustment[];
 }
 
 function formatDateTime(input: string): string {
@@ -71,12 +173,73 @@ function formatDuration(seconds: number): string {
 }
 
 function formatMoney(amount: number): string {
-  return `$${amount.toFixed(2)}`;
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+/** 0.0825 → "8.25%". */
+function formatTaxRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(3))}%`;
+}
+
+function getRefundable(checkout: SessionHistoryCheckout): number {
+  return Math.max(0, Math.round((checkout.finalTotal + checkout.prepaidCredit - checkout.refundedAmount) * 100) / 100);
+}
+
+const tenderLabels: Record<SessionHistoryPayment["tenderType"], string> = {
+  cash: "Cash",
+  card: "Card",
+  other: "Other",
+  gift_card: "Gift card",
+};
+
+const adjustmentLabels: Record<SessionHistoryAdjustment["type"], string> = {
+  reopen: "Reopened",
+  void: "Voided",
+  refund: "Refunded",
+  edit: "Edited",
+};
+
+const changeFieldLabels: Record<SessionHistoryEditChange["field"], string> = {
+  startedAt: "start",
+  endedAt: "end",
+  pricingTier: "tier",
+  stationRate: "tier",
+  qty: "qty",
+  finalTotal: "",
+};
+
+function formatChangeValue(change: SessionHistoryEditChange, value: string | number): string {
+  if (change.field === "startedAt" || change.field === "endedAt") return formatDateTime(String(value));
+  if (change.field === "finalTotal") return formatMoney(Number(value));
+  // A station tier change records the tier name, or solo/group when it moved off one.
+  if (change.field === "pricingTier" || change.field === "stationRate") {
+    return value === "solo" || value === "group" ? tierLabel(value) : String(value);
+  }
+  return String(value);
+}
+
+/** What a split payer covered, e.g. "2x Soda, 50% of Table 3 · 1h 5m". */
+function describePayerLines(row: SessionHistoryRow, payer: SessionHistoryPayer): string {
+  const labels: string[] = [];
+  for (const allocation of payer.allocations) {
+    let label: string | null = null;
+    if (allocation.kind === "item") {
+      const item = row.items.find((entry) => entry.id === allocation.lineId);
+      if (item) label = `${item.qty}x ${item.nameSnapshot}`;
+    } else {
+      const segment = row.timeSegments.find((entry) => entry.id === allocation.lineId);
+      if (segment) label = `${segment.stationName} · ${formatDuration(segment.effectiveSeconds)}`;
+    }
+    if (label) labels.push(allocation.share < 1 ? `${Math.round(allocation.share * 100)}% of ${label}` : label);
+  }
+  return labels.join(", ");
 }
 
 export default function HistoryPage() {
   const { ready: authReady, user } = useAuthReady();
   const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   const today = new Date().toISOString().slice(0, 10);
@@ -85,6 +248,10 @@ export default function HistoryPage() {
   const [timeDrawer, setTimeDrawer] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [adjusting, setAdjusting] = useState<{ row: SessionHistoryRow; type: SessionAdjustmentType } | null>(null);
+  const [adjustmentSaving, setAdjustmentSaving] = useState(false);
+  const [editingRow, setEditingRow] = useState<SessionHistoryRow | null>(null);
+  const [editSaving, setEditSaving] = useState(false);
 
   useEffect(() => {
     const id = setTimeout(() => setDebouncedSearch(searchQuery), 400);
@@ -114,6 +281,63 @@ export default function HistoryPage() {
 
   const rows = useMemo(() => data ?? [], [data]);
 
+  const totals = useMemo(() => {
+    let collected = 0;
+    let refunded = 0;
+    let tips = 0;
+    let tax = 0;
+    let discounts = 0;
+    let voidedCount = 0;
+    for (const row of rows) {
+      if (row.voided) {
+        voidedCount += 1;
+        continue;
+      }
+      collected += row.amountPaid + (row.checkout?.refundedAmount ?? 0);
+      refunded += row.checkout?.refundedAmount ?? 0;
+      tips += row.checkout?.tipAmount ?? 0;
+      tax += row.taxAmount;
+      discounts += row.checkout?.discountAmount ?? 0;
+    }
+    return { collected, refunded, tips, tax, discounts, net: collected - refunded, voidedCount };
+  }, [rows]);
+
+  async function handleEdit(payload: EditClosedSessionPayload) {
+    if (!editingRow) return;
+    setEditSaving(true);
+    try {
+      await patchWithAuth(`/api/sessions/${editingRow.id}/closed`, payload);
+      toast({ title: "Session updated", description: `${editingRow.stationName} was recomputed.` });
+      setEditingRow(null);
+      await qc.invalidateQueries({ queryKey: ["session-history"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't edit session", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setEditSaving(false);
+    }
+  }
+
+  async function handleAdjustment(payload: SessionAdjustmentPayload) {
+    if (!adjusting) return;
+    const { row, type } = adjusting;
+    setAdjustmentSaving(true);
+    try {
+      await postWithAuth(`/api/sessions/${row.id}/${type}`, payload);
+      toast({
+        title: `Session ${adjustmentLabels[type].toLowerCase()}`,
+        description:
+          type === "reopen" ? `${row.stationName} is back on the dashboard.` : `${row.stationName} has been updated.`,
+      });
+      setAdjusting(null);
+      await qc.invalidateQueries({ queryKey: ["session-history"] });
+      await qc.invalidateQueries({ queryKey: ["stations"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't update session", description: e?.message ?? "Please try again.", variant: "destructive" });
+    } finally {
+      setAdjustmentSaving(false);
+    }
+  }
+
   // Only show full-page loader before first data arrives and auth isn't ready
   if (!authReady) {
     return (
@@ -240,14 +464,64 @@ export default function HistoryPage() {
           </div>
         ) : (
           <div className={`space-y-4 transition-opacity duration-200 ${isFetching ? "opacity-60" : ""}`}>
+            <div className="flex flex-wrap gap-4 text-sm" data-testid="text-history-totals">
+              <div>
+                <span className="text-muted-foreground text-xs uppercase tracking-wide mr-1">Collected</span>
+                <span className="font-mono">{formatMoney(totals.collected)}</span>
+              </div>
+              {totals.refunded > 0 && (
+                <div>
+                  <span className="text-muted-foreground text-xs uppercase tracking-wide mr-1">Refunds</span>
+                  <span className="font-mono text-destructive">{formatMoney(-totals.refunded)}</span>
+                </div>
+              )}
+              <div>
+                <span className="text-muted-foreground text-xs uppercase tracking-wide mr-1">Net</span>
+                <span className="font-mono font-semibold">{formatMoney(totals.net)}</span>
+              </div>
+              {totals.tax > 0 && (
+                <div>
+                  <span className="text-muted-foreground text-xs uppercase tracking-wide mr-1">Tax</span>
+                  <span className="font-mono">{formatMoney(totals.tax)}</span>
+                </div>
+              )}
+              {totals.discounts > 0 && (
+                <div>
+                  <span className="text-muted-foreground text-xs uppercase tracking-wide mr-1">Discounts</span>
+                  <span className="font-mono">{formatMoney(-totals.discounts)}</span>
+                </div>
+              )}
+              {totals.tips > 0 && (
+                <div>
+                  <span className="text-muted-foreground text-xs uppercase tracking-wide mr-1">Tips</span>
+                  <span className="font-mono">{formatMoney(totals.tips)}</span>
+                </div>
+              )}
+              {totals.voidedCount > 0 && (
+                <div className="text-muted-foreground">
+                  {totals.voidedCount} voided {totals.voidedCount === 1 ? "session" : "sessions"} excluded
+                </div>
+              )}
+            </div>
             {rows.map((row) => (
-              <Card key={row.id} className="border-t-2 border-t-primary/40 p-5 space-y-3">
+              <Card
+                key={row.id}
+                className={`border-t-2 p-5 space-y-3 ${row.voided ? "border-t-destructive/60 opacity-70" : "border-t-primary/40"}`}
+              >
                 {/* Header */}
                 <div className="flex flex-wrap items-start justify-between gap-3">
                   <div>
-                    <h2 className="text-xl font-bold font-display leading-tight">{row.stationName}</h2>
+                    <h2 className="text-xl font-bold font-display leading-tight flex items-center gap-2">
+                      {row.stationName}
+                      {row.voided && <Badge variant="destructive">Voided</Badge>}
+                      {!row.voided && row.checkout && row.checkout.refundedAmount > 0 && (
+                        <Badge variant="outline">
+                          {getRefundable(row.checkout) > 0 ? "Partly refunded" : "Refunded"}
+                        </Badge>
+                      )}
+                    </h2>
                     <p className="text-xs text-muted-foreground mt-0.5 uppercase tracking-wide">
-                      {row.stationType} &middot; {row.pricingTier === "solo" ? "Solo" : "Group"}
+                      {row.stationType} &middot; {tierLabel(row.pricingTier, row.stationRateName)}
                     </p>
                     {row.customerName && (
                       <p className="text-sm text-foreground/70 mt-0.5" data-testid={`text-history-customer-${row.id}`}>
@@ -257,11 +531,64 @@ export default function HistoryPage() {
                   </div>
                   <div className="text-right">
                     <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-0.5">
-                      Grand Total
+                      {row.checkout ? "Paid" : "Grand Total"}
                     </p>
-                    <div className="text-2xl font-mono font-bold text-primary">
-                      {formatMoney(row.grandTotal)}
+                    <div
+                      className={`text-2xl font-mono font-bold ${row.voided ? "text-muted-foreground line-through" : "text-primary"}`}
+                      data-testid={`text-history-paid-${row.id}`}
+                    >
+                      {formatMoney(row.amountPaid)}
                     </div>
+                    {row.checkout && row.checkout.discountAmount > 0 && (
+                      <div className="text-xs text-muted-foreground font-mono mt-0.5" data-testid={`text-history-discounts-${row.id}`}>
+                        <p>Subtotal {formatMoney(row.checkout.subtotal)}</p>
+                        {row.checkout.discountLines
+                          .filter((line) => line.amount > 0)
+                          .map((line, index) => (
+                            <p key={index} title={line.note ?? undefined}>
+                              &minus;{" "}
+                              {line.source === "loyalty"
+                                ? `${Math.round((row.checkout?.discountRate ?? 0) * 100)}% loyalty`
+                                : line.code ?? line.name}
+                              {line.reasonCode && ` (${line.reasonCode.replace(/_/g, " ")})`} {formatMoney(line.amount)}
+                            </p>
+                          ))}
+                      </div>
+                    )}
+                    {row.checkout && row.checkout.taxLines.length > 0 && (
+                      <div className="text-xs text-muted-foreground font-mono mt-0.5" data-testid={`text-history-tax-${row.id}`}>
+                        <p>Pre-tax {formatMoney(row.preTaxTotal)}</p>
+                        {row.checkout.taxLines.map((line, index) => (
+                          <p key={line.taxRateId ?? index}>
+                            {row.checkout?.taxInclusive ? "incl." : "+"} {line.name} {formatTaxRate(line.rate)}{" "}
+                            {formatMoney(line.taxAmount)}
+                          </p>
+                        ))}
+                        <p>Total {formatMoney(row.grandTotal)}</p>
+                      </div>
+                    )}
+                    {row.checkout && row.checkout.prepaidCredit > 0 && (
+                      <p className="text-xs text-muted-foreground font-mono mt-0.5" data-testid={`text-history-prepaid-${row.id}`}>
+                        incl. {formatMoney(row.checkout.prepaidCredit)} prepaid
+                      </p>
+                    )}
+                    {row.checkout && row.checkout.tipAmount > 0 && (
+                      <p className="text-xs text-muted-foreground font-mono mt-0.5" data-testid={`text-history-tip-${row.id}`}>
+                        + {formatMoney(row.checkout.tipAmount)} tip
+                      </p>
+                    )}
+                    {row.checkout?.closedByEmail && (
+                      <p className="text-xs text-muted-foreground mt-0.5">Closed by {row.checkout.closedByEmail}</p>
+                    )}
+                    {row.checkout && row.checkout.payments.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-0.5" data-testid={`text-history-tenders-${row.id}`}>
+                        {row.checkout.payments.length === 1 && row.checkout.payments[0].amount >= 0
+                          ? tenderLabels[row.checkout.payments[0].tenderType]
+                          : row.checkout.payments
+                              .map((payment) => `${tenderLabels[payment.tenderType]} ${formatMoney(payment.amount)}`)
+                              .join(" · ")}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -281,14 +608,113 @@ export default function HistoryPage() {
                   </div>
                 </div>
 
+                {row.checkout && row.checkout.payers.length > 0 && (
+                  <div className="space-y-1 rounded-md border bg-muted/20 p-3" data-testid={`list-history-payers-${row.id}`}>
+                    {row.checkout.payers.map((payer) => (
+                      <div key={payer.id} className="text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">
+                            {payer.name}
+                            <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                              {tenderLabels[payer.tenderType]}
+                              {payer.discountAmount > 0 && ` · ${Math.round(payer.discountRate * 100)}% loyalty`}
+                            </span>
+                          </span>
+                          <span className="font-mono">{formatMoney(payer.total)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{describePayerLines(row, payer) || "Nothing assigned"}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {row.adjustments.length > 0 && (
+                  <div className="space-y-1" data-testid={`list-history-adjustments-${row.id}`}>
+                    {row.adjustments.map((adjustment) => (
+                      <div key={adjustment.id} className="text-xs text-muted-foreground">
+                        <span className="font-semibold text-foreground/70">{adjustmentLabels[adjustment.type]}</span>
+                        {adjustment.type === "refund" && adjustment.amount !== null && (
+                          <span className="font-mono">
+                            {" "}
+                            {formatMoney(-adjustment.amount)}
+                            {adjustment.tenderType && ` to ${tenderLabels[adjustment.tenderType]}`}
+                          </span>
+                        )}{" "}
+                        {formatDateTime(adjustment.createdAt)} &middot; {adjustment.reason}
+                        {adjustment.actorEmail && <> &middot; {adjustment.actorEmail}</>}
+                        {adjustment.loyaltySecondsReversed > 0 && (
+                          <> &middot; {formatDuration(adjustment.loyaltySecondsReversed)} loyalty time reversed</>
+                        )}
+                        {adjustment.changes.length > 0 && (
+                          <ul className="mt-0.5 ml-4 list-disc">
+                            {adjustment.changes.map((change, index) => (
+                              <li key={`${change.id}-${change.field}-${index}`}>
+                                {change.label} {changeFieldLabels[change.field]}: {formatChangeValue(change, change.before)} &rarr;{" "}
+                                {formatChangeValue(change, change.after)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Drawer buttons */}
-                <div className="flex gap-2">
+                <div className="flex flex-wrap gap-2">
                   <Button variant="outline" size="sm" onClick={() => setItemsDrawer(row.id)}>
                     Items — {formatMoney(row.itemsSubtotal)}
                   </Button>
                   <Button variant="outline" size="sm" onClick={() => setTimeDrawer(row.id)}>
                     Time — {formatMoney(row.timeCharge)}
                   </Button>
+                  {row.checkout && !row.voided && (
+                    <div className="flex gap-2 ml-auto">
+                      {row.checkout.refundedAmount === 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingRow(row)}
+                          data-testid={`button-edit-${row.id}`}
+                        >
+                          <Pencil className="w-4 h-4 mr-1.5" />
+                          Edit
+                        </Button>
+                      )}
+                      {row.checkout.refundedAmount === 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setAdjusting({ row, type: "reopen" })}
+                          data-testid={`button-reopen-${row.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1.5" />
+                          Reopen
+                        </Button>
+                      )}
+                      {getRefundable(row.checkout) > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setAdjusting({ row, type: "refund" })}
+                          data-testid={`button-refund-${row.id}`}
+                        >
+                          <Undo2 className="w-4 h-4 mr-1.5" />
+                          Refund
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => setAdjusting({ row, type: "void" })}
+                        data-testid={`button-void-${row.id}`}
+                      >
+                        <Ban className="w-4 h-4 mr-1.5" />
+                        Void
+                      </Button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Items drawer */}
@@ -368,9 +794,13 @@ export default function HistoryPage() {
                             className="flex items-center justify-between text-xs border border-border/60 rounded-md px-3 py-2 bg-muted/20"
                           >
                             <span className="text-foreground/80">
-                              {segment.sequence}. {segment.stationName}{" "}
+                              {segment.sequence}. {segment.stationName}
+                              {segment.rateScheduleName && <> &middot; {segment.rateScheduleName}</>}{" "}
                               <span className="text-muted-foreground">
-                                ({segment.pricingTier === "solo" ? "Solo" : "Group"}) &middot; {formatDuration(segment.effectiveSeconds)}
+                                ({tierLabel(segment.pricingTier, segment.stationRateName)}) &middot; {formatDuration(segment.effectiveSeconds)}
+                                {segment.billableSeconds !== segment.effectiveSeconds && (
+                                  <> &middot; billed {formatDuration(segment.billableSeconds)}</>
+                                )}
                               </span>
                             </span>
                             <span className="font-mono text-muted-foreground">
@@ -381,6 +811,12 @@ export default function HistoryPage() {
                         ))
                       )}
                     </div>
+                    {row.prepaidMinutes !== null && (
+                      <div className="flex justify-between pt-3 border-t text-sm text-muted-foreground shrink-0">
+                        <span>Prepaid {formatDuration(row.prepaidMinutes * 60)} + overtime</span>
+                        <span className="font-mono">{formatMoney(row.prepaidAmount ?? 0)} prepaid</span>
+                      </div>
+                    )}
                     <div className="flex justify-between pt-3 border-t font-medium shrink-0">
                       <span>Time Charge</span>
                       <span className="font-mono">{formatMoney(row.timeCharge)}</span>
@@ -392,6 +828,32 @@ export default function HistoryPage() {
           </div>
         )}
       </main>
+
+      {editingRow && (
+        <EditClosedSessionDialog
+          open
+          onOpenChange={(open) => !open && setEditingRow(null)}
+          stationName={editingRow.stationName}
+          segments={editingRow.timeSegments}
+          items={editingRow.items}
+          saving={editSaving}
+          onSave={handleEdit}
+        />
+      )}
+
+      {adjusting && (
+        <SessionAdjustmentDialog
+          open
+          onOpenChange={(open) => !open && setAdjusting(null)}
+          type={adjusting.type}
+          stationName={adjusting.row.stationName}
+          refundable={adjusting.row.checkout ? getRefundable(adjusting.row.checkout) : 0}
+          defaultTenderType={adjusting.row.checkout?.payments[0]?.tenderType ?? "card"}
+          giftCardPaid={!!adjusting.row.checkout?.payments.some((payment) => payment.tenderType === "gift_card" && payment.amount > 0)}
+          saving={adjustmentSaving}
+          onConfirm={handleAdjustment}
+        />
+      )}
     </div>
   );
 }
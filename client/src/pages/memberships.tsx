@@ -0,0 +1,326 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthReady } from "@/lib/useAuthReady";
+import { deleteWithAuth, fetchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "@/hooks/useTheme";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { customerName } from "@/components/CustomerDialog";
+import {
+  describePlan,
+  formatIncludedHours,
+  type Membership,
+  type MembershipPlan,
+} from "@/components/MembershipDialog";
+import { MembershipPlanDialog } from "@/components/MembershipPlanDialog";
+import { ArrowLeft, Loader2, Moon, Pencil, Plus, RefreshCw, Search, Sun, Trash2, X } from "lucide-react";
+
+/** How far ahead "Expiring soon" looks. */
+const EXPIRING_WITHIN_DAYS = 7;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function MembershipRow({
+  membership,
+  onRenew,
+  onCancel,
+}: {
+  membership: Membership;
+  onRenew: (membership: Membership) => void;
+  onCancel: (membership: Membership) => void;
+}) {
+  const includedSeconds = Number(membership.plan.includedHours) * 3600;
+  return (
+    <div className="flex flex-wrap items-center gap-3" data-testid={`row-membership-${membership.id}`}>
+      <div className="flex-1 min-w-0">
+        <button
+          type="button"
+          className="font-medium hover:underline truncate"
+          onClick={() => window.location.assign(`/customers/${membership.customerId}`)}
+        >
+          {customerName(membership.customer)}
+        </button>
+        <div className="text-xs text-muted-foreground truncate">
+          {membership.plan.name}
+          {includedSeconds > 0
+            ? ` · ${formatIncludedHours(membership.includedSecondsLeft)} of ${formatIncludedHours(includedSeconds)} left`
+            : ""}
+          {` · ${membership.status === "active" ? "renews" : "lapsed"} ${formatDate(membership.renewsAt)}`}
+        </div>
+      </div>
+      {membership.status === "lapsed" ? <Badge variant="destructive">Lapsed</Badge> : <Badge>Active</Badge>}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onRenew(membership)}
+        data-testid={`button-renew-membership-${membership.id}`}
+      >
+        <RefreshCw className="w-3.5 h-3.5 mr-1" />
+        Renew
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onCancel(membership)}
+        aria-label="Cancel membership"
+        data-testid={`button-cancel-membership-${membership.id}`}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export default function MembershipsPage() {
+  const { ready: authReady, user } = useAuthReady();
+  const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [search, setSearch] = useState("");
+  const [planDialogOpen, setPlanDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MembershipPlan | null>(null);
+
+  useEffect(() => {
+    if (!authReady) return;
+    if (!user) window.location.replace("/signin");
+  }, [authReady, user]);
+
+  const { data: plans = [] } = useQuery<MembershipPlan[]>({
+    queryKey: ["membership-plans"],
+    queryFn: () => fetchWithAuth<MembershipPlan[]>("/api/membership-plans"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const { data: memberships, isLoading, error } = useQuery<Membership[]>({
+    queryKey: ["memberships"],
+    queryFn: () => fetchWithAuth<Membership[]>("/api/memberships"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const { data: expiring = [] } = useQuery<Membership[]>({
+    queryKey: ["memberships", { expiringWithinDays: EXPIRING_WITHIN_DAYS }],
+    queryFn: () => fetchWithAuth<Membership[]>(`/api/memberships?expiringWithinDays=${EXPIRING_WITHIN_DAYS}`),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return memberships ?? [];
+    return (memberships ?? []).filter(
+      (membership) =>
+        customerName(membership.customer).toLowerCase().includes(q) ||
+        membership.customer.phoneNumber.includes(q) ||
+        membership.plan.name.toLowerCase().includes(q),
+    );
+  }, [memberships, search]);
+
+  const memberCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const membership of memberships ?? []) counts.set(membership.planId, (counts.get(membership.planId) ?? 0) + 1);
+    return counts;
+  }, [memberships]);
+
+  async function handleRenew(membership: Membership) {
+    try {
+      const renewed = await postWithAuth<Membership>(`/api/memberships/${membership.id}/renew`);
+      await qc.invalidateQueries({ queryKey: ["memberships"] });
+      toast({ title: "Membership renewed", description: `Now renews ${formatDate(renewed.renewsAt)}` });
+    } catch (e: any) {
+      toast({ title: "Couldn't renew membership", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  async function handleCancel(membership: Membership) {
+    if (!window.confirm(`Cancel ${customerName(membership.customer)}'s ${membership.plan.name} membership?`)) return;
+    try {
+      await deleteWithAuth(`/api/memberships/${membership.id}`);
+      await qc.invalidateQueries({ queryKey: ["memberships"] });
+      toast({ title: "Membership cancelled" });
+    } catch (e: any) {
+      toast({ title: "Couldn't cancel membership", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  async function handleDeletePlan(plan: MembershipPlan) {
+    if (!window.confirm(`Delete the ${plan.name} plan?`)) return;
+    try {
+      await deleteWithAuth(`/api/membership-plans/${plan.id}`);
+      await qc.invalidateQueries({ queryKey: ["membership-plans"] });
+      toast({ title: "Plan deleted" });
+    } catch (e: any) {
+      toast({ title: "Couldn't delete plan", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 sticky top-0 bg-background/90 backdrop-blur-sm z-10">
+        <div className="container mx-auto max-w-screen-xl px-4 py-3 flex justify-between items-center gap-4">
+          <h1 className="text-3xl font-bold font-display leading-tight">Memberships</h1>
+          <div className="flex items-center gap-1.5">
+            <Button variant="outline" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+              {theme === "dark" ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/customers")}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Customers
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-screen-xl px-4 py-6 space-y-6">
+        {error ? (
+          <Card className="p-6 max-w-lg mx-auto space-y-3">
+            <h2 className="text-lg font-semibold">Couldn&apos;t load memberships</h2>
+            <p className="text-sm text-muted-foreground">Please refresh. If this continues, sign out and sign back in.</p>
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              Refresh
+            </Button>
+          </Card>
+        ) : (
+          <>
+            <Card className="p-5 space-y-3" data-testid="section-membership-plans">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="font-semibold">Plans</h2>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setEditingPlan(null);
+                    setPlanDialogOpen(true);
+                  }}
+                  data-testid="button-add-membership-plan"
+                >
+                  <Plus className="w-4 h-4 mr-1.5" />
+                  Add plan
+                </Button>
+              </div>
+              {plans.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No plans yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {plans.map((plan) => (
+                    <div
+                      key={plan.id}
+                      className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2"
+                      data-testid={`membership-plan-${plan.id}`}
+                    >
+                      <div className="min-w-0 space-y-0.5">
+                        <p className="text-sm font-medium truncate">
+                          {plan.name}
+                          {!plan.isEnabled && <span className="ml-2 text-xs text-muted-foreground">(disabled)</span>}
+                        </p>
+                        <p className="text-xs font-mono text-muted-foreground">
+                          {describePlan(plan)} · {memberCounts.get(plan.id) ?? 0} members
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Edit plan"
+                          onClick={() => {
+                            setEditingPlan(plan);
+                            setPlanDialogOpen(true);
+                          }}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" aria-label="Delete plan" onClick={() => handleDeletePlan(plan)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {expiring.length > 0 && (
+              <Card className="p-5 space-y-3" data-testid="section-expiring-memberships">
+                <div>
+                  <h2 className="font-semibold">Expiring soon</h2>
+                  <div className="text-xs text-muted-foreground">
+                    Lapsed, or due to renew in the next {EXPIRING_WITHIN_DAYS} days.
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {expiring.map((membership) => (
+                    <MembershipRow
+                      key={membership.id}
+                      membership={membership}
+                      onRenew={handleRenew}
+                      onCancel={handleCancel}
+                    />
+                  ))}
+                </div>
+              </Card>
+            )}
+
+            <Card className="p-5 space-y-3" data-testid="section-members">
+              <div className="flex items-center gap-3">
+                <h2 className="font-semibold flex-1">Members</h2>
+                <div className="relative w-full max-w-xs">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search name, phone or plan"
+                    className="pl-9"
+                    data-testid="input-membership-search"
+                  />
+                </div>
+              </div>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-10">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : filtered.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {search.trim() ? "No members match." : "No members yet. Start a membership from a customer's page."}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {filtered.map((membership) => (
+                    <MembershipRow
+                      key={membership.id}
+                      membership={membership}
+                      onRenew={handleRenew}
+                      onCancel={handleCancel}
+                    />
+                  ))}
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </main>
+
+      <MembershipPlanDialog
+        open={planDialogOpen}
+        onOpenChange={setPlanDialogOpen}
+        plan={editingPlan}
+        sortOrder={plans.length}
+      />
+    </div>
+  );
+}
@@ -10,6 +10,10 @@ import { useTheme } from "@/hooks/useTheme";
 import { Moon, Sun, ArrowLeft, Upload, X, Link2, Unlink, RefreshCw, Upload as UploadIcon } from "lucide-react";
 import CloverSyncDialog from "@/components/CloverSyncDialog";
 import CloverPushDialog from "@/components/CloverPushDialog";
+import { RateSchedulesCard } from "@/components/RateSchedulesCard";
+import { TaxSettingsCard } from "@/components/TaxSettingsCard";
+import { PromotionsCard } from "@/components/PromotionsCard";
+import { LoyaltyProgramCard, type LoyaltyProgram } from "@/components/LoyaltyProgramCard";
 
 interface MeResponse {
   uid: string;
@@ -18,6 +22,11 @@ interface MeResponse {
   logoDataUrl: string | null;
   discountThresholdSeconds: number;
   discountRate: string;
+  loyaltyProgram: LoyaltyProgram;
+  pointsPerDollar: string;
+  pointsPerHour: string;
+  timeZone: string;
+  pricesIncludeTax: boolean;
   cloverMerchantId: string | null;
   cloverConnectedAt: string | null;
 }
@@ -462,6 +471,18 @@ export default function ProfilePage() {
             </div>
           </Card>
 
+          <LoyaltyProgramCard
+            program={me?.loyaltyProgram ?? "hours"}
+            pointsPerDollar={me?.pointsPerDollar ?? "0"}
+            pointsPerHour={me?.pointsPerHour ?? "0"}
+          />
+
+          <RateSchedulesCard timeZone={me?.timeZone ?? "UTC"} />
+
+          <TaxSettingsCard pricesIncludeTax={me?.pricesIncludeTax ?? false} />
+
+          <PromotionsCard />
+
         </div>
       </main>
 
@@ -0,0 +1,529 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthReady } from "@/lib/useAuthReady";
+import { deleteWithAuth, fetchWithAuth, patchWithAuth, postWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "@/hooks/useTheme";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ReservationDialog,
+  formatReservationTime,
+  type Reservation,
+  type ReservationPayload,
+  type ReservationStatus,
+} from "@/components/ReservationDialog";
+import { cn } from "@/lib/utils";
+import {
+  ArrowLeft,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Moon,
+  Pencil,
+  Play,
+  Plus,
+  Sun,
+  Trash2,
+  UserX,
+  X,
+} from "lucide-react";
+
+interface CalendarStation {
+  id: string;
+  name: string;
+  stationType: string;
+  isEnabled: boolean;
+  sortOrder: number;
+  activeSession: { id: string; status: string } | null;
+}
+
+interface CalendarRow {
+  key: string;
+  label: string;
+  reservations: Reservation[];
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DAY_MS = 24 * 3600 * 1000;
+
+const statusLabels: Record<ReservationStatus, string> = {
+  booked: "Booked",
+  seated: "Seated",
+  cancelled: "Cancelled",
+  no_show: "No-show",
+};
+
+const statusBlockClasses: Record<ReservationStatus, string> = {
+  booked: "bg-primary/15 border-primary/40 text-foreground",
+  seated: "bg-chart-3/15 border-chart-3/40 text-foreground",
+  cancelled: "bg-muted/40 border-border text-muted-foreground line-through",
+  no_show: "bg-destructive/10 border-destructive/40 text-muted-foreground",
+};
+
+function toLocalDate(value: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function shiftDate(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00`);
+  value.setDate(value.getDate() + days);
+  return toLocalDate(value);
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "a" : "p";
+  const display = hour % 12 === 0 ? 12 : hour % 12;
+  return `${display}${suffix}`;
+}
+
+export default function ReservationsPage() {
+  const { ready: authReady, user } = useAuthReady();
+  const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const today = toLocalDate(new Date());
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Reservation | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [seating, setSeating] = useState<Reservation | null>(null);
+  const [seatStationId, setSeatStationId] = useState("");
+  const [seatTier, setSeatTier] = useState<"solo" | "group">("group");
+
+  useEffect(() => {
+    if (!authReady) return;
+    if (!user) window.location.replace("/signin");
+  }, [authReady, user]);
+
+  const dayStart = useMemo(() => new Date(`${selectedDate}T00:00:00`), [selectedDate]);
+
+  const { data: reservations, isLoading, isFetching, error } = useQuery<Reservation[]>({
+    queryKey: ["reservations", selectedDate],
+    queryFn: () => {
+      const params = new URLSearchParams({
+        from: dayStart.toISOString(),
+        to: new Date(dayStart.getTime() + DAY_MS).toISOString(),
+      });
+      return fetchWithAuth<Reservation[]>(`/api/reservations?${params}`);
+    },
+    retry: false,
+    enabled: authReady && !!user,
+    placeholderData: (prev) => prev,
+  });
+
+  const { data: stations } = useQuery<CalendarStation[]>({
+    queryKey: ["stations"],
+    queryFn: () => fetchWithAuth<CalendarStation[]>("/api/stations"),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const orderedStations = useMemo(
+    () => [...(stations ?? [])].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0)),
+    [stations]
+  );
+
+  const rows = useMemo<CalendarRow[]>(() => {
+    const list = reservations ?? [];
+    const typeRows = Array.from(new Set(list.filter((r) => !r.stationId).map((r) => r.stationType ?? "")))
+      .sort()
+      .map((type) => ({
+        key: `type:${type}`,
+        label: `Any ${type}`,
+        reservations: list.filter((r) => !r.stationId && r.stationType === type),
+      }));
+    const stationRows = orderedStations.map((station) => ({
+      key: station.id,
+      label: station.name,
+      reservations: list.filter((r) => r.stationId === station.id),
+    }));
+    return [...typeRows, ...stationRows];
+  }, [reservations, orderedStations]);
+
+  const agenda = useMemo(
+    () => [...(reservations ?? [])].sort((a, b) => a.startsAt.localeCompare(b.startsAt)),
+    [reservations]
+  );
+
+  const stationName = (reservation: Reservation) =>
+    reservation.stationId
+      ? orderedStations.find((station) => station.id === reservation.stationId)?.name ?? "Station"
+      : `Any ${reservation.stationType}`;
+
+  const seatOptions = useMemo(() => {
+    if (!seating) return [];
+    return orderedStations.filter(
+      (station) =>
+        station.isEnabled &&
+        !station.activeSession &&
+        (seating.stationId ? station.id === seating.stationId : station.stationType === seating.stationType)
+    );
+  }, [seating, orderedStations]);
+
+  function blockStyle(reservation: Reservation) {
+    const start = Math.max(0, new Date(reservation.startsAt).getTime() - dayStart.getTime());
+    const end = Math.min(DAY_MS, new Date(reservation.endsAt).getTime() - dayStart.getTime());
+    return {
+      left: `${(start / DAY_MS) * 100}%`,
+      width: `${(Math.max(end - start, 15 * 60000) / DAY_MS) * 100}%`,
+    };
+  }
+
+  async function refresh() {
+    await qc.invalidateQueries({ queryKey: ["reservations"] });
+  }
+
+  function showError(title: string, e: any) {
+    toast({ title, description: e?.message ?? "Please try again.", variant: "destructive" });
+  }
+
+  async function handleSave(payload: ReservationPayload) {
+    setSaving(true);
+    try {
+      if (editing) {
+        await patchWithAuth(`/api/reservations/${editing.id}`, payload);
+        toast({ title: "Reservation updated" });
+      } else {
+        await postWithAuth("/api/reservations", payload);
+        toast({ title: "Reservation booked", description: `${payload.customerName} at ${formatReservationTime(payload.startsAt)}` });
+      }
+      setDialogOpen(false);
+      setEditing(null);
+      await refresh();
+    } catch (e: any) {
+      showError("Couldn't save reservation", e);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleStatus(reservation: Reservation, status: ReservationStatus) {
+    try {
+      await patchWithAuth(`/api/reservations/${reservation.id}`, { status });
+      await refresh();
+    } catch (e: any) {
+      showError("Couldn't update reservation", e);
+    }
+  }
+
+  async function handleDelete(reservation: Reservation) {
+    if (!window.confirm(`Delete the reservation for ${reservation.customerName}?`)) return;
+    try {
+      await deleteWithAuth(`/api/reservations/${reservation.id}`);
+      await refresh();
+    } catch (e: any) {
+      showError("Couldn't delete reservation", e);
+    }
+  }
+
+  function openSeat(reservation: Reservation) {
+    setSeating(reservation);
+    setSeatStationId(reservation.stationId ?? "");
+    setSeatTier(reservation.partySize > 1 ? "group" : "solo");
+  }
+
+  async function handleSeat() {
+    if (!seating || !seatStationId) return;
+    try {
+      await postWithAuth("/api/sessions/start", {
+        stationId: seatStationId,
+        pricingTier: seatTier,
+        reservationId: seating.id,
+      });
+      toast({ title: "Reservation seated", description: `${seating.customerName}'s session has started.` });
+      setSeating(null);
+      await Promise.all([refresh(), qc.invalidateQueries({ queryKey: ["stations"] })]);
+    } catch (e: any) {
+      showError("Couldn't seat reservation", e);
+    }
+  }
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 sticky top-0 bg-background/90 backdrop-blur-sm z-10">
+        <div className="container mx-auto max-w-screen-xl px-4 py-3 flex justify-between items-center gap-4">
+          <h1 className="text-3xl font-bold font-display leading-tight">Reservations</h1>
+          <div className="flex items-center gap-1.5">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={toggleTheme}
+              aria-label="Toggle theme"
+            >
+              {theme === "dark" ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <div className="container mx-auto max-w-screen-xl px-4 pb-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setSelectedDate(shiftDate(selectedDate, -1))} aria-label="Previous day">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <div className="flex items-center gap-1.5">
+              <CalendarDays className="h-4 w-4 text-muted-foreground shrink-0" />
+              <input
+                type="date"
+                value={selectedDate}
+                onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+                className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm font-mono"
+              />
+            </div>
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setSelectedDate(shiftDate(selectedDate, 1))} aria-label="Next day">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            {selectedDate !== today && (
+              <Button variant="ghost" size="sm" onClick={() => setSelectedDate(today)}>
+                Today
+              </Button>
+            )}
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />}
+            <div className="flex-1" />
+            <Button
+              size="sm"
+              onClick={() => {
+                setEditing(null);
+                setDialogOpen(true);
+              }}
+              data-testid="button-new-reservation"
+            >
+              <Plus className="w-4 h-4 mr-1.5" />
+              New Reservation
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-screen-xl px-4 py-6 space-y-6">
+        {error ? (
+          <Card className="p-6 max-w-lg mx-auto space-y-3">
+            <h2 className="text-lg font-semibold">Couldn&apos;t load reservations</h2>
+            <p className="text-sm text-muted-foreground">Please refresh. If this continues, sign out and sign back in.</p>
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              Refresh
+            </Button>
+          </Card>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Day timeline: one row per station, plus rows for "any station of a type" bookings */}
+            <Card className="overflow-x-auto">
+              <div className="min-w-[960px]">
+                <div className="flex border-b border-border/50 text-[10px] text-muted-foreground">
+                  <div className="w-36 shrink-0" />
+                  <div className="flex-1 flex">
+                    {HOURS.map((hour) => (
+                      <div key={hour} className="flex-1 border-l border-border/30 px-1 py-1.5">
+                        {formatHour(hour)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {rows.length === 0 ? (
+                  <p className="p-6 text-sm text-muted-foreground text-center">No stations yet.</p>
+                ) : (
+                  rows.map((row) => (
+                    <div key={row.key} className="flex border-b border-border/30 last:border-b-0">
+                      <div className="w-36 shrink-0 px-3 py-3 text-sm font-medium truncate">{row.label}</div>
+                      <div className="relative flex-1 h-12">
+                        <div className="absolute inset-0 flex pointer-events-none">
+                          {HOURS.map((hour) => (
+                            <div key={hour} className="flex-1 border-l border-border/20" />
+                          ))}
+                        </div>
+                        {row.reservations.map((reservation) => (
+                          <button
+                            key={reservation.id}
+                            type="button"
+                            className={cn(
+                              "absolute top-1.5 bottom-1.5 rounded-md border px-1.5 text-left text-xs truncate",
+                              statusBlockClasses[reservation.status]
+                            )}
+                            style={blockStyle(reservation)}
+                            title={`${reservation.customerName} · ${formatReservationTime(reservation.startsAt)}–${formatReservationTime(reservation.endsAt)}`}
+                            onClick={() => {
+                              if (reservation.status !== "booked") return;
+                              setEditing(reservation);
+                              setDialogOpen(true);
+                            }}
+                            data-testid={`block-reservation-${reservation.id}`}
+                          >
+                            {reservation.customerName} ({reservation.partySize})
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </Card>
+
+            {/* Agenda */}
+            {agenda.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border/60 bg-card/30 p-10 text-center">
+                <p className="font-medium text-foreground/60">No reservations for this day</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {agenda.map((reservation) => (
+                  <Card key={reservation.id} className="p-4 flex flex-wrap items-center gap-3" data-testid={`row-reservation-${reservation.id}`}>
+                    <div className="font-mono text-sm w-40 shrink-0">
+                      {formatReservationTime(reservation.startsAt)} – {formatReservationTime(reservation.endsAt)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold truncate">
+                        {reservation.customerName}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">party of {reservation.partySize}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {stationName(reservation)}
+                        {reservation.customerPhone ? ` · ${reservation.customerPhone}` : ""}
+                        {reservation.notes ? ` · ${reservation.notes}` : ""}
+                      </div>
+                    </div>
+                    <Badge variant="outline">{statusLabels[reservation.status]}</Badge>
+                    {reservation.status === "booked" ? (
+                      <div className="flex items-center gap-1">
+                        <Button size="sm" onClick={() => openSeat(reservation)} data-testid={`button-seat-${reservation.id}`}>
+                          <Play className="w-3.5 h-3.5 mr-1" />
+                          Seat
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => {
+                            setEditing(reservation);
+                            setDialogOpen(true);
+                          }}
+                          aria-label="Edit reservation"
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleStatus(reservation, "no_show")} aria-label="Mark no-show">
+                          <UserX className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleStatus(reservation, "cancelled")} aria-label="Cancel reservation">
+                          <X className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ) : reservation.status !== "seated" ? (
+                      <div className="flex items-center gap-1">
+                        <Button variant="outline" size="sm" onClick={() => handleStatus(reservation, "booked")}>
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(reservation)}
+                          aria-label="Delete reservation"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ) : null}
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <ReservationDialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) setEditing(null);
+        }}
+        stations={orderedStations}
+        reservation={editing}
+        defaultDate={selectedDate}
+        saving={saving}
+        onSave={handleSave}
+      />
+
+      <Dialog open={!!seating} onOpenChange={(open) => !open && setSeating(null)}>
+        <DialogContent className="max-w-sm" data-testid="dialog-seat-reservation">
+          <DialogHeader>
+            <DialogTitle>Seat {seating?.customerName}</DialogTitle>
+            <DialogDescription>Start a session for this reservation now.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={seatStationId} onValueChange={setSeatStationId}>
+                <SelectTrigger data-testid="select-seat-station">
+                  <SelectValue placeholder={seatOptions.length ? "Choose a station" : "No free station"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {seatOptions.map((station) => (
+                    <SelectItem key={station.id} value={station.id}>
+                      {station.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Pricing Tier</Label>
+              <div className="flex gap-2">
+                <Button type="button" variant={seatTier === "solo" ? "default" : "outline"} className="flex-1" onClick={() => setSeatTier("solo")}>
+                  Solo
+                </Button>
+                <Button type="button" variant={seatTier === "group" ? "default" : "outline"} className="flex-1" onClick={() => setSeatTier("group")}>
+                  Group
+                </Button>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSeating(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSeat} disabled={!seatStationId || !seatOptions.some((s) => s.id === seatStationId)}>
+              Start Session
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthReady } from "@/lib/useAuthReady";
+import { deleteWithAuth, fetchWithAuth } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTheme } from "@/hooks/useTheme";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  IssueVouchersDialog,
+  formatVoucherCode,
+  formatVoucherMinutes,
+  type TimeVoucher,
+  type TimeVoucherStatus,
+} from "@/components/IssueVouchersDialog";
+import { ArrowLeft, Copy, Loader2, Moon, Plus, Search, Sun, Trash2, X } from "lucide-react";
+
+type StatusFilter = TimeVoucherStatus | "all";
+
+const STATUS_LABELS: Record<TimeVoucherStatus, string> = {
+  active: "Active",
+  redeemed: "Redeemed",
+  expired: "Expired",
+};
+
+/** Codes match however they are typed: case, dashes and spaces are ignored. */
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function StatusBadge({ status }: { status: TimeVoucherStatus }) {
+  if (status === "active") return <Badge>{STATUS_LABELS.active}</Badge>;
+  if (status === "redeemed") return <Badge variant="secondary">{STATUS_LABELS.redeemed}</Badge>;
+  return <Badge variant="outline">{STATUS_LABELS.expired}</Badge>;
+}
+
+export default function VouchersPage() {
+  const { ready: authReady, user } = useAuthReady();
+  const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<StatusFilter>("active");
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [issued, setIssued] = useState<TimeVoucher[]>([]);
+
+  useEffect(() => {
+    if (!authReady) return;
+    if (!user) window.location.replace("/signin");
+  }, [authReady, user]);
+
+  const { data: vouchers, isLoading, error } = useQuery<TimeVoucher[]>({
+    queryKey: ["vouchers", status],
+    queryFn: () => fetchWithAuth<TimeVoucher[]>(status === "all" ? "/api/vouchers" : `/api/vouchers?status=${status}`),
+    retry: false,
+    enabled: authReady && !!user,
+  });
+
+  const filtered = useMemo(() => {
+    const code = normalizeCode(search);
+    if (!code) return vouchers ?? [];
+    return (vouchers ?? []).filter((voucher) => voucher.code.includes(code));
+  }, [vouchers, search]);
+
+  async function handleDelete(voucher: TimeVoucher) {
+    if (!window.confirm(`Delete voucher ${formatVoucherCode(voucher.code)}? Its code will no longer work.`)) return;
+    try {
+      await deleteWithAuth(`/api/vouchers/${voucher.id}`);
+      await qc.invalidateQueries({ queryKey: ["vouchers"] });
+    } catch (e: any) {
+      toast({ title: "Couldn't delete voucher", description: e?.message ?? "Please try again.", variant: "destructive" });
+    }
+  }
+
+  async function handleCopyIssued() {
+    try {
+      await navigator.clipboard.writeText(issued.map((voucher) => formatVoucherCode(voucher.code)).join("\n"));
+      toast({ title: "Codes copied" });
+    } catch {
+      toast({ title: "Couldn't copy codes", variant: "destructive" });
+    }
+  }
+
+  if (!authReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 sticky top-0 bg-background/90 backdrop-blur-sm z-10">
+        <div className="container mx-auto max-w-screen-xl px-4 py-3 flex justify-between items-center gap-4">
+          <h1 className="text-3xl font-bold font-display leading-tight">Time Vouchers</h1>
+          <div className="flex items-center gap-1.5">
+            <Button variant="outline" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+              {theme === "dark" ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.assign("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <div className="container mx-auto max-w-screen-xl px-4 pb-3">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Look up a code"
+                className="pl-9 font-mono"
+                data-testid="input-voucher-search"
+              />
+            </div>
+            <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+              <SelectTrigger className="w-36" data-testid="select-voucher-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {(Object.keys(STATUS_LABELS) as TimeVoucherStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {STATUS_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex-1" />
+            <Button size="sm" onClick={() => setIssueOpen(true)} data-testid="button-issue-vouchers">
+              <Plus className="w-4 h-4 mr-1.5" />
+              Issue Vouchers
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-screen-xl px-4 py-6 space-y-6">
+        {issued.length > 0 && (
+          <Card className="p-4 space-y-3" data-testid="card-issued-vouchers">
+            <div className="flex items-center gap-2">
+              <h2 className="font-semibold flex-1">
+                Just issued: {issued.length} × {formatVoucherMinutes(issued[0].minutes)}
+              </h2>
+              <Button variant="outline" size="sm" onClick={handleCopyIssued} data-testid="button-copy-issued">
+                <Copy className="w-4 h-4 mr-1.5" />
+                Copy codes
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIssued([])} aria-label="Dismiss">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 font-mono text-sm">
+              {issued.map((voucher) => (
+                <div key={voucher.id}>{formatVoucherCode(voucher.code)}</div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {error ? (
+          <Card className="p-6 max-w-lg mx-auto space-y-3">
+            <h2 className="text-lg font-semibold">Couldn&apos;t load vouchers</h2>
+            <p className="text-sm text-muted-foreground">Please refresh. If this continues, sign out and sign back in.</p>
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              Refresh
+            </Button>
+          </Card>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border/60 bg-card/30 p-10 text-center">
+            <p className="font-medium text-foreground/60">{search.trim() ? "No vouchers match" : "No vouchers here"}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map((voucher) => (
+              <Card key={voucher.id} className="p-4" data-testid={`row-voucher-${voucher.id}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono font-semibold">{formatVoucherCode(voucher.code)}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {formatVoucherMinutes(voucher.minutes)}
+                      {voucher.stationType ? ` on ${voucher.stationType}` : " on any station"}
+                      {voucher.expiresAt ? ` · expires ${formatDate(voucher.expiresAt)}` : ""}
+                      {voucher.note ? ` · ${voucher.note}` : ""}
+                    </div>
+                    {voucher.redeemedAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Redeemed {formatDate(voucher.redeemedAt)}: {voucher.redeemedMinutes ?? 0} min, $
+                        {Number(voucher.redeemedAmount ?? 0).toFixed(2)} off
+                      </div>
+                    )}
+                  </div>
+                  <StatusBadge status={voucher.status} />
+                  {!voucher.redeemedAt && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleDelete(voucher)}
+                      aria-label="Delete voucher"
+                      data-testid={`button-delete-voucher-${voucher.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <IssueVouchersDialog open={issueOpen} onOpenChange={setIssueOpen} onIssued={setIssued} />
+    </div>
+  );
+}
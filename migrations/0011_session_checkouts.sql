@@ -0,0 +1,31 @@
+CREATE TYPE "public"."tender_type" AS ENUM('cash', 'card', 'other');--> statement-breakpoint
+CREATE TABLE "session_checkouts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"time_subtotal" numeric(10, 2) NOT NULL,
+	"items_subtotal" numeric(10, 2) NOT NULL,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"discount_rate" numeric(5, 4) DEFAULT '0' NOT NULL,
+	"discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"final_total" numeric(10, 2) NOT NULL,
+	"split_count" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "session_checkouts_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "session_payments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"checkout_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"sequence" integer NOT NULL,
+	"tender_type" "tender_type" NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_payments" ADD CONSTRAINT "session_payments_checkout_id_session_checkouts_id_fk" FOREIGN KEY ("checkout_id") REFERENCES "public"."session_checkouts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_payments" ADD CONSTRAINT "session_payments_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
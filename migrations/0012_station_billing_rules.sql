@@ -0,0 +1,11 @@
+CREATE TYPE "public"."billing_rounding_mode" AS ENUM('up', 'nearest');--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "billable_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "billing_increment_minutes_snapshot" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "billing_rounding_mode_snapshot" "billing_rounding_mode" DEFAULT 'up' NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "minimum_billable_minutes_snapshot" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "grace_minutes_snapshot" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "stations" ADD COLUMN "billing_increment_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "stations" ADD COLUMN "billing_rounding_mode" "billing_rounding_mode" DEFAULT 'up' NOT NULL;--> statement-breakpoint
+ALTER TABLE "stations" ADD COLUMN "minimum_billable_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "stations" ADD COLUMN "grace_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "session_time_segments" SET "billable_seconds" = "effective_seconds";
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "rate_schedules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"station_id" varchar,
+	"station_type" text,
+	"days_of_week" integer[] NOT NULL,
+	"start_minute" integer NOT NULL,
+	"end_minute" integer NOT NULL,
+	"rate_solo_hourly" numeric(10, 2) NOT NULL,
+	"rate_group_hourly" numeric(10, 2) NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "rate_schedule_id" varchar;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "rate_schedule_name_snapshot" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "time_zone" text DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rate_schedules" ADD CONSTRAINT "rate_schedules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rate_schedules" ADD CONSTRAINT "rate_schedules_station_id_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD CONSTRAINT "session_time_segments_rate_schedule_id_rate_schedules_id_fk" FOREIGN KEY ("rate_schedule_id") REFERENCES "public"."rate_schedules"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "session_checkouts" ADD COLUMN "prepaid_credit" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "prepaid_minutes" integer;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "prepaid_amount" numeric(10, 2);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."reservation_status" AS ENUM('booked', 'seated', 'cancelled', 'no_show');--> statement-breakpoint
+CREATE TABLE "reservations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"customer_name" text NOT NULL,
+	"customer_phone" text,
+	"station_id" varchar,
+	"station_type" text,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"party_size" integer DEFAULT 1 NOT NULL,
+	"status" "reservation_status" DEFAULT 'booked' NOT NULL,
+	"notes" text,
+	"session_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_station_id_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."waitlist_status" AS ENUM('waiting', 'seated', 'left');--> statement-breakpoint
+CREATE TABLE "waitlist_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"customer_name" text NOT NULL,
+	"customer_phone" text,
+	"party_size" integer DEFAULT 1 NOT NULL,
+	"station_type" text,
+	"quoted_wait_minutes" integer DEFAULT 0 NOT NULL,
+	"status" "waitlist_status" DEFAULT 'waiting' NOT NULL,
+	"notes" text,
+	"station_id" varchar,
+	"session_id" varchar,
+	"seated_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_station_id_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
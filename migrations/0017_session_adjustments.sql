@@ -0,0 +1,20 @@
+CREATE TYPE "public"."session_adjustment_type" AS ENUM('reopen', 'void', 'refund');--> statement-breakpoint
+CREATE TABLE "session_adjustments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"type" "session_adjustment_type" NOT NULL,
+	"reason" text NOT NULL,
+	"amount" numeric(10, 2),
+	"tender_type" "tender_type",
+	"loyalty_seconds_reversed" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "voided_at" timestamp;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "loyalty_customer_id" varchar;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "loyalty_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_adjustments" ADD CONSTRAINT "session_adjustments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_adjustments" ADD CONSTRAINT "session_adjustments_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_loyalty_customer_id_customers_id_fk" FOREIGN KEY ("loyalty_customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."session_adjustment_type" ADD VALUE 'edit';--> statement-breakpoint
+ALTER TABLE "session_adjustments" ADD COLUMN "changes" jsonb;--> statement-breakpoint
+ALTER TABLE "session_adjustments" ADD COLUMN "actor_email" text;
\ No newline at end of file
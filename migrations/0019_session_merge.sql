@@ -0,0 +1,2 @@
+ALTER TABLE "session_time_segments" ADD COLUMN "closed_stretch" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "session_time_segments" AS "seg" SET "closed_stretch" = true FROM "sessions" AS "s" WHERE "seg"."session_id" = "s"."id" AND "s"."status" = 'closed' AND "seg"."started_at" >= "s"."started_at";
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "session_checkout_payers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"checkout_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"sequence" integer NOT NULL,
+	"name" text NOT NULL,
+	"tender_type" "tender_type" NOT NULL,
+	"discount_rate" numeric(5, 4) DEFAULT '0' NOT NULL,
+	"time_subtotal" numeric(10, 2) NOT NULL,
+	"items_subtotal" numeric(10, 2) NOT NULL,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"prepaid_credit" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"total" numeric(10, 2) NOT NULL,
+	"allocations" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_payments" ADD COLUMN "payer_id" varchar;--> statement-breakpoint
+ALTER TABLE "session_checkout_payers" ADD CONSTRAINT "session_checkout_payers_checkout_id_session_checkouts_id_fk" FOREIGN KEY ("checkout_id") REFERENCES "public"."session_checkouts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkout_payers" ADD CONSTRAINT "session_checkout_payers_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_payments" ADD CONSTRAINT "session_payments_payer_id_session_checkout_payers_id_fk" FOREIGN KEY ("payer_id") REFERENCES "public"."session_checkout_payers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "session_checkouts" ADD COLUMN "tip_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "closed_by_email" text;--> statement-breakpoint
+ALTER TABLE "session_payments" ADD COLUMN "tip_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
\ No newline at end of file
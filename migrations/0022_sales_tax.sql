@@ -0,0 +1,45 @@
+CREATE TABLE "session_checkout_taxes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"checkout_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"sequence" integer NOT NULL,
+	"tax_rate_id" varchar,
+	"name" text NOT NULL,
+	"rate" numeric(7, 5) NOT NULL,
+	"taxable_amount" numeric(10, 2) NOT NULL,
+	"tax_amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tax_classes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"tax_rate_ids" varchar[] NOT NULL,
+	"categories" text[] NOT NULL,
+	"applies_to_time" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tax_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"rate" numeric(7, 5) NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_checkout_payers" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "tax_inclusive" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_checkouts" ADD COLUMN "time_tax_rates" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_items" ADD COLUMN "tax_rates" jsonb;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "prices_include_tax" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_checkout_taxes" ADD CONSTRAINT "session_checkout_taxes_checkout_id_session_checkouts_id_fk" FOREIGN KEY ("checkout_id") REFERENCES "public"."session_checkouts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkout_taxes" ADD CONSTRAINT "session_checkout_taxes_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkout_taxes" ADD CONSTRAINT "session_checkout_taxes_tax_rate_id_tax_rates_id_fk" FOREIGN KEY ("tax_rate_id") REFERENCES "public"."tax_rates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tax_classes" ADD CONSTRAINT "tax_classes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tax_rates" ADD CONSTRAINT "tax_rates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,48 @@
+CREATE TYPE "public"."discount_kind" AS ENUM('percent', 'amount');--> statement-breakpoint
+CREATE TYPE "public"."discount_reason" AS ENUM('comp', 'service_recovery', 'staff', 'price_match', 'other');--> statement-breakpoint
+CREATE TYPE "public"."discount_scope" AS ENUM('all', 'time', 'items', 'categories', 'stations');--> statement-breakpoint
+CREATE TYPE "public"."discount_source" AS ENUM('loyalty', 'promotion', 'manual');--> statement-breakpoint
+CREATE TABLE "promotions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"kind" "discount_kind" NOT NULL,
+	"value" numeric(10, 4) NOT NULL,
+	"scope" "discount_scope" DEFAULT 'all' NOT NULL,
+	"categories" text[] NOT NULL,
+	"station_ids" varchar[] NOT NULL,
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"max_uses" integer,
+	"uses_count" integer DEFAULT 0 NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "session_checkout_discounts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"checkout_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"sequence" integer NOT NULL,
+	"source" "discount_source" NOT NULL,
+	"promotion_id" varchar,
+	"code" text,
+	"name" text NOT NULL,
+	"reason_code" "discount_reason",
+	"note" text,
+	"kind" "discount_kind" NOT NULL,
+	"value" numeric(10, 4) NOT NULL,
+	"scope" "discount_scope" DEFAULT 'all' NOT NULL,
+	"categories" text[] NOT NULL,
+	"station_ids" varchar[] NOT NULL,
+	"eligible_amount" numeric(10, 2) NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkout_discounts" ADD CONSTRAINT "session_checkout_discounts_checkout_id_session_checkouts_id_fk" FOREIGN KEY ("checkout_id") REFERENCES "public"."session_checkouts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkout_discounts" ADD CONSTRAINT "session_checkout_discounts_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_checkout_discounts" ADD CONSTRAINT "session_checkout_discounts_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
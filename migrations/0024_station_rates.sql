@@ -0,0 +1,19 @@
+CREATE TABLE "station_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"station_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"rate_hourly" numeric(10, 2) NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "station_rate_id" varchar;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "station_rate_name_snapshot" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "station_rate_id" varchar;--> statement-breakpoint
+ALTER TABLE "station_rates" ADD CONSTRAINT "station_rates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "station_rates" ADD CONSTRAINT "station_rates_station_id_stations_id_fk" FOREIGN KEY ("station_id") REFERENCES "public"."stations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD CONSTRAINT "session_time_segments_station_rate_id_station_rates_id_fk" FOREIGN KEY ("station_rate_id") REFERENCES "public"."station_rates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_station_rate_id_station_rates_id_fk" FOREIGN KEY ("station_rate_id") REFERENCES "public"."station_rates"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."player_billing_mode" AS ENUM('headcount', 'per_player');--> statement-breakpoint
+CREATE TABLE "session_players" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"joined_at" timestamp NOT NULL,
+	"left_at" timestamp,
+	"joined_at_seconds" integer DEFAULT 0 NOT NULL,
+	"played_seconds" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "player_count" integer;--> statement-breakpoint
+ALTER TABLE "session_time_segments" ADD COLUMN "billed_per_player" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "stations" ADD COLUMN "player_billing_mode" "player_billing_mode" DEFAULT 'headcount' NOT NULL;--> statement-breakpoint
+ALTER TABLE "session_players" ADD CONSTRAINT "session_players_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
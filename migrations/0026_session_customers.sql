@@ -0,0 +1,2 @@
+ALTER TABLE "sessions" ADD COLUMN "customer_id" varchar;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."loyalty_transaction_kind" AS ENUM('earn', 'redeem', 'adjust', 'reverse');--> statement-breakpoint
+CREATE TABLE "loyalty_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"customer_id" varchar NOT NULL,
+	"kind" "loyalty_transaction_kind" NOT NULL,
+	"seconds" integer NOT NULL,
+	"session_id" varchar,
+	"actor_email" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "loyalty_transactions" ADD CONSTRAINT "loyalty_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "loyalty_transactions" ADD CONSTRAINT "loyalty_transactions_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "loyalty_transactions" ADD CONSTRAINT "loyalty_transactions_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Existing balances become an opening adjustment so the ledger adds up to each total.
+INSERT INTO "loyalty_transactions" ("user_id", "customer_id", "kind", "seconds", "note", "created_at")
+SELECT "user_id", "id", 'adjust', "total_seconds", 'Opening balance', "updated_at"
+FROM "customers"
+WHERE "total_seconds" > 0;
@@ -0,0 +1,41 @@
+CREATE TYPE "public"."loyalty_program" AS ENUM('hours', 'points');--> statement-breakpoint
+CREATE TYPE "public"."loyalty_reward_kind" AS ENUM('free_time', 'free_item', 'percent_off');--> statement-breakpoint
+ALTER TYPE "public"."discount_source" ADD VALUE 'reward';--> statement-breakpoint
+ALTER TYPE "public"."discount_source" ADD VALUE 'tier';--> statement-breakpoint
+CREATE TABLE "loyalty_rewards" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"kind" "loyalty_reward_kind" NOT NULL,
+	"points_cost" integer NOT NULL,
+	"minutes" integer,
+	"menu_item_id" varchar,
+	"percent_off" numeric(5, 4),
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "loyalty_tiers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"min_points" integer NOT NULL,
+	"discount_rate" numeric(5, 4) DEFAULT '0' NOT NULL,
+	"points_multiplier" numeric(5, 2) DEFAULT '1' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "points_balance" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "tier_points" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "loyalty_transactions" ADD COLUMN "points" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "loyalty_transactions" ADD COLUMN "reward_id" varchar;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "loyalty_program" "loyalty_program" DEFAULT 'hours' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "points_per_dollar" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "points_per_hour" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "loyalty_rewards" ADD CONSTRAINT "loyalty_rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "loyalty_rewards" ADD CONSTRAINT "loyalty_rewards_menu_item_id_menu_items_id_fk" FOREIGN KEY ("menu_item_id") REFERENCES "public"."menu_items"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "loyalty_tiers" ADD CONSTRAINT "loyalty_tiers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "loyalty_transactions" ADD CONSTRAINT "loyalty_transactions_reward_id_loyalty_rewards_id_fk" FOREIGN KEY ("reward_id") REFERENCES "public"."loyalty_rewards"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "customers" ADD COLUMN "email" text;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;
\ No newline at end of file
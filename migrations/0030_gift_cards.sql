@@ -0,0 +1,36 @@
+CREATE TYPE "public"."gift_card_transaction_kind" AS ENUM('issue', 'reload', 'redeem', 'refund', 'adjust');--> statement-breakpoint
+ALTER TYPE "public"."tender_type" ADD VALUE 'gift_card';--> statement-breakpoint
+CREATE TABLE "gift_card_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"gift_card_id" varchar NOT NULL,
+	"kind" "gift_card_transaction_kind" NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"balance_after" numeric(10, 2) NOT NULL,
+	"tender_type" "tender_type",
+	"session_id" varchar,
+	"actor_email" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gift_cards" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"code" text NOT NULL,
+	"customer_id" varchar,
+	"initial_amount" numeric(10, 2) NOT NULL,
+	"balance" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "gift_cards_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "session_payments" ADD COLUMN "gift_card_id" varchar;--> statement-breakpoint
+ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_gift_card_id_gift_cards_id_fk" FOREIGN KEY ("gift_card_id") REFERENCES "public"."gift_cards"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gift_cards" ADD CONSTRAINT "gift_cards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gift_cards" ADD CONSTRAINT "gift_cards_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_payments" ADD CONSTRAINT "session_payments_gift_card_id_gift_cards_id_fk" FOREIGN KEY ("gift_card_id") REFERENCES "public"."gift_cards"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
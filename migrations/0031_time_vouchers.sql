@@ -0,0 +1,21 @@
+ALTER TYPE "public"."discount_source" ADD VALUE 'voucher';--> statement-breakpoint
+CREATE TABLE "time_vouchers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"code" text NOT NULL,
+	"minutes" integer NOT NULL,
+	"station_type" text,
+	"expires_at" timestamp,
+	"note" text,
+	"created_by_email" text,
+	"redeemed_at" timestamp,
+	"redeemed_session_id" varchar,
+	"redeemed_minutes" integer,
+	"redeemed_amount" numeric(10, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "time_vouchers_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "time_vouchers" ADD CONSTRAINT "time_vouchers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_vouchers" ADD CONSTRAINT "time_vouchers_redeemed_session_id_sessions_id_fk" FOREIGN KEY ("redeemed_session_id") REFERENCES "public"."sessions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -1,11 +1,15 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
-import { insertCustomerSchema, updateCustomerSchema } from "@shared/schema";
+import { importCustomersSchema, insertCustomerSchema, mergeCustomersSchema, updateCustomerSchema } from "@shared/schema";
 import { getUserId } from "../middleware/auth";
 import { customerService } from "./service";
 import { toHttpError } from "./errors";
 
-const applyDiscountBodySchema = z.object({ secondsPlayed: z.coerce.number().min(0) });
+const applyDiscountBodySchema = z.object({
+  secondsPlayed: z.coerce.number().min(0),
+  /** The session being checked out, recorded on the ledger rows. */
+  sessionId: z.string().min(1).optional(),
+});
 const addSecondsBodySchema = z.object({ seconds: z.coerce.number().min(0) });
 
 export async function listCustomers(req: Request, res: Response) {
@@ -31,11 +35,22 @@ export async function getCustomer(req: Request, res: Response) {
   }
 }
 
+export async function getCustomerStats(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const stats = await customerService.getCustomerStats(userId, req.params.id);
+    res.json(stats);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
 export async function createCustomer(req: Request, res: Response) {
   try {
     const userId = getUserId(req);
     const data = insertCustomerSchema.parse(req.body);
-    const created = await customerService.createCustomer(userId, data);
+    const created = await customerService.createCustomer(userId, data, req.user?.email ?? null);
     res.status(201).json(created);
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -51,7 +66,7 @@ export async function updateCustomer(req: Request, res: Response) {
     const userId = getUserId(req);
     const id = req.params.id;
     const patch = updateCustomerSchema.parse(req.body);
-    const updated = await customerService.updateCustomer(userId, id, patch);
+    const updated = await customerService.updateCustomer(userId, id, patch, req.user?.email ?? null);
     res.json(updated);
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -62,6 +77,60 @@ export async function updateCustomer(req: Request, res: Response) {
   }
 }
 
+export async function importCustomers(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const { csv, dryRun } = importCustomersSchema.parse(req.body);
+    const result = await customerService.importCustomers(userId, csv, dryRun, req.user?.email ?? null);
+    res.json(result);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function exportCustomers(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const csv = await customerService.exportCsv(userId);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", 'attachment; filename="customers.csv"');
+    res.send(csv);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function listDuplicateCustomers(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const groups = await customerService.findDuplicates(userId);
+    res.json(groups);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function mergeCustomers(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const { sourceIds } = mergeCustomersSchema.parse(req.body);
+    const merged = await customerService.mergeCustomers(userId, req.params.id, sourceIds);
+    res.json(merged);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
 export async function deleteCustomer(req: Request, res: Response) {
   try {
     const userId = getUserId(req);
@@ -102,11 +171,13 @@ export async function applyCustomerDiscount(req: Request, res: Response) {
   try {
     const userId = getUserId(req);
     const phoneNumber = req.params.phoneNumber;
-    const { secondsPlayed } = applyDiscountBodySchema.parse(req.body);
+    const { secondsPlayed, sessionId } = applyDiscountBodySchema.parse(req.body);
     const { customer, discountRate } = await customerService.applyDiscount({
       userId,
       phoneNumber,
       secondsPlayed,
+      sessionId,
+      actorEmail: req.user?.email ?? null,
     });
     res.json({ customer, discountRate });
   } catch (err) {
@@ -135,7 +206,7 @@ export async function addCustomerSeconds(req: Request, res: Response) {
     const userId = getUserId(req);
     const phoneNumber = req.params.phoneNumber;
     const { seconds } = addSecondsBodySchema.parse(req.body);
-    const customer = await customerService.addSeconds(userId, phoneNumber, seconds);
+    const customer = await customerService.addSeconds(userId, phoneNumber, seconds, req.user?.email ?? null);
     res.json(customer);
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -145,3 +216,14 @@ export async function addCustomerSeconds(req: Request, res: Response) {
     res.status(status).json({ error: message });
   }
 }
+
+export async function listLoyaltyTransactions(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const transactions = await customerService.listLoyaltyTransactions(userId, req.params.id);
+    res.json(transactions);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
@@ -3,13 +3,19 @@ import { requireAuth } from "../middleware/auth";
 import {
   listCustomers,
   getCustomer,
+  getCustomerStats,
   createCustomer,
   updateCustomer,
   deleteCustomer,
+  listDuplicateCustomers,
+  importCustomers,
+  exportCustomers,
+  mergeCustomers,
   checkCustomerDiscount,
   applyCustomerDiscount,
   addCustomerSeconds,
   lookupCustomerByPhone,
+  listLoyaltyTransactions,
 } from "./controller";
 
 const router = Router();
@@ -17,9 +23,15 @@ const router = Router();
 router.get("/api/customers", requireAuth, listCustomers);
 router.post("/api/customers", requireAuth, createCustomer);
 router.get("/api/customers/phone/:phoneNumber", requireAuth, lookupCustomerByPhone);
+router.get("/api/customers/duplicates", requireAuth, listDuplicateCustomers);
+router.get("/api/customers/export", requireAuth, exportCustomers);
+router.post("/api/customers/import", requireAuth, importCustomers);
 router.get("/api/customers/:id", requireAuth, getCustomer);
+router.get("/api/customers/:id/loyalty", requireAuth, listLoyaltyTransactions);
+router.get("/api/customers/:id/stats", requireAuth, getCustomerStats);
 router.patch("/api/customers/:id", requireAuth, updateCustomer);
 router.delete("/api/customers/:id", requireAuth, deleteCustomer);
+router.post("/api/customers/:id/merge", requireAuth, mergeCustomers);
 
 router.post("/api/customers/:phoneNumber/seconds", requireAuth, addCustomerSeconds);
 router.get("/api/customers/:phoneNumber/discounts/check", requireAuth, checkCustomerDiscount);
@@ -1,16 +1,32 @@
-import type { Customer } from "@shared/schema";
-import { customerStorage } from "./storage";
+import type { Customer, LoyaltyProgram } from "@shared/schema";
+import { db } from "../db";
+import { customerStorage, type CustomerVisitRow, type LoyaltyTransactionRow } from "./storage";
 import { settingsStorage } from "../settings/storage";
+import { loyaltyStorage } from "../loyalty/storage";
+import { tierFor } from "../loyalty/utils";
 import { CustomerConflictError, CustomerNotFoundError, CustomerValidationError } from "./errors";
-import { normalizePhoneNumber } from "./utils";
+import {
+  findDuplicateGroups,
+  normalizePhoneNumber,
+  normalizeTags,
+  parseCustomerCsv,
+  summarizeVisits,
+  toCsvLine,
+  type CustomerImportRow,
+  type DuplicateReason,
+} from "./utils";
 
 /** Default from users schema when user row not found */
 const DEFAULT_DISCOUNT_THRESHOLD_SECONDS = 20 * 3600;
+const MAX_IMPORT_ROWS = 5000;
 
 type CreateCustomerData = {
   phoneNumber: string;
   firstName?: string | null;
   lastName?: string | null;
+  email?: string | null;
+  notes?: string | null;
+  tags?: string[];
   totalSeconds?: number;
   isDiscountAvailable?: boolean;
 };
@@ -19,12 +35,40 @@ type UpdateCustomerData = Partial<{
   firstName: string | null;
   lastName: string | null;
   phoneNumber: string;
+  email: string | null;
+  notes: string | null;
+  tags: string[];
   totalSeconds: number;
   isDiscountAvailable: boolean;
 }>;
 
 export type ApplyDiscountResult = { customer: Customer; discountRate: string };
 
+/** Visits credited to the customer at checkout, with their totals. */
+export type CustomerStats = ReturnType<typeof summarizeVisits> & { visits: CustomerVisitRow[] };
+
+/** Customers that are likely the same person, and what gave them away. */
+export type DuplicateGroup = { reason: DuplicateReason; customers: Customer[] };
+
+/** An import row and what it does: creates a customer, updates the one with its phone, or nothing on error. */
+export type CustomerImportPreviewRow = CustomerImportRow & { action: "create" | "update" | null };
+
+export type CustomerImportResult = {
+  dryRun: boolean;
+  rows: CustomerImportPreviewRow[];
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+export type CustomerLookupResult = {
+  customer: Customer;
+  thresholdSeconds: number;
+  program: LoyaltyProgram;
+  /** The points tier the customer holds, or null outside the points program. */
+  tierName: string | null;
+};
+
 class CustomerService {
 
     private async getDiscountSettings(userId: string): Promise<{ discountThresholdSeconds: number; discountRate: string }> {
@@ -71,18 +115,124 @@ class CustomerService {
     return customerStorage.createCustomer(userId, { phoneNumber: normalized, ...data });
   }
 
-  async createCustomer(userId: string, data: CreateCustomerData): Promise<Customer> {
-    const phoneNumber = normalizePhoneNumber(data.phoneNumber);
-    if (!phoneNumber) throw new CustomerValidationError("Invalid or missing phone number");
-    return customerStorage.createCustomer(userId, { ...data, phoneNumber });
+  async createCustomer(userId: string, data: CreateCustomerData, actorEmail: string | null = null): Promise<Customer> {
+    const phoneNumber = await this.assertPhoneAvailable(userId, data.phoneNumber);
+    return customerStorage.createCustomer(
+      userId,
+      { ...data, phoneNumber, ...(data.tags && { tags: normalizeTags(data.tags) }) },
+      actorEmail,
+    );
   }
 
-  async updateCustomer(userId: string, id: string, patch: UpdateCustomerData): Promise<Customer> {
-    const updated = await customerStorage.updateCustomer(userId, id, patch);
+  async updateCustomer(
+    userId: string,
+    id: string,
+    patch: UpdateCustomerData,
+    actorEmail: string | null = null
+  ): Promise<Customer> {
+    const phoneNumber =
+      patch.phoneNumber !== undefined ? await this.assertPhoneAvailable(userId, patch.phoneNumber, id) : undefined;
+    const updated = await customerStorage.updateCustomer(
+      userId,
+      id,
+      { ...patch, phoneNumber, ...(patch.tags && { tags: normalizeTags(patch.tags) }) },
+      actorEmail,
+    );
     if (!updated) throw new CustomerNotFoundError("Customer not found");
     return updated;
   }
 
+  /** Normalize a phone number and make sure no other customer has it. */
+  private async assertPhoneAvailable(userId: string, phone: string, customerId?: string): Promise<string> {
+    const phoneNumber = normalizePhoneNumber(phone);
+    if (!phoneNumber) throw new CustomerValidationError("Invalid or missing phone number");
+    const existing = await customerStorage.getCustomerByPhoneNumber(userId, phoneNumber);
+    if (existing && existing.id !== customerId) {
+      throw new CustomerConflictError("Another customer already has this phone number");
+    }
+    return phoneNumber;
+  }
+
+  async getCustomerStats(userId: string, id: string): Promise<CustomerStats> {
+    await this.getCustomerById(userId, id);
+    const visits = await customerStorage.listVisits(userId, id);
+    return { ...summarizeVisits(visits), visits };
+  }
+
+  async findDuplicates(userId: string): Promise<DuplicateGroup[]> {
+    const customers = await customerStorage.listCustomers(userId);
+    return findDuplicateGroups(customers);
+  }
+
+  /** Fold `sourceIds` into customer `id`; see customerStorage.mergeCustomers. */
+  async mergeCustomers(userId: string, id: string, sourceIds: string[]): Promise<Customer> {
+    const sources = Array.from(new Set(sourceIds));
+    if (sources.includes(id)) throw new CustomerValidationError("A customer can't be merged into itself");
+    const thresholdSeconds = await this.getDiscountThresholdSeconds(userId);
+    const merged = await customerStorage.mergeCustomers(userId, id, sources, thresholdSeconds);
+    if (!merged) throw new CustomerNotFoundError("Customer not found");
+    return merged;
+  }
+
+  /**
+   * Preview an import file row by row, or with `dryRun` false, upsert its valid rows and skip the rest.
+   */
+  async importCustomers(
+    userId: string,
+    csv: string,
+    dryRun: boolean,
+    actorEmail: string | null = null
+  ): Promise<CustomerImportResult> {
+    let parsed: CustomerImportRow[];
+    try {
+      parsed = parseCustomerCsv(csv);
+    } catch (err) {
+      throw new CustomerValidationError(err instanceof Error ? err.message : "Unreadable CSV");
+    }
+    if (parsed.length === 0) throw new CustomerValidationError("CSV has no customer rows");
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      throw new CustomerValidationError(`CSV has more than ${MAX_IMPORT_ROWS} rows; split it into smaller files`);
+    }
+
+    const known = new Set((await customerStorage.listCustomers(userId)).map((customer) => customer.phoneNumber));
+    const rows = parsed.map((row) => ({
+      ...row,
+      action: row.error ? null : known.has(row.phoneNumber) ? ("update" as const) : ("create" as const),
+    }));
+    const valid = rows.filter((row) => !row.error);
+    const skipped = rows.length - valid.length;
+    if (dryRun) {
+      const created = valid.filter((row) => row.action === "create").length;
+      return { dryRun, rows, created, updated: valid.length - created, skipped };
+    }
+
+    const thresholdSeconds = await this.getDiscountThresholdSeconds(userId);
+    const { created, updated } = await customerStorage.importCustomers(userId, valid, thresholdSeconds, actorEmail);
+    return { dryRun, rows, created, updated, skipped };
+  }
+
+  /** Every customer as CSV, with the headers the import reads back. */
+  async exportCsv(userId: string): Promise<string> {
+    const customers = await customerStorage.listCustomers(userId);
+    const lines = [
+      toCsvLine(["First Name", "Last Name", "Phone", "Email", "Hours", "Points", "Tags", "Notes", "Created At"]),
+      ...customers.map((customer) =>
+        toCsvLine([
+          customer.firstName,
+          customer.lastName,
+          customer.phoneNumber,
+          customer.email,
+          (customer.totalSeconds / 3600).toFixed(2),
+          customer.pointsBalance,
+          customer.tags.join("; "),
+          customer.notes,
+          customer.createdAt.toISOString(),
+        ])
+      ),
+    ];
+    return `${lines.join("\r\n")}\r\n`;
+  }
+
   async deleteCustomer(userId: string, id: string): Promise<void> {
     const ok = await customerStorage.deleteCustomer(userId, id);
     if (!ok) throw new CustomerNotFoundError("Customer not found");
@@ -92,15 +242,14 @@ class CustomerService {
   async addSeconds(
     userId: string,
     phoneNumber: string,
-    secondsToAdd: number
+    secondsToAdd: number,
+    actorEmail: string | null = null
   ): Promise<Customer> {
     const thresholdSeconds = await this.getDiscountThresholdSeconds(userId);
     const customer = await this.getOrCreateByPhone(userId, normalizePhoneNumber(phoneNumber));
-    const newTotalSeconds = Math.max(0, Math.round(customer.totalSeconds + secondsToAdd));
-    const isDiscountAvailable = newTotalSeconds >= thresholdSeconds;
-    const updated = await customerStorage.updateCustomer(userId, customer.id, {
-      totalSeconds: newTotalSeconds,
-      isDiscountAvailable,
+    const updated = await customerStorage.addTransaction(userId, customer.id, secondsToAdd, thresholdSeconds, {
+      kind: "earn",
+      actorEmail,
     });
     if (!updated) throw new CustomerNotFoundError("Customer not found");
     return updated;
@@ -132,11 +281,19 @@ class CustomerService {
     userId,
     phoneNumber,
     secondsPlayed,
+    sessionId = null,
+    actorEmail = null,
   }: {
     userId: string;
     phoneNumber: string;
     secondsPlayed: number;
+    sessionId?: string | null;
+    actorEmail?: string | null;
   }): Promise<ApplyDiscountResult> {
+    const user = await settingsStorage.getUserById(userId);
+    if (user?.loyaltyProgram === "points") {
+      throw new CustomerValidationError("The loyalty discount is not offered under the points program");
+    }
     const { discountThresholdSeconds, discountRate } = await this.getDiscountSettings(userId);
     const normalized = normalizePhoneNumber(phoneNumber);
     if (!normalized) throw new CustomerValidationError("Invalid or missing phone number");
@@ -145,7 +302,8 @@ class CustomerService {
       userId,
       normalized,
       secondsPlayed,
-      discountThresholdSeconds
+      discountThresholdSeconds,
+      { sessionId, actorEmail }
     );
     if (!updated) {
       throw new CustomerConflictError("Discount already applied or not eligible");
@@ -153,19 +311,31 @@ class CustomerService {
     return { customer: updated, discountRate };
   }
 
-  async lookupByPhone(userId: string, phone: string): Promise<{ customer: Customer; thresholdSeconds: number } | null> {
+  async lookupByPhone(userId: string, phone: string): Promise<CustomerLookupResult | null> {
     const normalized = normalizePhoneNumber(phone);
     const customer = await customerStorage.getCustomerByPhoneNumber(userId, normalized);
     if (!customer) return null;
     const thresholdSeconds = await this.getDiscountThresholdSeconds(userId);
-    return { customer, thresholdSeconds };
+    const context = await loyaltyStorage.loadLoyaltyContext(db, userId);
+    const tier = context.program === "points" ? tierFor(context, customer.tierPoints) : null;
+    return { customer, thresholdSeconds, program: context.program, tierName: tier?.name ?? null };
   }
 
-  async updateTotalSeconds(userId: string, customerId: string, seconds: number): Promise<Customer> {
-    const updated = await customerStorage.updateTotalSeconds(userId, customerId, seconds);
+  async updateTotalSeconds(
+    userId: string,
+    customerId: string,
+    seconds: number,
+    actorEmail: string | null = null
+  ): Promise<Customer> {
+    const updated = await customerStorage.updateTotalSeconds(userId, customerId, seconds, { kind: "adjust", actorEmail });
     if (!updated) throw new CustomerNotFoundError("Customer not found");
     return updated;
   }
+
+  async listLoyaltyTransactions(userId: string, customerId: string): Promise<LoyaltyTransactionRow[]> {
+    await this.getCustomerById(userId, customerId);
+    return customerStorage.listTransactions(userId, customerId);
+  }
 }
 
 export const customerService = new CustomerService();
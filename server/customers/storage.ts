@@ -1,15 +1,58 @@
-import { customers, type Customer } from "@shared/schema";
-import { db } from "../db";
-import { and, asc, eq, sql } from "drizzle-orm";
+import {
+  customerMemberships,
+  customers,
+  giftCards,
+  loyaltyTransactions,
+  sessionCheckouts,
+  sessions,
+  sessionTimeSegments,
+  stations,
+  type Customer,
+  type LoyaltyTransaction,
+  type LoyaltyTransactionKind,
+} from "@shared/schema";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { normalizeTags, type CustomerImportRow } from "./utils";
 
 type CreateCustomerData = {
   phoneNumber: string;
   firstName?: string | null;
   lastName?: string | null;
+  email?: string | null;
+  notes?: string | null;
+  tags?: string[];
   totalSeconds?: number;
   isDiscountAvailable?: boolean;
 };
 
+/** What a ledger row records besides the seconds: why, for which session, and by whom. */
+export type LoyaltyEntry = {
+  kind: LoyaltyTransactionKind;
+  /** Signed points moved with the row (points program). */
+  points?: number;
+  rewardId?: string | null;
+  sessionId?: string | null;
+  actorEmail?: string | null;
+  note?: string | null;
+};
+
+export type LoyaltyTransactionRow = LoyaltyTransaction & { sessionStartedAt: Date | null };
+
+/** One closed session credited to the customer at checkout. */
+export type CustomerVisitRow = {
+  sessionId: string;
+  stationName: string;
+  startedAt: Date;
+  closedAt: Date | null;
+  /** Played time across the session's segments. */
+  seconds: number;
+  /** What was paid, less refunds. */
+  spend: string;
+};
+
+type LedgerBalance = { seconds: number; points: number; tierPoints: number };
+
 class CustomerStorage {
   async listCustomers(userId: string): Promise<Customer[]> {
     return db
@@ -35,41 +78,64 @@ class CustomerStorage {
     return row ?? undefined;
   }
 
-  async createCustomer(userId: string, data: CreateCustomerData): Promise<Customer> {
-    const [row] = await db
-      .insert(customers)
-      .values({
-        userId,
-        firstName: data.firstName ?? null,
-        lastName: data.lastName ?? null,
-        phoneNumber: data.phoneNumber,
-        totalSeconds: data.totalSeconds ?? 0,
-        isDiscountAvailable: data.isDiscountAvailable ?? false,
-      })
-      .returning();
-    if (!row) throw new Error("Failed to create customer");
-    return row;
+  /** An opening balance is recorded in the ledger so the total still adds up. */
+  async createCustomer(userId: string, data: CreateCustomerData, actorEmail: string | null = null): Promise<Customer> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(customers)
+        .values({
+          userId,
+          firstName: data.firstName ?? null,
+          lastName: data.lastName ?? null,
+          phoneNumber: data.phoneNumber,
+          email: data.email ?? null,
+          notes: data.notes ?? null,
+          tags: data.tags ?? [],
+          totalSeconds: 0,
+          isDiscountAvailable: data.isDiscountAvailable ?? false,
+        })
+        .returning();
+      if (!row) throw new Error("Failed to create customer");
+      if (!data.totalSeconds) return row;
+      const funded = await this.recordTransaction(tx, userId, row.id, data.totalSeconds, null, {
+        kind: "adjust",
+        actorEmail,
+        note: "Opening balance",
+      });
+      return funded ?? row;
+    });
   }
 
+  /** A new totalSeconds is recorded as an adjustment for the difference. */
   async updateCustomer(
     userId: string,
     id: string,
-    patch: Partial<Pick<Customer, "firstName" | "lastName" | "phoneNumber" | "totalSeconds" | "isDiscountAvailable">>
+    patch: Partial<
+      Pick<
+        Customer,
+        "firstName" | "lastName" | "phoneNumber" | "email" | "notes" | "tags" | "totalSeconds" | "isDiscountAvailable"
+      >
+    >,
+    actorEmail: string | null = null,
   ): Promise<Customer | undefined> {
-    const totalSeconds = patch.totalSeconds !== undefined ? Math.max(0, Math.round(patch.totalSeconds)) : undefined;
-    const [row] = await db
-      .update(customers)
-      .set({
-        ...(patch.firstName !== undefined && { firstName: patch.firstName }),
-        ...(patch.lastName !== undefined && { lastName: patch.lastName }),
-        ...(patch.phoneNumber !== undefined && { phoneNumber: patch.phoneNumber }),
-        ...(totalSeconds !== undefined && { totalSeconds }),
-        ...(patch.isDiscountAvailable !== undefined && { isDiscountAvailable: patch.isDiscountAvailable }),
-        updatedAt: new Date(),
-      })
-      .where(and(eq(customers.userId, userId), eq(customers.id, id)))
-      .returning();
-    return row ?? undefined;
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(customers)
+        .set({
+          ...(patch.firstName !== undefined && { firstName: patch.firstName }),
+          ...(patch.lastName !== undefined && { lastName: patch.lastName }),
+          ...(patch.phoneNumber !== undefined && { phoneNumber: patch.phoneNumber }),
+          ...(patch.email !== undefined && { email: patch.email }),
+          ...(patch.notes !== undefined && { notes: patch.notes }),
+          ...(patch.tags !== undefined && { tags: patch.tags }),
+          ...(patch.isDiscountAvailable !== undefined && { isDiscountAvailable: patch.isDiscountAvailable }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(customers.userId, userId), eq(customers.id, id)))
+        .returning();
+      if (!row || patch.totalSeconds === undefined) return row ?? undefined;
+      return this.setBalance(tx, userId, id, patch.totalSeconds, null, { kind: "adjust", actorEmail });
+    });
   }
 
   async deleteCustomer(userId: string, id: string): Promise<boolean> {
@@ -80,44 +146,453 @@ class CustomerStorage {
     return rows.length > 0;
   }
 
-  async updateTotalSeconds(userId: string, customerId: string, totalSeconds: number): Promise<Customer | undefined> {
-    const clamped = Math.max(0, Math.round(totalSeconds));
-    const [row] = await db
-      .update(customers)
-      .set({ totalSeconds: clamped, updatedAt: new Date() })
-      .where(and(eq(customers.userId, userId), eq(customers.id, customerId)))
-      .returning();
-    return row ?? undefined;
+  /**
+   * Create or update one customer per row, matched on phone, all in one transaction. Names from the file only
+   * replace names it gives; hours set the balance through an adjustment, and rows without hours leave it alone.
+   */
+  async importCustomers(
+    userId: string,
+    rows: CustomerImportRow[],
+    thresholdSeconds: number,
+    actorEmail: string | null,
+  ): Promise<{ created: number; updated: number }> {
+    return db.transaction(async (tx) => {
+      let created = 0;
+      let updated = 0;
+      for (const row of rows) {
+        const [existing] = await tx
+          .select()
+          .from(customers)
+          .where(and(eq(customers.userId, userId), eq(customers.phoneNumber, row.phoneNumber)))
+          .for("update");
+        let customerId = existing?.id;
+        if (existing) {
+          if (row.firstName !== null || row.lastName !== null) {
+            await tx
+              .update(customers)
+              .set({
+                ...(row.firstName !== null && { firstName: row.firstName }),
+                ...(row.lastName !== null && { lastName: row.lastName }),
+                updatedAt: new Date(),
+              })
+              .where(eq(customers.id, existing.id));
+          }
+          updated++;
+        } else {
+          const [inserted] = await tx
+            .insert(customers)
+            .values({ userId, firstName: row.firstName, lastName: row.lastName, phoneNumber: row.phoneNumber })
+            .returning();
+          if (!inserted) throw new Error("Failed to create customer");
+          customerId = inserted.id;
+          created++;
+        }
+        if (customerId && row.seconds !== null) {
+          await this.setBalance(tx, userId, customerId, row.seconds, thresholdSeconds, {
+            kind: "adjust",
+            actorEmail,
+            note: "CSV import",
+          });
+        }
+      }
+      return { created, updated };
+    });
   }
 
   /**
-   * Atomically apply discount: only updates if customer is eligible (total_seconds + secondsPlayed >= threshold).
-   * Same condition as "check" — so if we show "Apply", the update can run. Prevents double redeem because
-   * after the first update the row no longer satisfies the condition.
+   * Fold the source customers into the survivor and delete them. Their ledger rows, sessions, checkouts and gift
+   * cards move over, so the survivor's balances are re-derived from the combined ledger; the discount stays
+   * available if any of them had it or the combined time reaches the threshold. A survivor without a membership
+   * takes the sources' latest-renewing one. Missing contact details are filled from the sources, tags are combined
+   * and notes appended. Undefined when any of the customers is missing.
+   */
+  async mergeCustomers(
+    userId: string,
+    survivorId: string,
+    sourceIds: string[],
+    thresholdSeconds: number,
+  ): Promise<Customer | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock in id order so two overlapping merges can't deadlock.
+      const ids = [survivorId, ...sourceIds];
+      const locked = await tx
+        .select()
+        .from(customers)
+        .where(and(eq(customers.userId, userId), inArray(customers.id, ids)))
+        .orderBy(asc(customers.id))
+        .for("update");
+      const survivor = locked.find((row) => row.id === survivorId);
+      const sources = sourceIds.map((id) => locked.find((row) => row.id === id));
+      if (!survivor || sources.some((row) => !row)) return undefined;
+      const merged = sources as Customer[];
+
+      await tx
+        .update(loyaltyTransactions)
+        .set({ customerId: survivorId })
+        .where(and(eq(loyaltyTransactions.userId, userId), inArray(loyaltyTransactions.customerId, sourceIds)));
+      await tx
+        .update(sessions)
+        .set({ customerId: survivorId })
+        .where(and(eq(sessions.userId, userId), inArray(sessions.customerId, sourceIds)));
+      await tx
+        .update(sessionCheckouts)
+        .set({ loyaltyCustomerId: survivorId })
+        .where(and(eq(sessionCheckouts.userId, userId), inArray(sessionCheckouts.loyaltyCustomerId, sourceIds)));
+      await tx
+        .update(giftCards)
+        .set({ customerId: survivorId, updatedAt: new Date() })
+        .where(and(eq(giftCards.userId, userId), inArray(giftCards.customerId, sourceIds)));
+      const [survivorMembership] = await tx
+        .select({ id: customerMemberships.id })
+        .from(customerMemberships)
+        .where(eq(customerMemberships.customerId, survivorId));
+      if (!survivorMembership) {
+        const [sourceMembership] = await tx
+          .select({ id: customerMemberships.id })
+          .from(customerMemberships)
+          .where(and(eq(customerMemberships.userId, userId), inArray(customerMemberships.customerId, sourceIds)))
+          .orderBy(desc(customerMemberships.renewsAt))
+          .limit(1);
+        if (sourceMembership) {
+          await tx
+            .update(customerMemberships)
+            .set({ customerId: survivorId, updatedAt: new Date() })
+            .where(eq(customerMemberships.id, sourceMembership.id));
+        }
+      }
+      await tx.delete(customers).where(and(eq(customers.userId, userId), inArray(customers.id, sourceIds)));
+
+      const balance = await this.ledgerBalance(tx, survivorId);
+      const pick = (field: "firstName" | "lastName" | "email") =>
+        survivor[field] ?? merged.find((row) => row[field])?.[field] ?? null;
+      const notes = [survivor, ...merged].map((row) => row.notes?.trim()).filter(Boolean);
+      const [row] = await tx
+        .update(customers)
+        .set({
+          firstName: pick("firstName"),
+          lastName: pick("lastName"),
+          email: pick("email"),
+          notes: notes.length > 0 ? notes.join("\n\n") : null,
+          tags: normalizeTags([survivor, ...merged].flatMap((row) => row.tags)),
+          totalSeconds: balance.seconds,
+          pointsBalance: balance.points,
+          tierPoints: balance.tierPoints,
+          isDiscountAvailable:
+            [survivor, ...merged].some((row) => row.isDiscountAvailable) || balance.seconds >= thresholdSeconds,
+          updatedAt: new Date(),
+        })
+        .where(eq(customers.id, survivorId))
+        .returning();
+      return row ?? undefined;
+    });
+  }
+
+  async updateTotalSeconds(
+    userId: string,
+    customerId: string,
+    totalSeconds: number,
+    entry: LoyaltyEntry = { kind: "adjust" },
+  ): Promise<Customer | undefined> {
+    return db.transaction((tx) => this.setBalance(tx, userId, customerId, totalSeconds, null, entry));
+  }
+
+  /** Add (or, with a negative value, take back) played seconds in a transaction of its own. */
+  async addTransaction(
+    userId: string,
+    customerId: string,
+    seconds: number,
+    thresholdSeconds: number,
+    entry: LoyaltyEntry,
+  ): Promise<Customer | undefined> {
+    return db.transaction((tx) => this.recordTransaction(tx, userId, customerId, seconds, thresholdSeconds, entry));
+  }
+
+  /**
+   * Apply discount: only when eligible (balance + secondsPlayed >= threshold), the same condition as "check".
+   * The customer row is locked first, so a second redeem sees the lowered balance and is refused.
    */
   async applyDiscountAtomic(
     userId: string,
     normalizedPhone: string,
     secondsPlayed: number,
-    thresholdSeconds: number
+    thresholdSeconds: number,
+    entry: Omit<LoyaltyEntry, "kind"> = {}
   ): Promise<Customer | undefined> {
-    const newTotalExpr = sql`greatest(0, round((${customers.totalSeconds} + ${secondsPlayed} - ${thresholdSeconds})::numeric)::int)`;
-    const [row] = await db
+    return db.transaction(async (tx) => {
+      const [customer] = await tx
+        .select()
+        .from(customers)
+        .where(and(eq(customers.userId, userId), eq(customers.phoneNumber, normalizedPhone)))
+        .for("update");
+      if (!customer) return undefined;
+      return this.redeemDiscount(tx, userId, customer.id, secondsPlayed, thresholdSeconds, entry);
+    });
+  }
+
+  /**
+   * Redeem the loyalty discount inside the caller's transaction, when the customer is eligible. The played
+   * seconds are earned and the threshold redeemed as two ledger rows. Undefined when not eligible.
+   */
+  async redeemDiscount(
+    tx: DbTransaction,
+    userId: string,
+    customerId: string,
+    secondsPlayed: number,
+    thresholdSeconds: number,
+    entry: Omit<LoyaltyEntry, "kind"> = {}
+  ): Promise<Customer | undefined> {
+    const customer = await this.lockCustomer(tx, userId, customerId);
+    if (!customer) return undefined;
+    const balance = await this.ledgerBalance(tx, customer.id);
+    const played = Math.round(secondsPlayed);
+    if (balance.seconds + played < thresholdSeconds) return undefined;
+
+    if (played > 0) {
+      await this.recordTransaction(tx, userId, customer.id, played, thresholdSeconds, { ...entry, kind: "earn" });
+    }
+    return this.recordTransaction(tx, userId, customer.id, -thresholdSeconds, thresholdSeconds, {
+      ...entry,
+      kind: "redeem",
+    });
+  }
+
+  /**
+   * Write one ledger row inside the caller's transaction and re-derive the customer's totals from the ledger.
+   * Neither balance drops below zero: a larger debit records only what was there. With a threshold, the
+   * discount flag follows whether the new total reaches it; null leaves the flag alone.
+   */
+  async recordTransaction(
+    tx: DbTransaction,
+    userId: string,
+    customerId: string,
+    seconds: number,
+    thresholdSeconds: number | null,
+    entry: LoyaltyEntry
+  ): Promise<Customer | undefined> {
+    const customer = await this.lockCustomer(tx, userId, customerId);
+    if (!customer) return undefined;
+
+    const balance = await this.ledgerBalance(tx, customerId);
+    const applied = Math.max(-balance.seconds, Math.round(seconds));
+    const appliedPoints = Math.max(-balance.points, Math.round(entry.points ?? 0));
+    if (applied !== 0 || appliedPoints !== 0) {
+      await tx.insert(loyaltyTransactions).values({
+        userId,
+        customerId,
+        kind: entry.kind,
+        seconds: applied,
+        points: appliedPoints,
+        rewardId: entry.rewardId ?? null,
+        sessionId: entry.sessionId ?? null,
+        actorEmail: entry.actorEmail ?? null,
+        note: entry.note ?? null,
+      });
+    }
+    const totals = appliedPoints !== 0 ? await this.ledgerBalance(tx, customerId) : balance;
+    const totalSeconds = balance.seconds + applied;
+    const [row] = await tx
       .update(customers)
       .set({
-        totalSeconds: newTotalExpr,
-        isDiscountAvailable: sql`(${newTotalExpr} >= ${thresholdSeconds})`,
+        totalSeconds,
+        pointsBalance: totals.points,
+        tierPoints: totals.tierPoints,
+        ...(thresholdSeconds !== null && { isDiscountAvailable: totalSeconds >= thresholdSeconds }),
         updatedAt: new Date(),
       })
+      .where(eq(customers.id, customerId))
+      .returning();
+    return row ?? undefined;
+  }
+
+  /** Lock the customer row for the rest of the caller's transaction. */
+  async lockCustomer(tx: DbTransaction, userId: string, customerId: string): Promise<Customer | undefined> {
+    const [row] = await tx
+      .select()
+      .from(customers)
+      .where(and(eq(customers.userId, userId), eq(customers.id, customerId)))
+      .for("update");
+    return row ?? undefined;
+  }
+
+  /** Spend `cost` points on a reward. Undefined when the customer is missing or short of points. */
+  async redeemPoints(
+    tx: DbTransaction,
+    userId: string,
+    customerId: string,
+    cost: number,
+    entry: Omit<LoyaltyEntry, "kind" | "points">
+  ): Promise<Customer | undefined> {
+    const customer = await this.lockCustomer(tx, userId, customerId);
+    if (!customer) return undefined;
+    const balance = await this.ledgerBalance(tx, customerId);
+    if (balance.points < cost) return undefined;
+    return this.recordTransaction(tx, userId, customerId, 0, null, { ...entry, kind: "redeem", points: -cost });
+  }
+
+  /**
+   * Undo the points a session moved: what it earned is taken back and what it spent is refunded,
+   * net of any earlier reversal. Played seconds are left to the caller.
+   */
+  async reverseSessionPoints(
+    tx: DbTransaction,
+    userId: string,
+    sessionId: string,
+    entry: Omit<LoyaltyEntry, "kind" | "points" | "sessionId">
+  ): Promise<void> {
+    const rows = await tx
+      .select({
+        customerId: loyaltyTransactions.customerId,
+        kind: loyaltyTransactions.kind,
+        points: loyaltyTransactions.points,
+      })
+      .from(loyaltyTransactions)
+      .where(and(eq(loyaltyTransactions.userId, userId), eq(loyaltyTransactions.sessionId, sessionId)));
+
+    const net = new Map<string, { earned: number; spent: number }>();
+    for (const row of rows) {
+      if (row.points === 0) continue;
+      const totals = net.get(row.customerId) ?? { earned: 0, spent: 0 };
+      if (row.kind === "earn" || (row.kind === "reverse" && row.points < 0)) totals.earned += row.points;
+      else if (row.kind === "redeem" || row.kind === "reverse") totals.spent += row.points;
+      net.set(row.customerId, totals);
+    }
+
+    for (const [customerId, totals] of Array.from(net.entries())) {
+      // Refund first so the clawback has the spent points to come out of.
+      if (totals.spent < 0) {
+        await this.recordTransaction(tx, userId, customerId, 0, null, {
+          ...entry,
+          kind: "reverse",
+          sessionId,
+          points: -totals.spent,
+        });
+      }
+      if (totals.earned > 0) {
+        await this.recordTransaction(tx, userId, customerId, 0, null, {
+          ...entry,
+          kind: "reverse",
+          sessionId,
+          points: -totals.earned,
+        });
+      }
+    }
+  }
+
+  /**
+   * Give back the loyalty discount a session redeemed, e.g. when its checkout is voided. Discounts already
+   * given back are not given back twice.
+   */
+  async restoreSessionDiscount(
+    tx: DbTransaction,
+    userId: string,
+    sessionId: string,
+    thresholdSeconds: number,
+    entry: Omit<LoyaltyEntry, "kind" | "points" | "sessionId">
+  ): Promise<void> {
+    const rows = await tx
+      .select({
+        customerId: loyaltyTransactions.customerId,
+        kind: loyaltyTransactions.kind,
+        seconds: loyaltyTransactions.seconds,
+      })
+      .from(loyaltyTransactions)
+      .where(and(eq(loyaltyTransactions.userId, userId), eq(loyaltyTransactions.sessionId, sessionId)));
+
+    // Redeemed seconds net of those restored already; restores are the only reversals that add time.
+    const redeemed = new Map<string, number>();
+    for (const row of rows) {
+      if ((row.kind === "redeem" && row.seconds < 0) || (row.kind === "reverse" && row.seconds > 0)) {
+        redeemed.set(row.customerId, (redeemed.get(row.customerId) ?? 0) - row.seconds);
+      }
+    }
+    for (const [customerId, seconds] of Array.from(redeemed.entries())) {
+      if (seconds <= 0) continue;
+      await this.recordTransaction(tx, userId, customerId, seconds, thresholdSeconds, {
+        ...entry,
+        kind: "reverse",
+        sessionId,
+      });
+    }
+  }
+
+  /** Newest first, with the start of each linked session for context. */
+  async listTransactions(userId: string, customerId: string): Promise<LoyaltyTransactionRow[]> {
+    const rows = await db
+      .select({ transaction: loyaltyTransactions, sessionStartedAt: sessions.startedAt })
+      .from(loyaltyTransactions)
+      .leftJoin(sessions, eq(sessions.id, loyaltyTransactions.sessionId))
+      .where(and(eq(loyaltyTransactions.userId, userId), eq(loyaltyTransactions.customerId, customerId)))
+      .orderBy(desc(loyaltyTransactions.createdAt));
+    return rows.map((row) => ({ ...row.transaction, sessionStartedAt: row.sessionStartedAt ?? null }));
+  }
+
+  /**
+   * Closed sessions credited to the customer at checkout, newest first. Voided checkouts are left out.
+   */
+  async listVisits(userId: string, customerId: string): Promise<CustomerVisitRow[]> {
+    const rows = await db
+      .select({
+        sessionId: sessions.id,
+        stationName: stations.name,
+        startedAt: sessions.startedAt,
+        closedAt: sessions.closedAt,
+        seconds: sql<number>`(
+          select coalesce(sum(${sessionTimeSegments.effectiveSeconds}), 0)::int
+          from ${sessionTimeSegments}
+          where ${sessionTimeSegments.sessionId} = ${sessions.id}
+        )`,
+        finalTotal: sessionCheckouts.finalTotal,
+        refundedAmount: sessionCheckouts.refundedAmount,
+      })
+      .from(sessionCheckouts)
+      .innerJoin(sessions, eq(sessions.id, sessionCheckouts.sessionId))
+      .innerJoin(stations, eq(stations.id, sessions.stationId))
       .where(
         and(
-          eq(customers.userId, userId),
-          eq(customers.phoneNumber, normalizedPhone),
-          sql`(${customers.totalSeconds} + ${secondsPlayed} >= ${thresholdSeconds})`
-        )
+          eq(sessionCheckouts.userId, userId),
+          eq(sessionCheckouts.loyaltyCustomerId, customerId),
+          isNull(sessionCheckouts.voidedAt),
+          eq(sessions.status, "closed"),
+        ),
       )
-      .returning();
-    return row ?? undefined;
+      .orderBy(desc(sessions.closedAt));
+    return rows.map(({ finalTotal, refundedAmount, ...row }) => ({
+      ...row,
+      spend: Math.max(0, Number(finalTotal) - Number(refundedAmount)).toFixed(2),
+    }));
+  }
+
+  /** Record whatever it takes to bring the balance to `totalSeconds`. */
+  private async setBalance(
+    tx: DbTransaction,
+    userId: string,
+    customerId: string,
+    totalSeconds: number,
+    thresholdSeconds: number | null,
+    entry: LoyaltyEntry
+  ): Promise<Customer | undefined> {
+    // Lock before reading the balance so nothing lands between the read and the adjustment.
+    await this.lockCustomer(tx, userId, customerId);
+    const balance = await this.ledgerBalance(tx, customerId);
+    const target = Math.max(0, Math.round(totalSeconds));
+    return this.recordTransaction(tx, userId, customerId, target - balance.seconds, thresholdSeconds, entry);
+  }
+
+  /** Tier points count what was earned less earnings taken back; spending does not lower them. */
+  private async ledgerBalance(executor: DbExecutor, customerId: string): Promise<LedgerBalance> {
+    const [row] = await executor
+      .select({
+        seconds: sql<number>`coalesce(sum(${loyaltyTransactions.seconds}), 0)::int`,
+        points: sql<number>`coalesce(sum(${loyaltyTransactions.points}), 0)::int`,
+        tierPoints: sql<number>`coalesce(sum(${loyaltyTransactions.points}) filter (where ${loyaltyTransactions.kind} = 'earn' or (${loyaltyTransactions.kind} = 'reverse' and ${loyaltyTransactions.points} < 0)), 0)::int`,
+      })
+      .from(loyaltyTransactions)
+      .where(eq(loyaltyTransactions.customerId, customerId));
+    return {
+      seconds: Number(row?.seconds ?? 0),
+      points: Number(row?.points ?? 0),
+      tierPoints: Math.max(0, Number(row?.tierPoints ?? 0)),
+    };
   }
 }
 
@@ -12,3 +12,266 @@ export function normalizePhoneNumber(phone: string): string {
   }
   return digits;
 }
+
+/** Trim tags and drop repeats, matching case-insensitively and keeping the first spelling. */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) seen.set(key, trimmed);
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Totals across a customer's visits, which come newest first. The favorite station is the one
+ * visited most; on a tie, the one visited most recently.
+ */
+export function summarizeVisits(visits: Array<{ stationName: string; closedAt: Date | null; seconds: number; spend: string }>) {
+  const counts = new Map<string, number>();
+  let favoriteStation: string | null = null;
+  for (const visit of visits) {
+    const count = (counts.get(visit.stationName) ?? 0) + 1;
+    counts.set(visit.stationName, count);
+  }
+  let best = 0;
+  for (const visit of visits) {
+    const count = counts.get(visit.stationName) ?? 0;
+    if (count > best) {
+      best = count;
+      favoriteStation = visit.stationName;
+    }
+  }
+  return {
+    visitCount: visits.length,
+    totalSeconds: visits.reduce((sum, visit) => sum + visit.seconds, 0),
+    totalSpend: visits.reduce((sum, visit) => sum + Number(visit.spend), 0).toFixed(2),
+    favoriteStation,
+    lastVisitAt: visits[0]?.closedAt ?? null,
+  };
+}
+
+type DuplicateCandidate = { id: string; phoneNumber: string; firstName: string | null; lastName: string | null };
+
+export type DuplicateReason = "phone" | "name";
+
+/** "Smith,  john" and "John Smith" share the key "john smith"; no name gives "". */
+export function nameKey(firstName: string | null, lastName: string | null): string {
+  return [firstName, lastName]
+    .join(" ")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+/** True when one insertion, deletion or substitution turns a into b. */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+}
+
+/**
+ * Groups of customers that are likely the same person: the same phone once normalized (rows saved before
+ * numbers were normalized), or names that match ignoring case, punctuation and word order, or are one typo
+ * apart. Short names only match exactly, since one letter is a large share of them.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate>(
+  candidates: T[],
+): Array<{ reason: DuplicateReason; customers: T[] }> {
+  const byPhone = new Map<string, T[]>();
+  const byName = new Map<string, T[]>();
+  for (const candidate of candidates) {
+    const phone = normalizePhoneNumber(candidate.phoneNumber);
+    if (phone) byPhone.set(phone, [...(byPhone.get(phone) ?? []), candidate]);
+    const name = nameKey(candidate.firstName, candidate.lastName);
+    if (name) byName.set(name, [...(byName.get(name) ?? []), candidate]);
+  }
+
+  // Join name keys a typo apart. Only keys with the same first letter are compared.
+  const keys = Array.from(byName.keys()).sort();
+  const parent = new Map(keys.map((key) => [key, key]));
+  const root = (key: string): string => {
+    const next = parent.get(key)!;
+    return next === key ? key : root(next);
+  };
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length && keys[j][0] === keys[i][0]; j++) {
+      if (keys[i].length >= 6 && keys[j].length >= 6 && withinOneEdit(keys[i], keys[j])) {
+        parent.set(root(keys[j]), root(keys[i]));
+      }
+    }
+  }
+  const nameGroups = new Map<string, T[]>();
+  for (const key of keys) {
+    const group = root(key);
+    nameGroups.set(group, [...(nameGroups.get(group) ?? []), ...byName.get(key)!]);
+  }
+
+  const seen = new Set<string>();
+  const groups: Array<{ reason: DuplicateReason; customers: T[] }> = [];
+  const add = (reason: DuplicateReason, members: T[]) => {
+    const signature = members.map((member) => member.id).sort().join(",");
+    if (members.length < 2 || seen.has(signature)) return;
+    seen.add(signature);
+    groups.push({ reason, customers: members });
+  };
+  byPhone.forEach((members) => add("phone", members));
+  nameGroups.forEach((members) => add("name", members));
+  return groups;
+}
+
+/** Split CSV text into rows of fields. Quoted fields may hold commas, newlines and doubled quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Text a spreadsheet would run as a formula when it starts a cell. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV line, quoting fields that need it. Text that would open as a formula in a spreadsheet gets a
+ * leading apostrophe, which spreadsheets hide and the import strips again.
+ */
+export function toCsvLine(fields: Array<string | number | null>): string {
+  return fields
+    .map((value) => {
+      let text = value === null ? "" : String(value);
+      if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+}
+
+/** Undo the apostrophe toCsvLine puts before formula-like text. */
+function unescapeFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+const IMPORT_COLUMNS = {
+  firstName: ["firstname", "first", "fname", "givenname"],
+  lastName: ["lastname", "last", "lname", "surname", "familyname"],
+  name: ["name", "fullname", "customer", "customername"],
+  phone: ["phone", "phonenumber", "mobile", "cell", "telephone", "tel"],
+  hours: ["hours", "existinghours", "totalhours", "loyaltyhours"],
+} as const;
+
+/** A data line of an import file. `seconds` is null when the file gives no hours for it. */
+export type CustomerImportRow = {
+  line: number;
+  firstName: string | null;
+  lastName: string | null;
+  phoneNumber: string;
+  seconds: number | null;
+  error: string | null;
+};
+
+/** "12.5" or "12:30" hours as seconds; null when blank, NaN when unreadable. */
+function parseHours(value: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+  const clock = /^(\d+):([0-5]\d)$/.exec(text);
+  const hours = clock ? Number(clock[1]) + Number(clock[2]) / 60 : Number(text);
+  return Number.isFinite(hours) ? Math.round(hours * 3600) : NaN;
+}
+
+/**
+ * Read an import file whose first line names the columns: first and last name (or a single name column),
+ * phone, and optional existing hours. Every data line comes back with its phone normalized and an error
+ * when it can't be imported; blank lines are dropped. Throws when the header has no phone column.
+ */
+export function parseCustomerCsv(text: string): CustomerImportRow[] {
+  const [header = [], ...lines] = parseCsv(text);
+  const keys = header.map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  const column = (names: readonly string[]) => keys.findIndex((key) => names.includes(key));
+  const columns = {
+    firstName: column(IMPORT_COLUMNS.firstName),
+    lastName: column(IMPORT_COLUMNS.lastName),
+    name: column(IMPORT_COLUMNS.name),
+    phone: column(IMPORT_COLUMNS.phone),
+    hours: column(IMPORT_COLUMNS.hours),
+  };
+  if (columns.phone < 0) throw new Error("CSV header needs a phone column");
+
+  const seenPhones = new Map<string, number>();
+  const rows: CustomerImportRow[] = [];
+  lines.forEach((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return;
+    const line = index + 2;
+    const cell = (at: number) => (at >= 0 ? unescapeFormula((cells[at] ?? "").trim()) : "");
+    let firstName = cell(columns.firstName);
+    let lastName = cell(columns.lastName);
+    if (!firstName && !lastName && columns.name >= 0) {
+      // "Lee, Ann" is last name first; otherwise the first word is the first name.
+      const name = cell(columns.name);
+      const comma = name.indexOf(",");
+      if (comma >= 0) {
+        lastName = name.slice(0, comma).trim();
+        firstName = name.slice(comma + 1).trim();
+      } else {
+        const [first = "", ...rest] = name.split(/\s+/);
+        firstName = first;
+        lastName = rest.join(" ");
+      }
+    }
+    const phoneNumber = normalizePhoneNumber(cell(columns.phone));
+    const seconds = parseHours(cell(columns.hours));
+
+    let error: string | null = null;
+    if (phoneNumber.length < 10) error = "Invalid or missing phone number";
+    else if (seenPhones.has(phoneNumber)) error = `Same phone number as line ${seenPhones.get(phoneNumber)}`;
+    else if (Number.isNaN(seconds) || (seconds !== null && seconds < 0)) error = "Hours must be a number of 0 or more";
+    else if (firstName.length > 100 || lastName.length > 100) error = "Names must be 100 characters or fewer";
+    if (!error) seenPhones.set(phoneNumber, line);
+
+    rows.push({
+      line,
+      firstName: firstName || null,
+      lastName: lastName || null,
+      phoneNumber,
+      seconds: error ? null : seconds,
+      error,
+    });
+  });
+  return rows;
+}
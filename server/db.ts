@@ -44,3 +44,9 @@ export const db = new Proxy({} as ReturnType<typeof drizzle>, {
     return (getDb() as any)[prop];
   }
 });
+
+/** Transaction handle passed to storage helpers that must join a caller's transaction. */
+export type DbTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+/** Either the shared handle or a caller's transaction, for reads that may run inside one. */
+export type DbExecutor = typeof db | DbTransaction;
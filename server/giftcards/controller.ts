@@ -0,0 +1,120 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  adjustGiftCardSchema,
+  issueGiftCardSchema,
+  listGiftCardsQuerySchema,
+  reloadGiftCardSchema,
+  updateGiftCardSchema,
+} from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { giftCardService } from "./service";
+import { toHttpError } from "./errors";
+
+export async function listGiftCards(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const query = listGiftCardsQuerySchema.parse(req.query);
+    const cards = await giftCardService.listGiftCards(userId, query.customerId);
+    res.json(cards);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function lookupGiftCard(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const card = await giftCardService.lookupGiftCard(userId, req.params.code);
+    res.json(card);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function issueGiftCard(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const input = issueGiftCardSchema.parse(req.body);
+    const card = await giftCardService.issueGiftCard(userId, input, req.user?.email ?? null);
+    res.status(201).json(card);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function reloadGiftCard(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const input = reloadGiftCardSchema.parse(req.body);
+    const card = await giftCardService.reloadGiftCard(userId, req.params.id, input, req.user?.email ?? null);
+    res.json(card);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function adjustGiftCard(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const input = adjustGiftCardSchema.parse(req.body);
+    const card = await giftCardService.adjustGiftCard(userId, req.params.id, input, req.user?.email ?? null);
+    res.json(card);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function updateGiftCard(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const patch = updateGiftCardSchema.parse(req.body);
+    const card = await giftCardService.updateGiftCard(userId, req.params.id, patch);
+    res.json(card);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function listGiftCardTransactions(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const rows = await giftCardService.listTransactions(userId, req.params.id);
+    res.json(rows);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function getGiftCardLiabilityReport(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const report = await giftCardService.getLiabilityReport(userId);
+    res.json(report);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,23 @@
+export class GiftCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class GiftCardNotFoundError extends GiftCardError {}
+export class GiftCardValidationError extends GiftCardError {}
+export class GiftCardConflictError extends GiftCardError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof GiftCardNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof GiftCardValidationError) {
+    return { status: 400, message: err.message };
+  }
+  if (err instanceof GiftCardConflictError) {
+    return { status: 409, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
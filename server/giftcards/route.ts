@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  listGiftCards,
+  lookupGiftCard,
+  issueGiftCard,
+  reloadGiftCard,
+  adjustGiftCard,
+  updateGiftCard,
+  listGiftCardTransactions,
+  getGiftCardLiabilityReport,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/gift-cards", requireAuth, listGiftCards);
+router.post("/api/gift-cards", requireAuth, issueGiftCard);
+router.get("/api/gift-cards/lookup/:code", requireAuth, lookupGiftCard);
+router.patch("/api/gift-cards/:id", requireAuth, updateGiftCard);
+router.get("/api/gift-cards/:id/transactions", requireAuth, listGiftCardTransactions);
+router.post("/api/gift-cards/:id/reload", requireAuth, reloadGiftCard);
+router.post("/api/gift-cards/:id/adjust", requireAuth, adjustGiftCard);
+router.get("/api/reports/gift-cards", requireAuth, getGiftCardLiabilityReport);
+
+export const giftCardsRouter = router;
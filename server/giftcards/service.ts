@@ -0,0 +1,136 @@
+import type {
+  AdjustGiftCardInput,
+  GiftCard,
+  GiftCardTransaction,
+  GiftCardTransactionKind,
+  IssueGiftCardInput,
+  ReloadGiftCardInput,
+  UpdateGiftCardInput,
+} from "@shared/schema";
+import { db } from "../db";
+import { customerStorage } from "../customers/storage";
+import { roundMoney } from "../payments/utils";
+import { giftCardStorage } from "./storage";
+import { generateGiftCardCode, normalizeGiftCardCode } from "./utils";
+import { GiftCardConflictError, GiftCardNotFoundError, GiftCardValidationError } from "./errors";
+
+const CODE_ATTEMPTS = 5;
+
+export type GiftCardLiabilityDto = {
+  /** Owed on every card, inactive ones included. */
+  outstanding: number;
+  activeOutstanding: number;
+  inactiveOutstanding: number;
+  cardCount: number;
+  activeCount: number;
+  /** Ledger totals by kind; redeem amounts are negative. */
+  kinds: Array<{ kind: GiftCardTransactionKind; amount: number; count: number }>;
+};
+
+/** Errors storage raises as plain messages when a balance can't move. */
+const BALANCE_ERRORS = new Set(["Gift card is inactive", "Gift card balance is too low"]);
+
+class GiftCardService {
+  async listGiftCards(userId: string, customerId?: string): Promise<GiftCard[]> {
+    return giftCardStorage.listGiftCards(userId, customerId);
+  }
+
+  async getGiftCard(userId: string, id: string): Promise<GiftCard> {
+    const card = await giftCardStorage.getGiftCard(userId, id);
+    if (!card) throw new GiftCardNotFoundError("Gift card not found");
+    return card;
+  }
+
+  /** Codes may be typed with dashes, spaces or in lower case. */
+  async lookupGiftCard(userId: string, code: string): Promise<GiftCard> {
+    const card = await giftCardStorage.getGiftCardByCode(db, userId, normalizeGiftCardCode(code));
+    if (!card) throw new GiftCardNotFoundError("Gift card not found");
+    return card;
+  }
+
+  private async assertCustomer(userId: string, customerId: string | null | undefined): Promise<void> {
+    if (!customerId) return;
+    const customer = await customerStorage.getCustomerById(userId, customerId);
+    if (!customer) throw new GiftCardNotFoundError("Customer not found");
+  }
+
+  async issueGiftCard(userId: string, input: IssueGiftCardInput, actorEmail: string | null): Promise<GiftCard> {
+    await this.assertCustomer(userId, input.customerId);
+    for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+      const code = generateGiftCardCode();
+      if (await giftCardStorage.isCodeTaken(code)) continue;
+      return giftCardStorage.issueGiftCard(userId, code, roundMoney(input.amount), input.customerId ?? null, {
+        tenderType: input.tenderType,
+        actorEmail,
+        note: input.note || null,
+      });
+    }
+    throw new GiftCardConflictError("Couldn't generate a unique gift card code");
+  }
+
+  async reloadGiftCard(
+    userId: string,
+    id: string,
+    input: ReloadGiftCardInput,
+    actorEmail: string | null,
+  ): Promise<GiftCard> {
+    return this.changeBalance(userId, id, roundMoney(input.amount), {
+      kind: "reload",
+      tenderType: input.tenderType,
+      actorEmail,
+      note: input.note || null,
+    });
+  }
+
+  async adjustGiftCard(
+    userId: string,
+    id: string,
+    input: AdjustGiftCardInput,
+    actorEmail: string | null,
+  ): Promise<GiftCard> {
+    return this.changeBalance(userId, id, roundMoney(input.amount), { kind: "adjust", actorEmail, note: input.note });
+  }
+
+  private async changeBalance(
+    userId: string,
+    id: string,
+    amount: number,
+    entry: Parameters<typeof giftCardStorage.changeBalance>[3],
+  ): Promise<GiftCard> {
+    try {
+      const card = await giftCardStorage.changeBalance(userId, id, amount, entry);
+      if (!card) throw new GiftCardNotFoundError("Gift card not found");
+      return card;
+    } catch (err: any) {
+      if (BALANCE_ERRORS.has(err?.message)) throw new GiftCardValidationError(err.message);
+      throw err;
+    }
+  }
+
+  async updateGiftCard(userId: string, id: string, patch: UpdateGiftCardInput): Promise<GiftCard> {
+    await this.assertCustomer(userId, patch.customerId);
+    const card = await giftCardStorage.updateGiftCard(userId, id, patch);
+    if (!card) throw new GiftCardNotFoundError("Gift card not found");
+    return card;
+  }
+
+  async listTransactions(userId: string, id: string): Promise<GiftCardTransaction[]> {
+    await this.getGiftCard(userId, id);
+    return giftCardStorage.listTransactions(userId, id);
+  }
+
+  async getLiabilityReport(userId: string): Promise<GiftCardLiabilityDto> {
+    const liability = await giftCardStorage.getLiability(userId);
+    const kinds = await giftCardStorage.listKindTotals(userId);
+    return {
+      outstanding: roundMoney(liability.outstanding),
+      activeOutstanding: roundMoney(liability.activeOutstanding),
+      inactiveOutstanding: roundMoney(liability.outstanding - liability.activeOutstanding),
+      cardCount: liability.cardCount,
+      activeCount: liability.activeCount,
+      kinds: kinds.map((row) => ({ ...row, amount: roundMoney(row.amount) })),
+    };
+  }
+}
+
+export const giftCardService = new GiftCardService();
@@ -0,0 +1,258 @@
+import {
+  giftCards,
+  giftCardTransactions,
+  type GiftCard,
+  type GiftCardTransaction,
+  type GiftCardTransactionKind,
+  type TenderType,
+} from "@shared/schema";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+/** What a ledger row records besides the amount: why, how it was paid for, for which session, and by whom. */
+export type GiftCardEntry = {
+  kind: GiftCardTransactionKind;
+  tenderType?: TenderType | null;
+  sessionId?: string | null;
+  actorEmail?: string | null;
+  note?: string | null;
+};
+
+export type GiftCardKindTotalRow = { kind: GiftCardTransactionKind; amount: number; count: number };
+
+export type GiftCardLiabilityRow = {
+  cardCount: number;
+  activeCount: number;
+  outstanding: number;
+  activeOutstanding: number;
+};
+
+class GiftCardStorage {
+  /** Newest first; with a customer, only the cards linked to them. */
+  async listGiftCards(userId: string, customerId?: string): Promise<GiftCard[]> {
+    return db
+      .select()
+      .from(giftCards)
+      .where(and(eq(giftCards.userId, userId), customerId ? eq(giftCards.customerId, customerId) : undefined))
+      .orderBy(desc(giftCards.createdAt));
+  }
+
+  async getGiftCard(userId: string, id: string): Promise<GiftCard | undefined> {
+    const [row] = await db
+      .select()
+      .from(giftCards)
+      .where(and(eq(giftCards.userId, userId), eq(giftCards.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** `code` must already be normalized. */
+  async getGiftCardByCode(executor: DbExecutor, userId: string, code: string): Promise<GiftCard | undefined> {
+    const [row] = await executor
+      .select()
+      .from(giftCards)
+      .where(and(eq(giftCards.userId, userId), eq(giftCards.code, code)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** Codes are unique across every store, so a new one is checked against all of them. */
+  async isCodeTaken(code: string): Promise<boolean> {
+    const [row] = await db.select({ id: giftCards.id }).from(giftCards).where(eq(giftCards.code, code)).limit(1);
+    return !!row;
+  }
+
+  /** Lock the card for the rest of the caller's transaction. */
+  async lockGiftCard(tx: DbTransaction, userId: string, id: string): Promise<GiftCard | undefined> {
+    const [row] = await tx
+      .select()
+      .from(giftCards)
+      .where(and(eq(giftCards.userId, userId), eq(giftCards.id, id)))
+      .for("update");
+    return row || undefined;
+  }
+
+  /** As lockGiftCard, by normalized code. */
+  async lockGiftCardByCode(tx: DbTransaction, userId: string, code: string): Promise<GiftCard | undefined> {
+    const [row] = await tx
+      .select()
+      .from(giftCards)
+      .where(and(eq(giftCards.userId, userId), eq(giftCards.code, code)))
+      .for("update");
+    return row || undefined;
+  }
+
+  /** Create a card with `code` and load `amount` onto it as its first ledger row. */
+  async issueGiftCard(
+    userId: string,
+    code: string,
+    amount: number,
+    customerId: string | null,
+    entry: Omit<GiftCardEntry, "kind">,
+  ): Promise<GiftCard> {
+    return db.transaction(async (tx) => {
+      const [card] = await tx
+        .insert(giftCards)
+        .values({
+          userId,
+          code,
+          customerId,
+          initialAmount: amount.toFixed(2),
+          balance: "0",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .returning();
+      if (!card) throw new Error("Failed to issue gift card");
+      return this.recordTransaction(tx, userId, card, amount, { ...entry, kind: "issue" });
+    });
+  }
+
+  /**
+   * Add (or, with a negative amount, take) money on a card in a transaction of its own. Inactive cards
+   * only take corrections. Undefined when the card is missing.
+   */
+  async changeBalance(
+    userId: string,
+    id: string,
+    amount: number,
+    entry: GiftCardEntry,
+  ): Promise<GiftCard | undefined> {
+    return db.transaction(async (tx) => {
+      const card = await this.lockGiftCard(tx, userId, id);
+      if (!card) return undefined;
+      if (!card.isActive && entry.kind !== "adjust") throw new Error("Gift card is inactive");
+      return this.recordTransaction(tx, userId, card, amount, entry);
+    });
+  }
+
+  /**
+   * Write one ledger row inside the caller's transaction, with the card already locked, and move the
+   * card's balance by `amount`. The balance never drops below zero.
+   */
+  async recordTransaction(
+    tx: DbTransaction,
+    userId: string,
+    card: GiftCard,
+    amount: number,
+    entry: GiftCardEntry,
+  ): Promise<GiftCard> {
+    const balance = Math.round((Number(card.balance) + amount) * 100) / 100;
+    if (balance < 0) throw new Error("Gift card balance is too low");
+    await tx.insert(giftCardTransactions).values({
+      userId,
+      giftCardId: card.id,
+      kind: entry.kind,
+      amount: amount.toFixed(2),
+      balanceAfter: balance.toFixed(2),
+      tenderType: entry.tenderType ?? null,
+      sessionId: entry.sessionId ?? null,
+      actorEmail: entry.actorEmail ?? null,
+      note: entry.note ?? null,
+      createdAt: new Date(),
+    });
+    const [row] = await tx
+      .update(giftCards)
+      .set({ balance: balance.toFixed(2), updatedAt: new Date() })
+      .where(eq(giftCards.id, card.id))
+      .returning();
+    return row;
+  }
+
+  /** What a session has taken off each card so far: its redemptions less what was put back. */
+  async sessionDebits(tx: DbTransaction, userId: string, sessionId: string): Promise<Map<string, number>> {
+    const rows = await tx
+      .select({
+        giftCardId: giftCardTransactions.giftCardId,
+        amount: sql<string>`sum(${giftCardTransactions.amount})`,
+      })
+      .from(giftCardTransactions)
+      .where(
+        and(
+          eq(giftCardTransactions.userId, userId),
+          eq(giftCardTransactions.sessionId, sessionId),
+          inArray(giftCardTransactions.kind, ["redeem", "refund"]),
+        ),
+      )
+      .groupBy(giftCardTransactions.giftCardId);
+    return new Map(rows.map((row) => [row.giftCardId, -Number(row.amount)]));
+  }
+
+  /** Put back everything a session still has off its cards, e.g. when its checkout is voided or reopened. */
+  async restoreSessionDebits(
+    tx: DbTransaction,
+    userId: string,
+    sessionId: string,
+    entry: Pick<GiftCardEntry, "actorEmail" | "note">,
+  ): Promise<void> {
+    const debits = await this.sessionDebits(tx, userId, sessionId);
+    for (const [giftCardId, debit] of Array.from(debits.entries())) {
+      if (debit <= 0) continue;
+      const card = await this.lockGiftCard(tx, userId, giftCardId);
+      if (!card) continue;
+      await this.recordTransaction(tx, userId, card, debit, { ...entry, kind: "refund", sessionId });
+    }
+  }
+
+  async updateGiftCard(
+    userId: string,
+    id: string,
+    patch: Partial<Pick<GiftCard, "isActive" | "customerId">>,
+  ): Promise<GiftCard | undefined> {
+    const [row] = await db
+      .update(giftCards)
+      .set({
+        ...(patch.isActive !== undefined && { isActive: patch.isActive }),
+        ...(patch.customerId !== undefined && { customerId: patch.customerId }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(giftCards.userId, userId), eq(giftCards.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  /** Newest first. */
+  async listTransactions(userId: string, giftCardId: string): Promise<GiftCardTransaction[]> {
+    return db
+      .select()
+      .from(giftCardTransactions)
+      .where(and(eq(giftCardTransactions.userId, userId), eq(giftCardTransactions.giftCardId, giftCardId)))
+      .orderBy(desc(giftCardTransactions.createdAt));
+  }
+
+  /** Balances still owed on the store's cards, in total and on active cards only. */
+  async getLiability(userId: string): Promise<GiftCardLiabilityRow> {
+    const [row] = await db
+      .select({
+        cardCount: sql<number>`count(*)::int`,
+        activeCount: sql<number>`count(*) filter (where ${giftCards.isActive})::int`,
+        outstanding: sql<string>`coalesce(sum(${giftCards.balance}), 0)`,
+        activeOutstanding: sql<string>`coalesce(sum(${giftCards.balance}) filter (where ${giftCards.isActive}), 0)`,
+      })
+      .from(giftCards)
+      .where(eq(giftCards.userId, userId));
+    return {
+      cardCount: row?.cardCount ?? 0,
+      activeCount: row?.activeCount ?? 0,
+      outstanding: Number(row?.outstanding ?? 0),
+      activeOutstanding: Number(row?.activeOutstanding ?? 0),
+    };
+  }
+
+  /** Every ledger row added up by kind, e.g. everything issued and everything redeemed. */
+  async listKindTotals(userId: string): Promise<GiftCardKindTotalRow[]> {
+    const rows = await db
+      .select({
+        kind: giftCardTransactions.kind,
+        amount: sql<string>`sum(${giftCardTransactions.amount})`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(giftCardTransactions)
+      .where(eq(giftCardTransactions.userId, userId))
+      .groupBy(giftCardTransactions.kind)
+      .orderBy(asc(giftCardTransactions.kind));
+    return rows.map((row) => ({ kind: row.kind, amount: Number(row.amount), count: row.count }));
+  }
+}
+
+export const giftCardStorage = new GiftCardStorage();
@@ -0,0 +1,15 @@
+import { randomInt } from "crypto";
+
+/** No 0/O, 1/I/L or 5/S, so a code read aloud or off a receipt is hard to get wrong. */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRTUVWXYZ2346789";
+const CODE_LENGTH = 16;
+
+/** A new card code, normalized. */
+export function generateGiftCardCode(): string {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+}
+
+/** Codes are matched without regard to case, spaces or dashes. */
+export function normalizeGiftCardCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
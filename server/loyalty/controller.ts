@@ -0,0 +1,107 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertLoyaltyRewardSchema,
+  insertLoyaltyTierSchema,
+  updateLoyaltyRewardSchema,
+  updateLoyaltyTierSchema,
+} from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { loyaltyService } from "./service";
+
+export async function listRewards(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await loyaltyService.listRewards(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createReward(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertLoyaltyRewardSchema.parse(req.body);
+    const created = await loyaltyService.createReward(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateReward(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateLoyaltyRewardSchema.parse(req.body);
+    const updated = await loyaltyService.updateReward(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteReward(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await loyaltyService.deleteReward(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function listTiers(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await loyaltyService.listTiers(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createTier(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertLoyaltyTierSchema.parse(req.body);
+    const created = await loyaltyService.createTier(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateTier(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateLoyaltyTierSchema.parse(req.body);
+    const updated = await loyaltyService.updateTier(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteTier(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await loyaltyService.deleteTier(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
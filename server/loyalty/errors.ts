@@ -0,0 +1,19 @@
+export class LoyaltyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class LoyaltyNotFoundError extends LoyaltyError {}
+export class LoyaltyValidationError extends LoyaltyError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof LoyaltyNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof LoyaltyValidationError) {
+    return { status: 400, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  createReward,
+  createTier,
+  deleteReward,
+  deleteTier,
+  listRewards,
+  listTiers,
+  updateReward,
+  updateTier,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/loyalty/rewards", requireAuth, listRewards);
+router.post("/api/loyalty/rewards", requireAuth, createReward);
+router.patch("/api/loyalty/rewards/:id", requireAuth, updateReward);
+router.delete("/api/loyalty/rewards/:id", requireAuth, deleteReward);
+router.get("/api/loyalty/tiers", requireAuth, listTiers);
+router.post("/api/loyalty/tiers", requireAuth, createTier);
+router.patch("/api/loyalty/tiers/:id", requireAuth, updateTier);
+router.delete("/api/loyalty/tiers/:id", requireAuth, deleteTier);
+
+export const loyaltyRouter = router;
@@ -0,0 +1,128 @@
+import type {
+  InsertLoyaltyRewardInput,
+  InsertLoyaltyTierInput,
+  LoyaltyReward,
+  LoyaltyTier,
+  UpdateLoyaltyRewardInput,
+  UpdateLoyaltyTierInput,
+} from "@shared/schema";
+import { db } from "../db";
+import { menuStorage } from "../menu/storage";
+import { loyaltyStorage, type LoyaltyRewardValues, type LoyaltyTierValues } from "./storage";
+import { LoyaltyNotFoundError, LoyaltyValidationError } from "./errors";
+
+class LoyaltyService {
+  async listRewards(userId: string): Promise<LoyaltyReward[]> {
+    return loyaltyStorage.listRewards(userId);
+  }
+
+  /** Each kind needs its own term, and a free item must be on the store's own menu. */
+  private async toRewardValues(userId: string, input: InsertLoyaltyRewardInput): Promise<LoyaltyRewardValues> {
+    const values: LoyaltyRewardValues = {
+      name: input.name,
+      kind: input.kind,
+      pointsCost: input.pointsCost,
+      minutes: null,
+      menuItemId: null,
+      percentOff: null,
+      isEnabled: input.isEnabled,
+      sortOrder: input.sortOrder,
+    };
+
+    switch (input.kind) {
+      case "free_time":
+        if (!input.minutes) throw new LoyaltyValidationError("Free time rewards need minutes");
+        return { ...values, minutes: input.minutes };
+      case "free_item": {
+        if (!input.menuItemId) throw new LoyaltyValidationError("Choose the menu item the reward gives");
+        const menu = await menuStorage.listMenu(userId);
+        if (!menu.some((item) => item.id === input.menuItemId)) {
+          throw new LoyaltyValidationError("Menu item not found");
+        }
+        return { ...values, menuItemId: input.menuItemId };
+      }
+      case "percent_off":
+        if (!input.percentOff) throw new LoyaltyValidationError("Percent off rewards need a percentage");
+        return { ...values, percentOff: input.percentOff.toFixed(4) };
+    }
+  }
+
+  async createReward(userId: string, input: InsertLoyaltyRewardInput): Promise<LoyaltyReward> {
+    return loyaltyStorage.createReward(userId, await this.toRewardValues(userId, input));
+  }
+
+  async updateReward(userId: string, id: string, patch: UpdateLoyaltyRewardInput): Promise<LoyaltyReward> {
+    const existing = await loyaltyStorage.getReward(db, userId, id);
+    if (!existing) throw new LoyaltyNotFoundError("Reward not found");
+
+    const merged: InsertLoyaltyRewardInput = {
+      name: patch.name ?? existing.name,
+      kind: patch.kind ?? existing.kind,
+      pointsCost: patch.pointsCost ?? existing.pointsCost,
+      minutes: patch.minutes !== undefined ? patch.minutes : existing.minutes,
+      menuItemId: patch.menuItemId !== undefined ? patch.menuItemId : existing.menuItemId,
+      percentOff:
+        patch.percentOff !== undefined
+          ? patch.percentOff
+          : existing.percentOff === null
+            ? null
+            : Number(existing.percentOff),
+      isEnabled: patch.isEnabled ?? existing.isEnabled,
+      sortOrder: patch.sortOrder ?? existing.sortOrder,
+    };
+
+    const updated = await loyaltyStorage.updateReward(userId, id, await this.toRewardValues(userId, merged));
+    if (!updated) throw new LoyaltyNotFoundError("Reward not found");
+    return updated;
+  }
+
+  async deleteReward(userId: string, id: string): Promise<void> {
+    const ok = await loyaltyStorage.deleteReward(userId, id);
+    if (!ok) throw new LoyaltyNotFoundError("Reward not found");
+  }
+
+  async listTiers(userId: string): Promise<LoyaltyTier[]> {
+    return loyaltyStorage.listTiers(userId);
+  }
+
+  /** Tiers are told apart by where they start, so no two may start at the same points. */
+  private async toTierValues(userId: string, input: InsertLoyaltyTierInput, tierId?: string): Promise<LoyaltyTierValues> {
+    const tiers = await loyaltyStorage.listTiers(userId);
+    const clash = tiers.find((tier) => tier.minPoints === input.minPoints && tier.id !== tierId);
+    if (clash) throw new LoyaltyValidationError(`${clash.name} already starts at ${input.minPoints} points`);
+
+    return {
+      name: input.name,
+      minPoints: input.minPoints,
+      discountRate: input.discountRate.toFixed(4),
+      pointsMultiplier: input.pointsMultiplier.toFixed(2),
+    };
+  }
+
+  async createTier(userId: string, input: InsertLoyaltyTierInput): Promise<LoyaltyTier> {
+    return loyaltyStorage.createTier(userId, await this.toTierValues(userId, input));
+  }
+
+  async updateTier(userId: string, id: string, patch: UpdateLoyaltyTierInput): Promise<LoyaltyTier> {
+    const existing = await loyaltyStorage.getTier(userId, id);
+    if (!existing) throw new LoyaltyNotFoundError("Tier not found");
+
+    const merged: InsertLoyaltyTierInput = {
+      name: patch.name ?? existing.name,
+      minPoints: patch.minPoints ?? existing.minPoints,
+      discountRate: patch.discountRate ?? Number(existing.discountRate),
+      pointsMultiplier: patch.pointsMultiplier ?? Number(existing.pointsMultiplier),
+    };
+
+    const updated = await loyaltyStorage.updateTier(userId, id, await this.toTierValues(userId, merged, id));
+    if (!updated) throw new LoyaltyNotFoundError("Tier not found");
+    return updated;
+  }
+
+  async deleteTier(userId: string, id: string): Promise<void> {
+    const ok = await loyaltyStorage.deleteTier(userId, id);
+    if (!ok) throw new LoyaltyNotFoundError("Tier not found");
+  }
+}
+
+export const loyaltyService = new LoyaltyService();
@@ -0,0 +1,133 @@
+import { loyaltyRewards, loyaltyTiers, users, type LoyaltyReward, type LoyaltyTier } from "@shared/schema";
+import { db, type DbExecutor } from "../db";
+import { and, asc, eq } from "drizzle-orm";
+import type { LoyaltyContext } from "./utils";
+
+export type LoyaltyRewardValues = Pick<
+  LoyaltyReward,
+  "name" | "kind" | "pointsCost" | "minutes" | "menuItemId" | "percentOff" | "isEnabled" | "sortOrder"
+>;
+
+export type LoyaltyTierValues = Pick<LoyaltyTier, "name" | "minPoints" | "discountRate" | "pointsMultiplier">;
+
+class LoyaltyStorage {
+  async listRewards(userId: string): Promise<LoyaltyReward[]> {
+    return db
+      .select()
+      .from(loyaltyRewards)
+      .where(eq(loyaltyRewards.userId, userId))
+      .orderBy(asc(loyaltyRewards.sortOrder), asc(loyaltyRewards.createdAt));
+  }
+
+  async getReward(executor: DbExecutor, userId: string, id: string): Promise<LoyaltyReward | undefined> {
+    const [row] = await executor
+      .select()
+      .from(loyaltyRewards)
+      .where(and(eq(loyaltyRewards.userId, userId), eq(loyaltyRewards.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createReward(userId: string, values: LoyaltyRewardValues): Promise<LoyaltyReward> {
+    const [row] = await db
+      .insert(loyaltyRewards)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateReward(userId: string, id: string, values: LoyaltyRewardValues): Promise<LoyaltyReward | undefined> {
+    const [row] = await db
+      .update(loyaltyRewards)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(loyaltyRewards.userId, userId), eq(loyaltyRewards.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteReward(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(loyaltyRewards)
+      .where(and(eq(loyaltyRewards.userId, userId), eq(loyaltyRewards.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  async listTiers(userId: string): Promise<LoyaltyTier[]> {
+    return db
+      .select()
+      .from(loyaltyTiers)
+      .where(eq(loyaltyTiers.userId, userId))
+      .orderBy(asc(loyaltyTiers.minPoints));
+  }
+
+  async getTier(userId: string, id: string): Promise<LoyaltyTier | undefined> {
+    const [row] = await db
+      .select()
+      .from(loyaltyTiers)
+      .where(and(eq(loyaltyTiers.userId, userId), eq(loyaltyTiers.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createTier(userId: string, values: LoyaltyTierValues): Promise<LoyaltyTier> {
+    const [row] = await db
+      .insert(loyaltyTiers)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateTier(userId: string, id: string, values: LoyaltyTierValues): Promise<LoyaltyTier | undefined> {
+    const [row] = await db
+      .update(loyaltyTiers)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(loyaltyTiers.userId, userId), eq(loyaltyTiers.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteTier(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(loyaltyTiers)
+      .where(and(eq(loyaltyTiers.userId, userId), eq(loyaltyTiers.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  /** The store's program and tiers, read inside the caller's transaction when closing. */
+  async loadLoyaltyContext(executor: DbExecutor, userId: string): Promise<LoyaltyContext> {
+    const [user] = await executor
+      .select({
+        loyaltyProgram: users.loyaltyProgram,
+        pointsPerDollar: users.pointsPerDollar,
+        pointsPerHour: users.pointsPerHour,
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    const tiers = await executor
+      .select()
+      .from(loyaltyTiers)
+      .where(eq(loyaltyTiers.userId, userId))
+      .orderBy(asc(loyaltyTiers.minPoints));
+    return {
+      program: user?.loyaltyProgram ?? "hours",
+      pointsPerDollar: Number(user?.pointsPerDollar ?? 0),
+      pointsPerHour: Number(user?.pointsPerHour ?? 0),
+      tiers,
+    };
+  }
+}
+
+export const loyaltyStorage = new LoyaltyStorage();
@@ -0,0 +1,90 @@
+import type { LoyaltyProgram, LoyaltyReward, LoyaltyTier } from "@shared/schema";
+import { roundMoney, type DiscountSpec } from "../payments/utils";
+
+/** The store's loyalty setup as a checkout applies it. */
+export type LoyaltyContext = {
+  program: LoyaltyProgram;
+  pointsPerDollar: number;
+  pointsPerHour: number;
+  /** Lowest threshold first. */
+  tiers: LoyaltyTier[];
+};
+
+/** The bill a reward is priced against. */
+export type RewardBill = {
+  timeSubtotal: number;
+  billableSeconds: number;
+  items: Array<{ menuItemId: string | null; unitPrice: number }>;
+};
+
+/** The highest tier the customer's tier points reach, or null below the first. */
+export function tierFor(context: LoyaltyContext, tierPoints: number): LoyaltyTier | null {
+  let reached: LoyaltyTier | null = null;
+  for (const tier of context.tiers) {
+    if (tier.minPoints <= tierPoints) reached = tier;
+  }
+  return reached;
+}
+
+/** Points a checkout earns: per dollar paid and per hour played, scaled by the tier's multiplier. */
+export function pointsEarned(
+  context: LoyaltyContext,
+  tier: LoyaltyTier | null,
+  finalTotal: number,
+  effectiveSeconds: number,
+): number {
+  if (context.program !== "points") return 0;
+  const base = finalTotal * context.pointsPerDollar + (effectiveSeconds / 3600) * context.pointsPerHour;
+  const multiplier = tier ? Number(tier.pointsMultiplier) : 1;
+  return Math.max(0, Math.floor(base * multiplier));
+}
+
+/** A tier's standing discount, or null when the tier gives none. */
+export function toTierSpec(tier: LoyaltyTier): DiscountSpec | null {
+  const rate = Number(tier.discountRate);
+  if (!(rate > 0)) return null;
+  return {
+    source: "tier",
+    promotionId: null,
+    code: null,
+    name: `${tier.name} member discount`,
+    reasonCode: null,
+    note: null,
+    kind: "percent",
+    value: rate,
+    scope: "all",
+    categories: [],
+    stationIds: [],
+  };
+}
+
+/**
+ * Price a reward against the bill. Free time is worth its share of the billable time, free items one
+ * unit of the item, so neither can come to more than the bill charges for them.
+ */
+export function toRewardSpec(reward: LoyaltyReward, bill: RewardBill): DiscountSpec {
+  const base = {
+    source: "reward" as const,
+    promotionId: null,
+    code: null,
+    name: reward.name,
+    reasonCode: null,
+    note: null,
+    categories: [],
+    stationIds: [],
+  };
+
+  switch (reward.kind) {
+    case "free_time": {
+      const share = bill.billableSeconds > 0 ? Math.min(1, ((reward.minutes ?? 0) * 60) / bill.billableSeconds) : 0;
+      return { ...base, kind: "amount", value: roundMoney(bill.timeSubtotal * share), scope: "time" };
+    }
+    case "free_item": {
+      const line = bill.items.find((item) => item.menuItemId === reward.menuItemId);
+      if (!line) throw new Error("Reward item is not on the bill");
+      return { ...base, kind: "amount", value: line.unitPrice, scope: "items" };
+    }
+    case "percent_off":
+      return { ...base, kind: "percent", value: Number(reward.percentOff ?? 0), scope: "all" };
+  }
+}
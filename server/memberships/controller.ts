@@ -0,0 +1,121 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertCustomerMembershipSchema,
+  insertMembershipPlanSchema,
+  listMembershipsQuerySchema,
+  updateCustomerMembershipSchema,
+  updateMembershipPlanSchema,
+} from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { membershipService } from "./service";
+
+export async function listPlans(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await membershipService.listPlans(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createPlan(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertMembershipPlanSchema.parse(req.body);
+    const created = await membershipService.createPlan(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updatePlan(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateMembershipPlanSchema.parse(req.body);
+    const updated = await membershipService.updatePlan(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deletePlan(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await membershipService.deletePlan(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function listMemberships(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const query = listMembershipsQuerySchema.parse(req.query);
+    const data = await membershipService.listMemberships(uid, query);
+    res.json(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createMembership(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertCustomerMembershipSchema.parse(req.body);
+    const created = await membershipService.createMembership(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateMembership(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateCustomerMembershipSchema.parse(req.body);
+    const updated = await membershipService.updateMembership(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function renewMembership(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const renewed = await membershipService.renewMembership(uid, req.params.id);
+    res.json(renewed);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function cancelMembership(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await membershipService.cancelMembership(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,23 @@
+export class MembershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class MembershipNotFoundError extends MembershipError {}
+export class MembershipValidationError extends MembershipError {}
+export class MembershipConflictError extends MembershipError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof MembershipNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof MembershipValidationError) {
+    return { status: 400, message: err.message };
+  }
+  if (err instanceof MembershipConflictError) {
+    return { status: 409, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
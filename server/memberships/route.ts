@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  listPlans,
+  createPlan,
+  updatePlan,
+  deletePlan,
+  listMemberships,
+  createMembership,
+  updateMembership,
+  renewMembership,
+  cancelMembership,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/membership-plans", requireAuth, listPlans);
+router.post("/api/membership-plans", requireAuth, createPlan);
+router.patch("/api/membership-plans/:id", requireAuth, updatePlan);
+router.delete("/api/membership-plans/:id", requireAuth, deletePlan);
+router.get("/api/memberships", requireAuth, listMemberships);
+router.post("/api/memberships", requireAuth, createMembership);
+router.patch("/api/memberships/:id", requireAuth, updateMembership);
+router.post("/api/memberships/:id/renew", requireAuth, renewMembership);
+router.delete("/api/memberships/:id", requireAuth, cancelMembership);
+
+export const membershipsRouter = router;
@@ -0,0 +1,183 @@
+import type {
+  CustomerMembership,
+  InsertCustomerMembershipInput,
+  InsertMembershipPlanInput,
+  MembershipPlan,
+  UpdateCustomerMembershipInput,
+  UpdateMembershipPlanInput,
+} from "@shared/schema";
+import { db } from "../db";
+import { customerStorage } from "../customers/storage";
+import { membershipStorage, type MembershipPlanValues, type MembershipRow } from "./storage";
+import { addMonth, includedSecondsLeft, isMembershipCurrent } from "./utils";
+import { MembershipConflictError, MembershipNotFoundError, MembershipValidationError } from "./errors";
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export type MembershipDto = CustomerMembership & {
+  status: "active" | "lapsed";
+  plan: Pick<MembershipPlan, "id" | "name" | "price" | "includedHours" | "memberRateName">;
+  customer: MembershipRow["customer"];
+  includedSecondsLeft: number;
+};
+
+function toDto(row: MembershipRow, now = new Date()): MembershipDto {
+  return {
+    ...row.membership,
+    status: isMembershipCurrent(row.membership, now) ? "active" : "lapsed",
+    plan: {
+      id: row.plan.id,
+      name: row.plan.name,
+      price: row.plan.price,
+      includedHours: row.plan.includedHours,
+      memberRateName: row.plan.memberRateName,
+    },
+    customer: row.customer,
+    includedSecondsLeft: includedSecondsLeft(row.membership, row.plan),
+  };
+}
+
+class MembershipService {
+  async listPlans(userId: string): Promise<MembershipPlan[]> {
+    return membershipStorage.listPlans(userId);
+  }
+
+  private toPlanValues(input: InsertMembershipPlanInput): MembershipPlanValues {
+    return {
+      name: input.name,
+      price: input.price.toFixed(2),
+      includedHours: input.includedHours.toFixed(2),
+      memberRateName: input.memberRateName || null,
+      isEnabled: input.isEnabled,
+      sortOrder: input.sortOrder,
+    };
+  }
+
+  async createPlan(userId: string, input: InsertMembershipPlanInput): Promise<MembershipPlan> {
+    return membershipStorage.createPlan(userId, this.toPlanValues(input));
+  }
+
+  async updatePlan(userId: string, id: string, patch: UpdateMembershipPlanInput): Promise<MembershipPlan> {
+    const existing = await membershipStorage.getPlan(db, userId, id);
+    if (!existing) throw new MembershipNotFoundError("Plan not found");
+
+    const merged: InsertMembershipPlanInput = {
+      name: patch.name ?? existing.name,
+      price: patch.price ?? Number(existing.price),
+      includedHours: patch.includedHours ?? Number(existing.includedHours),
+      memberRateName: patch.memberRateName !== undefined ? patch.memberRateName : existing.memberRateName,
+      isEnabled: patch.isEnabled ?? existing.isEnabled,
+      sortOrder: patch.sortOrder ?? existing.sortOrder,
+    };
+
+    const updated = await membershipStorage.updatePlan(userId, id, this.toPlanValues(merged));
+    if (!updated) throw new MembershipNotFoundError("Plan not found");
+    return updated;
+  }
+
+  /** Plans with members are disabled rather than deleted, so their memberships keep working. */
+  async deletePlan(userId: string, id: string): Promise<void> {
+    const members = await membershipStorage.countPlanMembers(userId, id);
+    if (members > 0) {
+      throw new MembershipConflictError(`Plan has ${members} member${members === 1 ? "" : "s"}; disable it instead`);
+    }
+    const ok = await membershipStorage.deletePlan(userId, id);
+    if (!ok) throw new MembershipNotFoundError("Plan not found");
+  }
+
+  /** With expiringWithinDays, the memberships due to renew by then, lapsed ones included. */
+  async listMemberships(
+    userId: string,
+    filter: { customerId?: string; expiringWithinDays?: number } = {},
+  ): Promise<MembershipDto[]> {
+    const now = new Date();
+    const rows = await membershipStorage.listMemberships(userId, {
+      customerId: filter.customerId,
+      renewsBy:
+        filter.expiringWithinDays !== undefined ? new Date(now.getTime() + filter.expiringWithinDays * DAY_MS) : undefined,
+    });
+    return rows.map((row) => toDto(row, now));
+  }
+
+  async getMembership(userId: string, id: string): Promise<MembershipDto> {
+    const row = await membershipStorage.getMembership(userId, id);
+    if (!row) throw new MembershipNotFoundError("Membership not found");
+    return toDto(row);
+  }
+
+  private async assertPlanOpen(userId: string, planId: string): Promise<MembershipPlan> {
+    const plan = await membershipStorage.getPlan(db, userId, planId);
+    if (!plan) throw new MembershipNotFoundError("Plan not found");
+    if (!plan.isEnabled) throw new MembershipValidationError("Plan is disabled");
+    return plan;
+  }
+
+  private toRenewsAt(value: string | undefined, periodStart: Date): Date {
+    if (!value) return addMonth(periodStart);
+    const renewsAt = new Date(value);
+    if (renewsAt <= periodStart) throw new MembershipValidationError("Renewal date must be after the period starts");
+    return renewsAt;
+  }
+
+  async createMembership(userId: string, input: InsertCustomerMembershipInput): Promise<MembershipDto> {
+    const customer = await customerStorage.getCustomerById(userId, input.customerId);
+    if (!customer) throw new MembershipNotFoundError("Customer not found");
+    await this.assertPlanOpen(userId, input.planId);
+    if (await membershipStorage.getCustomerMembership(db, userId, customer.id)) {
+      throw new MembershipConflictError("Customer already has a membership");
+    }
+
+    const periodStart = new Date();
+    const created = await membershipStorage.createMembership(userId, customer.id, {
+      planId: input.planId,
+      periodStart,
+      renewsAt: this.toRenewsAt(input.renewsAt, periodStart),
+      usedSeconds: 0,
+    });
+    return this.getMembership(userId, created.id);
+  }
+
+  /** A new plan starts a new period from now; a new renewal date alone keeps the time used. */
+  async updateMembership(userId: string, id: string, patch: UpdateCustomerMembershipInput): Promise<MembershipDto> {
+    const existing = await this.getMembership(userId, id);
+
+    if (patch.planId && patch.planId !== existing.planId) {
+      await this.assertPlanOpen(userId, patch.planId);
+      const periodStart = new Date();
+      await membershipStorage.updateMembership(userId, id, {
+        planId: patch.planId,
+        periodStart,
+        renewsAt: this.toRenewsAt(patch.renewsAt, periodStart),
+        usedSeconds: 0,
+      });
+    } else if (patch.renewsAt) {
+      await membershipStorage.updateMembership(userId, id, {
+        renewsAt: this.toRenewsAt(patch.renewsAt, existing.periodStart),
+      });
+    }
+    return this.getMembership(userId, id);
+  }
+
+  /**
+   * Start the next period with the plan's full included time. A membership renewed before it lapses
+   * runs on from its renewal date; a lapsed one starts again from now.
+   */
+  async renewMembership(userId: string, id: string): Promise<MembershipDto> {
+    const existing = await this.getMembership(userId, id);
+    const now = new Date();
+    const periodStart = existing.renewsAt > now ? existing.renewsAt : now;
+    await membershipStorage.updateMembership(userId, id, {
+      periodStart,
+      renewsAt: addMonth(periodStart),
+      usedSeconds: 0,
+    });
+    return this.getMembership(userId, id);
+  }
+
+  async cancelMembership(userId: string, id: string): Promise<void> {
+    const ok = await membershipStorage.deleteMembership(userId, id);
+    if (!ok) throw new MembershipNotFoundError("Membership not found");
+  }
+}
+
+export const membershipService = new MembershipService();
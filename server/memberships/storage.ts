@@ -0,0 +1,246 @@
+import {
+  customerMemberships,
+  customers,
+  membershipPlans,
+  membershipUsages,
+  stationRates,
+  type Customer,
+  type CustomerMembership,
+  type MembershipPlan,
+} from "@shared/schema";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, asc, eq, inArray, lte, sql } from "drizzle-orm";
+
+export type MembershipPlanValues = Pick<
+  MembershipPlan,
+  "name" | "price" | "includedHours" | "memberRateName" | "isEnabled" | "sortOrder"
+>;
+
+export type MembershipPeriodValues = Pick<CustomerMembership, "planId" | "periodStart" | "renewsAt" | "usedSeconds">;
+
+/** A membership with its plan and the customer it belongs to. */
+export type MembershipRow = {
+  membership: CustomerMembership;
+  plan: MembershipPlan;
+  customer: Pick<Customer, "id" | "firstName" | "lastName" | "phoneNumber">;
+};
+
+export type MembershipFilter = {
+  customerId?: string;
+  /** Only memberships that renew by then, lapsed ones included. */
+  renewsBy?: Date;
+};
+
+class MembershipStorage {
+  private selectMemberships() {
+    return db
+      .select({
+        membership: customerMemberships,
+        plan: membershipPlans,
+        customer: {
+          id: customers.id,
+          firstName: customers.firstName,
+          lastName: customers.lastName,
+          phoneNumber: customers.phoneNumber,
+        },
+      })
+      .from(customerMemberships)
+      .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+      .innerJoin(customers, eq(customerMemberships.customerId, customers.id));
+  }
+
+  async listPlans(userId: string): Promise<MembershipPlan[]> {
+    return db
+      .select()
+      .from(membershipPlans)
+      .where(eq(membershipPlans.userId, userId))
+      .orderBy(asc(membershipPlans.sortOrder), asc(membershipPlans.createdAt));
+  }
+
+  async getPlan(executor: DbExecutor, userId: string, id: string): Promise<MembershipPlan | undefined> {
+    const [row] = await executor
+      .select()
+      .from(membershipPlans)
+      .where(and(eq(membershipPlans.userId, userId), eq(membershipPlans.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createPlan(userId: string, values: MembershipPlanValues): Promise<MembershipPlan> {
+    const [row] = await db
+      .insert(membershipPlans)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updatePlan(userId: string, id: string, values: MembershipPlanValues): Promise<MembershipPlan | undefined> {
+    const [row] = await db
+      .update(membershipPlans)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(membershipPlans.userId, userId), eq(membershipPlans.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deletePlan(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(membershipPlans)
+      .where(and(eq(membershipPlans.userId, userId), eq(membershipPlans.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  async countPlanMembers(userId: string, planId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(customerMemberships)
+      .where(and(eq(customerMemberships.userId, userId), eq(customerMemberships.planId, planId)));
+    return row?.count ?? 0;
+  }
+
+  /** Soonest renewal first. */
+  async listMemberships(userId: string, filter: MembershipFilter = {}): Promise<MembershipRow[]> {
+    return this.selectMemberships()
+      .where(
+        and(
+          eq(customerMemberships.userId, userId),
+          filter.customerId ? eq(customerMemberships.customerId, filter.customerId) : undefined,
+          filter.renewsBy ? lte(customerMemberships.renewsAt, filter.renewsBy) : undefined,
+        ),
+      )
+      .orderBy(asc(customerMemberships.renewsAt));
+  }
+
+  async getMembership(userId: string, id: string): Promise<MembershipRow | undefined> {
+    const [row] = await this.selectMemberships()
+      .where(and(eq(customerMemberships.userId, userId), eq(customerMemberships.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** The customer's membership and its plan. With `lock`, it stays locked for the caller's transaction. */
+  async getCustomerMembership(
+    executor: DbExecutor,
+    userId: string,
+    customerId: string,
+    lock = false,
+  ): Promise<{ membership: CustomerMembership; plan: MembershipPlan } | undefined> {
+    const query = executor
+      .select()
+      .from(customerMemberships)
+      .where(and(eq(customerMemberships.userId, userId), eq(customerMemberships.customerId, customerId)));
+    const [membership] = lock ? await query.for("update") : await query.limit(1);
+    if (!membership) return undefined;
+    const plan = await this.getPlan(executor, userId, membership.planId);
+    return plan ? { membership, plan } : undefined;
+  }
+
+  async createMembership(userId: string, customerId: string, values: MembershipPeriodValues): Promise<CustomerMembership> {
+    const [row] = await db
+      .insert(customerMemberships)
+      .values({ userId, customerId, ...values, createdAt: new Date(), updatedAt: new Date() })
+      .returning();
+    return row;
+  }
+
+  async updateMembership(
+    userId: string,
+    id: string,
+    values: Partial<MembershipPeriodValues>,
+  ): Promise<CustomerMembership | undefined> {
+    const [row] = await db
+      .update(customerMemberships)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(customerMemberships.userId, userId), eq(customerMemberships.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteMembership(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(customerMemberships)
+      .where(and(eq(customerMemberships.userId, userId), eq(customerMemberships.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  /** Each station's hourly rate under `rateName`, for the stations that sell one. */
+  async loadMemberRates(
+    executor: DbExecutor,
+    userId: string,
+    stationIds: string[],
+    rateName: string,
+  ): Promise<Map<string, number>> {
+    if (stationIds.length === 0) return new Map();
+    const rows = await executor
+      .select({ stationId: stationRates.stationId, rateHourly: stationRates.rateHourly })
+      .from(stationRates)
+      .where(
+        and(
+          eq(stationRates.userId, userId),
+          inArray(stationRates.stationId, stationIds),
+          eq(stationRates.isEnabled, true),
+          sql`lower(${stationRates.name}) = lower(${rateName})`,
+        ),
+      );
+    return new Map(rows.map((row) => [row.stationId, Number(row.rateHourly)]));
+  }
+
+  /** Spend a locked membership's included time on a checkout, inside the caller's transaction. */
+  async recordUsage(
+    tx: DbTransaction,
+    userId: string,
+    membership: CustomerMembership,
+    sessionId: string,
+    includedSeconds: number,
+    amount: number,
+  ): Promise<void> {
+    await tx.insert(membershipUsages).values({
+      userId,
+      membershipId: membership.id,
+      sessionId,
+      periodStart: membership.periodStart,
+      includedSeconds,
+      amount: amount.toFixed(2),
+      createdAt: new Date(),
+    });
+    if (includedSeconds <= 0) return;
+    await tx
+      .update(customerMemberships)
+      .set({ usedSeconds: membership.usedSeconds + includedSeconds, updatedAt: new Date() })
+      .where(eq(customerMemberships.id, membership.id));
+  }
+
+  /**
+   * Give back the included time a session spent, e.g. when its checkout is voided or reopened. Time
+   * from a period that has since renewed is not given back.
+   */
+  async releaseSessionUsage(tx: DbTransaction, userId: string, sessionId: string): Promise<void> {
+    const usages = await tx
+      .select()
+      .from(membershipUsages)
+      .where(and(eq(membershipUsages.userId, userId), eq(membershipUsages.sessionId, sessionId)));
+    for (const usage of usages) {
+      const [membership] = await tx
+        .select()
+        .from(customerMemberships)
+        .where(eq(customerMemberships.id, usage.membershipId))
+        .for("update");
+      if (membership && membership.periodStart.getTime() === usage.periodStart.getTime()) {
+        await tx
+          .update(customerMemberships)
+          .set({ usedSeconds: Math.max(0, membership.usedSeconds - usage.includedSeconds), updatedAt: new Date() })
+          .where(eq(customerMemberships.id, membership.id));
+      }
+      await tx.delete(membershipUsages).where(eq(membershipUsages.id, usage.id));
+    }
+  }
+}
+
+export const membershipStorage = new MembershipStorage();
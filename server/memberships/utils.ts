@@ -0,0 +1,82 @@
+import type { CustomerMembership, MembershipPlan } from "@shared/schema";
+import { roundMoney, type DiscountSpec } from "../payments/utils";
+import { takeCheapestTime, type TimeSegment } from "../vouchers/utils";
+
+/** What a membership takes off one bill, and the included time it spends doing so. */
+export type MembershipPricing = {
+  specs: DiscountSpec[];
+  includedSeconds: number;
+};
+
+/** One calendar month on, clamped to the end of a shorter month: Jan 31 renews on Feb 28. */
+export function addMonth(date: Date): Date {
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + 1);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(date.getDate(), lastDay));
+  return next;
+}
+
+/** Members get their plan until renewsAt; after that the membership has lapsed. */
+export function isMembershipCurrent(membership: CustomerMembership, at: Date): boolean {
+  return at < membership.renewsAt;
+}
+
+export function includedSecondsLeft(membership: CustomerMembership, plan: MembershipPlan): number {
+  return Math.max(0, Math.round(Number(plan.includedHours) * 3600) - membership.usedSeconds);
+}
+
+/**
+ * Price a membership against a bill's time. Its remaining included time comes off the cheapest
+ * segments first; the rest of the time is brought down to the member rate on stations that sell
+ * one. `memberRates` maps a station to its member rate per hour.
+ */
+export function priceMembership(
+  plan: MembershipPlan,
+  secondsLeft: number,
+  segments: TimeSegment[],
+  memberRates: Map<string, number>,
+): MembershipPricing {
+  const base = {
+    source: "membership" as const,
+    promotionId: null,
+    code: null,
+    reasonCode: null,
+    note: null,
+    kind: "amount" as const,
+    categories: [],
+  };
+  const specs: DiscountSpec[] = [];
+
+  const taken = takeCheapestTime(segments, secondsLeft);
+  const includedSeconds = taken.reduce((sum, entry) => sum + entry.seconds, 0);
+  const includedAmount = roundMoney(taken.reduce((sum, entry) => sum + entry.amount, 0));
+  if (includedAmount > 0) {
+    specs.push({ ...base, name: `${plan.name} included time`, value: includedAmount, scope: "time", stationIds: [] });
+  }
+
+  let memberSaving = 0;
+  const memberStations = new Set<string>();
+  for (const segment of segments) {
+    const memberRate = memberRates.get(segment.stationId);
+    if (memberRate === undefined || segment.billableSeconds <= 0) continue;
+    const spent = taken.find((entry) => entry.segment === segment)?.seconds ?? 0;
+    const rest = segment.billableSeconds - spent;
+    const saving = rest * (segment.timeAmount / segment.billableSeconds - memberRate / 3600);
+    if (rest <= 0 || saving <= 0) continue;
+    memberSaving += saving;
+    memberStations.add(segment.stationId);
+  }
+  if (roundMoney(memberSaving) > 0) {
+    specs.push({
+      ...base,
+      name: `${plan.name} member rate`,
+      value: roundMoney(memberSaving),
+      scope: "stations",
+      stationIds: Array.from(memberStations),
+    });
+  }
+
+  return { specs, includedSeconds };
+}
@@ -0,0 +1,32 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { discountsReportQuerySchema, tipsReportQuerySchema } from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { paymentService } from "./service";
+
+export async function getTipsReport(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const query = tipsReportQuerySchema.parse(req.query);
+    const report = await paymentService.getTipsReport(uid, query);
+    res.json(report);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function getDiscountsReport(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const query = discountsReportQuerySchema.parse(req.query);
+    const report = await paymentService.getDiscountsReport(uid, query);
+    res.json(report);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,15 @@
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class PaymentValidationError extends PaymentError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof PaymentValidationError) {
+    return { status: 400, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
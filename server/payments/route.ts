@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import { getDiscountsReport, getTipsReport } from "./controller";
+
+const router = Router();
+
+router.get("/api/reports/tips", requireAuth, getTipsReport);
+router.get("/api/reports/discounts", requireAuth, getDiscountsReport);
+
+export const paymentsRouter = router;
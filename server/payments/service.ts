@@ -0,0 +1,123 @@
+import type { DiscountReason, DiscountSource, DiscountsReportQuery, TipsReportQuery } from "@shared/schema";
+import { settingsStorage } from "../settings/storage";
+import { paymentStorage, type DiscountTotalRow, type TipTotalRow } from "./storage";
+import { roundMoney } from "./utils";
+import { PaymentValidationError } from "./errors";
+
+const MAX_REPORT_DAYS = 366;
+
+export type TipTotalDto = {
+  /** Null for checkouts closed before the closing account was recorded. */
+  closedByEmail: string | null;
+  tipAmount: number;
+  checkoutCount: number;
+};
+
+export type TipsReportDto = {
+  from: string;
+  to: string;
+  timeZone: string;
+  tipAmount: number;
+  checkoutCount: number;
+  /** Days with tips, oldest first, each broken down by who closed the sessions. */
+  days: Array<{ date: string; tipAmount: number; checkoutCount: number; staff: TipTotalDto[] }>;
+  /** The whole range per closing account, largest first. */
+  staff: TipTotalDto[];
+};
+
+export type DiscountTotalDto = {
+  source: DiscountSource;
+  /** Promotion code; null for loyalty and manual discounts. */
+  code: string | null;
+  name: string;
+  /** Manual discounts only. */
+  reasonCode: DiscountReason | null;
+  amount: number;
+  checkoutCount: number;
+};
+
+export type DiscountsReportDto = {
+  from: string;
+  to: string;
+  timeZone: string;
+  amount: number;
+  /** Totals for loyalty, promotions and manual discounts. */
+  sources: Array<{ source: DiscountSource; amount: number; checkoutCount: number }>;
+  /** Each promotion code, manual reason and the loyalty discount, largest first. */
+  discounts: DiscountTotalDto[];
+};
+
+function sumRows(rows: TipTotalRow[]): { tipAmount: number; checkoutCount: number } {
+  return {
+    tipAmount: roundMoney(rows.reduce((sum, row) => sum + row.tipAmount, 0)),
+    checkoutCount: rows.reduce((sum, row) => sum + row.checkoutCount, 0),
+  };
+}
+
+class PaymentService {
+  /** Check a report's day range and look up the store time zone its days are in. */
+  private async getReportTimeZone(userId: string, query: { from: string; to: string }): Promise<string> {
+    const spanDays = (Date.parse(`${query.to}T00:00:00Z`) - Date.parse(`${query.from}T00:00:00Z`)) / 86_400_000;
+    if (!Number.isFinite(spanDays)) throw new PaymentValidationError("Invalid date range");
+    if (spanDays >= MAX_REPORT_DAYS) {
+      throw new PaymentValidationError(`Reports can cover at most ${MAX_REPORT_DAYS} days`);
+    }
+
+    const user = await settingsStorage.getUserById(userId);
+    return user?.timeZone ?? "UTC";
+  }
+
+  async getTipsReport(userId: string, query: TipsReportQuery): Promise<TipsReportDto> {
+    const timeZone = await this.getReportTimeZone(userId, query);
+    const rows = await paymentStorage.listTipTotals(userId, query.from, query.to, timeZone);
+
+    const byDay = new Map<string, TipTotalRow[]>();
+    const byStaff = new Map<string | null, TipTotalRow[]>();
+    for (const row of rows) {
+      byDay.set(row.day, [...(byDay.get(row.day) ?? []), row]);
+      byStaff.set(row.closedByEmail, [...(byStaff.get(row.closedByEmail) ?? []), row]);
+    }
+
+    return {
+      from: query.from,
+      to: query.to,
+      timeZone,
+      ...sumRows(rows),
+      days: Array.from(byDay.entries()).map(([date, dayRows]) => ({
+        date,
+        ...sumRows(dayRows),
+        staff: dayRows.map(({ closedByEmail, tipAmount, checkoutCount }) => ({ closedByEmail, tipAmount, checkoutCount })),
+      })),
+      staff: Array.from(byStaff.entries())
+        .map(([closedByEmail, staffRows]) => ({ closedByEmail, ...sumRows(staffRows) }))
+        .sort((a, b) => b.tipAmount - a.tipAmount),
+    };
+  }
+
+  /**
+   * Discounts given on checkouts in the range. A checkout that took two kinds of discount counts
+   * toward each, so checkout counts do not add up across rows.
+   */
+  async getDiscountsReport(userId: string, query: DiscountsReportQuery): Promise<DiscountsReportDto> {
+    const timeZone = await this.getReportTimeZone(userId, query);
+    const rows = await paymentStorage.listDiscountTotals(userId, query.from, query.to, timeZone);
+
+    const bySource = new Map<DiscountSource, DiscountTotalRow[]>();
+    for (const row of rows) bySource.set(row.source, [...(bySource.get(row.source) ?? []), row]);
+
+    return {
+      from: query.from,
+      to: query.to,
+      timeZone,
+      amount: roundMoney(rows.reduce((sum, row) => sum + row.amount, 0)),
+      sources: Array.from(bySource.entries()).map(([source, sourceRows]) => ({
+        source,
+        amount: roundMoney(sourceRows.reduce((sum, row) => sum + row.amount, 0)),
+        checkoutCount: sourceRows.reduce((sum, row) => sum + row.checkoutCount, 0),
+      })),
+      discounts: rows.map((row) => ({ ...row, amount: roundMoney(row.amount) })).sort((a, b) => b.amount - a.amount),
+    };
+  }
+}
+
+export const paymentService = new PaymentService();
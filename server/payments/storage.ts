@@ -0,0 +1,447 @@
+import {
+  sessionCheckoutDiscounts,
+  sessionCheckoutPayers,
+  sessionCheckouts,
+  sessionCheckoutTaxes,
+  sessionPayments,
+  type DiscountReason,
+  type DiscountSource,
+  type SessionCheckout,
+  type SessionCheckoutDiscount,
+  type SessionCheckoutPayer,
+  type SessionCheckoutTax,
+  type SessionPayment,
+  type TenderType,
+} from "@shared/schema";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, asc, eq, gt, gte, inArray, isNull, lt, sql } from "drizzle-orm";
+import type { CheckoutPlan } from "./utils";
+
+export type CheckoutWithPayments = SessionCheckout & {
+  payments: SessionPayment[];
+  /** Empty unless the checkout was split by item. */
+  payers: SessionCheckoutPayer[];
+  /** One line per tax rate charged; empty for untaxed checkouts. */
+  taxes: SessionCheckoutTax[];
+  /** Loyalty, promotion and manual discounts taken, in the order they were taken. */
+  discounts: SessionCheckoutDiscount[];
+};
+
+export type CheckoutLoyalty = { customerId: string; seconds: number };
+
+export type DiscountTotalRow = {
+  source: DiscountSource;
+  code: string | null;
+  name: string;
+  reasonCode: DiscountReason | null;
+  amount: number;
+  checkoutCount: number;
+};
+
+export type TipTotalRow = {
+  /** Local calendar day, YYYY-MM-DD. */
+  day: string;
+  closedByEmail: string | null;
+  tipAmount: number;
+  checkoutCount: number;
+};
+
+class PaymentStorage {
+  /** Write a plan's discount and tax lines, payers and payments for a checkout, linking each payment to its payer. */
+  private async insertPlanRows(
+    tx: DbTransaction,
+    checkout: SessionCheckout,
+    plan: CheckoutPlan,
+  ): Promise<{
+    payers: SessionCheckoutPayer[];
+    payments: SessionPayment[];
+    taxes: SessionCheckoutTax[];
+    discounts: SessionCheckoutDiscount[];
+  }> {
+    const discounts = plan.discountLines.length
+      ? await tx
+          .insert(sessionCheckoutDiscounts)
+          .values(
+            plan.discountLines.map((line) => ({
+              checkoutId: checkout.id,
+              sessionId: checkout.sessionId,
+              sequence: line.sequence,
+              source: line.source,
+              promotionId: line.promotionId,
+              code: line.code,
+              name: line.name,
+              reasonCode: line.reasonCode,
+              note: line.note,
+              kind: line.kind,
+              value: line.value.toFixed(4),
+              scope: line.scope,
+              categories: line.categories,
+              stationIds: line.stationIds,
+              eligibleAmount: line.eligibleAmount.toFixed(2),
+              amount: line.amount.toFixed(2),
+              createdAt: new Date(),
+            })),
+          )
+          .returning()
+      : [];
+
+    const taxes = plan.taxLines.length
+      ? await tx
+          .insert(sessionCheckoutTaxes)
+          .values(
+            plan.taxLines.map((line) => ({
+              checkoutId: checkout.id,
+              sessionId: checkout.sessionId,
+              sequence: line.sequence,
+              taxRateId: line.taxRateId,
+              name: line.name,
+              rate: line.rate.toFixed(5),
+              taxableAmount: line.taxableAmount.toFixed(2),
+              taxAmount: line.taxAmount.toFixed(2),
+              createdAt: new Date(),
+            })),
+          )
+          .returning()
+      : [];
+
+    const payers = plan.payers.length
+      ? await tx
+          .insert(sessionCheckoutPayers)
+          .values(
+            plan.payers.map((payer) => ({
+              checkoutId: checkout.id,
+              sessionId: checkout.sessionId,
+              sequence: payer.sequence,
+              name: payer.name,
+              tenderType: payer.tenderType,
+              discountRate: payer.discountRate.toFixed(4),
+              timeSubtotal: payer.timeSubtotal.toFixed(2),
+              itemsSubtotal: payer.itemsSubtotal.toFixed(2),
+              subtotal: payer.subtotal.toFixed(2),
+              prepaidCredit: payer.prepaidCredit.toFixed(2),
+              discountAmount: payer.discountAmount.toFixed(2),
+              taxAmount: payer.taxAmount.toFixed(2),
+              total: payer.total.toFixed(2),
+              allocations: payer.allocations,
+              createdAt: new Date(),
+            })),
+          )
+          .returning()
+      : [];
+    const payerIdBySequence = new Map(payers.map((payer) => [payer.sequence, payer.id]));
+
+    const payments = await tx
+      .insert(sessionPayments)
+      .values(
+        plan.payments.map((payment) => ({
+          checkoutId: checkout.id,
+          sessionId: checkout.sessionId,
+          payerId: payerIdBySequence.get(payment.sequence) ?? null,
+          sequence: payment.sequence,
+          tenderType: payment.tenderType,
+          giftCardId: payment.giftCardId,
+          amount: payment.amount.toFixed(2),
+          tipAmount: payment.tipAmount.toFixed(2),
+          createdAt: new Date(),
+        })),
+      )
+      .returning();
+
+    return { payers, payments, taxes, discounts };
+  }
+
+  /** Persist a checkout and its payments inside the caller's close transaction. */
+  async createCheckout(
+    tx: DbTransaction,
+    userId: string,
+    sessionId: string,
+    plan: CheckoutPlan,
+    loyalty?: CheckoutLoyalty,
+    closedByEmail: string | null = null,
+  ): Promise<CheckoutWithPayments> {
+    const [checkout] = await tx
+      .insert(sessionCheckouts)
+      .values({
+        userId,
+        sessionId,
+        timeSubtotal: plan.timeSubtotal.toFixed(2),
+        itemsSubtotal: plan.itemsSubtotal.toFixed(2),
+        subtotal: plan.subtotal.toFixed(2),
+        discountRate: plan.discountRate.toFixed(4),
+        discountAmount: plan.discountAmount.toFixed(2),
+        prepaidCredit: plan.prepaidCredit.toFixed(2),
+        taxAmount: plan.taxAmount.toFixed(2),
+        taxInclusive: plan.taxInclusive,
+        timeTaxRates: plan.timeTaxRates,
+        finalTotal: plan.finalTotal.toFixed(2),
+        splitCount: plan.splitCount,
+        tipAmount: plan.tipAmount.toFixed(2),
+        closedByEmail,
+        loyaltyCustomerId: loyalty?.customerId ?? null,
+        loyaltySeconds: loyalty ? Math.round(loyalty.seconds) : 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    const { payers, payments, taxes, discounts } = await this.insertPlanRows(tx, checkout, plan);
+    return { ...checkout, payments, payers, taxes, discounts };
+  }
+
+  async getCheckoutForSession(
+    executor: DbExecutor,
+    userId: string,
+    sessionId: string,
+  ): Promise<CheckoutWithPayments | undefined> {
+    const [checkout] = await executor
+      .select()
+      .from(sessionCheckouts)
+      .where(and(eq(sessionCheckouts.userId, userId), eq(sessionCheckouts.sessionId, sessionId)))
+      .limit(1);
+    if (!checkout) return undefined;
+
+    const payments = await executor
+      .select()
+      .from(sessionPayments)
+      .where(eq(sessionPayments.checkoutId, checkout.id))
+      .orderBy(asc(sessionPayments.sequence));
+
+    const payers = await executor
+      .select()
+      .from(sessionCheckoutPayers)
+      .where(eq(sessionCheckoutPayers.checkoutId, checkout.id))
+      .orderBy(asc(sessionCheckoutPayers.sequence));
+
+    const taxes = await executor
+      .select()
+      .from(sessionCheckoutTaxes)
+      .where(eq(sessionCheckoutTaxes.checkoutId, checkout.id))
+      .orderBy(asc(sessionCheckoutTaxes.sequence));
+
+    const discounts = await executor
+      .select()
+      .from(sessionCheckoutDiscounts)
+      .where(eq(sessionCheckoutDiscounts.checkoutId, checkout.id))
+      .orderBy(asc(sessionCheckoutDiscounts.sequence));
+    return { ...checkout, payments, payers, taxes, discounts };
+  }
+
+  /**
+   * Record a refund as a negative payment and add it to the checkout's refunded total. giftCardId is
+   * the card a gift_card refund was put back on.
+   */
+  async recordRefund(
+    tx: DbTransaction,
+    checkout: CheckoutWithPayments,
+    amount: number,
+    tenderType: TenderType,
+    giftCardId: string | null = null,
+  ): Promise<SessionCheckout> {
+    const nextSequence = checkout.payments.reduce((max, payment) => Math.max(max, payment.sequence), 0) + 1;
+    await tx.insert(sessionPayments).values({
+      checkoutId: checkout.id,
+      sessionId: checkout.sessionId,
+      sequence: nextSequence,
+      tenderType,
+      giftCardId,
+      amount: (-amount).toFixed(2),
+      createdAt: new Date(),
+    });
+
+    const [updated] = await tx
+      .update(sessionCheckouts)
+      .set({
+        refundedAmount: sql`${sessionCheckouts.refundedAmount} + ${amount.toFixed(2)}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(sessionCheckouts.id, checkout.id))
+      .returning();
+    return updated;
+  }
+
+  async markVoided(tx: DbTransaction, checkoutId: string): Promise<void> {
+    await tx
+      .update(sessionCheckouts)
+      .set({ voidedAt: new Date(), updatedAt: new Date() })
+      .where(eq(sessionCheckouts.id, checkoutId));
+  }
+
+  async setLoyaltySeconds(tx: DbTransaction, checkoutId: string, seconds: number): Promise<void> {
+    await tx
+      .update(sessionCheckouts)
+      .set({ loyaltySeconds: Math.round(seconds), updatedAt: new Date() })
+      .where(eq(sessionCheckouts.id, checkoutId));
+  }
+
+  /** Overwrite a checkout's amounts, discount and tax lines, payers and payments after the session it belongs to was corrected. */
+  async replacePlan(tx: DbTransaction, checkout: SessionCheckout, plan: CheckoutPlan): Promise<void> {
+    await tx
+      .update(sessionCheckouts)
+      .set({
+        timeSubtotal: plan.timeSubtotal.toFixed(2),
+        itemsSubtotal: plan.itemsSubtotal.toFixed(2),
+        subtotal: plan.subtotal.toFixed(2),
+        discountRate: plan.discountRate.toFixed(4),
+        discountAmount: plan.discountAmount.toFixed(2),
+        prepaidCredit: plan.prepaidCredit.toFixed(2),
+        taxAmount: plan.taxAmount.toFixed(2),
+        finalTotal: plan.finalTotal.toFixed(2),
+        splitCount: plan.splitCount,
+        tipAmount: plan.tipAmount.toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(sessionCheckouts.id, checkout.id));
+
+    await tx.delete(sessionPayments).where(eq(sessionPayments.checkoutId, checkout.id));
+    await tx.delete(sessionCheckoutPayers).where(eq(sessionCheckoutPayers.checkoutId, checkout.id));
+    await tx.delete(sessionCheckoutTaxes).where(eq(sessionCheckoutTaxes.checkoutId, checkout.id));
+    await tx.delete(sessionCheckoutDiscounts).where(eq(sessionCheckoutDiscounts.checkoutId, checkout.id));
+    await this.insertPlanRows(tx, checkout, plan);
+  }
+
+  /** Drop a checkout and its payments so the session can be checked out again. */
+  async deleteCheckout(tx: DbTransaction, checkoutId: string): Promise<void> {
+    await tx.delete(sessionCheckouts).where(eq(sessionCheckouts.id, checkoutId));
+  }
+
+  /** Checkouts closed on local days `from` through `to` (in `timeZone`), and the local day as a column. */
+  private localDayRange(from: string, to: string, timeZone: string) {
+    const day = sql<string>`to_char((${sessionCheckouts.createdAt} at time zone 'UTC') at time zone ${timeZone}, 'YYYY-MM-DD')`;
+    // A day either side of the range covers any UTC offset; the local-day test does the exact cut.
+    const start = new Date(`${from}T00:00:00Z`);
+    start.setUTCDate(start.getUTCDate() - 1);
+    const end = new Date(`${to}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 2);
+    return {
+      day,
+      where: and(
+        gte(sessionCheckouts.createdAt, start),
+        lt(sessionCheckouts.createdAt, end),
+        sql`${day} between ${from} and ${to}`,
+      ),
+    };
+  }
+
+  /**
+   * Tips on checkouts that are not voided, summed per local day (in `timeZone`) and closing account,
+   * for days `from` through `to` inclusive.
+   */
+  async listTipTotals(userId: string, from: string, to: string, timeZone: string): Promise<TipTotalRow[]> {
+    const { day, where } = this.localDayRange(from, to, timeZone);
+
+    const rows = await db
+      .select({
+        day,
+        closedByEmail: sessionCheckouts.closedByEmail,
+        tipAmount: sql<string>`sum(${sessionCheckouts.tipAmount})`,
+        checkoutCount: sql<number>`count(*)::int`,
+      })
+      .from(sessionCheckouts)
+      .where(
+        and(
+          eq(sessionCheckouts.userId, userId),
+          isNull(sessionCheckouts.voidedAt),
+          gt(sessionCheckouts.tipAmount, "0"),
+          where,
+        ),
+      )
+      // By position: the day expression carries a bound time zone, so repeating it would not match the select.
+      .groupBy(sql`1`, sql`2`)
+      .orderBy(sql`1`, sql`2`);
+
+    return rows.map((row) => ({
+      day: row.day,
+      closedByEmail: row.closedByEmail,
+      tipAmount: Number(row.tipAmount),
+      checkoutCount: Number(row.checkoutCount),
+    }));
+  }
+
+  /** Discounts on checkouts that are not voided, summed per kind of discount, for local days `from` through `to`. */
+  async listDiscountTotals(userId: string, from: string, to: string, timeZone: string): Promise<DiscountTotalRow[]> {
+    const { where } = this.localDayRange(from, to, timeZone);
+
+    const rows = await db
+      .select({
+        source: sessionCheckoutDiscounts.source,
+        code: sessionCheckoutDiscounts.code,
+        name: sessionCheckoutDiscounts.name,
+        reasonCode: sessionCheckoutDiscounts.reasonCode,
+        amount: sql<string>`sum(${sessionCheckoutDiscounts.amount})`,
+        checkoutCount: sql<number>`count(distinct ${sessionCheckoutDiscounts.checkoutId})::int`,
+      })
+      .from(sessionCheckoutDiscounts)
+      .innerJoin(sessionCheckouts, eq(sessionCheckouts.id, sessionCheckoutDiscounts.checkoutId))
+      .where(
+        and(
+          eq(sessionCheckouts.userId, userId),
+          isNull(sessionCheckouts.voidedAt),
+          gt(sessionCheckoutDiscounts.amount, "0"),
+          where,
+        ),
+      )
+      .groupBy(
+        sessionCheckoutDiscounts.source,
+        sessionCheckoutDiscounts.code,
+        sessionCheckoutDiscounts.name,
+        sessionCheckoutDiscounts.reasonCode,
+      );
+
+    return rows.map((row) => ({
+      source: row.source,
+      code: row.code,
+      name: row.name,
+      reasonCode: row.reasonCode,
+      amount: Number(row.amount),
+      checkoutCount: Number(row.checkoutCount),
+    }));
+  }
+
+  async listCheckoutsForSessions(userId: string, sessionIds: string[]): Promise<Map<string, CheckoutWithPayments>> {
+    const bySession = new Map<string, CheckoutWithPayments>();
+    if (sessionIds.length === 0) return bySession;
+
+    const checkouts = await db
+      .select()
+      .from(sessionCheckouts)
+      .where(and(eq(sessionCheckouts.userId, userId), inArray(sessionCheckouts.sessionId, sessionIds)));
+    if (checkouts.length === 0) return bySession;
+
+    const payments = await db
+      .select()
+      .from(sessionPayments)
+      .where(inArray(sessionPayments.checkoutId, checkouts.map((row) => row.id)))
+      .orderBy(asc(sessionPayments.sequence));
+
+    const payers = await db
+      .select()
+      .from(sessionCheckoutPayers)
+      .where(inArray(sessionCheckoutPayers.checkoutId, checkouts.map((row) => row.id)))
+      .orderBy(asc(sessionCheckoutPayers.sequence));
+
+    const taxes = await db
+      .select()
+      .from(sessionCheckoutTaxes)
+      .where(inArray(sessionCheckoutTaxes.checkoutId, checkouts.map((row) => row.id)))
+      .orderBy(asc(sessionCheckoutTaxes.sequence));
+
+    const discounts = await db
+      .select()
+      .from(sessionCheckoutDiscounts)
+      .where(inArray(sessionCheckoutDiscounts.checkoutId, checkouts.map((row) => row.id)))
+      .orderBy(asc(sessionCheckoutDiscounts.sequence));
+
+    for (const checkout of checkouts) {
+      bySession.set(checkout.sessionId, {
+        ...checkout,
+        payments: payments.filter((payment) => payment.checkoutId === checkout.id),
+        payers: payers.filter((payer) => payer.checkoutId === checkout.id),
+        taxes: taxes.filter((tax) => tax.checkoutId === checkout.id),
+        discounts: discounts.filter((discount) => discount.checkoutId === checkout.id),
+      });
+    }
+    return bySession;
+  }
+}
+
+export const paymentStorage = new PaymentStorage();
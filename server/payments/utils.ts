@@ -0,0 +1,567 @@
+import type {
+  CheckoutPayerInput,
+  CheckoutPaymentInput,
+  DiscountKind,
+  DiscountReason,
+  DiscountScope,
+  DiscountSource,
+  SplitAllocation,
+  TaxRateSnapshot,
+  TenderType,
+} from "@shared/schema";
+import { allocateProportionally } from "../rates/utils";
+
+/** A priced item or time line that an itemized split can assign to payers. */
+export type SplitLine = { kind: SplitAllocation["kind"]; lineId: string; amount: number };
+
+/** What a bill is taxed at: table time's rates, each item line's rates, and whether prices include tax. */
+export type TaxInput = {
+  inclusive: boolean;
+  timeRates: TaxRateSnapshot[];
+  /** lineId is the session item id, as in SplitLine. */
+  items: Array<{ lineId: string; amount: number; rates: TaxRateSnapshot[] }>;
+};
+
+export type TaxLinePlan = TaxRateSnapshot & {
+  sequence: number;
+  taxableAmount: number;
+  taxAmount: number;
+};
+
+/** What a discount is and where it applies; checkout lines keep it so edits can take it again. */
+export type DiscountSpec = {
+  source: DiscountSource;
+  promotionId: string | null;
+  code: string | null;
+  name: string;
+  reasonCode: DiscountReason | null;
+  note: string | null;
+  kind: DiscountKind;
+  /** Fraction for percent discounts, dollars for amount ones. */
+  value: number;
+  scope: DiscountScope;
+  categories: string[];
+  stationIds: string[];
+};
+
+/** A promotion or manual discount narrowed to a bill: the share of table time and the item lines it covers. */
+export type DiscountInput = DiscountSpec & { timeShare: number; itemLineIds: string[] };
+
+export type DiscountLinePlan = DiscountSpec & {
+  sequence: number;
+  eligibleAmount: number;
+  amount: number;
+};
+
+export type PayerPlan = {
+  sequence: number;
+  name: string;
+  tenderType: TenderType;
+  discountRate: number;
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  subtotal: number;
+  prepaidCredit: number;
+  /** The payer's part of every discount, loyalty included. */
+  discountAmount: number;
+  /** Tax on the payer's own lines; the checkout's tax lines add up every payer's. */
+  taxAmount: number;
+  total: number;
+  allocations: SplitAllocation[];
+};
+
+export type CheckoutPlan = {
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  subtotal: number;
+  /** The loyalty rate; promotion and manual discounts are in discountLines. */
+  discountRate: number;
+  /** Every discount line added up. */
+  discountAmount: number;
+  discountLines: DiscountLinePlan[];
+  /** Paid when the session started; taken off before the discount so it is never discounted twice. */
+  prepaidCredit: number;
+  taxInclusive: boolean;
+  /** Included in finalTotal: added on top for exclusive prices, already inside inclusive ones. */
+  taxAmount: number;
+  taxLines: TaxLinePlan[];
+  timeTaxRates: TaxRateSnapshot[];
+  finalTotal: number;
+  splitCount: number;
+  /** Gratuity on top of finalTotal, shared across payments in proportion to their amounts. */
+  tipAmount: number;
+  /** giftCardId is set on the payment taken off a gift card. */
+  payments: Array<{ sequence: number; tenderType: TenderType; giftCardId: string | null; amount: number; tipAmount: number }>;
+  /** Empty unless the bill was itemized; payments then line up with payers by sequence. */
+  payers: PayerPlan[];
+};
+
+/** Round a dollar amount to whole cents. */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Divide an amount into `count` parts that differ by at most one cent.
+ * Leftover cents go to the first parts, matching what the checkout dialog shows.
+ */
+export function splitEvenly(amount: number, count: number): number[] {
+  const totalCents = Math.max(0, Math.round(amount * 100));
+  const base = Math.floor(totalCents / count);
+  const remainder = totalCents % count;
+  return Array.from({ length: count }, (_, index) => (base + (index < remainder ? 1 : 0)) / 100);
+}
+
+/** Divide an amount into cents proportional to `weights`; all-zero weights split evenly. */
+export function apportion(amount: number, weights: number[]): number[] {
+  if (weights.reduce((sum, weight) => sum + weight, 0) <= 0) return splitEvenly(amount, weights.length);
+  const totalCents = Math.max(0, Math.round(amount * 100));
+  return allocateProportionally(totalCents, weights).map((cents) => cents / 100);
+}
+
+const SHARE_TOLERANCE = 1e-6;
+
+/**
+ * Each payer's raw item and time amounts from their allocations. Every line with a charge must be
+ * shared out in full; throws a plain Error otherwise.
+ */
+function allocateLines(payers: CheckoutPayerInput[], lines: SplitLine[]): Array<{ time: number; items: number }> {
+  const byKey = new Map(lines.map((line) => [`${line.kind}:${line.lineId}`, line]));
+  const allocated = new Map<string, number>();
+
+  const raw = payers.map((payer) => {
+    let time = 0;
+    let items = 0;
+    for (const allocation of payer.allocations) {
+      const key = `${allocation.kind}:${allocation.lineId}`;
+      const line = byKey.get(key);
+      if (!line) throw new Error("Split assigns an unknown line");
+      allocated.set(key, (allocated.get(key) ?? 0) + allocation.share);
+      if (line.kind === "segment") time += line.amount * allocation.share;
+      else items += line.amount * allocation.share;
+    }
+    return { time, items };
+  });
+
+  allocated.forEach((share) => {
+    if (share > 1 + SHARE_TOLERANCE) throw new Error("Split shares a line more than once");
+  });
+  for (const line of lines) {
+    if (line.amount <= 0) continue;
+    const share = allocated.get(`${line.kind}:${line.lineId}`) ?? 0;
+    if (share < 1 - SHARE_TOLERANCE) throw new Error("Split must assign every item and segment in full");
+  }
+  return raw;
+}
+
+/**
+ * Itemized split: apportion each subtotal by what the payer was assigned and take each payer's share
+ * of prepaid credit. Discounts and tax are worked out afterwards, on each payer's lines.
+ */
+function planPayers(input: {
+  payers: CheckoutPayerInput[];
+  lines: SplitLine[];
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  prepaidCredit: number;
+  discountRate: number;
+}): PayerPlan[] {
+  const raw = allocateLines(input.payers, input.lines);
+  const times = apportion(input.timeSubtotal, raw.map((payer) => payer.time));
+  const items = apportion(input.itemsSubtotal, raw.map((payer) => payer.items));
+  const subtotals = times.map((time, index) => roundMoney(time + items[index]));
+  const credits = apportion(input.prepaidCredit, subtotals);
+
+  return input.payers.map((payer, index) => ({
+    sequence: index + 1,
+    name: payer.name,
+    tenderType: payer.tenderType,
+    discountRate: payer.discountApplied ? input.discountRate : 0,
+    timeSubtotal: times[index],
+    itemsSubtotal: items[index],
+    subtotal: subtotals[index],
+    prepaidCredit: credits[index],
+    discountAmount: 0,
+    taxAmount: 0,
+    total: roundMoney(subtotals[index] - credits[index]),
+    allocations: payer.allocations,
+  }));
+}
+
+/** Amounts on a bill or a payer's part of one: table time as one line, then each item line by id. */
+type LineAmounts = { time: number; items: Map<string, number> };
+
+/** The whole bill's discountable amounts; prepaid time is never discounted. */
+function billLines(lines: SplitLine[], timeSubtotal: number, prepaidCredit: number): LineAmounts {
+  return {
+    time: timeSubtotal - prepaidCredit,
+    items: new Map(lines.filter((line) => line.kind === "item").map((line) => [line.lineId, line.amount])),
+  };
+}
+
+/** A payer's discountable amounts: their item shares, scaled to the item subtotal they were apportioned. */
+function payerLines(payer: PayerPlan, lines: SplitLine[]): LineAmounts {
+  const amounts = new Map(lines.filter((line) => line.kind === "item").map((line) => [line.lineId, line.amount]));
+  const items = new Map<string, number>();
+  for (const allocation of payer.allocations) {
+    const amount = allocation.kind === "item" ? amounts.get(allocation.lineId) : undefined;
+    if (amount === undefined) continue;
+    items.set(allocation.lineId, (items.get(allocation.lineId) ?? 0) + amount * allocation.share);
+  }
+  const raw = Array.from(items.values()).reduce((sum, amount) => sum + amount, 0);
+  const scale = raw > 0 ? payer.itemsSubtotal / raw : 0;
+  items.forEach((amount, lineId) => items.set(lineId, amount * scale));
+  return { time: payer.timeSubtotal - payer.prepaidCredit, items };
+}
+
+function emptyLines(lines: LineAmounts): LineAmounts {
+  return { time: 0, items: new Map(Array.from(lines.items.keys()).map((lineId) => [lineId, 0])) };
+}
+
+function sumLines(lines: LineAmounts): number {
+  return Array.from(lines.items.values()).reduce((sum, amount) => sum + amount, lines.time);
+}
+
+/** How much of each line a discount can come off, time first then items in order. */
+function lineWeights(lines: LineAmounts, discount?: DiscountInput): number[] {
+  const items = Array.from(lines.items.entries());
+  if (!discount) return [lines.time, ...items.map(([, amount]) => amount)].map((weight) => Math.max(0, weight));
+  const covered = new Set(discount.itemLineIds);
+  return [
+    lines.time * discount.timeShare,
+    ...items.map(([lineId, amount]) => (covered.has(lineId) ? amount : 0)),
+  ].map((weight) => Math.max(0, weight));
+}
+
+/** Spread an amount over lines by weight, moving it from remaining to taken. */
+function takeFromLines(remaining: LineAmounts, taken: LineAmounts, amount: number, weights: number[]): void {
+  if (amount <= 0) return;
+  const parts = apportion(amount, weights);
+  remaining.time -= parts[0];
+  taken.time += parts[0];
+  Array.from(remaining.items.keys()).forEach((lineId, index) => {
+    const part = parts[index + 1];
+    remaining.items.set(lineId, (remaining.items.get(lineId) ?? 0) - part);
+    taken.items.set(lineId, (taken.items.get(lineId) ?? 0) + part);
+  });
+}
+
+/**
+ * Take promotion and manual discounts off in order, then each portion's loyalty rate off what is
+ * left. Portions are the whole bill, or each payer's part of it. A discount is worked out on the whole
+ * bill and shared across portions by what each could take it off, so an amount discount is only given
+ * once. Returns the discount lines, each portion's discount total and what came off each portion's
+ * lines, which tax is then charged after.
+ */
+function takeDiscounts(
+  portions: LineAmounts[],
+  discounts: DiscountInput[],
+  loyaltyRates: number[],
+  storeLoyaltyRate: number,
+): { lines: DiscountLinePlan[]; portionTotals: number[]; taken: LineAmounts[] } {
+  const remaining = portions.map((lines) => ({ time: lines.time, items: new Map(lines.items) }));
+  const taken = portions.map(emptyLines);
+  const portionTotals = portions.map(() => 0);
+  const lines: DiscountLinePlan[] = [];
+
+  const record = (spec: DiscountSpec, eligibleAmount: number, amount: number) => {
+    lines.push({ ...spec, sequence: lines.length + 1, eligibleAmount, amount });
+  };
+
+  for (const discount of discounts) {
+    const weights = remaining.map((lines) => lineWeights(lines, discount));
+    const portionEligible = weights.map((list) => list.reduce((sum, weight) => sum + weight, 0));
+    const eligibleAmount = roundMoney(portionEligible.reduce((sum, amount) => sum + amount, 0));
+    const amount = roundMoney(
+      discount.kind === "percent"
+        ? eligibleAmount * Math.min(1, discount.value)
+        : Math.min(discount.value, eligibleAmount),
+    );
+    const parts = amount > 0 ? apportion(amount, portionEligible) : portionEligible.map(() => 0);
+    parts.forEach((part, index) => {
+      takeFromLines(remaining[index], taken[index], part, weights[index]);
+      portionTotals[index] = roundMoney(portionTotals[index] + part);
+    });
+    const { timeShare: _timeShare, itemLineIds: _itemLineIds, ...spec } = discount;
+    record(spec, eligibleAmount, amount);
+  }
+
+  if (loyaltyRates.some((rate) => rate > 0)) {
+    let eligibleAmount = 0;
+    let amount = 0;
+    remaining.forEach((lines, index) => {
+      const rate = loyaltyRates[index];
+      if (rate <= 0) return;
+      const due = roundMoney(sumLines(lines));
+      const part = roundMoney(due * rate);
+      takeFromLines(lines, taken[index], part, lineWeights(lines));
+      portionTotals[index] = roundMoney(portionTotals[index] + part);
+      eligibleAmount += due;
+      amount += part;
+    });
+    record(
+      {
+        source: "loyalty",
+        promotionId: null,
+        code: null,
+        name: "Loyalty discount",
+        reasonCode: null,
+        note: null,
+        kind: "percent",
+        value: storeLoyaltyRate,
+        scope: "all",
+        categories: [],
+        stationIds: [],
+      },
+      roundMoney(eligibleAmount),
+      roundMoney(amount),
+    );
+  }
+
+  return { lines, portionTotals, taken };
+}
+
+/**
+ * Tax per rate on the whole sale, prepaid time included, after discount. `taken` is what discounts
+ * took off each line. Exclusive prices add amount × rate; inclusive prices already hold the tax, so
+ * each rate's part is amount × rate / (1 + the line's combined rate). Lines are summed per rate
+ * before rounding.
+ */
+function planTaxLines(tax: TaxInput, timeSubtotal: number, taken: LineAmounts): TaxLinePlan[] {
+  const lines = [
+    { amount: timeSubtotal - taken.time, rates: tax.timeRates },
+    ...tax.items.map((line) => ({ amount: line.amount - (taken.items.get(line.lineId) ?? 0), rates: line.rates })),
+  ];
+
+  const byRate = new Map<string, TaxRateSnapshot & { taxable: number; tax: number }>();
+  for (const line of lines) {
+    if (line.amount <= 0 || line.rates.length === 0) continue;
+    const combinedRate = line.rates.reduce((sum, rate) => sum + rate.rate, 0);
+    const taxable = tax.inclusive ? line.amount / (1 + combinedRate) : line.amount;
+    for (const rate of line.rates) {
+      const key = rate.taxRateId ?? `${rate.name}:${rate.rate}`;
+      const entry = byRate.get(key) ?? { ...rate, taxable: 0, tax: 0 };
+      entry.taxable += taxable;
+      entry.tax += taxable * rate.rate;
+      byRate.set(key, entry);
+    }
+  }
+
+  return Array.from(byRate.values()).map((entry, index) => ({
+    sequence: index + 1,
+    taxRateId: entry.taxRateId,
+    name: entry.name,
+    rate: entry.rate,
+    taxableAmount: roundMoney(entry.taxable),
+    taxAmount: roundMoney(entry.tax),
+  }));
+}
+
+/** A payer's part of the bill for tax: their share of each item line they were assigned. */
+function payerTaxInput(lines: LineAmounts, tax: TaxInput): TaxInput {
+  return {
+    ...tax,
+    items: tax.items.flatMap((line) => {
+      const amount = lines.items.get(line.lineId);
+      return amount ? [{ ...line, amount }] : [];
+    }),
+  };
+}
+
+/** Add up tax lines per rate, e.g. every payer's, renumbering them. */
+function mergeTaxLines(lists: TaxLinePlan[][]): TaxLinePlan[] {
+  const byRate = new Map<string, TaxLinePlan>();
+  for (const line of lists.flat()) {
+    const key = line.taxRateId ?? `${line.name}:${line.rate}`;
+    const entry = byRate.get(key);
+    if (!entry) {
+      byRate.set(key, { ...line });
+      continue;
+    }
+    entry.taxableAmount = roundMoney(entry.taxableAmount + line.taxableAmount);
+    entry.taxAmount = roundMoney(entry.taxAmount + line.taxAmount);
+  }
+  return Array.from(byRate.values()).map((line, index) => ({ ...line, sequence: index + 1 }));
+}
+
+function sumTax(lines: TaxLinePlan[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+}
+
+/**
+ * Resolve the requested tip against the final total and give each payment its part of it. The tip
+ * goes on the other tender when a gift card paid only part of the bill. A card that paid all of it
+ * takes the tip only up to what is left on it; the chosen tender takes the rest.
+ */
+function withTip(
+  plan: Omit<CheckoutPlan, "tipAmount" | "payments"> & {
+    payments: Array<{ sequence: number; tenderType: TenderType; giftCardId: string | null; amount: number }>;
+  },
+  payment: CheckoutPaymentInput,
+  giftCardBalance?: number,
+): CheckoutPlan {
+  const tipAmount = roundMoney(payment.tipAmount ?? plan.finalTotal * (payment.tipRate ?? 0));
+  const giftOnly = plan.payments.every((row) => row.giftCardId);
+  const tips = apportion(
+    tipAmount,
+    plan.payments.map((row) => (row.giftCardId && !giftOnly ? 0 : row.amount)),
+  );
+  const payments: CheckoutPlan["payments"] = plan.payments.map((row, index) => ({ ...row, tipAmount: tips[index] }));
+  const card = payments.find((row) => row.giftCardId);
+  if (giftOnly && card && giftCardBalance !== undefined) {
+    const cardTip = roundMoney(Math.max(0, Math.min(card.tipAmount, giftCardBalance - card.amount)));
+    const rest = roundMoney(card.tipAmount - cardTip);
+    card.tipAmount = cardTip;
+    if (rest > 0) {
+      payments.push({
+        sequence: payments.length + 1,
+        tenderType: payment.tenderType,
+        giftCardId: null,
+        amount: 0,
+        tipAmount: rest,
+      });
+    }
+  }
+  return { ...plan, tipAmount, payments };
+}
+
+/**
+ * Compute the amounts recorded for a checkout from the session subtotals and the payment input.
+ * Promotion and manual discounts come off first, then the loyalty rate off what is left.
+ */
+export function planCheckout(input: {
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  discountRate: number;
+  prepaidCredit?: number;
+  payment: CheckoutPaymentInput;
+  /** The bill's lines, which discounts and payers are worked out on. */
+  lines: SplitLine[];
+  /** Promotion and manual discounts, in the order they are taken. */
+  discounts?: DiscountInput[];
+  /** Omitted for untaxed bills. */
+  tax?: TaxInput;
+  /** The card named by payment.giftCardCode; never used on a split bill. */
+  giftCard?: { id: string; balance: number };
+}): CheckoutPlan {
+  const timeSubtotal = roundMoney(input.timeSubtotal);
+  const itemsSubtotal = roundMoney(input.itemsSubtotal);
+  const subtotal = roundMoney(timeSubtotal + itemsSubtotal);
+  const discountRate = Math.min(1, Math.max(0, input.discountRate));
+  const prepaidCredit = roundMoney(Math.min(subtotal, Math.max(0, input.prepaidCredit ?? 0)));
+  const amountDue = roundMoney(subtotal - prepaidCredit);
+  const discounts = input.discounts ?? [];
+  const taxInclusive = input.tax?.inclusive ?? false;
+  const timeTaxRates = input.tax?.timeRates ?? [];
+
+  if (input.payment.payers) {
+    const planned = planPayers({
+      payers: input.payment.payers,
+      lines: input.lines,
+      timeSubtotal,
+      itemsSubtotal,
+      prepaidCredit,
+      discountRate,
+    });
+    const portions = planned.map((payer) => payerLines(payer, input.lines));
+    const discounted = takeDiscounts(portions, discounts, planned.map((payer) => payer.discountRate), discountRate);
+    // Payers can differ in discount and in what they were assigned, so each is taxed on their own lines.
+    const payerTaxLines = planned.map((payer, index) =>
+      input.tax ? planTaxLines(payerTaxInput(portions[index], input.tax), payer.timeSubtotal, discounted.taken[index]) : [],
+    );
+    const taxLines = mergeTaxLines(payerTaxLines);
+    const taxAmount = sumTax(taxLines);
+    const payers = planned.map((payer, index) => {
+      const discountAmount = discounted.portionTotals[index];
+      const payerTax = sumTax(payerTaxLines[index]);
+      const total = roundMoney(payer.subtotal - payer.prepaidCredit - discountAmount);
+      return {
+        ...payer,
+        discountAmount,
+        taxAmount: payerTax,
+        total: taxInclusive ? total : roundMoney(total + payerTax),
+      };
+    });
+    return withTip({
+      timeSubtotal,
+      itemsSubtotal,
+      subtotal,
+      discountRate,
+      discountAmount: roundMoney(payers.reduce((sum, payer) => sum + payer.discountAmount, 0)),
+      discountLines: discounted.lines,
+      prepaidCredit,
+      taxInclusive,
+      taxAmount,
+      taxLines,
+      timeTaxRates,
+      finalTotal: roundMoney(payers.reduce((sum, payer) => sum + payer.total, 0)),
+      splitCount: payers.length,
+      payments: payers.map((payer) => ({
+        sequence: payer.sequence,
+        tenderType: payer.tenderType,
+        giftCardId: null,
+        amount: payer.total,
+      })),
+      payers,
+    }, input.payment);
+  }
+
+  const discounted = takeDiscounts([billLines(input.lines, timeSubtotal, prepaidCredit)], discounts, [discountRate], discountRate);
+  const discountAmount = discounted.portionTotals[0];
+  const taxLines = input.tax ? planTaxLines(input.tax, timeSubtotal, discounted.taken[0]) : [];
+  const taxAmount = sumTax(taxLines);
+  const finalTotal = roundMoney(amountDue - discountAmount + (taxInclusive ? 0 : taxAmount));
+
+  const splits = input.payment.splits ?? [{ tenderType: input.payment.tenderType }];
+  const amounts = splitEvenly(finalTotal, splits.length);
+  let payments: Array<{ sequence: number; tenderType: TenderType; giftCardId: string | null; amount: number }> =
+    splits.map((split, index) => ({
+      sequence: index + 1,
+      tenderType: split.tenderType,
+      giftCardId: null,
+      amount: amounts[index],
+    }));
+
+  // The gift card pays first, up to its balance; the chosen tender pays whatever is left.
+  const giftAmount = input.giftCard && !input.payment.splits
+    ? roundMoney(Math.max(0, Math.min(input.giftCard.balance, input.payment.giftCardAmount ?? finalTotal, finalTotal)))
+    : 0;
+  if (input.giftCard && giftAmount > 0) {
+    const rest = roundMoney(finalTotal - giftAmount);
+    payments = [{ sequence: 1, tenderType: "gift_card", giftCardId: input.giftCard.id, amount: giftAmount }];
+    if (rest > 0) payments.push({ sequence: 2, tenderType: input.payment.tenderType, giftCardId: null, amount: rest });
+  }
+
+  return withTip({
+    timeSubtotal,
+    itemsSubtotal,
+    subtotal,
+    discountRate,
+    discountAmount,
+    discountLines: discounted.lines,
+    prepaidCredit,
+    taxInclusive,
+    taxAmount,
+    taxLines,
+    timeTaxRates,
+    finalTotal,
+    splitCount: splits.length,
+    payments,
+    payers: [],
+  }, input.payment, input.giftCard?.balance);
+}
+
+/** A recorded tender as one a checkout can be planned with; gift card payments are planned from the card. */
+export function toChosenTender(tenderType: TenderType): CheckoutPaymentInput["tenderType"] {
+  return tenderType === "gift_card" ? "card" : tenderType;
+}
+
+/** What is still refundable on a checkout: everything collected, prepaid credit included, less prior refunds. */
+export function getRefundableAmount(checkout: {
+  finalTotal: string | number;
+  prepaidCredit: string | number;
+  refundedAmount: string | number;
+}): number {
+  const collected = Number(checkout.finalTotal) + Number(checkout.prepaidCredit);
+  return Math.max(0, roundMoney(collected - Number(checkout.refundedAmount)));
+}
@@ -0,0 +1,54 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { insertPromotionSchema, updatePromotionSchema } from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { promotionService } from "./service";
+
+export async function listPromotions(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await promotionService.listPromotions(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createPromotion(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertPromotionSchema.parse(req.body);
+    const created = await promotionService.createPromotion(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updatePromotion(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updatePromotionSchema.parse(req.body);
+    const updated = await promotionService.updatePromotion(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deletePromotion(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await promotionService.deletePromotion(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,23 @@
+export class PromotionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class PromotionNotFoundError extends PromotionError {}
+export class PromotionValidationError extends PromotionError {}
+export class PromotionConflictError extends PromotionError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof PromotionNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof PromotionValidationError) {
+    return { status: 400, message: err.message };
+  }
+  if (err instanceof PromotionConflictError) {
+    return { status: 409, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
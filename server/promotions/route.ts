@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import { createPromotion, deletePromotion, listPromotions, updatePromotion } from "./controller";
+
+const router = Router();
+
+router.get("/api/promotions", requireAuth, listPromotions);
+router.post("/api/promotions", requireAuth, createPromotion);
+router.patch("/api/promotions/:id", requireAuth, updatePromotion);
+router.delete("/api/promotions/:id", requireAuth, deletePromotion);
+
+export const promotionsRouter = router;
@@ -0,0 +1,109 @@
+import type { InsertPromotionInput, Promotion, UpdatePromotionInput } from "@shared/schema";
+import { db } from "../db";
+import { stationStorage } from "../stations/storage";
+import { categoryKey } from "../taxes/utils";
+import type { DiscountSpec } from "../payments/utils";
+import { promotionStorage, type PromotionValues } from "./storage";
+import { normalizeCode, promotionUnavailableReason, toPromotionSpec } from "./utils";
+import { PromotionConflictError, PromotionNotFoundError, PromotionValidationError } from "./errors";
+
+class PromotionService {
+  async listPromotions(userId: string): Promise<Promotion[]> {
+    return promotionStorage.listPromotions(userId);
+  }
+
+  /** Codes are unique per store; a scope must name what it covers, and only the store's own stations. */
+  private async toValues(userId: string, input: InsertPromotionInput, promotionId?: string): Promise<PromotionValues> {
+    const code = normalizeCode(input.code);
+    const existing = await promotionStorage.getPromotionByCode(db, userId, code);
+    if (existing && existing.id !== promotionId) {
+      throw new PromotionConflictError(`Promotion code ${code} already exists`);
+    }
+
+    if (input.kind === "percent" && input.value > 1) {
+      throw new PromotionValidationError("Percent promotions are a fraction up to 1");
+    }
+
+    const startsAt = input.startsAt ? new Date(input.startsAt) : null;
+    const endsAt = input.endsAt ? new Date(input.endsAt) : null;
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw new PromotionValidationError("Promotion must end after it starts");
+    }
+
+    const categories = new Map<string, string>();
+    if (input.scope === "categories") {
+      for (const category of input.categories) {
+        const key = categoryKey(category);
+        if (!categories.has(key)) categories.set(key, category.trim());
+      }
+      if (categories.size === 0) throw new PromotionValidationError("Choose at least one category");
+    }
+
+    const stationIds = input.scope === "stations" ? Array.from(new Set(input.stationIds)) : [];
+    if (input.scope === "stations") {
+      if (stationIds.length === 0) throw new PromotionValidationError("Choose at least one station");
+      const stations = await stationStorage.listStations(userId);
+      if (stationIds.some((id) => !stations.some((station) => station.id === id))) {
+        throw new PromotionValidationError("Station not found");
+      }
+    }
+
+    return {
+      code,
+      name: input.name,
+      kind: input.kind,
+      value: input.value.toFixed(4),
+      scope: input.scope,
+      categories: Array.from(categories.values()),
+      stationIds,
+      startsAt,
+      endsAt,
+      maxUses: input.maxUses ?? null,
+      isEnabled: input.isEnabled,
+    };
+  }
+
+  async createPromotion(userId: string, input: InsertPromotionInput): Promise<Promotion> {
+    const values = await this.toValues(userId, input);
+    return promotionStorage.createPromotion(userId, values);
+  }
+
+  async updatePromotion(userId: string, id: string, patch: UpdatePromotionInput): Promise<Promotion> {
+    const existing = await promotionStorage.getPromotion(userId, id);
+    if (!existing) throw new PromotionNotFoundError("Promotion not found");
+
+    const merged: InsertPromotionInput = {
+      code: patch.code ?? existing.code,
+      name: patch.name ?? existing.name,
+      kind: patch.kind ?? existing.kind,
+      value: patch.value ?? Number(existing.value),
+      scope: patch.scope ?? existing.scope,
+      categories: patch.categories ?? existing.categories,
+      stationIds: patch.stationIds ?? existing.stationIds,
+      startsAt: patch.startsAt !== undefined ? patch.startsAt : existing.startsAt?.toISOString() ?? null,
+      endsAt: patch.endsAt !== undefined ? patch.endsAt : existing.endsAt?.toISOString() ?? null,
+      maxUses: patch.maxUses !== undefined ? patch.maxUses : existing.maxUses,
+      isEnabled: patch.isEnabled ?? existing.isEnabled,
+    };
+
+    const updated = await promotionStorage.updatePromotion(userId, id, await this.toValues(userId, merged, id));
+    if (!updated) throw new PromotionNotFoundError("Promotion not found");
+    return updated;
+  }
+
+  async deletePromotion(userId: string, id: string): Promise<void> {
+    const ok = await promotionStorage.deletePromotion(userId, id);
+    if (!ok) throw new PromotionNotFoundError("Promotion not found");
+  }
+
+  /** The discount a code gives at `at`. The usage limit is claimed again when the session closes. */
+  async resolveCode(userId: string, code: string, at: Date): Promise<DiscountSpec> {
+    const promotion = await promotionStorage.getPromotionByCode(db, userId, normalizeCode(code));
+    if (!promotion) throw new PromotionNotFoundError("Promotion code not found");
+    const reason = promotionUnavailableReason(promotion, at);
+    if (reason) throw new PromotionValidationError(reason);
+    return toPromotionSpec(promotion);
+  }
+}
+
+export const promotionService = new PromotionService();
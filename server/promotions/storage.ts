@@ -0,0 +1,93 @@
+import { promotions, type Promotion } from "@shared/schema";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, asc, eq, isNull, lt, or, sql } from "drizzle-orm";
+
+export type PromotionValues = Pick<
+  Promotion,
+  "code" | "name" | "kind" | "value" | "scope" | "categories" | "stationIds" | "startsAt" | "endsAt" | "maxUses" | "isEnabled"
+>;
+
+class PromotionStorage {
+  async listPromotions(userId: string): Promise<Promotion[]> {
+    return db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.userId, userId))
+      .orderBy(asc(promotions.createdAt));
+  }
+
+  async getPromotion(userId: string, id: string): Promise<Promotion | undefined> {
+    const [row] = await db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.userId, userId), eq(promotions.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** `code` must already be normalized. */
+  async getPromotionByCode(executor: DbExecutor, userId: string, code: string): Promise<Promotion | undefined> {
+    const [row] = await executor
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.userId, userId), eq(promotions.code, code)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createPromotion(userId: string, values: PromotionValues): Promise<Promotion> {
+    const [row] = await db
+      .insert(promotions)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updatePromotion(userId: string, id: string, values: PromotionValues): Promise<Promotion | undefined> {
+    const [row] = await db
+      .update(promotions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(promotions.userId, userId), eq(promotions.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deletePromotion(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(promotions)
+      .where(and(eq(promotions.userId, userId), eq(promotions.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  /** Count a checkout against the usage limit; false when the limit was already reached. */
+  async claimUse(tx: DbTransaction, userId: string, id: string): Promise<boolean> {
+    const rows = await tx
+      .update(promotions)
+      .set({ usesCount: sql`${promotions.usesCount} + 1`, updatedAt: new Date() })
+      .where(
+        and(
+          eq(promotions.userId, userId),
+          eq(promotions.id, id),
+          or(isNull(promotions.maxUses), lt(promotions.usesCount, promotions.maxUses)),
+        ),
+      )
+      .returning({ id: promotions.id });
+    return rows.length > 0;
+  }
+
+  /** Give back a use when the checkout that claimed it is removed. */
+  async releaseUse(tx: DbTransaction, userId: string, id: string): Promise<void> {
+    await tx
+      .update(promotions)
+      .set({ usesCount: sql`greatest(${promotions.usesCount} - 1, 0)`, updatedAt: new Date() })
+      .where(and(eq(promotions.userId, userId), eq(promotions.id, id)));
+  }
+}
+
+export const promotionStorage = new PromotionStorage();
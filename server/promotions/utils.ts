@@ -0,0 +1,87 @@
+import type { ManualDiscountInput, Promotion } from "@shared/schema";
+import type { DiscountInput, DiscountSpec } from "../payments/utils";
+import { categoryKey } from "../taxes/utils";
+
+/** The bill lines a discount's scope is worked out against. */
+export type DiscountTargets = {
+  segments: Array<{ stationId: string; amount: number }>;
+  items: Array<{ lineId: string; category: string | null }>;
+};
+
+/** Codes are matched without regard to case. */
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Why a promotion cannot be used at `at`, or null when it can. */
+export function promotionUnavailableReason(promotion: Promotion, at: Date): string | null {
+  if (!promotion.isEnabled) return "Promotion is not active";
+  if (promotion.startsAt && at < promotion.startsAt) return "Promotion has not started";
+  if (promotion.endsAt && at >= promotion.endsAt) return "Promotion has ended";
+  if (promotion.maxUses !== null && promotion.usesCount >= promotion.maxUses) return "Promotion usage limit reached";
+  return null;
+}
+
+export function toPromotionSpec(promotion: Promotion): DiscountSpec {
+  return {
+    source: "promotion",
+    promotionId: promotion.id,
+    code: promotion.code,
+    name: promotion.name,
+    reasonCode: null,
+    note: null,
+    kind: promotion.kind,
+    value: Number(promotion.value),
+    scope: promotion.scope,
+    categories: promotion.categories,
+    stationIds: promotion.stationIds,
+  };
+}
+
+export function toManualSpec(input: ManualDiscountInput): DiscountSpec {
+  return {
+    source: "manual",
+    promotionId: null,
+    code: null,
+    name: "Manual discount",
+    reasonCode: input.reasonCode,
+    note: input.note || null,
+    kind: input.kind,
+    value: input.value,
+    scope: input.scope,
+    categories: [],
+    stationIds: [],
+  };
+}
+
+/**
+ * Narrow a discount to the lines its scope covers. A station scope covers those stations' share of
+ * metered table time, since time is discounted as one line.
+ */
+export function resolveDiscount(spec: DiscountSpec, targets: DiscountTargets): DiscountInput {
+  const allItems = targets.items.map((item) => item.lineId);
+
+  switch (spec.scope) {
+    case "time":
+      return { ...spec, timeShare: 1, itemLineIds: [] };
+    case "items":
+      return { ...spec, timeShare: 0, itemLineIds: allItems };
+    case "categories": {
+      const keys = new Set(spec.categories.map(categoryKey));
+      const itemLineIds = targets.items
+        .filter((item) => item.category !== null && keys.has(categoryKey(item.category)))
+        .map((item) => item.lineId);
+      return { ...spec, timeShare: 0, itemLineIds };
+    }
+    case "stations": {
+      const stationIds = new Set(spec.stationIds);
+      const metered = targets.segments.reduce((sum, segment) => sum + segment.amount, 0);
+      const covered = targets.segments
+        .filter((segment) => stationIds.has(segment.stationId))
+        .reduce((sum, segment) => sum + segment.amount, 0);
+      return { ...spec, timeShare: metered > 0 ? covered / metered : 0, itemLineIds: [] };
+    }
+    default:
+      return { ...spec, timeShare: 1, itemLineIds: allItems };
+  }
+}
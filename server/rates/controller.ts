@@ -0,0 +1,54 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { insertRateScheduleSchema, updateRateScheduleSchema } from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { rateScheduleService } from "./service";
+
+export async function listRateSchedules(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await rateScheduleService.listSchedules(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createRateSchedule(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertRateScheduleSchema.parse(req.body);
+    const created = await rateScheduleService.createSchedule(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateRateSchedule(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateRateScheduleSchema.parse(req.body);
+    const updated = await rateScheduleService.updateSchedule(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteRateSchedule(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await rateScheduleService.deleteSchedule(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
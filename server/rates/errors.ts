@@ -0,0 +1,19 @@
+export class RateScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class RateScheduleNotFoundError extends RateScheduleError {}
+export class RateScheduleValidationError extends RateScheduleError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof RateScheduleNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof RateScheduleValidationError) {
+    return { status: 400, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  createRateSchedule,
+  deleteRateSchedule,
+  listRateSchedules,
+  updateRateSchedule,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/rate-schedules", requireAuth, listRateSchedules);
+router.post("/api/rate-schedules", requireAuth, createRateSchedule);
+router.patch("/api/rate-schedules/:id", requireAuth, updateRateSchedule);
+router.delete("/api/rate-schedules/:id", requireAuth, deleteRateSchedule);
+
+export const ratesRouter = router;
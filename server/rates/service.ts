@@ -0,0 +1,72 @@
+import type { InsertRateScheduleInput, RateSchedule, UpdateRateScheduleInput } from "@shared/schema";
+import { rateScheduleStorage, type RateScheduleValues } from "./storage";
+import { stationStorage } from "../stations/storage";
+import { RateScheduleNotFoundError, RateScheduleValidationError } from "./errors";
+
+class RateScheduleService {
+  private async toValues(userId: string, input: InsertRateScheduleInput): Promise<RateScheduleValues> {
+    const stationId = input.stationId ?? null;
+    const stationType = stationId ? null : input.stationType ?? null;
+    if (!stationId && !stationType) {
+      throw new RateScheduleValidationError("Choose a station or a station type");
+    }
+    if (stationId && !(await stationStorage.getStation(userId, stationId))) {
+      throw new RateScheduleValidationError("Station not found");
+    }
+    if (input.startMinute === input.endMinute % 1440) {
+      throw new RateScheduleValidationError("Start and end times must differ");
+    }
+
+    return {
+      name: input.name,
+      stationId,
+      stationType,
+      daysOfWeek: Array.from(new Set(input.daysOfWeek)).sort((a, b) => a - b),
+      startMinute: input.startMinute,
+      endMinute: input.endMinute,
+      rateSoloHourly: input.rateSoloHourly.toFixed(2),
+      rateGroupHourly: input.rateGroupHourly.toFixed(2),
+      priority: input.priority,
+      isEnabled: input.isEnabled,
+    };
+  }
+
+  async listSchedules(userId: string): Promise<RateSchedule[]> {
+    return rateScheduleStorage.listSchedules(userId);
+  }
+
+  async createSchedule(userId: string, input: InsertRateScheduleInput): Promise<RateSchedule> {
+    const values = await this.toValues(userId, input);
+    return rateScheduleStorage.createSchedule(userId, values);
+  }
+
+  async updateSchedule(userId: string, id: string, patch: UpdateRateScheduleInput): Promise<RateSchedule> {
+    const existing = await rateScheduleStorage.getSchedule(userId, id);
+    if (!existing) throw new RateScheduleNotFoundError("Rate schedule not found");
+
+    const targetChanged = patch.stationId !== undefined || patch.stationType !== undefined;
+    const merged: InsertRateScheduleInput = {
+      name: patch.name ?? existing.name,
+      stationId: targetChanged ? patch.stationId ?? null : existing.stationId,
+      stationType: targetChanged ? patch.stationType ?? null : existing.stationType,
+      daysOfWeek: patch.daysOfWeek ?? existing.daysOfWeek,
+      startMinute: patch.startMinute ?? existing.startMinute,
+      endMinute: patch.endMinute ?? existing.endMinute,
+      rateSoloHourly: patch.rateSoloHourly ?? Number(existing.rateSoloHourly),
+      rateGroupHourly: patch.rateGroupHourly ?? Number(existing.rateGroupHourly),
+      priority: patch.priority ?? existing.priority,
+      isEnabled: patch.isEnabled ?? existing.isEnabled,
+    };
+
+    const updated = await rateScheduleStorage.updateSchedule(userId, id, await this.toValues(userId, merged));
+    if (!updated) throw new RateScheduleNotFoundError("Rate schedule not found");
+    return updated;
+  }
+
+  async deleteSchedule(userId: string, id: string): Promise<void> {
+    const ok = await rateScheduleStorage.deleteSchedule(userId, id);
+    if (!ok) throw new RateScheduleNotFoundError("Rate schedule not found");
+  }
+}
+
+export const rateScheduleService = new RateScheduleService();
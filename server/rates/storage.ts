@@ -0,0 +1,89 @@
+import { rateSchedules, type RateSchedule } from "@shared/schema";
+import { db, type DbExecutor } from "../db";
+import { and, asc, desc, eq, isNull, or } from "drizzle-orm";
+
+export type RateScheduleValues = {
+  name: string;
+  stationId: string | null;
+  stationType: string | null;
+  daysOfWeek: number[];
+  startMinute: number;
+  endMinute: number;
+  rateSoloHourly: string;
+  rateGroupHourly: string;
+  priority: number;
+  isEnabled: boolean;
+};
+
+class RateScheduleStorage {
+  async listSchedules(userId: string): Promise<RateSchedule[]> {
+    return db
+      .select()
+      .from(rateSchedules)
+      .where(eq(rateSchedules.userId, userId))
+      .orderBy(desc(rateSchedules.priority), asc(rateSchedules.createdAt));
+  }
+
+  async getSchedule(userId: string, id: string): Promise<RateSchedule | undefined> {
+    const [row] = await db
+      .select()
+      .from(rateSchedules)
+      .where(and(eq(rateSchedules.userId, userId), eq(rateSchedules.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** Enabled schedules that can apply to a station, either directly or through its type. */
+  async listApplicableSchedules(
+    executor: DbExecutor,
+    userId: string,
+    station: { id: string; stationType: string },
+  ): Promise<RateSchedule[]> {
+    return executor
+      .select()
+      .from(rateSchedules)
+      .where(
+        and(
+          eq(rateSchedules.userId, userId),
+          eq(rateSchedules.isEnabled, true),
+          or(
+            eq(rateSchedules.stationId, station.id),
+            and(isNull(rateSchedules.stationId), eq(rateSchedules.stationType, station.stationType)),
+          ),
+        ),
+      )
+      .orderBy(desc(rateSchedules.priority), asc(rateSchedules.createdAt));
+  }
+
+  async createSchedule(userId: string, values: RateScheduleValues): Promise<RateSchedule> {
+    const [row] = await db
+      .insert(rateSchedules)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateSchedule(userId: string, id: string, values: RateScheduleValues): Promise<RateSchedule | undefined> {
+    const [row] = await db
+      .update(rateSchedules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(rateSchedules.userId, userId), eq(rateSchedules.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteSchedule(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(rateSchedules)
+      .where(and(eq(rateSchedules.userId, userId), eq(rateSchedules.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+}
+
+export const rateScheduleStorage = new RateScheduleStorage();
@@ -0,0 +1,137 @@
+import type { RateSchedule } from "@shared/schema";
+
+export type RateWindow = {
+  startedAt: Date;
+  endedAt: Date;
+  schedule: RateSchedule | null;
+};
+
+type LocalTime = { dayOfWeek: number; minuteOfDay: number };
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MINUTE_MS = 60_000;
+/** Stop splitting after two weeks of minutes; anything longer stays in the last window. */
+const MAX_STEPS = 14 * 24 * 60;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function getLocalTime(date: Date, timeZone: string): LocalTime {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    dayOfWeek: Math.max(0, WEEKDAYS.indexOf(get("weekday"))),
+    minuteOfDay: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/** When the local day holding `date` began in `timeZone`, to the minute. */
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+  const minute = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  let start = minute - getLocalTime(date, timeZone).minuteOfDay * MINUTE_MS;
+  // A clock change during the day leaves the guess an hour out; move it onto local midnight.
+  const drift = getLocalTime(new Date(start), timeZone).minuteOfDay;
+  if (drift !== 0) start -= (drift >= 12 * 60 ? drift - 24 * 60 : drift) * MINUTE_MS;
+  return new Date(start);
+}
+
+export function scheduleCovers(schedule: RateSchedule, at: LocalTime): boolean {
+  const { startMinute, endMinute, daysOfWeek } = schedule;
+  if (startMinute < endMinute) {
+    return daysOfWeek.includes(at.dayOfWeek) && at.minuteOfDay >= startMinute && at.minuteOfDay < endMinute;
+  }
+  // Overnight window: the late part runs on a listed day, the early part on the day after.
+  const previousDay = (at.dayOfWeek + 6) % 7;
+  return (
+    (daysOfWeek.includes(at.dayOfWeek) && at.minuteOfDay >= startMinute) ||
+    (daysOfWeek.includes(previousDay) && at.minuteOfDay < endMinute)
+  );
+}
+
+/** Station-specific schedules beat station-type ones; then higher priority, then the oldest. */
+export function resolveSchedule(schedules: RateSchedule[], stationId: string, at: LocalTime): RateSchedule | null {
+  let best: RateSchedule | null = null;
+  for (const schedule of schedules) {
+    if (!scheduleCovers(schedule, at)) continue;
+    if (!best) {
+      best = schedule;
+      continue;
+    }
+    const specific = schedule.stationId === stationId ? 1 : 0;
+    const bestSpecific = best.stationId === stationId ? 1 : 0;
+    if (specific !== bestSpecific) {
+      if (specific > bestSpecific) best = schedule;
+      continue;
+    }
+    if (schedule.priority !== best.priority) {
+      if (schedule.priority > best.priority) best = schedule;
+      continue;
+    }
+    if (schedule.createdAt < best.createdAt) best = schedule;
+  }
+  return best;
+}
+
+/** Cut [startedAt, endedAt) wherever the applicable schedule changes, checking at each local minute. */
+export function splitByRateWindows(params: {
+  startedAt: Date;
+  endedAt: Date;
+  stationId: string;
+  schedules: RateSchedule[];
+  timeZone: string;
+}): RateWindow[] {
+  const { startedAt, endedAt, stationId, schedules, timeZone } = params;
+  if (schedules.length === 0 || endedAt.getTime() <= startedAt.getTime()) {
+    return [{ startedAt, endedAt, schedule: null }];
+  }
+
+  const windows: RateWindow[] = [];
+  let windowStart = startedAt;
+  let current = resolveSchedule(schedules, stationId, getLocalTime(startedAt, timeZone));
+  let cursor = Math.floor(startedAt.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  for (let step = 0; cursor < endedAt.getTime() && step < MAX_STEPS; step += 1, cursor += MINUTE_MS) {
+    const next = resolveSchedule(schedules, stationId, getLocalTime(new Date(cursor), timeZone));
+    if ((next?.id ?? null) === (current?.id ?? null)) continue;
+    windows.push({ startedAt: windowStart, endedAt: new Date(cursor), schedule: current });
+    windowStart = new Date(cursor);
+    current = next;
+  }
+
+  windows.push({ startedAt: windowStart, endedAt, schedule: current });
+  return windows;
+}
+
+/** Split an integer total across weights, keeping the sum exact (largest remainder). */
+export function allocateProportionally(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) return [];
+  if (weightSum <= 0) return weights.map((_, index) => (index === 0 ? total : 0));
+
+  const exact = weights.map((weight) => (total * weight) / weightSum);
+  const result = exact.map(Math.floor);
+  let leftover = total - result.reduce((sum, value) => sum + value, 0);
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of order) {
+    if (leftover <= 0) break;
+    result[index] += 1;
+    leftover -= 1;
+  }
+  return result;
+}
@@ -0,0 +1,60 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertReservationSchema,
+  listReservationsQuerySchema,
+  updateReservationSchema,
+} from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { reservationService } from "./service";
+
+export async function listReservations(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const query = listReservationsQuerySchema.parse(req.query);
+    const data = await reservationService.listReservations(uid, query);
+    res.json(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createReservation(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertReservationSchema.parse(req.body);
+    const created = await reservationService.createReservation(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateReservation(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateReservationSchema.parse(req.body);
+    const updated = await reservationService.updateReservation(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteReservation(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await reservationService.deleteReservation(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,23 @@
+export class ReservationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ReservationNotFoundError extends ReservationError {}
+export class ReservationValidationError extends ReservationError {}
+export class ReservationConflictError extends ReservationError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof ReservationNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof ReservationValidationError) {
+    return { status: 400, message: err.message };
+  }
+  if (err instanceof ReservationConflictError) {
+    return { status: 409, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  createReservation,
+  deleteReservation,
+  listReservations,
+  updateReservation,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/reservations", requireAuth, listReservations);
+router.post("/api/reservations", requireAuth, createReservation);
+router.patch("/api/reservations/:id", requireAuth, updateReservation);
+router.delete("/api/reservations/:id", requireAuth, deleteReservation);
+
+export const reservationsRouter = router;
@@ -0,0 +1,130 @@
+import type {
+  InsertReservationInput,
+  Reservation,
+  ReservationStatus,
+  UpdateReservationInput,
+} from "@shared/schema";
+import { reservationStorage, type ReservationValues } from "./storage";
+import { stationStorage } from "../stations/storage";
+import { settingsStorage } from "../settings/storage";
+import { startOfLocalDay } from "../rates/utils";
+import {
+  ReservationConflictError,
+  ReservationNotFoundError,
+  ReservationValidationError,
+} from "./errors";
+
+const DEFAULT_WINDOW_MS = 2 * 24 * 3600 * 1000;
+
+class ReservationService {
+  private async toValues(userId: string, input: InsertReservationInput): Promise<ReservationValues> {
+    const stationId = input.stationId ?? null;
+    const stationType = stationId ? null : input.stationType ?? null;
+    if (!stationId && !stationType) {
+      throw new ReservationValidationError("Choose a station or a station type");
+    }
+    if (stationId && !(await stationStorage.getStation(userId, stationId))) {
+      throw new ReservationValidationError("Station not found");
+    }
+
+    const startsAt = new Date(input.startsAt);
+    const endsAt = new Date(input.endsAt);
+    if (endsAt.getTime() <= startsAt.getTime()) {
+      throw new ReservationValidationError("Reservation must end after it starts");
+    }
+
+    return {
+      customerName: input.customerName,
+      customerPhone: input.customerPhone || null,
+      stationId,
+      stationType,
+      startsAt,
+      endsAt,
+      partySize: input.partySize,
+      notes: input.notes || null,
+    };
+  }
+
+  /**
+   * A station can hold one booking at a time, and bookings for a station type
+   * (plus bookings for specific stations of that type) cannot outnumber its enabled stations.
+   */
+  private async assertAvailable(userId: string, values: ReservationValues, excludeId?: string): Promise<void> {
+    const overlapping = await reservationStorage.listOverlappingBooked(userId, values.startsAt, values.endsAt, excludeId);
+
+    let stationType = values.stationType;
+    if (values.stationId) {
+      if (overlapping.some((reservation) => reservation.stationId === values.stationId)) {
+        throw new ReservationConflictError("Station is already reserved for that time");
+      }
+      const station = await stationStorage.getStation(userId, values.stationId);
+      stationType = station?.stationType ?? null;
+    }
+    if (!stationType) return;
+
+    const stations = await stationStorage.listStations(userId);
+    const capacity = stations.filter((station) => station.isEnabled && station.stationType === stationType).length;
+    const competing = overlapping.filter((reservation) => reservation.resolvedStationType === stationType);
+    if (competing.length + 1 > capacity) {
+      throw new ReservationConflictError(`No ${stationType} stations are free for that time`);
+    }
+  }
+
+  private async getTimeZone(userId: string): Promise<string> {
+    const user = await settingsStorage.getUserById(userId);
+    return user?.timeZone ?? "UTC";
+  }
+
+  async listReservations(
+    userId: string,
+    query: { from?: string; to?: string; status?: ReservationStatus },
+  ): Promise<Reservation[]> {
+    // By default, list from the start of today in the store's time zone.
+    const from = query.from ? new Date(query.from) : startOfLocalDay(new Date(), await this.getTimeZone(userId));
+    const to = query.to ? new Date(query.to) : new Date(from.getTime() + DEFAULT_WINDOW_MS);
+    if (to.getTime() <= from.getTime()) {
+      throw new ReservationValidationError("'to' must be after 'from'");
+    }
+    return reservationStorage.listReservations(userId, { from, to, status: query.status });
+  }
+
+  async createReservation(userId: string, input: InsertReservationInput): Promise<Reservation> {
+    const values = await this.toValues(userId, input);
+    await this.assertAvailable(userId, values);
+    return reservationStorage.createReservation(userId, values);
+  }
+
+  async updateReservation(userId: string, id: string, patch: UpdateReservationInput): Promise<Reservation> {
+    const existing = await reservationStorage.getReservation(userId, id);
+    if (!existing) throw new ReservationNotFoundError("Reservation not found");
+    if (existing.status === "seated") {
+      throw new ReservationValidationError("Seated reservations cannot be changed");
+    }
+
+    const targetChanged = patch.stationId !== undefined || patch.stationType !== undefined;
+    const merged: InsertReservationInput = {
+      customerName: patch.customerName ?? existing.customerName,
+      customerPhone: patch.customerPhone !== undefined ? patch.customerPhone : existing.customerPhone,
+      stationId: targetChanged ? patch.stationId ?? null : existing.stationId,
+      stationType: targetChanged ? patch.stationType ?? null : existing.stationType,
+      startsAt: patch.startsAt ?? existing.startsAt.toISOString(),
+      endsAt: patch.endsAt ?? existing.endsAt.toISOString(),
+      partySize: patch.partySize ?? existing.partySize,
+      notes: patch.notes !== undefined ? patch.notes : existing.notes,
+    };
+    const values = await this.toValues(userId, merged);
+    const status = patch.status ?? existing.status;
+    if (status === "booked") await this.assertAvailable(userId, values, id);
+
+    const updated = await reservationStorage.updateReservation(userId, id, { ...values, status });
+    if (!updated) throw new ReservationNotFoundError("Reservation not found");
+    return updated;
+  }
+
+  async deleteReservation(userId: string, id: string): Promise<void> {
+    const ok = await reservationStorage.deleteReservation(userId, id);
+    if (!ok) throw new ReservationNotFoundError("Reservation not found");
+  }
+}
+
+export const reservationService = new ReservationService();
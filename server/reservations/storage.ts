@@ -0,0 +1,120 @@
+import { reservations, stations, type Reservation, type ReservationStatus } from "@shared/schema";
+import { db, type DbExecutor } from "../db";
+import { and, asc, eq, gt, lt, ne, sql } from "drizzle-orm";
+
+export type ReservationValues = {
+  customerName: string;
+  customerPhone: string | null;
+  stationId: string | null;
+  stationType: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  partySize: number;
+  notes: string | null;
+};
+
+/** A booked reservation overlapping a window, with the station type it competes for. */
+export type OverlappingReservation = Reservation & { resolvedStationType: string | null };
+
+class ReservationStorage {
+  /** Reservations overlapping [from, to), soonest first. */
+  async listReservations(
+    userId: string,
+    window: { from: Date; to: Date; status?: ReservationStatus },
+  ): Promise<Reservation[]> {
+    const conditions = [
+      eq(reservations.userId, userId),
+      lt(reservations.startsAt, window.to),
+      gt(reservations.endsAt, window.from),
+    ];
+    if (window.status) conditions.push(eq(reservations.status, window.status));
+
+    return db
+      .select()
+      .from(reservations)
+      .where(and(...conditions))
+      .orderBy(asc(reservations.startsAt), asc(reservations.createdAt));
+  }
+
+  async getReservation(userId: string, id: string): Promise<Reservation | undefined> {
+    const [row] = await db
+      .select()
+      .from(reservations)
+      .where(and(eq(reservations.userId, userId), eq(reservations.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async listOverlappingBooked(
+    userId: string,
+    startsAt: Date,
+    endsAt: Date,
+    excludeId?: string,
+  ): Promise<OverlappingReservation[]> {
+    const conditions = [
+      eq(reservations.userId, userId),
+      eq(reservations.status, "booked"),
+      lt(reservations.startsAt, endsAt),
+      gt(reservations.endsAt, startsAt),
+    ];
+    if (excludeId) conditions.push(ne(reservations.id, excludeId));
+
+    const rows = await db
+      .select({
+        reservation: reservations,
+        resolvedStationType: sql<string | null>`coalesce(${stations.stationType}, ${reservations.stationType})`,
+      })
+      .from(reservations)
+      .leftJoin(stations, eq(stations.id, reservations.stationId))
+      .where(and(...conditions));
+
+    return rows.map((row) => ({ ...row.reservation, resolvedStationType: row.resolvedStationType }));
+  }
+
+  async createReservation(userId: string, values: ReservationValues): Promise<Reservation> {
+    const [row] = await db
+      .insert(reservations)
+      .values({
+        userId,
+        ...values,
+        status: "booked",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateReservation(
+    userId: string,
+    id: string,
+    values: ReservationValues & { status: ReservationStatus },
+  ): Promise<Reservation | undefined> {
+    const [row] = await db
+      .update(reservations)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(reservations.userId, userId), eq(reservations.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  /** Link a booked reservation to the session that seated it. Returns undefined if it was no longer booked. */
+  async markSeated(executor: DbExecutor, userId: string, id: string, sessionId: string): Promise<Reservation | undefined> {
+    const [row] = await executor
+      .update(reservations)
+      .set({ status: "seated", sessionId, updatedAt: new Date() })
+      .where(and(eq(reservations.userId, userId), eq(reservations.id, id), eq(reservations.status, "booked")))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteReservation(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(reservations)
+      .where(and(eq(reservations.userId, userId), eq(reservations.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+}
+
+export const reservationStorage = new ReservationStorage();
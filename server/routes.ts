@@ -6,6 +6,16 @@ import { customersRouter } from "./customers/route";
 import { settingsRouter } from "./settings/route";
 import { menuRouter } from "./menu/route";
 import { cloverRouter } from "./clover/route";
+import { ratesRouter } from "./rates/route";
+import { reservationsRouter } from "./reservations/route";
+import { waitlistRouter } from "./waitlist/route";
+import { paymentsRouter } from "./payments/route";
+import { taxesRouter } from "./taxes/route";
+import { promotionsRouter } from "./promotions/route";
+import { loyaltyRouter } from "./loyalty/route";
+import { giftCardsRouter } from "./giftcards/route";
+import { vouchersRouter } from "./vouchers/route";
+import { membershipsRouter } from "./memberships/route";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.use(sessionsRouter);
@@ -14,6 +24,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(settingsRouter);
   app.use(menuRouter);
   app.use(cloverRouter);
+  app.use(ratesRouter);
+  app.use(reservationsRouter);
+  app.use(waitlistRouter);
+  app.use(paymentsRouter);
+  app.use(taxesRouter);
+  app.use(promotionsRouter);
+  app.use(loyaltyRouter);
+  app.use(giftCardsRouter);
+  app.use(vouchersRouter);
+  app.use(membershipsRouter);
 
   return createServer(app);
 }
@@ -0,0 +1,581 @@
+import type { RateSchedule, Session, SessionItem, SessionTimeSegment } from "@shared/schema";
+import {
+  computeBillableSeconds,
+  playerRateMultiplier,
+  type BillingRule,
+  type PlayerBillingMode,
+} from "@shared/billing";
+import { roundMoney, type SplitLine } from "../payments/utils";
+import { allocateProportionally, splitByRateWindows } from "../rates/utils";
+
+export type PricingTier = "solo" | "group";
+
+export type BillingStation = {
+  id: string;
+  name: string;
+  stationType: string;
+  rateSoloHourly: string | number;
+  rateGroupHourly: string | number;
+  playerBillingMode: PlayerBillingMode;
+} & BillingRule;
+
+/** A station's own named tier, sold at a flat hourly rate in place of solo or group. */
+export type StationRateTier = {
+  id: string;
+  stationId: string;
+  name: string;
+  rateHourly: number;
+  /** Disabled tiers cannot be picked for new play but still price sessions already on them. */
+  isEnabled: boolean;
+};
+
+/** The tier a stretch is sold at: a station tier when stationRateId is set, otherwise solo or group. */
+export type TierChoice = {
+  pricingTier: PricingTier;
+  stationRateId: string | null;
+};
+
+export type BillingOverrides = {
+  pricingTier?: PricingTier;
+  stationRateId?: string | null;
+  currentSegmentPricingTier?: PricingTier;
+  currentSegmentStationRateId?: string | null;
+  segmentTierOverrides?: Array<{ segmentId: string; pricingTier: PricingTier; stationRateId?: string | null }>;
+};
+
+export interface BillSegmentLine {
+  /** Persisted segment id, or null for the still-open current segment. */
+  segmentId: string | null;
+  stationId: string;
+  stationName: string;
+  stationType: string;
+  startedAt: Date;
+  endedAt: Date;
+  effectiveSeconds: number;
+  /** Seconds actually charged after the station's billing rule. */
+  billableSeconds: number;
+  billingRule: BillingRule;
+  pricingTier: PricingTier;
+  stationRateId: string | null;
+  stationRateName: string | null;
+  rateSoloHourly: number;
+  rateGroupHourly: number;
+  rateHourlyApplied: number;
+  /** The rate schedule window this line was priced under, or null for the station's base rates. */
+  rateScheduleId: string | null;
+  rateScheduleName: string | null;
+  timeAmount: number;
+  /** Players tracked during the line; null when none were. */
+  playerCount: number | null;
+  /** The tier rate was charged once per player. */
+  billedPerPlayer: boolean;
+}
+
+export interface BillItemLine {
+  id: string;
+  menuItemId: string | null;
+  name: string;
+  unitPrice: number;
+  qty: number;
+  lineTotal: number;
+}
+
+/**
+ * Time bought up front. The prepaid amount covers the first `prepaidSeconds` of play;
+ * anything past that is overtime at the normal metered rate.
+ */
+export interface BillPrepaid {
+  prepaidSeconds: number;
+  prepaidAmount: number;
+  overtimeSeconds: number;
+  overtimeAmount: number;
+}
+
+export interface SessionBill {
+  closedAt: Date;
+  totalPausedSeconds: number;
+  currentPricingTier: PricingTier;
+  currentStationRateId: string | null;
+  segments: BillSegmentLine[];
+  /** The open stretch, one line per rate window. */
+  currentSegments: BillSegmentLine[];
+  items: BillItemLine[];
+  effectiveSeconds: number;
+  billableSeconds: number;
+  /** Metered charge of every line, before any prepaid time is taken into account. */
+  meteredTimeSubtotal: number;
+  /** What the time is sold for: the metered charge, or the prepaid amount plus overtime. */
+  timeSubtotal: number;
+  prepaid: BillPrepaid | null;
+  itemsSubtotal: number;
+  subtotal: number;
+}
+
+export function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function getAppliedRate(
+  pricingTier: PricingTier,
+  rateSoloHourly: string | number | null | undefined,
+  rateGroupHourly: string | number | null | undefined,
+): number {
+  return pricingTier === "solo" ? toNumber(rateSoloHourly) : toNumber(rateGroupHourly);
+}
+
+/**
+ * Apply a request's tier to a stretch. Naming either field replaces the stored choice, so
+ * picking solo or group on its own drops a station tier; naming neither keeps what was stored.
+ */
+export function chooseTier(stored: TierChoice, pricingTier?: PricingTier, stationRateId?: string | null): TierChoice {
+  if (pricingTier === undefined && stationRateId === undefined) return stored;
+  return { pricingTier: pricingTier ?? stored.pricingTier, stationRateId: stationRateId ?? null };
+}
+
+/** The station tier a choice names, which must belong to the station being played. */
+export function findStationRate(
+  tiers: StationRateTier[],
+  choice: TierChoice,
+  stationId: string,
+): StationRateTier | null {
+  if (!choice.stationRateId) return null;
+  const tier = tiers.find((row) => row.id === choice.stationRateId && row.stationId === stationId);
+  if (!tier) throw new Error("Station rate not found");
+  return tier;
+}
+
+export function computeSegmentMetrics(params: {
+  startedAt: Date;
+  endedAt: Date;
+  totalPausedSeconds: number;
+}): { effectiveSeconds: number; timeHours: number } {
+  const grossSeconds = Math.max(0, Math.floor((params.endedAt.getTime() - params.startedAt.getTime()) / 1000));
+  const effectiveSeconds = Math.max(0, grossSeconds - params.totalPausedSeconds);
+  return { effectiveSeconds, timeHours: effectiveSeconds / 3600 };
+}
+
+export function pickBillingRule(source: BillingRule): BillingRule {
+  return {
+    billingIncrementMinutes: source.billingIncrementMinutes,
+    billingRoundingMode: source.billingRoundingMode,
+    minimumBillableMinutes: source.minimumBillableMinutes,
+    graceMinutes: source.graceMinutes,
+  };
+}
+
+/** Play a session has already had at a station: its effective seconds and the billable seconds charged for them. */
+export type BilledPlay = {
+  effectiveSeconds: number;
+  billableSeconds: number;
+};
+
+const NO_PLAY: BilledPlay = { effectiveSeconds: 0, billableSeconds: 0 };
+
+/**
+ * Billable seconds for play that carries on from `before`. The billing rule applies once to all of a
+ * session's play at a station, so each later piece is charged only what it adds to the billable total
+ * rather than its own grace, minimum and round-up.
+ */
+export function continueBillable(before: BilledPlay, effectiveSeconds: number, rule: BillingRule): number {
+  return Math.max(0, computeBillableSeconds(before.effectiveSeconds + effectiveSeconds, rule) - before.billableSeconds);
+}
+
+/** What the session's earlier segments played and billed at a station. */
+export function playedAtStation(
+  lines: Array<Pick<BillSegmentLine, "stationId" | "effectiveSeconds" | "billableSeconds">>,
+  stationId: string,
+): BilledPlay {
+  return lines.reduce(
+    (played, line) =>
+      line.stationId === stationId
+        ? {
+            effectiveSeconds: played.effectiveSeconds + line.effectiveSeconds,
+            billableSeconds: played.billableSeconds + line.billableSeconds,
+          }
+        : played,
+    NO_PLAY,
+  );
+}
+
+export type RatePricing = {
+  schedules: RateSchedule[];
+  timeZone: string;
+};
+
+/**
+ * Price a stretch of play at a station using its current rates and billing rule.
+ * The stretch is cut wherever a rate schedule starts or ends, giving one line per rate window.
+ * Paused seconds are spread over the windows in proportion to their length. The billing rule carries on
+ * from `before`, the play the session already had at the station, so switching tier or headcount does not
+ * charge the minimum or round-up again; each window is billed what it adds. A station tier is one flat rate,
+ * so it is never cut.
+ */
+export function priceStretch(params: {
+  station: BillingStation;
+  startedAt: Date;
+  endedAt: Date;
+  totalPausedSeconds: number;
+  pricingTier: PricingTier;
+  stationRate?: StationRateTier | null;
+  rates?: RatePricing;
+  /** Players on the session during the stretch; 0 when none are tracked. */
+  playerCount?: number;
+  /** Play the session already had at the station before this stretch. */
+  before?: BilledPlay;
+}): BillSegmentLine[] {
+  const { station, pricingTier } = params;
+  const stationRate = params.stationRate ?? null;
+  const playerCount = params.playerCount ?? 0;
+  const multiplier = playerRateMultiplier(station.playerBillingMode, playerCount);
+  const metrics = computeSegmentMetrics(params);
+  const billingRule = pickBillingRule(station);
+
+  const windows = splitByRateWindows({
+    startedAt: params.startedAt,
+    endedAt: params.endedAt,
+    stationId: station.id,
+    schedules: stationRate ? [] : params.rates?.schedules ?? [],
+    timeZone: params.rates?.timeZone ?? "UTC",
+  });
+  const grossByWindow = windows.map((window) =>
+    Math.max(0, Math.floor((window.endedAt.getTime() - window.startedAt.getTime()) / 1000)),
+  );
+  const effectiveByWindow = allocateProportionally(metrics.effectiveSeconds, grossByWindow);
+  let played = params.before ?? NO_PLAY;
+  const billableByWindow = effectiveByWindow.map((effectiveSeconds) => {
+    const billableSeconds = continueBillable(played, effectiveSeconds, billingRule);
+    played = {
+      effectiveSeconds: played.effectiveSeconds + effectiveSeconds,
+      billableSeconds: played.billableSeconds + billableSeconds,
+    };
+    return billableSeconds;
+  });
+
+  return windows.map((window, index) => {
+    const rateSoloHourly = toNumber(window.schedule?.rateSoloHourly ?? station.rateSoloHourly);
+    const rateGroupHourly = toNumber(window.schedule?.rateGroupHourly ?? station.rateGroupHourly);
+    const tierRate = stationRate
+      ? stationRate.rateHourly
+      : getAppliedRate(pricingTier, rateSoloHourly, rateGroupHourly);
+    const rateHourlyApplied = roundMoney(tierRate * multiplier);
+    const lineBillable = billableByWindow[index];
+
+    return {
+      segmentId: null,
+      stationId: station.id,
+      stationName: station.name,
+      stationType: station.stationType,
+      startedAt: window.startedAt,
+      endedAt: window.endedAt,
+      effectiveSeconds: effectiveByWindow[index],
+      billableSeconds: lineBillable,
+      billingRule,
+      pricingTier,
+      stationRateId: stationRate?.id ?? null,
+      stationRateName: stationRate?.name ?? null,
+      rateSoloHourly,
+      rateGroupHourly,
+      rateHourlyApplied,
+      rateScheduleId: window.schedule?.id ?? null,
+      rateScheduleName: window.schedule?.name ?? null,
+      timeAmount: roundMoney((lineBillable / 3600) * rateHourlyApplied),
+      playerCount: playerCount > 0 ? playerCount : null,
+      billedPerPlayer: station.playerBillingMode === "per_player" && playerCount > 0,
+    };
+  });
+}
+
+/**
+ * The tier after the headcount changes at a "headcount" station: one player plays solo, more play group.
+ * Station tiers are a deliberate choice and stay put; so does everything when no players are tracked.
+ */
+export function tierForHeadcount(current: TierChoice, playerCount: number, mode: PlayerBillingMode): TierChoice {
+  if (mode !== "headcount" || current.stationRateId || playerCount <= 0) return current;
+  return { pricingTier: playerCount === 1 ? "solo" : "group", stationRateId: null };
+}
+
+/** The tier a persisted segment was sold at. */
+export function segmentTier(segment: SessionTimeSegment): TierChoice {
+  return { pricingTier: segment.pricingTier, stationRateId: segment.stationRateId };
+}
+
+/**
+ * Re-price a persisted segment from its own rate and rule snapshots, optionally at a different tier.
+ * Moving to a station tier takes that tier's current rate; solo and group come from the snapshots.
+ */
+export function repriceSegment(
+  segment: SessionTimeSegment,
+  tier: TierChoice = segmentTier(segment),
+  stationRate: StationRateTier | null = null,
+): BillSegmentLine {
+  const { pricingTier } = tier;
+  const rateSoloHourly = toNumber(segment.rateSoloHourlySnapshot);
+  const rateGroupHourly = toNumber(segment.rateGroupHourlySnapshot);
+  // On a station tier solo/group does not affect the rate.
+  const unchanged =
+    tier.stationRateId === segment.stationRateId &&
+    (segment.stationRateId !== null || pricingTier === segment.pricingTier);
+  const multiplier = segment.billedPerPlayer ? Math.max(1, segment.playerCount ?? 1) : 1;
+  const rateHourlyApplied = unchanged
+    ? toNumber(segment.rateHourlyApplied)
+    : roundMoney(
+        (stationRate ? stationRate.rateHourly : getAppliedRate(pricingTier, rateSoloHourly, rateGroupHourly)) *
+          multiplier,
+      );
+
+  return {
+    segmentId: segment.id,
+    stationId: segment.stationId,
+    stationName: segment.stationNameSnapshot,
+    stationType: segment.stationTypeSnapshot,
+    startedAt: segment.startedAt,
+    endedAt: segment.endedAt,
+    effectiveSeconds: segment.effectiveSeconds,
+    billableSeconds: segment.billableSeconds,
+    billingRule: {
+      billingIncrementMinutes: segment.billingIncrementMinutesSnapshot,
+      billingRoundingMode: segment.billingRoundingModeSnapshot,
+      minimumBillableMinutes: segment.minimumBillableMinutesSnapshot,
+      graceMinutes: segment.graceMinutesSnapshot,
+    },
+    pricingTier,
+    stationRateId: unchanged ? segment.stationRateId : stationRate?.id ?? null,
+    stationRateName: unchanged ? segment.stationRateNameSnapshot : stationRate?.name ?? null,
+    rateSoloHourly,
+    rateGroupHourly,
+    rateHourlyApplied,
+    rateScheduleId: segment.rateScheduleId,
+    rateScheduleName: segment.rateScheduleNameSnapshot,
+    timeAmount: unchanged
+      ? toNumber(segment.timeAmount)
+      : roundMoney((Math.max(0, segment.billableSeconds) / 3600) * rateHourlyApplied),
+    playerCount: segment.playerCount,
+    billedPerPlayer: segment.billedPerPlayer,
+  };
+}
+
+/**
+ * Re-price a closed segment after staff corrected its times or tier, keeping its rate and rule snapshots.
+ * Paused time inside the segment is kept. The billing rule is applied to the segment on its own here;
+ * rebillLines then carries it across the rest of the session.
+ */
+export function reviseSegment(
+  segment: SessionTimeSegment,
+  patch: { startedAt?: Date; endedAt?: Date; tier?: TierChoice; stationRate?: StationRateTier | null },
+): BillSegmentLine {
+  const line = repriceSegment(segment, patch.tier ?? segmentTier(segment), patch.stationRate ?? null);
+  const startedAt = patch.startedAt ?? segment.startedAt;
+  const endedAt = patch.endedAt ?? segment.endedAt;
+  if (startedAt.getTime() === segment.startedAt.getTime() && endedAt.getTime() === segment.endedAt.getTime()) {
+    return line;
+  }
+
+  const original = computeSegmentMetrics({ startedAt: segment.startedAt, endedAt: segment.endedAt, totalPausedSeconds: 0 });
+  const pausedSeconds = Math.max(0, original.effectiveSeconds - segment.effectiveSeconds);
+  const { effectiveSeconds } = computeSegmentMetrics({ startedAt, endedAt, totalPausedSeconds: pausedSeconds });
+  const billableSeconds = computeBillableSeconds(effectiveSeconds, line.billingRule);
+  return {
+    ...line,
+    startedAt,
+    endedAt,
+    effectiveSeconds,
+    billableSeconds,
+    timeAmount: roundMoney((billableSeconds / 3600) * line.rateHourlyApplied),
+  };
+}
+
+/**
+ * Bill a session's lines in play order, applying each station's billing rule once across all of the
+ * session's play there, as priceStretch does for its windows. Lines whose billable seconds come out
+ * unchanged keep their charge.
+ */
+export function rebillLines(lines: BillSegmentLine[]): BillSegmentLine[] {
+  const playedByStation = new Map<string, BilledPlay>();
+  return lines.map((line) => {
+    const before = playedByStation.get(line.stationId) ?? NO_PLAY;
+    const billableSeconds = continueBillable(before, line.effectiveSeconds, line.billingRule);
+    playedByStation.set(line.stationId, {
+      effectiveSeconds: before.effectiveSeconds + line.effectiveSeconds,
+      billableSeconds: before.billableSeconds + billableSeconds,
+    });
+    if (billableSeconds === line.billableSeconds) return line;
+    return { ...line, billableSeconds, timeAmount: roundMoney((billableSeconds / 3600) * line.rateHourlyApplied) };
+  });
+}
+
+/**
+ * Walk the lines in play order, letting the prepaid seconds absorb play first.
+ * Each line's overtime share is charged at that line's own rate. Overtime continues the play before it:
+ * it is billed what it adds to the station's billable time past the prepaid play, so the minimum and grace
+ * are not charged again and only the increment rounding reaches past the prepaid length.
+ */
+export function computePrepaid(
+  lines: BillSegmentLine[],
+  prepaidMinutes: number,
+  prepaidAmount: number,
+): BillPrepaid {
+  const prepaidSeconds = prepaidMinutes * 60;
+  let remaining = prepaidSeconds;
+  let overtimeSeconds = 0;
+  let overtimeAmount = 0;
+  const playedByStation = new Map<string, number>();
+
+  for (const line of lines) {
+    const covered = Math.min(remaining, line.effectiveSeconds);
+    remaining -= covered;
+    const overtime = line.effectiveSeconds - covered;
+    const played = playedByStation.get(line.stationId) ?? 0;
+    playedByStation.set(line.stationId, played + line.effectiveSeconds);
+    if (overtime <= 0) continue;
+
+    const overtimeBillable = Math.max(
+      0,
+      computeBillableSeconds(played + line.effectiveSeconds, line.billingRule) -
+        computeBillableSeconds(played + covered, line.billingRule),
+    );
+    overtimeSeconds += overtime;
+    overtimeAmount += roundMoney((overtimeBillable / 3600) * line.rateHourlyApplied);
+  }
+
+  return {
+    prepaidSeconds,
+    prepaidAmount: roundMoney(prepaidAmount),
+    overtimeSeconds,
+    overtimeAmount: roundMoney(overtimeAmount),
+  };
+}
+
+/** Time totals for priced lines, selling prepaid time for its prepaid amount plus overtime. */
+export function summarizeTime(
+  lines: BillSegmentLine[],
+  session: Pick<Session, "prepaidMinutes" | "prepaidAmount">,
+): { meteredTimeSubtotal: number; timeSubtotal: number; prepaid: BillPrepaid | null } {
+  const meteredTimeSubtotal = roundMoney(lines.reduce((sum, line) => sum + line.timeAmount, 0));
+  const prepaid = session.prepaidMinutes
+    ? computePrepaid(lines, session.prepaidMinutes, toNumber(session.prepaidAmount))
+    : null;
+  const timeSubtotal = prepaid ? roundMoney(prepaid.prepaidAmount + prepaid.overtimeAmount) : meteredTimeSubtotal;
+  return { meteredTimeSubtotal, timeSubtotal, prepaid };
+}
+
+export function priceItems(items: SessionItem[]): BillItemLine[] {
+  return items.map((item) => {
+    const unitPrice = toNumber(item.priceSnapshot);
+    return {
+      id: item.id,
+      menuItemId: item.menuItemId ?? null,
+      name: item.nameSnapshot,
+      unitPrice,
+      qty: item.qty,
+      lineTotal: roundMoney(unitPrice * item.qty),
+    };
+  });
+}
+
+/**
+ * Compute the full bill for an open session as if it closed at `closedAt`.
+ * Both the checkout quote and closeSession go through here so they cannot disagree.
+ */
+export function buildSessionBill(input: {
+  session: Session;
+  station: BillingStation;
+  segments: SessionTimeSegment[];
+  items: SessionItem[];
+  closedAt: Date;
+  rates?: RatePricing;
+  /** Every station tier the session's segments or open stretch may name. */
+  stationRates?: StationRateTier[];
+  /** Players still on the session, who play the open stretch. */
+  playerCount?: number;
+  overrides?: BillingOverrides;
+}): SessionBill {
+  const { session, station, closedAt } = input;
+  const overrides = input.overrides ?? {};
+
+  let totalPausedSeconds = session.totalPausedSeconds ?? 0;
+  if (session.status === "paused" && session.pausedAt) {
+    totalPausedSeconds += Math.max(0, Math.floor((closedAt.getTime() - session.pausedAt.getTime()) / 1000));
+  }
+
+  const stationRates = input.stationRates ?? [];
+  const overrideById = new Map((overrides.segmentTierOverrides ?? []).map((x) => [x.segmentId, x]));
+  const knownIds = new Set(input.segments.map((segment) => segment.id));
+  overrideById.forEach((_, segmentId) => {
+    if (!knownIds.has(segmentId)) throw new Error("Invalid segment override");
+  });
+
+  const segments = input.segments.map((segment) => {
+    const override = overrideById.get(segment.id);
+    if (!override) return repriceSegment(segment);
+    const tier = chooseTier(segmentTier(segment), override.pricingTier, override.stationRateId);
+    return repriceSegment(segment, tier, findStationRate(stationRates, tier, segment.stationId));
+  });
+
+  const sessionTier = chooseTier(
+    { pricingTier: session.pricingTier, stationRateId: session.stationRateId },
+    overrides.pricingTier,
+    overrides.stationRateId,
+  );
+  const currentTier = chooseTier(sessionTier, overrides.currentSegmentPricingTier, overrides.currentSegmentStationRateId);
+  const currentSegments = priceStretch({
+    station,
+    startedAt: session.startedAt,
+    endedAt: closedAt,
+    totalPausedSeconds,
+    pricingTier: currentTier.pricingTier,
+    stationRate: findStationRate(stationRates, currentTier, station.id),
+    rates: input.rates,
+    playerCount: input.playerCount,
+    before: playedAtStation(segments, station.id),
+  });
+
+  const items = priceItems(input.items);
+
+  const allSegments = [...segments, ...currentSegments];
+  const { meteredTimeSubtotal, timeSubtotal, prepaid } = summarizeTime(allSegments, session);
+  const itemsSubtotal = roundMoney(items.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  return {
+    closedAt,
+    totalPausedSeconds,
+    currentPricingTier: currentTier.pricingTier,
+    currentStationRateId: currentTier.stationRateId,
+    segments,
+    currentSegments,
+    items,
+    effectiveSeconds: allSegments.reduce((sum, line) => sum + line.effectiveSeconds, 0),
+    billableSeconds: allSegments.reduce((sum, line) => sum + line.billableSeconds, 0),
+    meteredTimeSubtotal,
+    timeSubtotal,
+    prepaid,
+    itemsSubtotal,
+    subtotal: roundMoney(timeSubtotal + itemsSubtotal),
+  };
+}
+
+/**
+ * Id an itemized split uses for a line of the stretch being closed, which has no segment row yet.
+ * It names the rate window by its start, which stays put however many windows the stretch has reached by close.
+ */
+export function currentLineId(line: Pick<BillSegmentLine, "startedAt">): string {
+  return `current:${line.startedAt.toISOString()}`;
+}
+
+/** The bill's lines as an itemized split addresses them. */
+export function toSplitLines(
+  segments: BillSegmentLine[],
+  currentSegments: BillSegmentLine[],
+  items: BillItemLine[],
+): SplitLine[] {
+  return [
+    ...segments.map((line) => ({ kind: "segment" as const, lineId: line.segmentId ?? "", amount: line.timeAmount })),
+    ...currentSegments.map((line) => ({
+      kind: "segment" as const,
+      lineId: currentLineId(line),
+      amount: line.timeAmount,
+    })),
+    ...items.map((line) => ({ kind: "item" as const, lineId: line.id, amount: line.lineTotal })),
+  ];
+}
@@ -2,11 +2,19 @@ import type { Request, Response } from "express";
 import { z } from "zod";
 import {
   addSessionItemSchema,
+  addSessionPlayerSchema,
   closeSessionSchema,
+  editClosedSessionSchema,
+  mergeSessionSchema,
+  refundSessionSchema,
   removeSessionItemSchema,
+  reopenSessionSchema,
+  sessionQuoteSchema,
+  type SessionQuoteInput,
   startSessionSchema,
   transferSessionSchema,
   updateSessionNameSchema,
+  voidSessionSchema,
 } from "@shared/schema";
 import { getUserId } from "../middleware/auth";
 import { toHttpError } from "./errors";
@@ -15,9 +23,31 @@ import { sessionService } from "./service";
 export async function startSession(req: Request, res: Response) {
   try {
     const uid = getUserId(req);
-    const { stationId, pricingTier, startedAt, customerName } = startSessionSchema.parse(req.body);
+    const {
+      stationId,
+      pricingTier,
+      stationRateId,
+      startedAt,
+      customerName,
+      prepaidMinutes,
+      prepaidAmount,
+      reservationId,
+      waitlistEntryId,
+      players,
+      customerId,
+      customerPhone,
+    } = startSessionSchema.parse(req.body);
     const start = startedAt ? new Date(startedAt) : new Date();
-    const created = await sessionService.startSession(uid, stationId, pricingTier, start, customerName);
+    const prepaid = prepaidMinutes ? { minutes: prepaidMinutes, amount: prepaidAmount } : undefined;
+    const created = await sessionService.startSession(uid, stationId, pricingTier, start, customerName, {
+      prepaid,
+      reservationId,
+      waitlistEntryId,
+      stationRateId,
+      players,
+      customerId,
+      customerPhone,
+    });
     res.status(201).json(created);
   } catch (err) {
     if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
@@ -65,7 +95,59 @@ export async function closeSession(req: Request, res: Response) {
   try {
     const uid = getUserId(req);
     const parsed = closeSessionSchema.parse(req.body ?? {});
-    const session = await sessionService.closeSession(uid, req.params.id, parsed);
+    const session = await sessionService.closeSession(uid, req.params.id, parsed, req.user?.email ?? null);
+    res.json(session);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function reopenSession(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const input = reopenSessionSchema.parse(req.body ?? {});
+    const session = await sessionService.reopenSession(uid, req.params.id, input, req.user?.email ?? null);
+    res.json(session);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function voidSession(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const { reason } = voidSessionSchema.parse(req.body ?? {});
+    const session = await sessionService.voidSession(uid, req.params.id, reason, req.user?.email ?? null);
+    res.json(session);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function refundSession(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const input = refundSessionSchema.parse(req.body ?? {});
+    const session = await sessionService.refundSession(uid, req.params.id, input, req.user?.email ?? null);
+    res.json(session);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function editClosedSession(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const input = editClosedSessionSchema.parse(req.body ?? {});
+    const session = await sessionService.editClosedSession(uid, req.params.id, input, req.user?.email ?? null);
     res.json(session);
   } catch (err) {
     if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
@@ -74,16 +156,96 @@ export async function closeSession(req: Request, res: Response) {
   }
 }
 
+const quoteQuerySchema = z.object({
+  pricingTier: z.enum(["solo", "group"]).optional(),
+  stationRateId: z.string().min(1).optional(),
+  currentSegmentPricingTier: z.enum(["solo", "group"]).optional(),
+  tenderType: z.enum(["cash", "card", "other"]).optional(),
+  loyaltyDiscountApplied: z.enum(["true", "false"]).optional(),
+  loyaltyPhone: z.string().optional(),
+});
+
+/** GET takes the flat inputs as query params; POST takes the full closeSessionSchema body. */
+export async function quoteSession(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    let input: SessionQuoteInput;
+    if (req.method === "GET") {
+      const { tenderType, loyaltyDiscountApplied, ...rest } = quoteQuerySchema.parse(req.query);
+      input = sessionQuoteSchema.parse({
+        ...rest,
+        payment: tenderType || loyaltyDiscountApplied
+          ? { tenderType, loyaltyDiscountApplied: loyaltyDiscountApplied === "true" }
+          : undefined,
+      });
+    } else {
+      input = sessionQuoteSchema.parse(req.body ?? {});
+    }
+    const quote = await sessionService.quoteSession(uid, req.params.id, input);
+    res.json(quote);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
 export async function transferSession(req: Request, res: Response) {
   try {
     const uid = getUserId(req);
-    const { destinationStationId, endingPricingTier, nextPricingTier } = transferSessionSchema.parse(req.body);
+    const { destinationStationId, endingPricingTier, nextPricingTier, endingStationRateId, nextStationRateId } =
+      transferSessionSchema.parse(req.body);
     const session = await sessionService.transferSession(
       uid,
       req.params.id,
       destinationStationId,
       endingPricingTier,
       nextPricingTier,
+      endingStationRateId,
+      nextStationRateId,
+    );
+    res.json(session);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function addSessionPlayer(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const { name } = addSessionPlayerSchema.parse(req.body);
+    const player = await sessionService.addPlayer(uid, req.params.id, name);
+    res.status(201).json(player);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function removeSessionPlayer(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const player = await sessionService.removePlayer(uid, req.params.id, req.params.playerId);
+    res.json(player);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function mergeSession(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const { targetSessionId, endingPricingTier, endingStationRateId } = mergeSessionSchema.parse(req.body);
+    const session = await sessionService.mergeSession(
+      uid,
+      req.params.id,
+      targetSessionId,
+      endingPricingTier,
+      endingStationRateId,
     );
     res.json(session);
   } catch (err) {
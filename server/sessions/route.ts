@@ -2,14 +2,22 @@ import { Router } from "express";
 import { requireAuth } from "../middleware/auth";
 import {
   addSessionItem,
+  addSessionPlayer,
   closeSession,
+  editClosedSession,
   getSessionHistory,
+  mergeSession,
   pauseSession,
+  quoteSession,
+  refundSession,
   removeSessionItem,
+  removeSessionPlayer,
+  reopenSession,
   resumeSession,
   startSession,
   transferSession,
   updateSessionName,
+  voidSession,
 } from "./controller";
 
 const router = Router();
@@ -17,8 +25,17 @@ const router = Router();
 router.post("/api/sessions/start", requireAuth, startSession);
 router.post("/api/sessions/:id/pause", requireAuth, pauseSession);
 router.post("/api/sessions/:id/resume", requireAuth, resumeSession);
+router.get("/api/sessions/:id/quote", requireAuth, quoteSession);
+router.post("/api/sessions/:id/quote", requireAuth, quoteSession);
 router.post("/api/sessions/:id/close", requireAuth, closeSession);
+router.post("/api/sessions/:id/reopen", requireAuth, reopenSession);
+router.post("/api/sessions/:id/void", requireAuth, voidSession);
+router.post("/api/sessions/:id/refund", requireAuth, refundSession);
+router.patch("/api/sessions/:id/closed", requireAuth, editClosedSession);
 router.post("/api/sessions/:id/transfer", requireAuth, transferSession);
+router.post("/api/sessions/:id/merge", requireAuth, mergeSession);
+router.post("/api/sessions/:id/players", requireAuth, addSessionPlayer);
+router.post("/api/sessions/:id/players/:playerId/leave", requireAuth, removeSessionPlayer);
 router.post("/api/sessions/:id/items", requireAuth, addSessionItem);
 router.post("/api/sessions/:id/items/remove", requireAuth, removeSessionItem);
 router.patch("/api/sessions/:id/name", requireAuth, updateSessionName);
@@ -1,5 +1,58 @@
-import type { Session, SessionItem, SessionTimeSegment } from "@shared/schema";
-import { sessionStorage, type ClosedSessionHistoryRow, type CloseSessionInput, type SessionItemWithCategory } from "./storage";
+import type {
+  CheckoutPaymentInput,
+  CloseSessionRequestInput,
+  Customer,
+  DiscountKind,
+  DiscountReason,
+  DiscountScope,
+  DiscountSource,
+  EditClosedSessionInput,
+  LoyaltyProgram,
+  ReopenSessionInput,
+  Session,
+  SessionAdjustment,
+  SessionEditChange,
+  SessionItem,
+  SessionPlayer,
+  SessionQuoteInput,
+  SessionTimeSegment,
+  SplitAllocation,
+  TenderType,
+} from "@shared/schema";
+import { DEFAULT_DISCOUNT_RATE, DEFAULT_DISCOUNT_THRESHOLD_SECONDS } from "@shared/schema";
+import {
+  sessionStorage,
+  type AdjustmentContext,
+  type ClosedSessionHistoryRow,
+  type CloseLoyalty,
+  type PrepaidInput,
+  type RefundInput,
+  type SessionItemWithCategory,
+} from "./storage";
+import { settingsStorage } from "../settings/storage";
+import { reservationStorage } from "../reservations/storage";
+import { stationStorage } from "../stations/storage";
+import { waitlistStorage } from "../waitlist/storage";
+import { customerService } from "../customers/service";
+import { customerStorage } from "../customers/storage";
+import { CustomerNotFoundError, CustomerValidationError } from "../customers/errors";
+import type { CheckoutWithPayments } from "../payments/storage";
+import {
+  planCheckout,
+  roundMoney,
+  type CheckoutPlan,
+  type DiscountLinePlan,
+  type DiscountSpec,
+  type PayerPlan,
+  type TaxLinePlan,
+} from "../payments/utils";
+import { promotionService } from "../promotions/service";
+import { PromotionNotFoundError, PromotionValidationError } from "../promotions/errors";
+import { toManualSpec } from "../promotions/utils";
+import { pointsEarned } from "../loyalty/utils";
+import { includedSecondsLeft } from "../memberships/utils";
+import type { BillingRule } from "@shared/billing";
+import { currentLineId, toSplitLines, type BillPrepaid, type BillSegmentLine } from "./billing";
 import {
   SessionConflictError,
   SessionNotFoundError,
@@ -8,6 +61,36 @@ import {
 
 type PricingTier = "solo" | "group";
 
+/** planCheckout rejects itemized splits that do not add up with these messages. */
+const SPLIT_ERRORS = new Set([
+  "Split assigns an unknown line",
+  "Split shares a line more than once",
+  "Split must assign every item and segment in full",
+]);
+
+/** Reasons a gift card can't pay at checkout. */
+const GIFT_CARD_ERRORS = new Set(["Gift card is inactive", "Gift card balance is too low"]);
+
+/** Reasons a time voucher can't be redeemed at checkout. */
+const VOUCHER_ERRORS = new Set([
+  "Voucher has already been redeemed",
+  "Voucher has expired",
+  "Voucher doesn't cover any time on this bill",
+]);
+
+/** Reasons the loyalty discount can't be redeemed at checkout. */
+const DISCOUNT_ERRORS = new Set([
+  "Loyalty discount needs a loyalty customer",
+  "Customer is not eligible for the loyalty discount",
+]);
+
+/** Reasons the points program turns a reward down at checkout. */
+const REWARD_ERRORS = new Set([
+  "Rewards are not enabled",
+  "Rewards need a loyalty customer",
+  "Reward item is not on the bill",
+]);
+
 export interface SessionHistoryItemDto {
   id: string;
   menuItemId: string | null;
@@ -28,11 +111,111 @@ export interface SessionTimeSegmentDto {
   startedAt: string;
   endedAt: string;
   effectiveSeconds: number;
+  billableSeconds: number;
+  billingRule: BillingRule;
   pricingTier: PricingTier;
+  /** Station tier the segment was sold at, with its name as it was then. */
+  stationRateId: string | null;
+  stationRateName: string | null;
   rateSoloHourlySnapshot: number;
   rateGroupHourlySnapshot: number;
   rateHourlyApplied: number;
+  rateScheduleName: string | null;
   timeAmount: number;
+  playerCount: number | null;
+  billedPerPlayer: boolean;
+}
+
+export interface SessionPlayerDto {
+  id: string;
+  name: string;
+  joinedAt: string;
+  leftAt: string | null;
+  /** The session's play clock when the player joined; live views add their own elapsed time to it. */
+  joinedAtSeconds: number;
+  /** Seconds played so far, pauses excluded. */
+  playedSeconds: number;
+}
+
+export interface SessionPaymentDto {
+  id: string;
+  /** The itemized-split payer this payment came from. */
+  payerId: string | null;
+  sequence: number;
+  tenderType: TenderType;
+  amount: number;
+  tipAmount: number;
+}
+
+export interface SessionPayerDto {
+  id: string;
+  sequence: number;
+  name: string;
+  tenderType: TenderType;
+  discountRate: number;
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  subtotal: number;
+  prepaidCredit: number;
+  discountAmount: number;
+  taxAmount: number;
+  total: number;
+  allocations: SplitAllocation[];
+}
+
+export interface SessionTaxLineDto {
+  taxRateId: string | null;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface SessionDiscountLineDto {
+  source: DiscountSource;
+  code: string | null;
+  name: string;
+  reasonCode: DiscountReason | null;
+  note: string | null;
+  kind: DiscountKind;
+  value: number;
+  scope: DiscountScope;
+  eligibleAmount: number;
+  amount: number;
+}
+
+export interface SessionCheckoutDto {
+  subtotal: number;
+  discountRate: number;
+  discountAmount: number;
+  discountLines: SessionDiscountLineDto[];
+  prepaidCredit: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+  taxLines: SessionTaxLineDto[];
+  finalTotal: number;
+  splitCount: number;
+  tipAmount: number;
+  closedByEmail: string | null;
+  refundedAmount: number;
+  voidedAt: string | null;
+  /** Refunds appear here as negative payments. */
+  payments: SessionPaymentDto[];
+  /** Named payers when the bill was split by item; empty otherwise. */
+  payers: SessionPayerDto[];
+}
+
+export interface SessionAdjustmentDto {
+  id: string;
+  type: SessionAdjustment["type"];
+  reason: string;
+  amount: number | null;
+  tenderType: TenderType | null;
+  loyaltySecondsReversed: number;
+  /** Field-level before/after values for edits. */
+  changes: SessionEditChange[];
+  actorEmail: string | null;
+  createdAt: string;
 }
 
 export interface SessionHistoryDto {
@@ -41,17 +224,169 @@ export interface SessionHistoryDto {
   stationName: string;
   stationType: string;
   pricingTier: PricingTier;
+  stationRateId: string | null;
+  /** Name the last segment snapshotted for the session's station tier. */
+  stationRateName: string | null;
   customerName: string | null;
   startedAt: string;
   closedAt: string;
   totalPausedSeconds: number;
   effectiveSeconds: number;
+  prepaidMinutes: number | null;
+  prepaidAmount: number | null;
   timeCharge: number;
   itemsSubtotal: number;
+  /** The sale after any discount, before tax. */
+  preTaxTotal: number;
+  taxAmount: number;
+  /** preTaxTotal plus tax; timeCharge + itemsSubtotal for sessions closed before checkouts were recorded. */
   grandTotal: number;
+  /**
+   * What the customer paid: the checkout's final total plus any prepaid credit, less refunds,
+   * or grandTotal for sessions closed before checkouts were recorded. Zero once voided.
+   */
+  amountPaid: number;
+  voided: boolean;
   itemCount: number;
   items: SessionHistoryItemDto[];
   timeSegments: SessionTimeSegmentDto[];
+  checkout: SessionCheckoutDto | null;
+  adjustments: SessionAdjustmentDto[];
+}
+
+export interface SessionQuoteSegmentDto {
+  /** Null for the open stretch that closing would snapshot (one line per rate window). */
+  segmentId: string | null;
+  /** How an itemized split refers to this line: the segment id, or `current:<window start>` for the open stretch. */
+  lineId: string;
+  isCurrent: boolean;
+  stationId: string;
+  stationName: string;
+  stationType: string;
+  startedAt: string;
+  endedAt: string;
+  effectiveSeconds: number;
+  billableSeconds: number;
+  billingRule: BillingRule;
+  pricingTier: PricingTier;
+  stationRateId: string | null;
+  stationRateName: string | null;
+  rateSoloHourly: number;
+  rateGroupHourly: number;
+  rateHourlyApplied: number;
+  rateScheduleName: string | null;
+  timeAmount: number;
+  playerCount: number | null;
+  billedPerPlayer: boolean;
+}
+
+export interface SessionQuoteItemDto {
+  id: string;
+  menuItemId: string | null;
+  name: string;
+  unitPrice: number;
+  qty: number;
+  lineTotal: number;
+}
+
+export interface SessionQuoteLoyaltyDto {
+  phoneNumber: string;
+  customerFound: boolean;
+  totalSeconds: number;
+  thresholdSeconds: number;
+  /** True when the customer already has a discount banked or this session would earn one. */
+  discountEligible: boolean;
+  discountRate: number;
+  program: LoyaltyProgram;
+  pointsBalance: number;
+  /** The tier the customer holds coming into this checkout. */
+  tierName: string | null;
+  /** What this checkout would earn as quoted. */
+  pointsEarned: number;
+}
+
+/** The gift card named at checkout: what is on it and what this checkout would take off. */
+export interface SessionQuoteGiftCardDto {
+  code: string;
+  balance: number;
+  amount: number;
+}
+
+/** The time voucher named at checkout: its minutes, how many the bill uses and what they take off. */
+export interface SessionQuoteVoucherDto {
+  code: string;
+  minutes: number;
+  stationType: string | null;
+  redeemedMinutes: number;
+  amount: number;
+}
+
+/** The customer's membership as this checkout uses it. */
+export interface SessionQuoteMembershipDto {
+  planName: string;
+  renewsAt: string;
+  /** Included time left before this checkout. */
+  includedSecondsLeft: number;
+  /** Included time this checkout spends. */
+  includedSeconds: number;
+  amount: number;
+}
+
+export interface SessionQuoteDto {
+  sessionId: string;
+  quotedAt: string;
+  effectiveSeconds: number;
+  billableSeconds: number;
+  segments: SessionQuoteSegmentDto[];
+  items: SessionQuoteItemDto[];
+  /** Sum of the segment lines; differs from timeSubtotal only for prepaid sessions. */
+  meteredTimeSubtotal: number;
+  prepaid: BillPrepaid | null;
+  timeSubtotal: number;
+  itemsSubtotal: number;
+  subtotal: number;
+  discountRate: number;
+  discountAmount: number;
+  discountLines: DiscountLinePlan[];
+  prepaidCredit: number;
+  taxInclusive: boolean;
+  taxAmount: number;
+  taxLines: TaxLinePlan[];
+  finalTotal: number;
+  splitCount: number;
+  tipAmount: number;
+  payments: CheckoutPlan["payments"];
+  payers: PayerPlan[];
+  /** Who played how long, as of the quote. */
+  players: SessionPlayerDto[];
+  loyalty: SessionQuoteLoyaltyDto | null;
+  giftCard: SessionQuoteGiftCardDto | null;
+  voucher: SessionQuoteVoucherDto | null;
+  membership: SessionQuoteMembershipDto | null;
+}
+
+export type StartSessionOptions = {
+  prepaid?: PrepaidInput;
+  /** Seat this booked reservation with the new session. */
+  reservationId?: string;
+  /** Seat this waiting party with the new session. */
+  waitlistEntryId?: string;
+  /** One of the station's own tiers, priced instead of the solo or group rate. */
+  stationRateId?: string;
+  /** Names of the players present from the start. */
+  players?: string[];
+  /** Existing customer to attach; earns the session's time when it closes. */
+  customerId?: string;
+  /** Phone of the customer to attach, created if new. */
+  customerPhone?: string;
+};
+
+/** Who a session is attached to, as the dashboard shows it. */
+export interface SessionCustomerDto {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  phoneNumber: string;
 }
 
 class SessionService {
@@ -78,11 +413,250 @@ class SessionService {
       startedAt: segment.startedAt.toISOString(),
       endedAt: segment.endedAt.toISOString(),
       effectiveSeconds: segment.effectiveSeconds,
+      billableSeconds: segment.billableSeconds,
+      billingRule: {
+        billingIncrementMinutes: segment.billingIncrementMinutesSnapshot,
+        billingRoundingMode: segment.billingRoundingModeSnapshot,
+        minimumBillableMinutes: segment.minimumBillableMinutesSnapshot,
+        graceMinutes: segment.graceMinutesSnapshot,
+      },
       pricingTier: segment.pricingTier,
+      stationRateId: segment.stationRateId,
+      stationRateName: segment.stationRateNameSnapshot,
       rateSoloHourlySnapshot: this.toNumber(segment.rateSoloHourlySnapshot),
       rateGroupHourlySnapshot: this.toNumber(segment.rateGroupHourlySnapshot),
       rateHourlyApplied: this.toNumber(segment.rateHourlyApplied),
+      rateScheduleName: segment.rateScheduleNameSnapshot ?? null,
       timeAmount: this.toNumber(segment.timeAmount),
+      playerCount: segment.playerCount,
+      billedPerPlayer: segment.billedPerPlayer,
+    };
+  }
+
+  /** A player as of the session's play clock `clockSeconds`; players who left keep their recorded time. */
+  private mapPlayer(player: SessionPlayer, clockSeconds: number): SessionPlayerDto {
+    return {
+      id: player.id,
+      name: player.name,
+      joinedAt: player.joinedAt.toISOString(),
+      leftAt: player.leftAt ? player.leftAt.toISOString() : null,
+      joinedAtSeconds: player.joinedAtSeconds,
+      playedSeconds: player.playedSeconds ?? Math.max(0, clockSeconds - player.joinedAtSeconds),
+    };
+  }
+
+  private mapQuoteSegment(line: BillSegmentLine, lineId: string, isCurrent: boolean): SessionQuoteSegmentDto {
+    return {
+      segmentId: line.segmentId,
+      lineId,
+      isCurrent,
+      stationId: line.stationId,
+      stationName: line.stationName,
+      stationType: line.stationType,
+      startedAt: line.startedAt.toISOString(),
+      endedAt: line.endedAt.toISOString(),
+      effectiveSeconds: line.effectiveSeconds,
+      billableSeconds: line.billableSeconds,
+      billingRule: line.billingRule,
+      pricingTier: line.pricingTier,
+      stationRateId: line.stationRateId,
+      stationRateName: line.stationRateName,
+      rateSoloHourly: line.rateSoloHourly,
+      rateGroupHourly: line.rateGroupHourly,
+      rateHourlyApplied: line.rateHourlyApplied,
+      rateScheduleName: line.rateScheduleName,
+      timeAmount: line.timeAmount,
+      playerCount: line.playerCount,
+      billedPerPlayer: line.billedPerPlayer,
+    };
+  }
+
+  /**
+   * Whether the checkout asks for the store discount, for the whole bill or any itemized payer. It is a
+   * request only: the customer's eligibility is checked before it is quoted or redeemed.
+   */
+  private wantsDiscount(payment: CheckoutPaymentInput | undefined): boolean {
+    return !!payment?.loyaltyDiscountApplied || !!payment?.payers?.some((payer) => payer.discountApplied);
+  }
+
+  private async getStoreDiscountRate(userId: string): Promise<number> {
+    const user = await settingsStorage.getUserById(userId);
+    return this.toNumber(user?.discountRate ?? DEFAULT_DISCOUNT_RATE);
+  }
+
+  /** The promotion code and manual discount a payment asks for, in the order they are taken. */
+  private async getDiscountSpecs(userId: string, payment: CheckoutPaymentInput | undefined): Promise<DiscountSpec[]> {
+    const specs: DiscountSpec[] = [];
+    if (payment?.promoCode) {
+      try {
+        specs.push(await promotionService.resolveCode(userId, payment.promoCode, new Date()));
+      } catch (err) {
+        if (err instanceof PromotionNotFoundError || err instanceof PromotionValidationError) {
+          throw new SessionValidationError(err.message);
+        }
+        throw err;
+      }
+    }
+    if (payment?.manualDiscount) specs.push(toManualSpec(payment.manualDiscount));
+    return specs;
+  }
+
+  /** Under the points program rewards and tiers stand in for the hours discount. */
+  private async assertLoyaltyDiscountAllowed(userId: string, payment: CheckoutPaymentInput | undefined): Promise<void> {
+    if (!this.wantsDiscount(payment)) return;
+    const user = await settingsStorage.getUserById(userId);
+    if (user?.loyaltyProgram === "points") {
+      throw new SessionValidationError("The loyalty discount is not offered under the points program");
+    }
+  }
+
+  private async getDiscountThresholdSeconds(userId: string): Promise<number> {
+    const user = await settingsStorage.getUserById(userId);
+    return user?.discountThresholdSeconds ?? DEFAULT_DISCOUNT_THRESHOLD_SECONDS;
+  }
+
+  private async getAdjustmentContext(userId: string, actorEmail: string | null): Promise<AdjustmentContext> {
+    return { thresholdSeconds: await this.getDiscountThresholdSeconds(userId), actorEmail };
+  }
+
+  private async resolveLoyalty(userId: string, phoneNumber: string, redeemDiscount: boolean): Promise<CloseLoyalty> {
+    try {
+      const customer = await customerService.getOrCreateByPhone(userId, phoneNumber);
+      const thresholdSeconds = await this.getDiscountThresholdSeconds(userId);
+      return { customerId: customer.id, thresholdSeconds, redeemDiscount };
+    } catch (err) {
+      if (err instanceof CustomerValidationError) throw new SessionValidationError(err.message);
+      throw err;
+    }
+  }
+
+  /** The customer a new session is attached to, looked up by id or found or created by phone. */
+  private async resolveSessionCustomer(userId: string, customerId?: string, customerPhone?: string): Promise<Customer | null> {
+    try {
+      if (customerId) return await customerService.getCustomerById(userId, customerId);
+      if (customerPhone) return await customerService.getOrCreateByPhone(userId, customerPhone);
+      return null;
+    } catch (err) {
+      if (err instanceof CustomerNotFoundError) throw new SessionNotFoundError(err.message);
+      if (err instanceof CustomerValidationError) throw new SessionValidationError(err.message);
+      throw err;
+    }
+  }
+
+  private mapCustomer(customer: Customer): SessionCustomerDto {
+    return {
+      id: customer.id,
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      phoneNumber: customer.phoneNumber,
+    };
+  }
+
+  /** Storage rejects post-checkout changes with plain errors; map them for the controller. */
+  private toAdjustmentError(err: any): unknown {
+    if (err?.message === "Station already has an active session") return new SessionConflictError(err.message);
+    if (
+      err?.message === "Segment not found" ||
+      err?.message === "Session item not found" ||
+      err?.message === "Station rate not found"
+    ) {
+      return new SessionNotFoundError(err.message);
+    }
+    if (
+      err?.message === "Session is not closed" ||
+      err?.message === "Checkout wasn't paid by gift card" ||
+      err?.message === "Refund exceeds what the gift card paid" ||
+      err?.message === "Gift card balance is too low" ||
+      err?.message === "Voided sessions cannot be edited" ||
+      err?.message === "Refunded sessions cannot be edited" ||
+      err?.message === "Segment must end after it starts" ||
+      err?.message === "Segments cannot end in the future" ||
+      err?.message === "Segments cannot overlap" ||
+      err?.message === "Insufficient stock" ||
+      err?.message === "Nothing to change" ||
+      err?.message === "Session has no checkout" ||
+      err?.message === "Session is already voided" ||
+      err?.message === "Session is already fully refunded" ||
+      err?.message === "Voided sessions cannot be reopened" ||
+      err?.message === "Voided sessions cannot be refunded" ||
+      err?.message === "Refunded sessions cannot be reopened" ||
+      err?.message === "Refund exceeds the amount paid"
+    ) {
+      return new SessionValidationError(err.message);
+    }
+    return err;
+  }
+
+  private mapCheckout(checkout: CheckoutWithPayments): SessionCheckoutDto {
+    return {
+      subtotal: this.toNumber(checkout.subtotal),
+      discountRate: this.toNumber(checkout.discountRate),
+      discountAmount: this.toNumber(checkout.discountAmount),
+      discountLines: checkout.discounts.map((line) => ({
+        source: line.source,
+        code: line.code,
+        name: line.name,
+        reasonCode: line.reasonCode,
+        note: line.note,
+        kind: line.kind,
+        value: this.toNumber(line.value),
+        scope: line.scope,
+        eligibleAmount: this.toNumber(line.eligibleAmount),
+        amount: this.toNumber(line.amount),
+      })),
+      prepaidCredit: this.toNumber(checkout.prepaidCredit),
+      taxInclusive: checkout.taxInclusive,
+      taxAmount: this.toNumber(checkout.taxAmount),
+      taxLines: checkout.taxes.map((line) => ({
+        taxRateId: line.taxRateId,
+        name: line.name,
+        rate: this.toNumber(line.rate),
+        taxableAmount: this.toNumber(line.taxableAmount),
+        taxAmount: this.toNumber(line.taxAmount),
+      })),
+      finalTotal: this.toNumber(checkout.finalTotal),
+      splitCount: checkout.splitCount,
+      tipAmount: this.toNumber(checkout.tipAmount),
+      closedByEmail: checkout.closedByEmail,
+      refundedAmount: this.toNumber(checkout.refundedAmount),
+      voidedAt: checkout.voidedAt ? checkout.voidedAt.toISOString() : null,
+      payments: checkout.payments.map((payment) => ({
+        id: payment.id,
+        payerId: payment.payerId,
+        sequence: payment.sequence,
+        tenderType: payment.tenderType,
+        amount: this.toNumber(payment.amount),
+        tipAmount: this.toNumber(payment.tipAmount),
+      })),
+      payers: checkout.payers.map((payer) => ({
+        id: payer.id,
+        sequence: payer.sequence,
+        name: payer.name,
+        tenderType: payer.tenderType,
+        discountRate: this.toNumber(payer.discountRate),
+        timeSubtotal: this.toNumber(payer.timeSubtotal),
+        itemsSubtotal: this.toNumber(payer.itemsSubtotal),
+        subtotal: this.toNumber(payer.subtotal),
+        prepaidCredit: this.toNumber(payer.prepaidCredit),
+        discountAmount: this.toNumber(payer.discountAmount),
+        taxAmount: this.toNumber(payer.taxAmount),
+        total: this.toNumber(payer.total),
+        allocations: payer.allocations,
+      })),
+    };
+  }
+
+  private mapAdjustment(adjustment: SessionAdjustment): SessionAdjustmentDto {
+    return {
+      id: adjustment.id,
+      type: adjustment.type,
+      reason: adjustment.reason,
+      amount: adjustment.amount === null ? null : this.toNumber(adjustment.amount),
+      tenderType: adjustment.tenderType ?? null,
+      loyaltySecondsReversed: adjustment.loyaltySecondsReversed,
+      changes: adjustment.changes ?? [],
+      actorEmail: adjustment.actorEmail ?? null,
+      createdAt: adjustment.createdAt.toISOString(),
     };
   }
 
@@ -107,10 +681,22 @@ class SessionService {
     const summedSeconds = timeSegments.reduce((sum, segment) => sum + segment.effectiveSeconds, 0);
     const summedAmount = timeSegments.reduce((sum, segment) => sum + segment.timeAmount, 0);
 
-    const timeCharge = timeSegments.length > 0 ? summedAmount : this.toNumber(row.totalAmount);
+    // Prepaid sessions sell time for the prepaid amount plus overtime, which closeSession stores as totalAmount.
+    const timeCharge = timeSegments.length > 0 && !row.prepaidMinutes ? summedAmount : this.toNumber(row.totalAmount);
     const effectiveSeconds = timeSegments.length > 0 ? summedSeconds : this.computeEffectiveSeconds(row);
-    const grandTotal = timeCharge + itemsSubtotal;
     const itemCount = row.items.reduce((sum, item) => sum + (item.qty ?? 0), 0);
+    const lastSegment = timeSegments[timeSegments.length - 1];
+    const checkout = row.checkout ? this.mapCheckout(row.checkout) : null;
+    const taxAmount = checkout?.taxAmount ?? 0;
+    const preTaxTotal = checkout
+      ? checkout.subtotal - checkout.discountAmount - (checkout.taxInclusive ? taxAmount : 0)
+      : timeCharge + itemsSubtotal;
+    const grandTotal = preTaxTotal + taxAmount;
+    const voided = !!checkout?.voidedAt;
+    let amountPaid = grandTotal;
+    if (checkout) {
+      amountPaid = voided ? 0 : checkout.finalTotal + checkout.prepaidCredit - checkout.refundedAmount;
+    }
 
     return {
       id: row.id,
@@ -118,23 +704,35 @@ class SessionService {
       stationName: row.stationName,
       stationType: row.stationType,
       pricingTier: row.pricingTier,
+      stationRateId: row.stationRateId ?? null,
+      stationRateName: row.stationRateId ? lastSegment?.stationRateName ?? null : null,
       customerName: row.customerName ?? null,
       startedAt: row.startedAt.toISOString(),
       closedAt: (row.closedAt ?? row.updatedAt).toISOString(),
       totalPausedSeconds: row.totalPausedSeconds ?? 0,
       effectiveSeconds,
+      prepaidMinutes: row.prepaidMinutes ?? null,
+      prepaidAmount: row.prepaidAmount === null ? null : this.toNumber(row.prepaidAmount),
       timeCharge,
       itemsSubtotal,
+      preTaxTotal,
+      taxAmount,
       grandTotal,
+      amountPaid,
+      voided,
       itemCount,
       items,
       timeSegments,
+      checkout,
+      adjustments: row.adjustments.map((adjustment) => this.mapAdjustment(adjustment)),
     };
   }
 
   async getActiveSessionWithItems(userId: string, stationId: string): Promise<(Session & {
     items: SessionItem[];
     timeSegments: SessionTimeSegmentDto[];
+    players: SessionPlayerDto[];
+    customer: SessionCustomerDto | null;
     accruedTimeSeconds: number;
     accruedTimeCharge: number;
   }) | null> {
@@ -142,14 +740,23 @@ class SessionService {
     if (!active) return null;
     const items = await sessionStorage.listSessionItems(userId, active.id);
     const segments = await sessionStorage.listSessionTimeSegments(userId, active.id);
+    const players = await sessionStorage.listSessionPlayers(userId, active.id);
+    const customer = active.customerId ? await customerStorage.getCustomerById(userId, active.customerId) : undefined;
     const mappedSegments = segments.map((segment) => this.mapSegment(segment));
     const accruedTimeSeconds = mappedSegments.reduce((sum, segment) => sum + segment.effectiveSeconds, 0);
     const accruedTimeCharge = mappedSegments.reduce((sum, segment) => sum + segment.timeAmount, 0);
+    const pausedSeconds =
+      active.status === "paused" && active.pausedAt
+        ? Math.max(0, Math.floor((Date.now() - active.pausedAt.getTime()) / 1000))
+        : 0;
+    const clockSeconds = accruedTimeSeconds + Math.max(0, this.computeEffectiveSeconds(active) - pausedSeconds);
 
     return {
       ...active,
       items,
       timeSegments: mappedSegments,
+      players: players.map((player) => this.mapPlayer(player, clockSeconds)),
+      customer: customer ? this.mapCustomer(customer) : null,
       accruedTimeSeconds,
       accruedTimeCharge,
     };
@@ -161,13 +768,93 @@ class SessionService {
     return session;
   }
 
-  async startSession(userId: string, stationId: string, pricingTier: PricingTier, startedAt: Date, customerName?: string): Promise<Session> {
+  async startSession(
+    userId: string,
+    stationId: string,
+    pricingTier: PricingTier,
+    startedAt: Date,
+    customerName?: string,
+    options: StartSessionOptions = {},
+  ): Promise<Session> {
+    const { prepaid, reservationId, waitlistEntryId, stationRateId, players, customerId, customerPhone } = options;
+    if (reservationId) {
+      const reservation = await this.assertSeatable(userId, reservationId, stationId);
+      customerName = customerName ?? reservation.customerName;
+    }
+    if (waitlistEntryId) {
+      const entry = await this.assertWaitlistSeatable(userId, waitlistEntryId, stationId);
+      customerName = customerName ?? entry.customerName;
+    }
+    const customer = await this.resolveSessionCustomer(userId, customerId, customerPhone);
+    if (customer) {
+      const fullName = [customer.firstName, customer.lastName].filter(Boolean).join(" ");
+      customerName = customerName ?? (fullName || undefined);
+    }
+
+    let session: Session;
     try {
-      return await sessionStorage.startSession(userId, stationId, pricingTier, startedAt, customerName);
+      session = await sessionStorage.startSession(
+        userId,
+        stationId,
+        pricingTier,
+        startedAt,
+        customerName,
+        prepaid,
+        stationRateId,
+        players,
+        customer?.id ?? null,
+        reservationId ?? null,
+        waitlistEntryId ?? null,
+      );
     } catch (err: any) {
-      if (err?.message === "Station not found") throw new SessionNotFoundError("Station not found");
+      if (err?.message === "Station not found" || err?.message === "Station rate not found") {
+        throw new SessionNotFoundError(err.message);
+      }
+      if (
+        err?.message === "Station rate is disabled" ||
+        err?.message === "Reservation is no longer booked" ||
+        err?.message === "Party is no longer waiting"
+      ) {
+        throw new SessionValidationError(err.message);
+      }
       throw err;
     }
+
+    return session;
+  }
+
+  /** A waiting party can be seated at any free station of the type it asked for. */
+  private async assertWaitlistSeatable(userId: string, entryId: string, stationId: string) {
+    const entry = await waitlistStorage.getEntry(userId, entryId);
+    if (!entry) throw new SessionNotFoundError("Waitlist entry not found");
+    if (entry.status !== "waiting") throw new SessionValidationError("Party is no longer waiting");
+
+    const station = await stationStorage.getStation(userId, stationId);
+    if (!station) throw new SessionNotFoundError("Station not found");
+    if (entry.stationType && entry.stationType !== station.stationType) {
+      throw new SessionValidationError(`Party is waiting for a ${entry.stationType} station`);
+    }
+    if (await sessionStorage.getActiveSessionForStation(userId, stationId)) {
+      throw new SessionConflictError("Station already has an active session");
+    }
+    return entry;
+  }
+
+  /** A reservation can seat a session only while booked, on its own station or one of its type, and on a free station. */
+  private async assertSeatable(userId: string, reservationId: string, stationId: string) {
+    const reservation = await reservationStorage.getReservation(userId, reservationId);
+    if (!reservation) throw new SessionNotFoundError("Reservation not found");
+    if (reservation.status !== "booked") throw new SessionValidationError("Reservation is no longer booked");
+
+    const station = await stationStorage.getStation(userId, stationId);
+    if (!station) throw new SessionNotFoundError("Station not found");
+    if (reservation.stationId ? reservation.stationId !== stationId : reservation.stationType !== station.stationType) {
+      throw new SessionValidationError("Reservation is for a different station");
+    }
+    if (await sessionStorage.getActiveSessionForStation(userId, stationId)) {
+      throw new SessionConflictError("Station already has an active session");
+    }
+    return reservation;
   }
 
   async pauseSession(userId: string, sessionId: string): Promise<Session> {
@@ -185,11 +872,261 @@ class SessionService {
   async closeSession(
     userId: string,
     sessionId: string,
-    input?: CloseSessionInput
+    input: CloseSessionRequestInput = {},
+    closedByEmail: string | null = null,
   ): Promise<Session> {
-    const session = await sessionStorage.closeSession(userId, sessionId, input);
-    if (!session) throw new SessionNotFoundError("Session not found");
-    return session;
+    const { loyaltyPhone, ...closeInput } = input;
+    const redeemDiscount = this.wantsDiscount(closeInput.payment);
+    await this.assertLoyaltyDiscountAllowed(userId, closeInput.payment);
+    const discountRate = redeemDiscount ? await this.getStoreDiscountRate(userId) : 0;
+    const discounts = await this.getDiscountSpecs(userId, closeInput.payment);
+    // The discount is redeemed from the customer's balance as the session closes, and the close fails
+    // if they aren't eligible. Without a phone at checkout, the customer attached at start is used.
+    const loyalty: CloseLoyalty = loyaltyPhone
+      ? await this.resolveLoyalty(userId, loyaltyPhone, redeemDiscount)
+      : { customerId: null, thresholdSeconds: await this.getDiscountThresholdSeconds(userId), redeemDiscount };
+    try {
+      const session = await sessionStorage.closeSession(
+        userId,
+        sessionId,
+        closeInput,
+        discountRate,
+        loyalty,
+        closedByEmail,
+        discounts,
+      );
+      if (!session) throw new SessionNotFoundError("Session not found");
+      return session;
+    } catch (err: any) {
+      if (err?.message === "Station not found" || err?.message === "Station rate not found") {
+        throw new SessionNotFoundError(err.message);
+      }
+      if (
+        err?.message === "Reward not found" ||
+        err?.message === "Gift card not found" ||
+        err?.message === "Voucher not found"
+      ) {
+        throw new SessionNotFoundError(err.message);
+      }
+      if (
+        err?.message === "Invalid segment override" ||
+        err?.message === "Promotion usage limit reached" ||
+        err?.message === "Not enough points" ||
+        DISCOUNT_ERRORS.has(err?.message) ||
+        REWARD_ERRORS.has(err?.message) ||
+        GIFT_CARD_ERRORS.has(err?.message) ||
+        VOUCHER_ERRORS.has(err?.message) ||
+        SPLIT_ERRORS.has(err?.message)
+      ) {
+        throw new SessionValidationError(err.message);
+      }
+      throw err;
+    }
+  }
+
+  /** The bill closeSession would record right now for the same inputs. */
+  async quoteSession(userId: string, sessionId: string, input: SessionQuoteInput): Promise<SessionQuoteDto> {
+    const { loyaltyPhone, ...closeInput } = input;
+    await this.assertLoyaltyDiscountAllowed(userId, closeInput.payment);
+    const discountSpecs = await this.getDiscountSpecs(userId, closeInput.payment);
+    // A phone at checkout picks the customer; without one the session's own customer is quoted.
+    const byPhone = loyaltyPhone ? (await customerService.getCustomerByPhoneNumber(userId, loyaltyPhone)) ?? null : undefined;
+
+    let quoted: Awaited<ReturnType<typeof sessionStorage.quoteSession>>;
+    try {
+      quoted = await sessionStorage.quoteSession(userId, sessionId, closeInput, discountSpecs, byPhone);
+    } catch (err: any) {
+      if (err?.message === "Station not found" || err?.message === "Station rate not found") {
+        throw new SessionNotFoundError(err.message);
+      }
+      if (
+        err?.message === "Reward not found" ||
+        err?.message === "Gift card not found" ||
+        err?.message === "Voucher not found"
+      ) {
+        throw new SessionNotFoundError(err.message);
+      }
+      if (
+        err?.message === "Session is closed" ||
+        err?.message === "Invalid segment override" ||
+        REWARD_ERRORS.has(err?.message) ||
+        GIFT_CARD_ERRORS.has(err?.message) ||
+        VOUCHER_ERRORS.has(err?.message)
+      ) {
+        throw new SessionValidationError(err.message);
+      }
+      throw err;
+    }
+    if (!quoted) throw new SessionNotFoundError("Session not found");
+    const { bill, tax, discounts, players, points, customer, giftCard, voucher, membership } = quoted;
+    const phoneNumber = loyaltyPhone ?? customer?.phoneNumber;
+    const thresholdSeconds = await this.getDiscountThresholdSeconds(userId);
+    // The same test closeSession makes when it redeems the discount.
+    const discountEligible = !!customer && customer.totalSeconds + bill.effectiveSeconds >= thresholdSeconds;
+    if (this.wantsDiscount(closeInput.payment)) {
+      if (!customer) throw new SessionValidationError("Loyalty discount needs a loyalty customer");
+      if (!discountEligible) throw new SessionValidationError("Customer is not eligible for the loyalty discount");
+    }
+
+    const storeDiscountRate = await this.getStoreDiscountRate(userId);
+    let plan: CheckoutPlan;
+    try {
+      plan = planCheckout({
+        timeSubtotal: bill.timeSubtotal,
+        itemsSubtotal: bill.itemsSubtotal,
+        discountRate: this.wantsDiscount(closeInput.payment) ? storeDiscountRate : 0,
+        prepaidCredit: bill.prepaid?.prepaidAmount,
+        payment: closeInput.payment ?? { tenderType: "card" },
+        lines: toSplitLines(bill.segments, bill.currentSegments, bill.items),
+        discounts,
+        tax,
+        giftCard: giftCard ? { id: giftCard.id, balance: this.toNumber(giftCard.balance) } : undefined,
+      });
+    } catch (err: any) {
+      if (SPLIT_ERRORS.has(err?.message)) throw new SessionValidationError(err.message);
+      throw err;
+    }
+
+    let loyalty: SessionQuoteLoyaltyDto | null = null;
+    if (phoneNumber) {
+      const totalSeconds = customer?.totalSeconds ?? 0;
+      const pointsBalance = customer?.pointsBalance ?? 0;
+      loyalty = {
+        phoneNumber,
+        customerFound: !!customer,
+        totalSeconds,
+        thresholdSeconds,
+        discountEligible,
+        discountRate: storeDiscountRate,
+        program: points.context.program,
+        pointsBalance: points.reward ? pointsBalance - points.reward.pointsCost : pointsBalance,
+        tierName: points.tier?.name ?? null,
+        pointsEarned: pointsEarned(points.context, points.tier, plan.finalTotal, bill.effectiveSeconds),
+      };
+    }
+
+    return {
+      sessionId,
+      quotedAt: bill.closedAt.toISOString(),
+      effectiveSeconds: bill.effectiveSeconds,
+      billableSeconds: bill.billableSeconds,
+      segments: [
+        ...bill.segments.map((line) => this.mapQuoteSegment(line, line.segmentId ?? "", false)),
+        ...bill.currentSegments.map((line) => this.mapQuoteSegment(line, currentLineId(line), true)),
+      ],
+      items: bill.items,
+      meteredTimeSubtotal: bill.meteredTimeSubtotal,
+      prepaid: bill.prepaid,
+      timeSubtotal: plan.timeSubtotal,
+      itemsSubtotal: plan.itemsSubtotal,
+      subtotal: plan.subtotal,
+      discountRate: plan.discountRate,
+      discountAmount: plan.discountAmount,
+      discountLines: plan.discountLines,
+      prepaidCredit: plan.prepaidCredit,
+      taxInclusive: plan.taxInclusive,
+      taxAmount: plan.taxAmount,
+      taxLines: plan.taxLines,
+      finalTotal: plan.finalTotal,
+      splitCount: plan.splitCount,
+      tipAmount: plan.tipAmount,
+      payments: plan.payments,
+      payers: plan.payers,
+      players: players.map((player) => this.mapPlayer(player, bill.effectiveSeconds)),
+      loyalty,
+      giftCard: giftCard
+        ? {
+            code: giftCard.code,
+            balance: this.toNumber(giftCard.balance),
+            amount: roundMoney(
+              plan.payments
+                .filter((payment) => payment.giftCardId)
+                .reduce((sum, payment) => sum + payment.amount + payment.tipAmount, 0),
+            ),
+          }
+        : null,
+      voucher: voucher
+        ? {
+            code: voucher.voucher.code,
+            minutes: voucher.voucher.minutes,
+            stationType: voucher.voucher.stationType,
+            redeemedMinutes: voucher.minutes,
+            amount: plan.discountLines.find((line) => line.source === "voucher")?.amount ?? 0,
+          }
+        : null,
+      membership: membership
+        ? {
+            planName: membership.plan.name,
+            renewsAt: membership.membership.renewsAt.toISOString(),
+            includedSecondsLeft: includedSecondsLeft(membership.membership, membership.plan),
+            includedSeconds: membership.includedSeconds,
+            amount: roundMoney(
+              plan.discountLines
+                .filter((line) => line.source === "membership")
+                .reduce((sum, line) => sum + line.amount, 0),
+            ),
+          }
+        : null,
+    };
+  }
+
+  async reopenSession(
+    userId: string,
+    sessionId: string,
+    input: ReopenSessionInput,
+    actorEmail: string | null,
+  ): Promise<Session> {
+    const context = await this.getAdjustmentContext(userId, actorEmail);
+    try {
+      const session = await sessionStorage.reopenSession(userId, sessionId, input, context);
+      if (!session) throw new SessionNotFoundError("Session not found");
+      return session;
+    } catch (err) {
+      throw this.toAdjustmentError(err);
+    }
+  }
+
+  async voidSession(userId: string, sessionId: string, reason: string, actorEmail: string | null): Promise<Session> {
+    const context = await this.getAdjustmentContext(userId, actorEmail);
+    try {
+      const session = await sessionStorage.voidSession(userId, sessionId, reason, context);
+      if (!session) throw new SessionNotFoundError("Session not found");
+      return session;
+    } catch (err) {
+      throw this.toAdjustmentError(err);
+    }
+  }
+
+  async refundSession(
+    userId: string,
+    sessionId: string,
+    input: RefundInput,
+    actorEmail: string | null,
+  ): Promise<Session> {
+    const context = await this.getAdjustmentContext(userId, actorEmail);
+    try {
+      const session = await sessionStorage.refundSession(userId, sessionId, input, context);
+      if (!session) throw new SessionNotFoundError("Session not found");
+      return session;
+    } catch (err) {
+      throw this.toAdjustmentError(err);
+    }
+  }
+
+  async editClosedSession(
+    userId: string,
+    sessionId: string,
+    input: EditClosedSessionInput,
+    actorEmail: string | null,
+  ): Promise<Session> {
+    const context = await this.getAdjustmentContext(userId, actorEmail);
+    try {
+      const session = await sessionStorage.editClosedSession(userId, sessionId, input, context);
+      if (!session) throw new SessionNotFoundError("Session not found");
+      return session;
+    } catch (err) {
+      throw this.toAdjustmentError(err);
+    }
   }
 
   async transferSession(
@@ -198,6 +1135,8 @@ class SessionService {
     destinationStationId: string,
     endingPricingTier?: PricingTier,
     nextPricingTier?: PricingTier,
+    endingStationRateId?: string | null,
+    nextStationRateId?: string | null,
   ): Promise<Session> {
     try {
       return await sessionStorage.transferSession(
@@ -206,9 +1145,15 @@ class SessionService {
         destinationStationId,
         endingPricingTier,
         nextPricingTier,
+        endingStationRateId,
+        nextStationRateId,
       );
     } catch (err: any) {
-      if (err?.message === "Session not found" || err?.message === "Destination station not found") {
+      if (
+        err?.message === "Session not found" ||
+        err?.message === "Destination station not found" ||
+        err?.message === "Station rate not found"
+      ) {
         throw new SessionNotFoundError(err.message);
       }
       if (err?.message?.includes("already has an active session")) {
@@ -217,13 +1162,77 @@ class SessionService {
       if (err?.message === "Session is closed") {
         throw new SessionValidationError(err.message);
       }
-      if (err?.message === "Invalid segment override") {
+      if (err?.message === "Invalid segment override" || err?.message === "Station rate is disabled") {
         throw new SessionValidationError(err.message);
       }
       throw err;
     }
   }
 
+  async mergeSession(
+    userId: string,
+    sessionId: string,
+    targetSessionId: string,
+    endingPricingTier?: PricingTier,
+    endingStationRateId?: string | null,
+  ): Promise<Session> {
+    try {
+      return await sessionStorage.mergeSession(
+        userId,
+        sessionId,
+        targetSessionId,
+        endingPricingTier,
+        endingStationRateId,
+      );
+    } catch (err: any) {
+      if (
+        err?.message === "Session not found" ||
+        err?.message === "Target session not found" ||
+        err?.message === "Station rate not found"
+      ) {
+        throw new SessionNotFoundError(err.message);
+      }
+      if (
+        err?.message === "Session is closed" ||
+        err?.message === "Target session is closed" ||
+        err?.message === "Cannot merge a session into itself"
+      ) {
+        throw new SessionValidationError(err.message);
+      }
+      throw err;
+    }
+  }
+
+  async addPlayer(userId: string, sessionId: string, name: string): Promise<SessionPlayer> {
+    try {
+      return await sessionStorage.addPlayer(userId, sessionId, name);
+    } catch (err: any) {
+      throw this.toPlayerError(err);
+    }
+  }
+
+  async removePlayer(userId: string, sessionId: string, playerId: string): Promise<SessionPlayer> {
+    try {
+      return await sessionStorage.removePlayer(userId, sessionId, playerId);
+    } catch (err: any) {
+      throw this.toPlayerError(err);
+    }
+  }
+
+  private toPlayerError(err: any): unknown {
+    if (
+      err?.message === "Session not found" ||
+      err?.message === "Player not found" ||
+      err?.message === "Station rate not found"
+    ) {
+      return new SessionNotFoundError(err.message);
+    }
+    if (err?.message === "Session is closed" || err?.message === "Player already left") {
+      return new SessionValidationError(err.message);
+    }
+    return err;
+  }
+
   async addSessionItem(userId: string, sessionId: string, body: unknown) {
     try {
       return await sessionStorage.addItemToSession(userId, sessionId, body);
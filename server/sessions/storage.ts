@@ -1,17 +1,89 @@
 import {
   addSessionItemSchema,
   menuItems,
+  reservations,
+  sessionAdjustments,
   sessions,
   sessionItems,
+  sessionPlayers,
   sessionTimeSegments,
   stations,
+  users,
+  waitlistEntries,
+  type CheckoutPaymentInput,
+  type Customer,
+  type CustomerMembership,
+  type EditClosedSessionInput,
+  type GiftCard,
+  type LoyaltyReward,
+  type LoyaltyTier,
+  type MembershipPlan,
   type MenuItem,
+  type ReopenSessionInput,
   type Session,
+  type SessionAdjustment,
+  type SessionEditChange,
   type SessionItem,
+  type SessionPlayer,
   type SessionTimeSegment,
+  type TenderType,
+  type TimeVoucher,
 } from "@shared/schema";
-import { db } from "../db";
-import { and, asc, desc, eq, gte, inArray, lte, ne, sql } from "drizzle-orm";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, asc, desc, eq, gte, inArray, isNull, lte, ne, sql } from "drizzle-orm";
+import { paymentStorage, type CheckoutWithPayments } from "../payments/storage";
+import {
+  getRefundableAmount,
+  planCheckout,
+  roundMoney,
+  toChosenTender,
+  type DiscountInput,
+  type DiscountSpec,
+  type TaxInput,
+} from "../payments/utils";
+import { customerStorage } from "../customers/storage";
+import { giftCardStorage } from "../giftcards/storage";
+import { normalizeGiftCardCode } from "../giftcards/utils";
+import { timeVoucherStorage } from "../vouchers/storage";
+import { membershipStorage } from "../memberships/storage";
+import { includedSecondsLeft, isMembershipCurrent, priceMembership, type MembershipPricing } from "../memberships/utils";
+import { normalizeVoucherCode, priceVoucher, voucherStatus, type VoucherRedemption } from "../vouchers/utils";
+import { rateScheduleStorage } from "../rates/storage";
+import { taxStorage } from "../taxes/storage";
+import { ratesForCategory } from "../taxes/utils";
+import { promotionStorage } from "../promotions/storage";
+import { loyaltyStorage } from "../loyalty/storage";
+import { pointsEarned, tierFor, toRewardSpec, toTierSpec, type LoyaltyContext } from "../loyalty/utils";
+import { stationStorage } from "../stations/storage";
+import { reservationStorage } from "../reservations/storage";
+import { waitlistStorage } from "../waitlist/storage";
+import { resolveDiscount } from "../promotions/utils";
+import { computeTimeCharge, playerRateMultiplier } from "@shared/billing";
+import {
+  buildSessionBill,
+  chooseTier,
+  computeSegmentMetrics,
+  findStationRate,
+  getAppliedRate,
+  playedAtStation,
+  priceItems,
+  priceStretch,
+  rebillLines,
+  repriceSegment,
+  reviseSegment,
+  segmentTier,
+  summarizeTime,
+  tierForHeadcount,
+  currentLineId,
+  toSplitLines,
+  type BillSegmentLine,
+  type BillingOverrides,
+  type BillingStation,
+  type PricingTier,
+  type RatePricing,
+  type SessionBill,
+  type StationRateTier,
+} from "./billing";
 
 export type SessionItemWithCategory = SessionItem & { category: string | null };
 
@@ -20,43 +92,85 @@ export type ClosedSessionHistoryRow = Session & {
   stationType: string;
   items: SessionItemWithCategory[];
   timeSegments: SessionTimeSegment[];
+  checkout: CheckoutWithPayments | null;
+  adjustments: SessionAdjustment[];
 };
 
-type PricingTier = "solo" | "group";
+type BillingContext = {
+  session: Session;
+  station: BillingStation;
+  segments: SessionTimeSegment[];
+  items: SessionItem[];
+  rates: RatePricing;
+  stationRates: StationRateTier[];
+  players: SessionPlayer[];
+  /** Players who have not left. */
+  playerCount: number;
+};
 
-export type CloseSessionInput = {
-  pricingTier?: PricingTier;
-  currentSegmentPricingTier?: PricingTier;
-  segmentTierOverrides?: Array<{ segmentId: string; pricingTier: PricingTier }>;
+export type CloseSessionInput = BillingOverrides & {
+  payment?: CheckoutPaymentInput;
 };
 
-class SessionStorage {
-  private toNumber(value: string | number | null | undefined): number {
-    if (value === null || value === undefined) return 0;
-    const n = typeof value === "number" ? value : Number(value);
-    return Number.isFinite(n) ? n : 0;
-  }
+/** The loyalty customer a checkout credits its played seconds to. */
+export type CloseLoyalty = {
+  /** Null credits the customer attached to the session, if any. */
+  customerId: string | null;
+  thresholdSeconds: number;
+  /** Redeem the loyalty discount for this checkout; it earns the played seconds along the way. */
+  redeemDiscount: boolean;
+};
 
-  private computeSegmentMetrics(params: {
-    startedAt: Date;
-    endedAt: Date;
-    totalPausedSeconds: number;
-  }): { effectiveSeconds: number; timeHours: number } {
-    const grossSeconds = Math.max(0, Math.floor((params.endedAt.getTime() - params.startedAt.getTime()) / 1000));
-    const effectiveSeconds = Math.max(0, grossSeconds - params.totalPausedSeconds);
-    return { effectiveSeconds, timeHours: effectiveSeconds / 3600 };
-  }
+/** What the points program brings to a checkout: the customer's tier and the reward being spent. */
+export type PointsDiscounts = {
+  context: LoyaltyContext;
+  tier: LoyaltyTier | null;
+  reward: LoyaltyReward | null;
+  /** The reward and tier perk as discounts, in the order they are taken. */
+  specs: DiscountSpec[];
+};
 
-  private getAppliedRate(
-    pricingTier: PricingTier,
-    rateSoloHourlySnapshot: string | number | null | undefined,
-    rateGroupHourlySnapshot: string | number | null | undefined,
-  ): number {
-    const solo = this.toNumber(rateSoloHourlySnapshot);
-    const group = this.toNumber(rateGroupHourlySnapshot);
-    return pricingTier === "solo" ? solo : group;
-  }
+/** Who is adjusting a closed session, and the loyalty threshold for any seconds moved back. */
+export type AdjustmentContext = {
+  thresholdSeconds: number;
+  actorEmail: string | null;
+};
 
+export type RefundInput = {
+  reason: string;
+  amount?: number;
+  tenderType?: TenderType;
+};
+
+export type PrepaidInput = {
+  minutes: number;
+  /** Defaults to the station's charge for the prepaid minutes at the chosen tier. */
+  amount?: number;
+};
+
+/** A current member's plan as a checkout applies it. */
+export type MembershipDiscounts = MembershipPricing & {
+  membership: CustomerMembership;
+  plan: MembershipPlan;
+};
+
+/** The card a checkout pays with; storage errors are plain so the service can map them. */
+function usableGiftCard(card: GiftCard | undefined): GiftCard {
+  if (!card) throw new Error("Gift card not found");
+  if (!card.isActive) throw new Error("Gift card is inactive");
+  return card;
+}
+
+/** The voucher a checkout spends, priced against its bill. */
+function usableVoucher(voucher: TimeVoucher | undefined, bill: SessionBill): VoucherRedemption {
+  if (!voucher) throw new Error("Voucher not found");
+  const status = voucherStatus(voucher, bill.closedAt);
+  if (status === "redeemed") throw new Error("Voucher has already been redeemed");
+  if (status === "expired") throw new Error("Voucher has expired");
+  return priceVoucher(voucher, [...bill.segments, ...bill.currentSegments]);
+}
+
+class SessionStorage {
   async getActiveSessionForStation(userId: string, stationId: string): Promise<Session | undefined> {
     const [row] = await db
       .select()
@@ -78,7 +192,13 @@ class SessionStorage {
     stationId: string,
     pricingTier: PricingTier,
     startedAt: Date,
-    customerName?: string
+    customerName?: string,
+    prepaid?: PrepaidInput,
+    stationRateId?: string,
+    players: string[] = [],
+    customerId: string | null = null,
+    reservationId: string | null = null,
+    waitlistEntryId: string | null = null,
   ): Promise<Session> {
     const existing = await this.getActiveSessionForStation(userId, stationId);
     if (existing) return existing;
@@ -93,25 +213,56 @@ class SessionStorage {
       throw new Error("Station not found");
     }
 
-    const rateHourlySnapshot =
-      pricingTier === "group" ? station.rateGroupHourly : station.rateSoloHourly;
+    const tiers = await stationStorage.loadStationRateTiers(db, userId, [stationId]);
+    const tier = tierForHeadcount(
+      { pricingTier, stationRateId: stationRateId ?? null },
+      players.length,
+      station.playerBillingMode,
+    );
+    const stationRate = findStationRate(tiers, tier, stationId);
+    if (stationRate && !stationRate.isEnabled) throw new Error("Station rate is disabled");
+    const rateHourly =
+      (stationRate ? stationRate.rateHourly : getAppliedRate(tier.pricingTier, station.rateSoloHourly, station.rateGroupHourly)) *
+      playerRateMultiplier(station.playerBillingMode, players.length);
+    const rateHourlySnapshot = rateHourly.toFixed(2);
+    const prepaidAmount = prepaid
+      ? prepaid.amount ?? computeTimeCharge(prepaid.minutes * 60, rateHourly, station)
+      : null;
 
-    const [row] = await db
-      .insert(sessions)
-      .values({
-        userId,
-        stationId,
-        customerName: customerName ?? null,
-        status: "active",
-        startedAt,
-        pricingTier,
-        rateHourlySnapshot,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      } as any)
-      .returning();
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(sessions)
+        .values({
+          userId,
+          stationId,
+          customerName: customerName ?? null,
+          customerId,
+          status: "active",
+          startedAt,
+          pricingTier: tier.pricingTier,
+          stationRateId: stationRate?.id ?? null,
+          rateHourlySnapshot,
+          prepaidMinutes: prepaid?.minutes ?? null,
+          prepaidAmount: prepaidAmount === null ? null : prepaidAmount.toFixed(2),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        } as any)
+        .returning();
 
-    return row;
+      if (players.length > 0) {
+        await tx
+          .insert(sessionPlayers)
+          .values(players.map((name) => ({ sessionId: row.id, name, joinedAt: startedAt, joinedAtSeconds: 0 })));
+      }
+      // The reservation or waiting party is seated with the session or not at all.
+      if (reservationId && !(await reservationStorage.markSeated(tx, userId, reservationId, row.id))) {
+        throw new Error("Reservation is no longer booked");
+      }
+      if (waitlistEntryId && !(await waitlistStorage.markSeated(tx, userId, waitlistEntryId, stationId, row.id))) {
+        throw new Error("Party is no longer waiting");
+      }
+      return row;
+    });
   }
 
   async updateSessionName(userId: string, sessionId: string, customerName: string | null): Promise<Session | undefined> {
@@ -154,99 +305,147 @@ class SessionStorage {
     return row || undefined;
   }
 
-  private async applySegmentTierOverrides(
-    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+  private async loadBillingContext(
+    executor: DbExecutor,
     userId: string,
     sessionId: string,
-    overrides: Array<{ segmentId: string; pricingTier: PricingTier }>,
-  ): Promise<void> {
-    if (overrides.length === 0) return;
+  ): Promise<BillingContext | undefined> {
+    const [session] = await executor
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
+      .limit(1);
+    if (!session) return undefined;
 
-    const segmentIds = overrides.map((x) => x.segmentId);
-    const rows = await tx
+    const [station] = await executor
       .select({
-        id: sessionTimeSegments.id,
-        sessionId: sessionTimeSegments.sessionId,
-        rateSoloHourlySnapshot: sessionTimeSegments.rateSoloHourlySnapshot,
-        rateGroupHourlySnapshot: sessionTimeSegments.rateGroupHourlySnapshot,
-        effectiveSeconds: sessionTimeSegments.effectiveSeconds,
+        id: stations.id,
+        name: stations.name,
+        stationType: stations.stationType,
+        rateSoloHourly: stations.rateSoloHourly,
+        rateGroupHourly: stations.rateGroupHourly,
+        billingIncrementMinutes: stations.billingIncrementMinutes,
+        billingRoundingMode: stations.billingRoundingMode,
+        minimumBillableMinutes: stations.minimumBillableMinutes,
+        graceMinutes: stations.graceMinutes,
+        playerBillingMode: stations.playerBillingMode,
       })
+      .from(stations)
+      .where(and(eq(stations.userId, userId), eq(stations.id, session.stationId)))
+      .limit(1);
+    if (!station) throw new Error("Station not found");
+
+    const segments = await executor
+      .select()
       .from(sessionTimeSegments)
-      .innerJoin(sessions, and(eq(sessions.id, sessionTimeSegments.sessionId), eq(sessions.userId, userId)))
-      .where(and(eq(sessionTimeSegments.sessionId, sessionId), inArray(sessionTimeSegments.id, segmentIds)));
-
-    const byId = new Map(rows.map((row) => [row.id, row]));
-    for (const override of overrides) {
-      const row = byId.get(override.segmentId);
-      if (!row) throw new Error("Invalid segment override");
-      const appliedRate = this.getAppliedRate(
-        override.pricingTier,
-        row.rateSoloHourlySnapshot,
-        row.rateGroupHourlySnapshot,
-      );
-      const timeAmount = ((Math.max(0, row.effectiveSeconds) / 3600) * appliedRate).toFixed(2);
+      .where(eq(sessionTimeSegments.sessionId, sessionId))
+      .orderBy(asc(sessionTimeSegments.sequence), asc(sessionTimeSegments.createdAt));
 
-      await tx
-        .update(sessionTimeSegments)
-        .set({
-          pricingTier: override.pricingTier,
-          rateHourlyApplied: appliedRate.toFixed(2),
-          timeAmount,
-          updatedAt: new Date(),
-        } as any)
-        .where(eq(sessionTimeSegments.id, override.segmentId));
-    }
+    const items = await executor
+      .select()
+      .from(sessionItems)
+      .where(eq(sessionItems.sessionId, sessionId))
+      .orderBy(asc(sessionItems.createdAt));
+
+    const rates = await this.loadRatePricing(executor, userId, station);
+    const stationRates = await stationStorage.loadStationRateTiers(
+      executor,
+      userId,
+      Array.from(new Set([station.id, ...segments.map((segment) => segment.stationId)])),
+    );
+    const players = await this.loadPlayers(executor, sessionId);
+    const playerCount = players.filter((player) => !player.leftAt).length;
+
+    return { session, station, segments, items, rates, stationRates, players, playerCount };
   }
 
-  private async createSegmentSnapshot(
-    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
-    input: {
-      session: Session;
-      stationId: string;
-      stationNameSnapshot: string;
-      stationTypeSnapshot: string;
-      endedAt: Date;
-      pricingTier: PricingTier;
-      rateSoloHourlySnapshot: string | number;
-      rateGroupHourlySnapshot: string | number;
-      totalPausedSeconds: number;
-    },
-  ): Promise<SessionTimeSegment> {
-    const metrics = this.computeSegmentMetrics({
-      startedAt: input.session.startedAt,
-      endedAt: input.endedAt,
-      totalPausedSeconds: input.totalPausedSeconds,
+  private async loadPlayers(executor: DbExecutor, sessionId: string): Promise<SessionPlayer[]> {
+    return executor
+      .select()
+      .from(sessionPlayers)
+      .where(eq(sessionPlayers.sessionId, sessionId))
+      .orderBy(asc(sessionPlayers.joinedAt), asc(sessionPlayers.createdAt));
+  }
+
+  /** The session's play clock at `at`: effective seconds over its segments and the open stretch. */
+  private playClockSeconds(session: Session, segments: Array<{ effectiveSeconds: number }>, at: Date): number {
+    const { effectiveSeconds } = computeSegmentMetrics({
+      startedAt: session.startedAt,
+      endedAt: session.status === "paused" && session.pausedAt ? session.pausedAt : at,
+      totalPausedSeconds: session.totalPausedSeconds ?? 0,
     });
+    return segments.reduce((sum, segment) => sum + segment.effectiveSeconds, 0) + effectiveSeconds;
+  }
 
-    const appliedRate = this.getAppliedRate(
-      input.pricingTier,
-      input.rateSoloHourlySnapshot,
-      input.rateGroupHourlySnapshot,
-    );
+  /** Record when players still on the session stopped, given its play clock at that moment. */
+  private async finishPlayers(tx: DbTransaction, sessionId: string, leftAt: Date, clockSeconds: number): Promise<void> {
+    await tx
+      .update(sessionPlayers)
+      .set({
+        leftAt,
+        playedSeconds: sql`greatest(0, ${clockSeconds} - ${sessionPlayers.joinedAtSeconds})`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(sessionPlayers.sessionId, sessionId), isNull(sessionPlayers.leftAt)));
+  }
 
+  private async loadRatePricing(
+    executor: DbExecutor,
+    userId: string,
+    station: { id: string; stationType: string },
+  ): Promise<RatePricing> {
+    const schedules = await rateScheduleStorage.listApplicableSchedules(executor, userId, station);
+    if (schedules.length === 0) return { schedules, timeZone: "UTC" };
+
+    const [user] = await executor
+      .select({ timeZone: users.timeZone })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    return { schedules, timeZone: user?.timeZone ?? "UTC" };
+  }
+
+  private async insertSegmentLine(
+    tx: DbTransaction,
+    sessionId: string,
+    line: BillSegmentLine,
+    closedStretch = false,
+  ): Promise<SessionTimeSegment> {
     const [seqRow] = await tx
       .select({ max: sql<number>`coalesce(max(${sessionTimeSegments.sequence}), 0)` })
       .from(sessionTimeSegments)
-      .where(eq(sessionTimeSegments.sessionId, input.session.id));
+      .where(eq(sessionTimeSegments.sessionId, sessionId));
 
     const nextSequence = (seqRow?.max ?? 0) + 1;
 
     const [created] = await tx
       .insert(sessionTimeSegments)
       .values({
-        sessionId: input.session.id,
+        sessionId,
         sequence: nextSequence,
-        stationId: input.stationId,
-        stationNameSnapshot: input.stationNameSnapshot,
-        stationTypeSnapshot: input.stationTypeSnapshot,
-        startedAt: input.session.startedAt,
-        endedAt: input.endedAt,
-        effectiveSeconds: metrics.effectiveSeconds,
-        pricingTier: input.pricingTier,
-        rateSoloHourlySnapshot: this.toNumber(input.rateSoloHourlySnapshot).toFixed(2),
-        rateGroupHourlySnapshot: this.toNumber(input.rateGroupHourlySnapshot).toFixed(2),
-        rateHourlyApplied: appliedRate.toFixed(2),
-        timeAmount: (metrics.timeHours * appliedRate).toFixed(2),
+        stationId: line.stationId,
+        stationNameSnapshot: line.stationName,
+        stationTypeSnapshot: line.stationType,
+        startedAt: line.startedAt,
+        endedAt: line.endedAt,
+        effectiveSeconds: line.effectiveSeconds,
+        billableSeconds: line.billableSeconds,
+        billingIncrementMinutesSnapshot: line.billingRule.billingIncrementMinutes,
+        billingRoundingModeSnapshot: line.billingRule.billingRoundingMode,
+        minimumBillableMinutesSnapshot: line.billingRule.minimumBillableMinutes,
+        graceMinutesSnapshot: line.billingRule.graceMinutes,
+        pricingTier: line.pricingTier,
+        rateSoloHourlySnapshot: line.rateSoloHourly.toFixed(2),
+        rateGroupHourlySnapshot: line.rateGroupHourly.toFixed(2),
+        rateHourlyApplied: line.rateHourlyApplied.toFixed(2),
+        stationRateId: line.stationRateId,
+        stationRateNameSnapshot: line.stationRateName,
+        rateScheduleId: line.rateScheduleId,
+        rateScheduleNameSnapshot: line.rateScheduleName,
+        timeAmount: line.timeAmount.toFixed(2),
+        playerCount: line.playerCount,
+        billedPerPlayer: line.billedPerPlayer,
+        closedStretch,
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any)
@@ -255,85 +454,896 @@ class SessionStorage {
     return created;
   }
 
+  /** Each session item's menu category, by session item id; items whose menu item is gone have none. */
+  private async loadItemCategories(executor: DbExecutor, itemIds: string[]): Promise<Map<string, string>> {
+    const rows = itemIds.length
+      ? await executor
+          .select({ id: sessionItems.id, category: menuItems.category })
+          .from(sessionItems)
+          .innerJoin(menuItems, eq(sessionItems.menuItemId, menuItems.id))
+          .where(inArray(sessionItems.id, itemIds))
+      : [];
+    return new Map(rows.map((row) => [row.id, row.category]));
+  }
+
+  /** Narrow promotion and manual discounts to a bill's segments and items. */
+  private resolveDiscounts(
+    specs: DiscountSpec[],
+    segments: BillSegmentLine[],
+    itemIds: string[],
+    categories: Map<string, string>,
+  ): DiscountInput[] {
+    const targets = {
+      segments: segments.map((line) => ({ stationId: line.stationId, amount: line.timeAmount })),
+      items: itemIds.map((lineId) => ({ lineId, category: categories.get(lineId) ?? null })),
+    };
+    return specs.map((spec) => resolveDiscount(spec, targets));
+  }
+
+  /**
+   * Under the points program, the reward the customer spends and their tier's discount. Rewards are
+   * checked here; whether the customer has the points is settled when they are redeemed.
+   */
+  private async loadPointsDiscounts(
+    executor: DbExecutor,
+    userId: string,
+    customer: Customer | undefined,
+    rewardId: string | undefined,
+    bill: SessionBill,
+  ): Promise<PointsDiscounts> {
+    const context = await loyaltyStorage.loadLoyaltyContext(executor, userId);
+    if (context.program !== "points") {
+      if (rewardId) throw new Error("Rewards are not enabled");
+      return { context, tier: null, reward: null, specs: [] };
+    }
+
+    const specs: DiscountSpec[] = [];
+    let reward: LoyaltyReward | null = null;
+    if (rewardId) {
+      if (!customer) throw new Error("Rewards need a loyalty customer");
+      reward = (await loyaltyStorage.getReward(executor, userId, rewardId)) ?? null;
+      if (!reward || !reward.isEnabled) throw new Error("Reward not found");
+      specs.push(toRewardSpec(reward, bill));
+    }
+    const tier = customer ? tierFor(context, customer.tierPoints) : null;
+    const tierSpec = tier ? toTierSpec(tier) : null;
+    if (tierSpec) specs.push(tierSpec);
+    return { context, tier, reward, specs };
+  }
+
+  /**
+   * The customer's membership priced against the bill, or undefined when they have none or it has
+   * lapsed. With `lock`, the membership stays locked for the caller's transaction.
+   */
+  private async loadMembershipDiscounts(
+    executor: DbExecutor,
+    userId: string,
+    customerId: string,
+    bill: SessionBill,
+    lock = false,
+  ): Promise<MembershipDiscounts | undefined> {
+    const found = await membershipStorage.getCustomerMembership(executor, userId, customerId, lock);
+    if (!found || !isMembershipCurrent(found.membership, bill.closedAt)) return undefined;
+    const segments = [...bill.segments, ...bill.currentSegments];
+    const memberRates = found.plan.memberRateName
+      ? await membershipStorage.loadMemberRates(
+          executor,
+          userId,
+          Array.from(new Set(segments.map((line) => line.stationId))),
+          found.plan.memberRateName,
+        )
+      : new Map<string, number>();
+    const secondsLeft = includedSecondsLeft(found.membership, found.plan);
+    return { ...found, ...priceMembership(found.plan, secondsLeft, segments, memberRates) };
+  }
+
+  /** What a bill is taxed at under the store's current tax classes, each item by its menu category. */
+  private async loadTaxInput(
+    executor: DbExecutor,
+    userId: string,
+    bill: SessionBill,
+    categories: Map<string, string>,
+  ): Promise<TaxInput> {
+    const context = await taxStorage.loadTaxContext(executor, userId);
+    return {
+      inclusive: context.inclusive,
+      timeRates: context.timeRates,
+      items: bill.items.map((line) => ({
+        lineId: line.id,
+        amount: line.lineTotal,
+        rates: ratesForCategory(context, categories.get(line.id) ?? null),
+      })),
+    };
+  }
+
+  /** Price an open session as if it closed now, without writing anything. */
+  async quoteSession(
+    userId: string,
+    sessionId: string,
+    input?: CloseSessionInput,
+    discounts: DiscountSpec[] = [],
+    loyaltyCustomer?: Customer | null,
+  ): Promise<
+    | {
+        session: Session;
+        bill: SessionBill;
+        tax: TaxInput;
+        discounts: DiscountInput[];
+        players: SessionPlayer[];
+        points: PointsDiscounts;
+        customer: Customer | undefined;
+        giftCard: GiftCard | undefined;
+        voucher: VoucherRedemption | undefined;
+        membership: MembershipDiscounts | undefined;
+      }
+    | undefined
+  > {
+    const context = await this.loadBillingContext(db, userId, sessionId);
+    if (!context) return undefined;
+    if (context.session.status === "closed") throw new Error("Session is closed");
+
+    const bill = buildSessionBill({ ...context, closedAt: new Date(), overrides: input });
+    const itemIds = bill.items.map((line) => line.id);
+    const categories = await this.loadItemCategories(db, itemIds);
+    const tax = await this.loadTaxInput(db, userId, bill, categories);
+    // Undefined quotes the customer attached to the session; null means the phone given matched no one.
+    const linkedId = loyaltyCustomer === undefined ? context.session.customerId : null;
+    const customer = linkedId ? await customerStorage.getCustomerById(userId, linkedId) : loyaltyCustomer ?? undefined;
+    const points = await this.loadPointsDiscounts(db, userId, customer, input?.payment?.rewardId, bill);
+    const giftCardCode = input?.payment?.giftCardCode;
+    const giftCard = giftCardCode
+      ? usableGiftCard(await giftCardStorage.getGiftCardByCode(db, userId, normalizeGiftCardCode(giftCardCode)))
+      : undefined;
+    const voucherCode = input?.payment?.voucherCode;
+    const voucher = voucherCode
+      ? usableVoucher(await timeVoucherStorage.getVoucherByCode(db, userId, normalizeVoucherCode(voucherCode)), bill)
+      : undefined;
+    const membership = customer ? await this.loadMembershipDiscounts(db, userId, customer.id, bill) : undefined;
+    return {
+      session: context.session,
+      bill,
+      tax,
+      discounts: this.resolveDiscounts(
+        [...(membership?.specs ?? []), ...discounts, ...points.specs, ...(voucher ? [voucher.spec] : [])],
+        [...bill.segments, ...bill.currentSegments],
+        itemIds,
+        categories,
+      ),
+      players: context.players,
+      points,
+      customer,
+      giftCard,
+      voucher,
+      membership,
+    };
+  }
+
   async closeSession(
     userId: string,
     sessionId: string,
-    input?: CloseSessionInput
+    input?: CloseSessionInput,
+    discountRate = 0,
+    loyalty?: CloseLoyalty,
+    closedByEmail: string | null = null,
+    discounts: DiscountSpec[] = [],
   ): Promise<Session | undefined> {
     return db.transaction(async (tx) => {
-      const [current] = await tx
-        .select()
-        .from(sessions)
-        .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
-        .limit(1);
+      const context = await this.loadBillingContext(tx, userId, sessionId);
+      if (!context) return undefined;
+      if (context.session.status === "closed") return context.session;
 
-      if (!current) return undefined;
-      if (current.status === "closed") return current;
+      const bill = buildSessionBill({ ...context, closedAt: new Date(), overrides: input });
 
-      const closedAt = new Date();
-      let totalPausedSeconds = current.totalPausedSeconds ?? 0;
+      const overridden = new Set((input?.segmentTierOverrides ?? []).map((x) => x.segmentId));
+      for (const line of bill.segments) {
+        if (!line.segmentId || !overridden.has(line.segmentId)) continue;
+        await tx
+          .update(sessionTimeSegments)
+          .set({
+            pricingTier: line.pricingTier,
+            stationRateId: line.stationRateId,
+            stationRateNameSnapshot: line.stationRateName,
+            rateHourlyApplied: line.rateHourlyApplied.toFixed(2),
+            timeAmount: line.timeAmount.toFixed(2),
+            updatedAt: new Date(),
+          } as any)
+          .where(eq(sessionTimeSegments.id, line.segmentId));
+      }
 
-      if (current.status === "paused" && current.pausedAt) {
-        const extra = Math.max(0, Math.floor((closedAt.getTime() - current.pausedAt.getTime()) / 1000));
-        totalPausedSeconds += extra;
+      const itemIds = bill.items.map((line) => line.id);
+      const categories = await this.loadItemCategories(tx, itemIds);
+      const tax = await this.loadTaxInput(tx, userId, bill, categories);
+      const loyaltyCustomerId = loyalty ? loyalty.customerId ?? context.session.customerId : null;
+      const customer = loyaltyCustomerId ? await customerStorage.lockCustomer(tx, userId, loyaltyCustomerId) : undefined;
+      const points = await this.loadPointsDiscounts(tx, userId, customer, input?.payment?.rewardId, bill);
+      const giftCardCode = input?.payment?.giftCardCode;
+      const giftCard = giftCardCode
+        ? usableGiftCard(await giftCardStorage.lockGiftCardByCode(tx, userId, normalizeGiftCardCode(giftCardCode)))
+        : undefined;
+      const voucherCode = input?.payment?.voucherCode;
+      const voucher = voucherCode
+        ? usableVoucher(await timeVoucherStorage.lockVoucherByCode(tx, userId, normalizeVoucherCode(voucherCode)), bill)
+        : undefined;
+      // The customer the checkout credits is the one whose membership prices it.
+      const membership = loyaltyCustomerId
+        ? await this.loadMembershipDiscounts(tx, userId, loyaltyCustomerId, bill, true)
+        : undefined;
+      const plan = planCheckout({
+        timeSubtotal: bill.timeSubtotal,
+        itemsSubtotal: bill.itemsSubtotal,
+        discountRate,
+        prepaidCredit: bill.prepaid?.prepaidAmount,
+        payment: input?.payment ?? { tenderType: "card" },
+        lines: toSplitLines(bill.segments, bill.currentSegments, bill.items),
+        discounts: this.resolveDiscounts(
+          [...(membership?.specs ?? []), ...discounts, ...points.specs, ...(voucher ? [voucher.spec] : [])],
+          [...bill.segments, ...bill.currentSegments],
+          itemIds,
+          categories,
+        ),
+        tax,
+        giftCard: giftCard ? { id: giftCard.id, balance: Number(giftCard.balance) } : undefined,
+      });
+      for (const line of plan.discountLines) {
+        if (!line.promotionId) continue;
+        const claimed = await promotionStorage.claimUse(tx, userId, line.promotionId);
+        if (!claimed) throw new Error("Promotion usage limit reached");
+      }
+      if (customer && points.reward) {
+        const redeemed = await customerStorage.redeemPoints(tx, userId, customer.id, points.reward.pointsCost, {
+          rewardId: points.reward.id,
+          sessionId,
+          actorEmail: closedByEmail,
+          note: points.reward.name,
+        });
+        if (!redeemed) throw new Error("Not enough points");
+      }
+      // Seconds this checkout adds to the customer's balance, so reversing it takes back no more.
+      let creditedSeconds = 0;
+      if (loyalty?.redeemDiscount) {
+        if (!customer) throw new Error("Loyalty discount needs a loyalty customer");
+        const redeemed = await customerStorage.redeemDiscount(
+          tx,
+          userId,
+          customer.id,
+          bill.effectiveSeconds,
+          loyalty.thresholdSeconds,
+          { sessionId, actorEmail: closedByEmail },
+        );
+        if (!redeemed) throw new Error("Customer is not eligible for the loyalty discount");
+        creditedSeconds = bill.effectiveSeconds;
+      }
+      if (membership && (membership.includedSeconds > 0 || membership.specs.length > 0)) {
+        const amount = plan.discountLines
+          .filter((line) => line.source === "membership")
+          .reduce((sum, line) => sum + line.amount, 0);
+        await membershipStorage.recordUsage(
+          tx,
+          userId,
+          membership.membership,
+          sessionId,
+          membership.includedSeconds,
+          roundMoney(amount),
+        );
+      }
+      if (voucher) {
+        const line = plan.discountLines.find((discount) => discount.source === "voucher");
+        await timeVoucherStorage.redeemVoucher(tx, voucher.voucher.id, {
+          sessionId,
+          minutes: voucher.minutes,
+          amount: line?.amount ?? 0,
+        });
+      }
+      const giftPayment = plan.payments.find((payment) => payment.giftCardId);
+      if (giftCard && giftPayment) {
+        await giftCardStorage.recordTransaction(tx, userId, giftCard, -roundMoney(giftPayment.amount + giftPayment.tipAmount), {
+          kind: "redeem",
+          sessionId,
+          actorEmail: closedByEmail,
+        });
+      }
+      for (let index = 0; index < bill.items.length; index++) {
+        await tx
+          .update(sessionItems)
+          .set({ taxRates: tax.items[index].rates })
+          .where(eq(sessionItems.id, bill.items[index].id));
       }
 
-      const currentSegmentPricingTier = input?.currentSegmentPricingTier ?? input?.pricingTier ?? current.pricingTier;
-      const effectivePricingTier = currentSegmentPricingTier;
+      // Payers assigned the open stretch by window; point them at the segment rows written for it.
+      const currentIds = new Map<string, string>();
+      for (const line of bill.currentSegments) {
+        const created = await this.insertSegmentLine(tx, sessionId, line, true);
+        currentIds.set(currentLineId(line), created.id);
+      }
+      for (const payer of plan.payers) {
+        payer.allocations = payer.allocations.map((allocation) => ({
+          ...allocation,
+          lineId: currentIds.get(allocation.lineId) ?? allocation.lineId,
+        }));
+      }
+      await this.finishPlayers(tx, sessionId, bill.closedAt, bill.effectiveSeconds);
+      const lastLine = bill.currentSegments[bill.currentSegments.length - 1];
+      // Points are earned on what was paid, at the tier the customer held coming in.
+      const earnedPoints = pointsEarned(points.context, points.tier, plan.finalTotal, bill.effectiveSeconds);
+      // Redeeming the discount has already earned the played seconds.
+      const creditSeconds = !loyalty?.redeemDiscount;
+      if (loyalty && loyaltyCustomerId && (creditSeconds || earnedPoints > 0)) {
+        const credited = await customerStorage.recordTransaction(
+          tx,
+          userId,
+          loyaltyCustomerId,
+          creditSeconds ? bill.effectiveSeconds : 0,
+          loyalty.thresholdSeconds,
+          { kind: "earn", points: earnedPoints, sessionId, actorEmail: closedByEmail },
+        );
+        if (credited && creditSeconds) creditedSeconds = bill.effectiveSeconds;
+      }
+      await paymentStorage.createCheckout(
+        tx,
+        userId,
+        sessionId,
+        plan,
+        loyaltyCustomerId ? { customerId: loyaltyCustomerId, seconds: creditedSeconds } : undefined,
+        closedByEmail,
+      );
 
-      const [station] = await tx
-        .select({
-          name: stations.name,
-          stationType: stations.stationType,
-          rateSoloHourly: stations.rateSoloHourly,
-          rateGroupHourly: stations.rateGroupHourly,
-        })
-        .from(stations)
-        .where(and(eq(stations.userId, userId), eq(stations.id, current.stationId)))
-        .limit(1);
+      const [row] = await tx
+        .update(sessions)
+        .set({
+          status: "closed",
+          closedAt: bill.closedAt,
+          pausedAt: null,
+          totalPausedSeconds: bill.totalPausedSeconds,
+          pricingTier: bill.currentPricingTier,
+          stationRateId: bill.currentStationRateId,
+          rateHourlySnapshot: lastLine.rateHourlyApplied.toFixed(2),
+          totalAmount: bill.timeSubtotal.toFixed(2),
+          updatedAt: new Date(),
+        } as any)
+        .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
+        .returning();
 
-      if (!station) throw new Error("Station not found");
-
-      const overrides = input?.segmentTierOverrides ?? [];
-      await this.applySegmentTierOverrides(tx, userId, sessionId, overrides);
-
-      await this.createSegmentSnapshot(tx, {
-        session: current,
-        stationId: current.stationId,
-        stationNameSnapshot: station.name,
-        stationTypeSnapshot: station.stationType,
-        endedAt: closedAt,
-        pricingTier: effectivePricingTier,
-        rateSoloHourlySnapshot: station.rateSoloHourly,
-        rateGroupHourlySnapshot: station.rateGroupHourly,
-        totalPausedSeconds,
-      });
+      return row || undefined;
+    });
+  }
 
-      const [sumRow] = await tx
-        .select({ total: sql<string>`coalesce(sum(${sessionTimeSegments.timeAmount}), 0)` })
-        .from(sessionTimeSegments)
-        .where(eq(sessionTimeSegments.sessionId, sessionId));
-      const totalAmount = this.toNumber(sumRow?.total).toFixed(2);
+  private async getClosedSession(tx: DbTransaction, userId: string, sessionId: string): Promise<Session | undefined> {
+    const [session] = await tx
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
+      .limit(1);
+    if (!session) return undefined;
+    if (session.status !== "closed") throw new Error("Session is not closed");
+    return session;
+  }
+
+  /**
+   * Take back the seconds a checkout credited to its loyalty customer, along with the points it earned
+   * and spent, and give back the loyalty discount it redeemed. Returns the seconds reversed.
+   */
+  private async reverseLoyalty(
+    tx: DbTransaction,
+    userId: string,
+    checkout: CheckoutWithPayments,
+    context: AdjustmentContext,
+  ): Promise<number> {
+    await customerStorage.reverseSessionPoints(tx, userId, checkout.sessionId, { actorEmail: context.actorEmail });
+    // Restore first so the clawback has the redeemed seconds to come out of.
+    await customerStorage.restoreSessionDiscount(tx, userId, checkout.sessionId, context.thresholdSeconds, {
+      actorEmail: context.actorEmail,
+    });
+    if (!checkout.loyaltyCustomerId || checkout.loyaltySeconds <= 0) return 0;
+    await customerStorage.recordTransaction(
+      tx,
+      userId,
+      checkout.loyaltyCustomerId,
+      -checkout.loyaltySeconds,
+      context.thresholdSeconds,
+      { kind: "reverse", sessionId: checkout.sessionId, actorEmail: context.actorEmail },
+    );
+    await paymentStorage.setLoyaltySeconds(tx, checkout.id, 0);
+    return checkout.loyaltySeconds;
+  }
+
+  private async insertAdjustment(
+    tx: DbTransaction,
+    userId: string,
+    sessionId: string,
+    context: AdjustmentContext,
+    values: Pick<SessionAdjustment, "type" | "reason"> &
+      Partial<Pick<SessionAdjustment, "amount" | "tenderType" | "loyaltySecondsReversed" | "changes">>,
+  ): Promise<void> {
+    await tx.insert(sessionAdjustments).values({
+      userId,
+      sessionId,
+      ...values,
+      actorEmail: context.actorEmail,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Undo a checkout: drop the checkout and the segments closeSession snapshotted, and put the
+   * session back on its station. Reopening as paused stops the clock at the original close.
+   */
+  async reopenSession(
+    userId: string,
+    sessionId: string,
+    input: ReopenSessionInput,
+    context: AdjustmentContext,
+  ): Promise<Session | undefined> {
+    return db.transaction(async (tx) => {
+      const session = await this.getClosedSession(tx, userId, sessionId);
+      if (!session) return undefined;
 
-      const selectedRateRaw =
-        effectivePricingTier === "solo" ? station.rateSoloHourly : station.rateGroupHourly;
-      const selectedRate = this.toNumber(selectedRateRaw);
+      const checkout = await paymentStorage.getCheckoutForSession(tx, userId, sessionId);
+      if (checkout?.voidedAt) throw new Error("Voided sessions cannot be reopened");
+      if (checkout && Number(checkout.refundedAmount) > 0) throw new Error("Refunded sessions cannot be reopened");
 
+      const occupied = await tx
+        .select({ id: sessions.id })
+        .from(sessions)
+        .where(
+          and(
+            eq(sessions.userId, userId),
+            eq(sessions.stationId, session.stationId),
+            ne(sessions.status, "closed"),
+          ),
+        )
+        .limit(1);
+      if (occupied.length > 0) throw new Error("Station already has an active session");
+
+      await tx
+        .delete(sessionTimeSegments)
+        .where(and(eq(sessionTimeSegments.sessionId, sessionId), eq(sessionTimeSegments.closedStretch, true)));
+      // Players the close sent home are back on the session.
+      if (session.closedAt) {
+        await tx
+          .update(sessionPlayers)
+          .set({ leftAt: null, playedSeconds: null, updatedAt: new Date() })
+          .where(and(eq(sessionPlayers.sessionId, sessionId), eq(sessionPlayers.leftAt, session.closedAt)));
+      }
+
+      let loyaltySecondsReversed = 0;
+      if (checkout) {
+        loyaltySecondsReversed = await this.reverseLoyalty(tx, userId, checkout, context);
+        // The code is claimed again if the session is checked out with it.
+        for (const line of checkout.discounts) {
+          if (line.promotionId) await promotionStorage.releaseUse(tx, userId, line.promotionId);
+        }
+        await giftCardStorage.restoreSessionDebits(tx, userId, sessionId, {
+          actorEmail: context.actorEmail,
+          note: "Session reopened",
+        });
+        await timeVoucherStorage.releaseSessionVouchers(tx, userId, sessionId);
+        await membershipStorage.releaseSessionUsage(tx, userId, sessionId);
+        await paymentStorage.deleteCheckout(tx, checkout.id);
+      }
+
+      const closedAt = session.closedAt ?? new Date();
       const [row] = await tx
         .update(sessions)
         .set({
-          status: "closed",
-          closedAt,
-          pausedAt: null,
-          totalPausedSeconds,
-          pricingTier: effectivePricingTier,
-          rateHourlySnapshot: selectedRate.toFixed(2),
-          totalAmount,
+          status: input.status,
+          closedAt: null,
+          pausedAt: input.status === "paused" ? closedAt : null,
+          totalAmount: null,
           updatedAt: new Date(),
         } as any)
         .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
         .returning();
 
+      await this.insertAdjustment(tx, userId, sessionId, context, {
+        type: "reopen",
+        reason: input.reason,
+        loyaltySecondsReversed,
+      });
+      return row || undefined;
+    });
+  }
+
+  /**
+   * Mark a checkout void so it no longer counts as a sale; payments are kept for the record. Its
+   * promotion codes get their uses back, gift cards get back what the session took off them, its
+   * time vouchers can be redeemed again, and members get back the included time it used.
+   */
+  async voidSession(
+    userId: string,
+    sessionId: string,
+    reason: string,
+    context: AdjustmentContext,
+  ): Promise<Session | undefined> {
+    return db.transaction(async (tx) => {
+      const session = await this.getClosedSession(tx, userId, sessionId);
+      if (!session) return undefined;
+
+      const checkout = await paymentStorage.getCheckoutForSession(tx, userId, sessionId);
+      if (!checkout) throw new Error("Session has no checkout");
+      if (checkout.voidedAt) throw new Error("Session is already voided");
+
+      const loyaltySecondsReversed = await this.reverseLoyalty(tx, userId, checkout, context);
+      for (const line of checkout.discounts) {
+        if (line.promotionId) await promotionStorage.releaseUse(tx, userId, line.promotionId);
+      }
+      await giftCardStorage.restoreSessionDebits(tx, userId, sessionId, {
+        actorEmail: context.actorEmail,
+        note: "Session voided",
+      });
+      await timeVoucherStorage.releaseSessionVouchers(tx, userId, sessionId);
+      await membershipStorage.releaseSessionUsage(tx, userId, sessionId);
+      await paymentStorage.markVoided(tx, checkout.id);
+      await this.insertAdjustment(tx, userId, sessionId, context, {
+        type: "void",
+        reason,
+        amount: getRefundableAmount(checkout).toFixed(2),
+        loyaltySecondsReversed,
+      });
+      return session;
+    });
+  }
+
+  /** Refund part or all of a checkout. Loyalty seconds are reversed once nothing is left to refund. */
+  async refundSession(
+    userId: string,
+    sessionId: string,
+    input: RefundInput,
+    context: AdjustmentContext,
+  ): Promise<Session | undefined> {
+    return db.transaction(async (tx) => {
+      const session = await this.getClosedSession(tx, userId, sessionId);
+      if (!session) return undefined;
+
+      const checkout = await paymentStorage.getCheckoutForSession(tx, userId, sessionId);
+      if (!checkout) throw new Error("Session has no checkout");
+      if (checkout.voidedAt) throw new Error("Voided sessions cannot be refunded");
+
+      const refundable = getRefundableAmount(checkout);
+      if (refundable <= 0) throw new Error("Session is already fully refunded");
+      const amount = roundMoney(input.amount ?? refundable);
+      if (amount > refundable) throw new Error("Refund exceeds the amount paid");
+
+      const tenderType = input.tenderType ?? checkout.payments[0]?.tenderType ?? "card";
+      let giftCardId: string | null = null;
+      if (tenderType === "gift_card") {
+        // Money goes back on the card that paid, up to what the session still has off it.
+        giftCardId = checkout.payments.find((payment) => payment.giftCardId)?.giftCardId ?? null;
+        const card = giftCardId ? await giftCardStorage.lockGiftCard(tx, userId, giftCardId) : undefined;
+        if (!card) throw new Error("Checkout wasn't paid by gift card");
+        const debits = await giftCardStorage.sessionDebits(tx, userId, sessionId);
+        if (amount > (debits.get(card.id) ?? 0)) throw new Error("Refund exceeds what the gift card paid");
+        await giftCardStorage.recordTransaction(tx, userId, card, amount, {
+          kind: "refund",
+          sessionId,
+          actorEmail: context.actorEmail,
+          note: input.reason,
+        });
+      }
+      await paymentStorage.recordRefund(tx, checkout, amount, tenderType, giftCardId);
+
+      const loyaltySecondsReversed =
+        amount === refundable ? await this.reverseLoyalty(tx, userId, checkout, context) : 0;
+      await this.insertAdjustment(tx, userId, sessionId, context, {
+        type: "refund",
+        reason: input.reason,
+        amount: amount.toFixed(2),
+        tenderType,
+        loyaltySecondsReversed,
+      });
+      return session;
+    });
+  }
+
+  /** Give back (positive delta) or take (negative delta) stock for a corrected item line. */
+  private async restockItem(tx: DbTransaction, userId: string, item: SessionItem, delta: number): Promise<void> {
+    if (!item.menuItemId || delta === 0) return;
+    const [menuItem] = await tx
+      .select()
+      .from(menuItems)
+      .where(and(eq(menuItems.userId, userId), eq(menuItems.id, item.menuItemId)))
+      .limit(1);
+    // Variable-price items never took stock when they were added.
+    if (!menuItem || menuItem.isVariablePrice) return;
+
+    const stockQty = (menuItem.stockQty ?? 0) + delta;
+    if (stockQty < 0) throw new Error("Insufficient stock");
+    await tx
+      .update(menuItems)
+      .set({ stockQty, updatedAt: new Date() })
+      .where(and(eq(menuItems.userId, userId), eq(menuItems.id, menuItem.id)));
+  }
+
+  /**
+   * Correct a closed session's segment times, tiers and item quantities. Charges are recomputed
+   * from each segment's rate snapshots and the checkout is rewritten at its original discount and tenders.
+   */
+  async editClosedSession(
+    userId: string,
+    sessionId: string,
+    input: EditClosedSessionInput,
+    context: AdjustmentContext,
+  ): Promise<Session | undefined> {
+    return db.transaction(async (tx) => {
+      const session = await this.getClosedSession(tx, userId, sessionId);
+      if (!session) return undefined;
+
+      const checkout = await paymentStorage.getCheckoutForSession(tx, userId, sessionId);
+      if (checkout?.voidedAt) throw new Error("Voided sessions cannot be edited");
+      if (checkout && Number(checkout.refundedAmount) > 0) throw new Error("Refunded sessions cannot be edited");
+
+      const segments = await tx
+        .select()
+        .from(sessionTimeSegments)
+        .where(eq(sessionTimeSegments.sessionId, sessionId))
+        .orderBy(asc(sessionTimeSegments.sequence), asc(sessionTimeSegments.createdAt));
+      const items = await tx
+        .select()
+        .from(sessionItems)
+        .where(eq(sessionItems.sessionId, sessionId))
+        .orderBy(asc(sessionItems.createdAt));
+
+      const changes: SessionEditChange[] = [];
+      const segmentPatches = new Map((input.segments ?? []).map((patch) => [patch.id, patch]));
+      segmentPatches.forEach((_, segmentId) => {
+        if (!segments.some((segment) => segment.id === segmentId)) throw new Error("Segment not found");
+      });
+      const stationRates = await stationStorage.loadStationRateTiers(
+        tx,
+        userId,
+        Array.from(new Set(segments.map((segment) => segment.stationId))),
+      );
+
+      const revised = segments.map((segment) => {
+        const patch = segmentPatches.get(segment.id);
+        if (!patch) return repriceSegment(segment);
+
+        const tier = chooseTier(segmentTier(segment), patch.pricingTier, patch.stationRateId);
+        const line = reviseSegment(segment, {
+          startedAt: patch.startedAt ? new Date(patch.startedAt) : undefined,
+          endedAt: patch.endedAt ? new Date(patch.endedAt) : undefined,
+          tier,
+          stationRate: findStationRate(stationRates, tier, segment.stationId),
+        });
+        const label = `${segment.sequence}. ${segment.stationNameSnapshot}`;
+        if (line.startedAt.getTime() !== segment.startedAt.getTime()) {
+          changes.push({
+            target: "segment",
+            id: segment.id,
+            label,
+            field: "startedAt",
+            before: segment.startedAt.toISOString(),
+            after: line.startedAt.toISOString(),
+          });
+        }
+        if (line.endedAt.getTime() !== segment.endedAt.getTime()) {
+          changes.push({
+            target: "segment",
+            id: segment.id,
+            label,
+            field: "endedAt",
+            before: segment.endedAt.toISOString(),
+            after: line.endedAt.toISOString(),
+          });
+        }
+        if (line.pricingTier !== segment.pricingTier) {
+          changes.push({
+            target: "segment",
+            id: segment.id,
+            label,
+            field: "pricingTier",
+            before: segment.pricingTier,
+            after: line.pricingTier,
+          });
+        }
+        if (line.stationRateId !== segment.stationRateId) {
+          changes.push({
+            target: "segment",
+            id: segment.id,
+            label,
+            field: "stationRate",
+            before: segment.stationRateNameSnapshot ?? segment.pricingTier,
+            after: line.stationRateName ?? line.pricingTier,
+          });
+        }
+        return line;
+      });
+      const lines = rebillLines(revised);
+
+      // Merged tabs can play on two stations at once, so only a station's own segments must not overlap.
+      const now = Date.now();
+      const lastEndByStation = new Map<string, number>();
+      for (const line of lines) {
+        if (line.endedAt.getTime() <= line.startedAt.getTime()) throw new Error("Segment must end after it starts");
+        if (line.endedAt.getTime() > now) throw new Error("Segments cannot end in the future");
+        const previousEnd = lastEndByStation.get(line.stationId);
+        if (previousEnd !== undefined && line.startedAt.getTime() < previousEnd) {
+          throw new Error("Segments cannot overlap");
+        }
+        lastEndByStation.set(line.stationId, line.endedAt.getTime());
+      }
+
+      for (const patch of input.items ?? []) {
+        const item = items.find((row) => row.id === patch.id);
+        if (!item) throw new Error("Session item not found");
+        if (patch.qty === item.qty) continue;
+
+        await this.restockItem(tx, userId, item, item.qty - patch.qty);
+        if (patch.qty === 0) {
+          await tx.delete(sessionItems).where(eq(sessionItems.id, item.id));
+        } else {
+          await tx.update(sessionItems).set({ qty: patch.qty } as any).where(eq(sessionItems.id, item.id));
+        }
+        changes.push({ target: "item", id: item.id, label: item.nameSnapshot, field: "qty", before: item.qty, after: patch.qty });
+        item.qty = patch.qty;
+      }
+
+      if (changes.length === 0) throw new Error("Nothing to change");
+
+      // Corrected times can move the billing rule's round-up and minimum onto other segments too.
+      for (const [index, line] of Array.from(lines.entries())) {
+        if (!line.segmentId) continue;
+        if (!segmentPatches.has(line.segmentId) && line.billableSeconds === segments[index].billableSeconds) continue;
+        await tx
+          .update(sessionTimeSegments)
+          .set({
+            startedAt: line.startedAt,
+            endedAt: line.endedAt,
+            effectiveSeconds: line.effectiveSeconds,
+            billableSeconds: line.billableSeconds,
+            pricingTier: line.pricingTier,
+            stationRateId: line.stationRateId,
+            stationRateNameSnapshot: line.stationRateName,
+            rateHourlyApplied: line.rateHourlyApplied.toFixed(2),
+            timeAmount: line.timeAmount.toFixed(2),
+            updatedAt: new Date(),
+          } as any)
+          .where(eq(sessionTimeSegments.id, line.segmentId));
+      }
+
+      const { timeSubtotal, prepaid } = summarizeTime(lines, session);
+      const pricedItems = priceItems(items.filter((item) => item.qty > 0));
+      const itemsSubtotal = roundMoney(pricedItems.reduce((sum, line) => sum + line.lineTotal, 0));
+      const effectiveSeconds = lines.reduce((sum, line) => sum + line.effectiveSeconds, 0);
+
+      if (checkout) {
+        const splitLines = toSplitLines(lines, [], pricedItems);
+        // Re-tax at the rates snapshotted when the session closed, not today's.
+        const itemRates = new Map(items.map((item) => [item.id, item.taxRates ?? []]));
+        const lineKeys = new Set(splitLines.map((line) => `${line.kind}:${line.lineId}`));
+        const itemized = checkout.payers.length > 0;
+        // Promotion, manual, reward, tier, voucher and membership discounts keep their terms and scope;
+        // loyalty comes back through discountRate. Points already earned or spent stay as they were.
+        const discountSpecs: DiscountSpec[] = checkout.discounts
+          .filter((line) => line.source !== "loyalty")
+          .map((line) => ({
+            source: line.source,
+            promotionId: line.promotionId,
+            code: line.code,
+            name: line.name,
+            reasonCode: line.reasonCode,
+            note: line.note,
+            kind: line.kind,
+            value: Number(line.value),
+            scope: line.scope,
+            categories: line.categories,
+            stationIds: line.stationIds,
+          }));
+        const pricedIds = pricedItems.map((line) => line.id);
+        const discounts = this.resolveDiscounts(
+          discountSpecs,
+          lines,
+          pricedIds,
+          await this.loadItemCategories(tx, pricedIds),
+        );
+        // A gift card keeps paying what it paid, up to the corrected total; the other tender covers the rest.
+        const giftPayment = checkout.payments.find((payment) => payment.giftCardId);
+        const tendered = checkout.payments.filter((payment) => !payment.giftCardId);
+        const giftCard = giftPayment?.giftCardId
+          ? await giftCardStorage.lockGiftCard(tx, userId, giftPayment.giftCardId)
+          : undefined;
+        const giftDebit = giftCard ? (await giftCardStorage.sessionDebits(tx, userId, sessionId)).get(giftCard.id) ?? 0 : 0;
+        const plan = planCheckout({
+          timeSubtotal,
+          itemsSubtotal,
+          discountRate: Number(checkout.discountRate),
+          prepaidCredit: prepaid?.prepaidAmount,
+          payment: {
+            tenderType: toChosenTender(tendered[0]?.tenderType ?? "card"),
+            // The tip was what the customer chose to give; corrections to the bill leave it alone.
+            tipAmount: Number(checkout.tipAmount),
+            giftCardAmount: giftPayment ? Number(giftPayment.amount) : undefined,
+            splits: !itemized && tendered.length > 1
+              ? tendered.map((payment) => ({ tenderType: toChosenTender(payment.tenderType) }))
+              : undefined,
+            // Payers keep their shares; lines removed by this edit drop out of them.
+            payers: itemized
+              ? checkout.payers.map((payer) => ({
+                  name: payer.name,
+                  tenderType: toChosenTender(payer.tenderType),
+                  discountApplied: Number(payer.discountRate) > 0,
+                  allocations: payer.allocations.filter((allocation) =>
+                    lineKeys.has(`${allocation.kind}:${allocation.lineId}`),
+                  ),
+                }))
+              : undefined,
+          },
+          lines: splitLines,
+          discounts,
+          tax: {
+            inclusive: checkout.taxInclusive,
+            timeRates: checkout.timeTaxRates,
+            items: pricedItems.map((line) => ({
+              lineId: line.id,
+              amount: line.lineTotal,
+              rates: itemRates.get(line.id) ?? [],
+            })),
+          },
+          giftCard: giftCard ? { id: giftCard.id, balance: roundMoney(Number(giftCard.balance) + giftDebit) } : undefined,
+        });
+        await paymentStorage.replacePlan(tx, checkout, plan);
+        if (giftCard) {
+          const replanned = plan.payments.find((payment) => payment.giftCardId);
+          const delta = roundMoney((replanned ? replanned.amount + replanned.tipAmount : 0) - giftDebit);
+          if (delta !== 0) {
+            await giftCardStorage.recordTransaction(tx, userId, giftCard, -delta, {
+              kind: delta > 0 ? "redeem" : "refund",
+              sessionId,
+              actorEmail: context.actorEmail,
+              note: "Bill corrected",
+            });
+          }
+        }
+        if (Number(checkout.finalTotal) !== plan.finalTotal) {
+          changes.push({
+            target: "checkout",
+            id: checkout.id,
+            label: "Final total",
+            field: "finalTotal",
+            before: Number(checkout.finalTotal),
+            after: plan.finalTotal,
+          });
+        }
+
+        if (checkout.loyaltyCustomerId && checkout.loyaltySeconds > 0 && checkout.loyaltySeconds !== effectiveSeconds) {
+          await customerStorage.recordTransaction(
+            tx,
+            userId,
+            checkout.loyaltyCustomerId,
+            effectiveSeconds - checkout.loyaltySeconds,
+            context.thresholdSeconds,
+            { kind: "adjust", sessionId, actorEmail: context.actorEmail, note: "Played time corrected" },
+          );
+          await paymentStorage.setLoyaltySeconds(tx, checkout.id, effectiveSeconds);
+        }
+      }
+
+      // The session row describes the stretch closeSession snapshotted.
+      const closing = lines.filter((_, index) => segments[index].closedStretch);
+      const lastLine = lines[lines.length - 1];
+      const sessionPatch: Partial<Session> = { totalAmount: timeSubtotal.toFixed(2), updatedAt: new Date() };
+      if (closing.length > 0 && lastLine) {
+        sessionPatch.startedAt = closing[0].startedAt;
+        sessionPatch.closedAt = lastLine.endedAt;
+        sessionPatch.totalPausedSeconds = closing.reduce((sum, line) => {
+          const gross = Math.floor((line.endedAt.getTime() - line.startedAt.getTime()) / 1000);
+          return sum + Math.max(0, gross - line.effectiveSeconds);
+        }, 0);
+        sessionPatch.pricingTier = lastLine.pricingTier;
+        sessionPatch.stationRateId = lastLine.stationRateId;
+        sessionPatch.rateHourlySnapshot = lastLine.rateHourlyApplied.toFixed(2);
+      }
+
+      const [row] = await tx
+        .update(sessions)
+        .set(sessionPatch as any)
+        .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
+        .returning();
+
+      await this.insertAdjustment(tx, userId, sessionId, context, {
+        type: "edit",
+        reason: input.reason,
+        changes,
+      });
       return row || undefined;
     });
   }
@@ -344,6 +1354,8 @@ class SessionStorage {
     destinationStationId: string,
     endingPricingTier?: PricingTier,
     nextPricingTier?: PricingTier,
+    endingStationRateId?: string | null,
+    nextStationRateId?: string | null,
   ): Promise<Session> {
     return await db.transaction(async (tx) => {
       const [sess] = await tx
@@ -363,6 +1375,11 @@ class SessionStorage {
           stationType: stations.stationType,
           rateSoloHourly: stations.rateSoloHourly,
           rateGroupHourly: stations.rateGroupHourly,
+          billingIncrementMinutes: stations.billingIncrementMinutes,
+          billingRoundingMode: stations.billingRoundingMode,
+          minimumBillableMinutes: stations.minimumBillableMinutes,
+          graceMinutes: stations.graceMinutes,
+          playerBillingMode: stations.playerBillingMode,
         })
         .from(stations)
         .where(and(eq(stations.userId, userId), eq(stations.id, sess.stationId)))
@@ -376,6 +1393,7 @@ class SessionStorage {
           stationType: stations.stationType,
           rateSoloHourly: stations.rateSoloHourly,
           rateGroupHourly: stations.rateGroupHourly,
+          playerBillingMode: stations.playerBillingMode,
         })
         .from(stations)
         .where(and(eq(stations.userId, userId), eq(stations.id, destinationStationId)))
@@ -398,22 +1416,46 @@ class SessionStorage {
 
       const endedAt = sess.status === "paused" && sess.pausedAt ? sess.pausedAt : new Date();
       const now = new Date();
-      const priorTier = endingPricingTier ?? sess.pricingTier;
+      const stationRates = await stationStorage.loadStationRateTiers(tx, userId, [sourceStation.id, destStation.id]);
+      const playerCount = (await this.loadPlayers(tx, sess.id)).filter((player) => !player.leftAt).length;
+      const segments = await tx
+        .select()
+        .from(sessionTimeSegments)
+        .where(eq(sessionTimeSegments.sessionId, sess.id));
+      const priorTier = chooseTier(
+        { pricingTier: sess.pricingTier, stationRateId: sess.stationRateId },
+        endingPricingTier,
+        endingStationRateId,
+      );
 
-      await this.createSegmentSnapshot(tx, {
-        session: sess,
-        stationId: sourceStation.id,
-        stationNameSnapshot: sourceStation.name,
-        stationTypeSnapshot: sourceStation.stationType,
+      const lines = priceStretch({
+        station: sourceStation,
+        startedAt: sess.startedAt,
         endedAt,
-        pricingTier: priorTier,
-        rateSoloHourlySnapshot: sourceStation.rateSoloHourly,
-        rateGroupHourlySnapshot: sourceStation.rateGroupHourly,
         totalPausedSeconds: sess.totalPausedSeconds ?? 0,
+        pricingTier: priorTier.pricingTier,
+        stationRate: findStationRate(stationRates, priorTier, sourceStation.id),
+        rates: await this.loadRatePricing(tx, userId, sourceStation),
+        playerCount,
+        before: playedAtStation(segments, sourceStation.id),
       });
+      for (const line of lines) {
+        await this.insertSegmentLine(tx, sess.id, line);
+      }
 
-      const nextTier = nextPricingTier ?? priorTier;
-      const nextRate = this.getAppliedRate(nextTier, destStation.rateSoloHourly, destStation.rateGroupHourly);
+      // Station tiers belong to one station, so the destination starts on solo or group unless told otherwise.
+      const nextTier = chooseTier(
+        { pricingTier: priorTier.pricingTier, stationRateId: null },
+        nextPricingTier,
+        nextStationRateId,
+      );
+      const nextStationRate = findStationRate(stationRates, nextTier, destStation.id);
+      if (nextStationRate && !nextStationRate.isEnabled) throw new Error("Station rate is disabled");
+      const nextRate =
+        (nextStationRate
+          ? nextStationRate.rateHourly
+          : getAppliedRate(nextTier.pricingTier, destStation.rateSoloHourly, destStation.rateGroupHourly)) *
+        playerRateMultiplier(destStation.playerBillingMode, playerCount);
 
       const [updated] = await tx
         .update(sessions)
@@ -422,7 +1464,8 @@ class SessionStorage {
           startedAt: now,
           pausedAt: sess.status === "paused" ? now : null,
           totalPausedSeconds: 0,
-          pricingTier: nextTier,
+          pricingTier: nextTier.pricingTier,
+          stationRateId: nextTier.stationRateId,
           rateHourlySnapshot: nextRate.toFixed(2),
           updatedAt: now,
         } as any)
@@ -433,6 +1476,235 @@ class SessionStorage {
     });
   }
 
+  /**
+   * Fold an open session into another open session's tab. The source station's running stretch is
+   * closed at its own rates, its segments, items and players move to the target, and the source row is
+   * deleted so its station is free again.
+   */
+  async mergeSession(
+    userId: string,
+    sourceId: string,
+    targetId: string,
+    endingPricingTier?: PricingTier,
+    endingStationRateId?: string | null,
+  ): Promise<Session> {
+    if (sourceId === targetId) throw new Error("Cannot merge a session into itself");
+
+    return await db.transaction(async (tx) => {
+      const context = await this.loadBillingContext(tx, userId, sourceId);
+      if (!context) throw new Error("Session not found");
+      const { session: source, station, segments, items, rates, stationRates, playerCount } = context;
+      if (source.status === "closed") throw new Error("Session is closed");
+
+      const targetContext = await this.loadBillingContext(tx, userId, targetId);
+      if (!targetContext) throw new Error("Target session not found");
+      const target = targetContext.session;
+      if (target.status === "closed") throw new Error("Target session is closed");
+
+      const now = new Date();
+      const endedAt = source.status === "paused" && source.pausedAt ? source.pausedAt : now;
+      const targetClockSeconds = this.playClockSeconds(target, targetContext.segments, now);
+      const endingTier = chooseTier(
+        { pricingTier: source.pricingTier, stationRateId: source.stationRateId },
+        endingPricingTier,
+        endingStationRateId,
+      );
+      const lines = priceStretch({
+        station,
+        startedAt: source.startedAt,
+        endedAt,
+        totalPausedSeconds: source.totalPausedSeconds ?? 0,
+        pricingTier: endingTier.pricingTier,
+        stationRate: findStationRate(stationRates, endingTier, station.id),
+        rates,
+        playerCount,
+        before: playedAtStation(segments, station.id),
+      });
+
+      // Earlier transfer segments keep their order, after everything already on the target.
+      const [seqRow] = await tx
+        .select({ max: sql<number>`coalesce(max(${sessionTimeSegments.sequence}), 0)` })
+        .from(sessionTimeSegments)
+        .where(eq(sessionTimeSegments.sessionId, targetId));
+      let sequence = seqRow?.max ?? 0;
+      for (const segment of segments) {
+        sequence += 1;
+        await tx
+          .update(sessionTimeSegments)
+          .set({ sessionId: targetId, sequence, updatedAt: new Date() })
+          .where(eq(sessionTimeSegments.id, segment.id));
+      }
+      for (const line of lines) {
+        await this.insertSegmentLine(tx, targetId, line);
+      }
+
+      if (items.length > 0) {
+        await tx.update(sessionItems).set({ sessionId: targetId }).where(eq(sessionItems.sessionId, sourceId));
+      }
+      // The target's play clock now also counts the source's segments, so its own players' join points move
+      // forward by the source's play and they are not credited with it.
+      const sourceClockSeconds = [...segments, ...lines].reduce((sum, line) => sum + line.effectiveSeconds, 0);
+      await tx
+        .update(sessionPlayers)
+        .set({ joinedAtSeconds: sql`${sessionPlayers.joinedAtSeconds} + ${sourceClockSeconds}`, updatedAt: now })
+        .where(eq(sessionPlayers.sessionId, targetId));
+      // The source's players carry on at the target. The target's own play comes before theirs on the merged
+      // clock, so their join points move by it, and the target's headcount takes them in from now.
+      await this.applyHeadcount(tx, targetContext, targetContext.playerCount + playerCount, now);
+      await tx
+        .update(sessionPlayers)
+        .set({
+          sessionId: targetId,
+          joinedAtSeconds: sql`${sessionPlayers.joinedAtSeconds} + ${targetClockSeconds}`,
+          updatedAt: now,
+        })
+        .where(eq(sessionPlayers.sessionId, sourceId));
+      // A reopened session carries its audit trail with it.
+      await tx
+        .update(sessionAdjustments)
+        .set({ sessionId: targetId })
+        .where(eq(sessionAdjustments.sessionId, sourceId));
+      await tx.update(reservations).set({ sessionId: targetId }).where(eq(reservations.sessionId, sourceId));
+      await tx.update(waitlistEntries).set({ sessionId: targetId }).where(eq(waitlistEntries.sessionId, sourceId));
+
+      const names = Array.from(
+        new Set([target.customerName, source.customerName].map((name) => name?.trim()).filter((name): name is string => !!name)),
+      );
+      const prepaidMinutes =
+        target.prepaidMinutes === null && source.prepaidMinutes === null
+          ? null
+          : (target.prepaidMinutes ?? 0) + (source.prepaidMinutes ?? 0);
+      const prepaidAmount =
+        target.prepaidAmount === null && source.prepaidAmount === null
+          ? null
+          : roundMoney(Number(target.prepaidAmount ?? 0) + Number(source.prepaidAmount ?? 0)).toFixed(2);
+
+      await tx.delete(sessions).where(and(eq(sessions.userId, userId), eq(sessions.id, sourceId)));
+
+      const [updated] = await tx
+        .update(sessions)
+        .set({
+          customerName: names.length > 0 ? names.join(" & ") : null,
+          customerId: target.customerId ?? source.customerId,
+          prepaidMinutes,
+          prepaidAmount,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(sessions.userId, userId), eq(sessions.id, targetId), ne(sessions.status, "closed")))
+        .returning();
+      if (!updated) throw new Error("Failed to merge session");
+      return updated;
+    });
+  }
+
+  /**
+   * Re-price the open stretch for a new headcount. When the price changes, the stretch so far is
+   * closed into segments at the old price, as a transfer does, and a new stretch starts now.
+   * The billing rule carries on across those stretches, so players coming and going add no extra minimum.
+   */
+  private async applyHeadcount(tx: DbTransaction, context: BillingContext, nextCount: number, now: Date): Promise<void> {
+    const { session, station, segments, rates, stationRates, playerCount } = context;
+    const mode = station.playerBillingMode;
+    const tier = { pricingTier: session.pricingTier, stationRateId: session.stationRateId };
+    const nextTier = tierForHeadcount(tier, nextCount, mode);
+    if (
+      nextTier.pricingTier === tier.pricingTier &&
+      playerRateMultiplier(mode, nextCount) === playerRateMultiplier(mode, playerCount)
+    ) {
+      return;
+    }
+
+    const lines = priceStretch({
+      station,
+      startedAt: session.startedAt,
+      endedAt: session.status === "paused" && session.pausedAt ? session.pausedAt : now,
+      totalPausedSeconds: session.totalPausedSeconds ?? 0,
+      pricingTier: tier.pricingTier,
+      stationRate: findStationRate(stationRates, tier, station.id),
+      rates,
+      playerCount,
+      before: playedAtStation(segments, station.id),
+    });
+    // Nothing has been played yet, so there is no stretch to close.
+    const played = lines.some((line) => line.effectiveSeconds > 0);
+    if (played) {
+      for (const line of lines) {
+        await this.insertSegmentLine(tx, session.id, line);
+      }
+    }
+
+    const nextStationRate = findStationRate(stationRates, nextTier, station.id);
+    const nextRate =
+      (nextStationRate
+        ? nextStationRate.rateHourly
+        : getAppliedRate(nextTier.pricingTier, station.rateSoloHourly, station.rateGroupHourly)) *
+      playerRateMultiplier(mode, nextCount);
+    await tx
+      .update(sessions)
+      .set({
+        ...(played
+          ? { startedAt: now, pausedAt: session.status === "paused" ? now : null, totalPausedSeconds: 0 }
+          : {}),
+        pricingTier: nextTier.pricingTier,
+        rateHourlySnapshot: nextRate.toFixed(2),
+        updatedAt: now,
+      })
+      .where(eq(sessions.id, session.id));
+  }
+
+  async addPlayer(userId: string, sessionId: string, name: string): Promise<SessionPlayer> {
+    return db.transaction(async (tx) => {
+      const context = await this.loadBillingContext(tx, userId, sessionId);
+      if (!context) throw new Error("Session not found");
+      if (context.session.status === "closed") throw new Error("Session is closed");
+
+      const now = new Date();
+      const joinedAtSeconds = this.playClockSeconds(context.session, context.segments, now);
+      await this.applyHeadcount(tx, context, context.playerCount + 1, now);
+      const [player] = await tx
+        .insert(sessionPlayers)
+        .values({ sessionId, name, joinedAt: now, joinedAtSeconds })
+        .returning();
+      return player;
+    });
+  }
+
+  async removePlayer(userId: string, sessionId: string, playerId: string): Promise<SessionPlayer> {
+    return db.transaction(async (tx) => {
+      const context = await this.loadBillingContext(tx, userId, sessionId);
+      if (!context) throw new Error("Session not found");
+      if (context.session.status === "closed") throw new Error("Session is closed");
+      const player = context.players.find((row) => row.id === playerId);
+      if (!player) throw new Error("Player not found");
+      if (player.leftAt) throw new Error("Player already left");
+
+      const now = new Date();
+      const clockSeconds = this.playClockSeconds(context.session, context.segments, now);
+      await this.applyHeadcount(tx, context, context.playerCount - 1, now);
+      const [updated] = await tx
+        .update(sessionPlayers)
+        .set({
+          leftAt: now,
+          playedSeconds: Math.max(0, clockSeconds - player.joinedAtSeconds),
+          updatedAt: now,
+        })
+        .where(eq(sessionPlayers.id, playerId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async listSessionPlayers(userId: string, sessionId: string): Promise<SessionPlayer[]> {
+    const [sess] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.id, sessionId)))
+      .limit(1);
+    if (!sess) return [];
+
+    return this.loadPlayers(db, sessionId);
+  }
+
   async listSessionItems(userId: string, sessionId: string): Promise<SessionItem[]> {
     const [sess] = await db
       .select({ id: sessions.id })
@@ -618,9 +1890,13 @@ class SessionStorage {
         totalPausedSeconds: sessions.totalPausedSeconds,
         closedAt: sessions.closedAt,
         pricingTier: sessions.pricingTier,
+        stationRateId: sessions.stationRateId,
         rateHourlySnapshot: sessions.rateHourlySnapshot,
+        prepaidMinutes: sessions.prepaidMinutes,
+        prepaidAmount: sessions.prepaidAmount,
         totalAmount: sessions.totalAmount,
         customerName: sessions.customerName,
+        customerId: sessions.customerId,
         createdAt: sessions.createdAt,
         updatedAt: sessions.updatedAt,
         stationName: stations.name,
@@ -642,6 +1918,7 @@ class SessionStorage {
         nameSnapshot: sessionItems.nameSnapshot,
         priceSnapshot: sessionItems.priceSnapshot,
         qty: sessionItems.qty,
+        taxRates: sessionItems.taxRates,
         createdAt: sessionItems.createdAt,
         category: menuItems.category,
       })
@@ -670,10 +1947,27 @@ class SessionStorage {
       segmentsBySession.set(row.sessionId, existing);
     }
 
+    const checkoutsBySession = await paymentStorage.listCheckoutsForSessions(userId, sessionIds);
+
+    const allAdjustments = await db
+      .select()
+      .from(sessionAdjustments)
+      .where(and(eq(sessionAdjustments.userId, userId), inArray(sessionAdjustments.sessionId, sessionIds)))
+      .orderBy(asc(sessionAdjustments.createdAt));
+
+    const adjustmentsBySession = new Map<string, SessionAdjustment[]>();
+    for (const row of allAdjustments) {
+      const existing = adjustmentsBySession.get(row.sessionId) ?? [];
+      existing.push(row);
+      adjustmentsBySession.set(row.sessionId, existing);
+    }
+
     return closed.map((row) => ({
       ...row,
       items: itemsBySession.get(row.id) ?? [],
       timeSegments: segmentsBySession.get(row.id) ?? [],
+      checkout: checkoutsBySession.get(row.id) ?? null,
+      adjustments: adjustmentsBySession.get(row.id) ?? [],
     }));
   }
 }
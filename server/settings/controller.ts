@@ -3,6 +3,9 @@ import { z } from "zod";
 import {
   updateDiscountSettingsSchema,
   updateLogoSchema,
+  updateLoyaltyProgramSchema,
+  updateTaxSettingsSchema,
+  updateTimeZoneSchema,
   upsertProfileSchema,
 } from "@shared/schema";
 import { getUserId } from "../middleware/auth";
@@ -54,6 +57,36 @@ export async function updateLogo(req: Request, res: Response) {
   }
 }
 
+export async function updateTimeZone(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const { timeZone } = updateTimeZoneSchema.parse(req.body);
+    const user = await settingsService.updateTimeZone(userId, timeZone);
+    res.json({ timeZone: user.timeZone });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    console.error("[SETTINGS] Error:", err);
+    res.status(500).json({ error: "Failed to update time zone" });
+  }
+}
+
+export async function updateTaxSettings(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const { pricesIncludeTax } = updateTaxSettingsSchema.parse(req.body);
+    const user = await settingsService.updateTaxSettings(userId, pricesIncludeTax);
+    res.json({ pricesIncludeTax: user.pricesIncludeTax });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    console.error("[SETTINGS] Error:", err);
+    res.status(500).json({ error: "Failed to update tax settings" });
+  }
+}
+
 export async function updateDiscountSettings(req: Request, res: Response) {
   try {
     const userId = getUserId(req);
@@ -71,3 +104,22 @@ export async function updateDiscountSettings(req: Request, res: Response) {
     res.status(500).json({ error: "Failed to update settings" });
   }
 }
+
+export async function updateLoyaltyProgram(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const body = updateLoyaltyProgramSchema.parse(req.body);
+    const user = await settingsService.updateLoyaltyProgram(userId, body);
+    res.json({
+      loyaltyProgram: user.loyaltyProgram,
+      pointsPerDollar: user.pointsPerDollar,
+      pointsPerHour: user.pointsPerHour,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    console.error("[SETTINGS] Error:", err);
+    res.status(500).json({ error: "Failed to update loyalty program" });
+  }
+}
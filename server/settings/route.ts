@@ -5,6 +5,9 @@ import {
   updateProfile,
   updateLogo,
   updateDiscountSettings,
+  updateLoyaltyProgram,
+  updateTimeZone,
+  updateTaxSettings,
 } from "./controller";
 
 const router = Router();
@@ -13,5 +16,8 @@ router.get("/api/me", requireAuth, getMe);
 router.patch("/api/profile", requireAuth, updateProfile);
 router.patch("/api/profile/logo", requireAuth, updateLogo);
 router.post("/api/settings/discount", requireAuth, updateDiscountSettings);
+router.patch("/api/settings/loyalty", requireAuth, updateLoyaltyProgram);
+router.patch("/api/settings/timezone", requireAuth, updateTimeZone);
+router.patch("/api/settings/tax", requireAuth, updateTaxSettings);
 
 export const settingsRouter = router;
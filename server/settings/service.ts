@@ -1,4 +1,4 @@
-import type { User } from "@shared/schema";
+import type { LoyaltyProgram, UpdateLoyaltyProgramInput, User } from "@shared/schema";
 import { settingsStorage } from "./storage";
 import { hoursToSeconds } from "./utils";
 
@@ -14,6 +14,11 @@ export type MeResponse = {
   logoDataUrl: string | null;
   discountThresholdSeconds: number;
   discountRate: string;
+  loyaltyProgram: LoyaltyProgram;
+  pointsPerDollar: string;
+  pointsPerHour: string;
+  timeZone: string;
+  pricesIncludeTax: boolean;
   cloverMerchantId: string | null;
   cloverConnectedAt: string | null;
 };
@@ -30,6 +35,11 @@ class SettingsService {
       logoDataUrl: user?.logoDataUrl ?? null,
       discountThresholdSeconds: user?.discountThresholdSeconds ?? 20 * 3600,
       discountRate: user?.discountRate ?? "0.2",
+      loyaltyProgram: user?.loyaltyProgram ?? "hours",
+      pointsPerDollar: user?.pointsPerDollar ?? "0",
+      pointsPerHour: user?.pointsPerHour ?? "0",
+      timeZone: user?.timeZone ?? "UTC",
+      pricesIncludeTax: user?.pricesIncludeTax ?? false,
       cloverMerchantId: user?.cloverMerchantId ?? null,
       cloverConnectedAt: user?.cloverConnectedAt?.toISOString() ?? null,
     };
@@ -45,6 +55,20 @@ class SettingsService {
     return updated;
   }
 
+  /** Store time zone used to evaluate rate schedule windows. */
+  async updateTimeZone(userId: string, timeZone: string): Promise<User> {
+    const updated = await settingsStorage.updateTimeZone(userId, timeZone);
+    if (!updated) throw new Error("User not found");
+    return updated;
+  }
+
+  /** Whether menu and table prices already include sales tax. */
+  async updateTaxSettings(userId: string, pricesIncludeTax: boolean): Promise<User> {
+    const updated = await settingsStorage.updateTaxSettings(userId, pricesIncludeTax);
+    if (!updated) throw new Error("User not found");
+    return updated;
+  }
+
   /**
    * Update discount threshold (hours → seconds) and discount rate for the user.
    */
@@ -61,6 +85,17 @@ class SettingsService {
     if (!updated) throw new Error("User not found");
     return updated;
   }
+
+  /** Switch between the hours threshold discount and points, and set how points are earned. */
+  async updateLoyaltyProgram(userId: string, input: UpdateLoyaltyProgramInput): Promise<User> {
+    const updated = await settingsStorage.updateLoyaltyProgram(userId, {
+      loyaltyProgram: input.loyaltyProgram,
+      pointsPerDollar: input.pointsPerDollar.toFixed(2),
+      pointsPerHour: input.pointsPerHour.toFixed(2),
+    });
+    if (!updated) throw new Error("User not found");
+    return updated;
+  }
 }
 
 export const settingsService = new SettingsService();
@@ -57,6 +57,36 @@ export class SettingsStorage {
     return row ?? undefined;
   }
 
+  async updateLoyaltyProgram(
+    userId: string,
+    data: Pick<User, "loyaltyProgram" | "pointsPerDollar" | "pointsPerHour">
+  ): Promise<User | undefined> {
+    const [row] = await db
+      .update(users)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return row ?? undefined;
+  }
+
+  async updateTimeZone(userId: string, timeZone: string): Promise<User | undefined> {
+    const [row] = await db
+      .update(users)
+      .set({ timeZone, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return row ?? undefined;
+  }
+
+  async updateTaxSettings(userId: string, pricesIncludeTax: boolean): Promise<User | undefined> {
+    const [row] = await db
+      .update(users)
+      .set({ pricesIncludeTax, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return row ?? undefined;
+  }
+
   async updateLogo(userId: string, logoDataUrl: string | null): Promise<User | undefined> {
     const [row] = await db
       .update(users)
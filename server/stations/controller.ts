@@ -1,8 +1,10 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
 import {
+  insertStationRateSchema,
   insertStationSchema,
   reorderStationsSchema,
+  updateStationRateSchema,
   updateStationSchema,
 } from "@shared/schema";
 import { getUserId } from "../middleware/auth";
@@ -69,3 +71,40 @@ export async function reorderStations(req: Request, res: Response) {
     return res.status(status).json({ error: message });
   }
 }
+
+export async function createStationRate(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertStationRateSchema.parse(req.body);
+    const created = await stationService.createStationRate(uid, req.params.id, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateStationRate(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateStationRateSchema.parse(req.body);
+    const updated = await stationService.updateStationRate(uid, req.params.id, req.params.rateId, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteStationRate(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await stationService.deleteStationRate(uid, req.params.id, req.params.rateId);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
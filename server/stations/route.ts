@@ -2,10 +2,13 @@ import { Router } from "express";
 import { requireAuth } from "../middleware/auth";
 import {
   createStation,
+  createStationRate,
   deleteStation,
+  deleteStationRate,
   listStations,
   reorderStations,
   updateStation,
+  updateStationRate,
 } from "./controller";
 
 const router = Router();
@@ -15,5 +18,8 @@ router.post("/api/stations", requireAuth, createStation);
 router.patch("/api/stations/reorder", requireAuth, reorderStations);
 router.patch("/api/stations/:id", requireAuth, updateStation);
 router.delete("/api/stations/:id", requireAuth, deleteStation);
+router.post("/api/stations/:id/rates", requireAuth, createStationRate);
+router.patch("/api/stations/:id/rates/:rateId", requireAuth, updateStationRate);
+router.delete("/api/stations/:id/rates/:rateId", requireAuth, deleteStationRate);
 
 export const stationsRouter = router;
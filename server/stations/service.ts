@@ -1,15 +1,16 @@
-import type { Station } from "@shared/schema";
-import { stationStorage } from "./storage";
+import type { InsertStationRateInput, Station, StationRate, UpdateStationRateInput } from "@shared/schema";
+import { stationStorage, type StationRateValues } from "./storage";
 import { sessionService } from "../sessions/service";
 import { StationNotFoundError, StationValidationError } from "./errors";
 
 class StationService {
   async listStations(userId: string) {
     const data = await stationStorage.listStations(userId);
+    const rates = await stationStorage.listStationRates(userId);
     return Promise.all(
       data.map(async (st) => {
         const activeSession = await sessionService.getActiveSessionWithItems(userId, st.id);
-        return { ...st, activeSession };
+        return { ...st, rates: rates.filter((rate) => rate.stationId === st.id), activeSession };
       })
     );
   }
@@ -46,6 +47,53 @@ class StationService {
       throw err;
     }
   }
+
+  private toRateValues(input: InsertStationRateInput): StationRateValues {
+    return {
+      name: input.name,
+      rateHourly: input.rateHourly.toFixed(2),
+      sortOrder: input.sortOrder,
+      isEnabled: input.isEnabled,
+    };
+  }
+
+  async createStationRate(userId: string, stationId: string, input: InsertStationRateInput): Promise<StationRate> {
+    const station = await stationStorage.getStation(userId, stationId);
+    if (!station) throw new StationNotFoundError("Station not found");
+    return stationStorage.createStationRate(userId, stationId, this.toRateValues(input));
+  }
+
+  async updateStationRate(
+    userId: string,
+    stationId: string,
+    id: string,
+    patch: UpdateStationRateInput,
+  ): Promise<StationRate> {
+    const existing = await stationStorage.getStationRate(userId, stationId, id);
+    if (!existing) throw new StationNotFoundError("Station rate not found");
+
+    const values = this.toRateValues({
+      name: patch.name ?? existing.name,
+      rateHourly: patch.rateHourly ?? Number(existing.rateHourly),
+      sortOrder: patch.sortOrder ?? existing.sortOrder,
+      isEnabled: patch.isEnabled ?? existing.isEnabled,
+    });
+    const updated = await stationStorage.updateStationRate(userId, stationId, id, values);
+    if (!updated) throw new StationNotFoundError("Station rate not found");
+    return updated;
+  }
+
+  async deleteStationRate(userId: string, stationId: string, id: string): Promise<void> {
+    try {
+      const ok = await stationStorage.deleteStationRate(userId, stationId, id);
+      if (!ok) throw new StationNotFoundError("Station rate not found");
+    } catch (err: any) {
+      if (err?.message?.includes("active session")) {
+        throw new StationValidationError(err.message);
+      }
+      throw err;
+    }
+  }
 }
 
 export const stationService = new StationService();
@@ -1,6 +1,14 @@
-import { sessions, stations, type Station } from "@shared/schema";
-import { db } from "../db";
-import { and, asc, eq, sql } from "drizzle-orm";
+import { sessions, stationRates, stations, type Station, type StationRate } from "@shared/schema";
+import { db, type DbExecutor } from "../db";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import type { StationRateTier } from "../sessions/billing";
+
+export type StationRateValues = {
+  name: string;
+  rateHourly: string;
+  sortOrder: number;
+  isEnabled: boolean;
+};
 
 class StationStorage {
   async listStations(userId: string): Promise<Station[]> {
@@ -11,6 +19,15 @@ class StationStorage {
       .orderBy(asc(stations.sortOrder), asc(stations.createdAt));
   }
 
+  async getStation(userId: string, id: string): Promise<Station | undefined> {
+    const [row] = await db
+      .select()
+      .from(stations)
+      .where(and(eq(stations.userId, userId), eq(stations.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
   async createStation(userId: string, data: any): Promise<Station> {
     const [currentMin] = await db
       .select({ minSortOrder: sql<number>`coalesce(min(${stations.sortOrder}), 1)` })
@@ -93,6 +110,80 @@ class StationStorage {
       }
     });
   }
+
+  async listStationRates(userId: string): Promise<StationRate[]> {
+    return db
+      .select()
+      .from(stationRates)
+      .where(eq(stationRates.userId, userId))
+      .orderBy(asc(stationRates.sortOrder), asc(stationRates.createdAt));
+  }
+
+  async getStationRate(userId: string, stationId: string, id: string): Promise<StationRate | undefined> {
+    const [row] = await db
+      .select()
+      .from(stationRates)
+      .where(and(eq(stationRates.userId, userId), eq(stationRates.stationId, stationId), eq(stationRates.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** Tiers of the given stations as billing prices them, disabled ones included for sessions already on them. */
+  async loadStationRateTiers(executor: DbExecutor, userId: string, stationIds: string[]): Promise<StationRateTier[]> {
+    if (stationIds.length === 0) return [];
+    const rows = await executor
+      .select()
+      .from(stationRates)
+      .where(and(eq(stationRates.userId, userId), inArray(stationRates.stationId, stationIds)));
+    return rows.map((row) => ({
+      id: row.id,
+      stationId: row.stationId,
+      name: row.name,
+      rateHourly: Number(row.rateHourly),
+      isEnabled: row.isEnabled,
+    }));
+  }
+
+  async createStationRate(userId: string, stationId: string, values: StationRateValues): Promise<StationRate> {
+    const [row] = await db
+      .insert(stationRates)
+      .values({ userId, stationId, ...values, createdAt: new Date(), updatedAt: new Date() })
+      .returning();
+    return row;
+  }
+
+  async updateStationRate(
+    userId: string,
+    stationId: string,
+    id: string,
+    values: StationRateValues,
+  ): Promise<StationRate | undefined> {
+    const [row] = await db
+      .update(stationRates)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(stationRates.userId, userId), eq(stationRates.stationId, stationId), eq(stationRates.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  /** Closed segments keep the tier's name and rate snapshots. */
+  async deleteStationRate(userId: string, stationId: string, id: string): Promise<boolean> {
+    const active = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.stationRateId, id), sql`${sessions.status} != 'closed'`))
+      .limit(1);
+
+    if (active.length > 0) {
+      throw new Error("Cannot delete a tier with an active session");
+    }
+
+    const rows = await db
+      .delete(stationRates)
+      .where(and(eq(stationRates.userId, userId), eq(stationRates.stationId, stationId), eq(stationRates.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
 }
 
 export const stationStorage = new StationStorage();
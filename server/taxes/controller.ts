@@ -0,0 +1,107 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertTaxClassSchema,
+  insertTaxRateSchema,
+  updateTaxClassSchema,
+  updateTaxRateSchema,
+} from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { taxService } from "./service";
+
+export async function listTaxRates(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await taxService.listRates(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createTaxRate(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertTaxRateSchema.parse(req.body);
+    const created = await taxService.createRate(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateTaxRate(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateTaxRateSchema.parse(req.body);
+    const updated = await taxService.updateRate(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteTaxRate(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await taxService.deleteRate(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function listTaxClasses(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await taxService.listClasses(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createTaxClass(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertTaxClassSchema.parse(req.body);
+    const created = await taxService.createClass(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateTaxClass(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateTaxClassSchema.parse(req.body);
+    const updated = await taxService.updateClass(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteTaxClass(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await taxService.deleteClass(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
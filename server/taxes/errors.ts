@@ -0,0 +1,19 @@
+export class TaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class TaxNotFoundError extends TaxError {}
+export class TaxValidationError extends TaxError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof TaxNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof TaxValidationError) {
+    return { status: 400, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  createTaxClass,
+  createTaxRate,
+  deleteTaxClass,
+  deleteTaxRate,
+  listTaxClasses,
+  listTaxRates,
+  updateTaxClass,
+  updateTaxRate,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/tax-rates", requireAuth, listTaxRates);
+router.post("/api/tax-rates", requireAuth, createTaxRate);
+router.patch("/api/tax-rates/:id", requireAuth, updateTaxRate);
+router.delete("/api/tax-rates/:id", requireAuth, deleteTaxRate);
+router.get("/api/tax-classes", requireAuth, listTaxClasses);
+router.post("/api/tax-classes", requireAuth, createTaxClass);
+router.patch("/api/tax-classes/:id", requireAuth, updateTaxClass);
+router.delete("/api/tax-classes/:id", requireAuth, deleteTaxClass);
+
+export const taxesRouter = router;
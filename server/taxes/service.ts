@@ -0,0 +1,106 @@
+import type {
+  InsertTaxClassInput,
+  InsertTaxRateInput,
+  TaxClass,
+  TaxRate,
+  UpdateTaxClassInput,
+  UpdateTaxRateInput,
+} from "@shared/schema";
+import { taxStorage, type TaxClassValues } from "./storage";
+import { categoryKey } from "./utils";
+import { TaxNotFoundError, TaxValidationError } from "./errors";
+
+class TaxService {
+  async listRates(userId: string): Promise<TaxRate[]> {
+    return taxStorage.listRates(userId);
+  }
+
+  async createRate(userId: string, input: InsertTaxRateInput): Promise<TaxRate> {
+    return taxStorage.createRate(userId, {
+      name: input.name,
+      rate: input.rate.toFixed(5),
+      isEnabled: input.isEnabled,
+    });
+  }
+
+  async updateRate(userId: string, id: string, patch: UpdateTaxRateInput): Promise<TaxRate> {
+    const existing = await taxStorage.getRate(userId, id);
+    if (!existing) throw new TaxNotFoundError("Tax rate not found");
+
+    const updated = await taxStorage.updateRate(userId, id, {
+      name: patch.name ?? existing.name,
+      rate: patch.rate !== undefined ? patch.rate.toFixed(5) : existing.rate,
+      isEnabled: patch.isEnabled ?? existing.isEnabled,
+    });
+    if (!updated) throw new TaxNotFoundError("Tax rate not found");
+    return updated;
+  }
+
+  async deleteRate(userId: string, id: string): Promise<void> {
+    const ok = await taxStorage.deleteRate(userId, id);
+    if (!ok) throw new TaxNotFoundError("Tax rate not found");
+  }
+
+  /** Rates must be the store's own, and a category or table time can sit in only one class. */
+  private async toClassValues(userId: string, input: InsertTaxClassInput, classId?: string): Promise<TaxClassValues> {
+    const rates = await taxStorage.listRates(userId);
+    const taxRateIds = Array.from(new Set(input.taxRateIds));
+    if (taxRateIds.some((id) => !rates.some((rate) => rate.id === id))) {
+      throw new TaxValidationError("Tax rate not found");
+    }
+
+    const categories = new Map<string, string>();
+    for (const category of input.categories) {
+      const key = categoryKey(category);
+      if (!categories.has(key)) categories.set(key, category.trim());
+    }
+
+    const others = (await taxStorage.listClasses(userId)).filter((taxClass) => taxClass.id !== classId);
+    for (const other of others) {
+      if (input.appliesToTime && other.appliesToTime) {
+        throw new TaxValidationError(`Table time is already taxed by ${other.name}`);
+      }
+      const taken = other.categories.find((category) => categories.has(categoryKey(category)));
+      if (taken) throw new TaxValidationError(`${taken} is already taxed by ${other.name}`);
+    }
+
+    return {
+      name: input.name,
+      taxRateIds,
+      categories: Array.from(categories.values()),
+      appliesToTime: input.appliesToTime,
+    };
+  }
+
+  async listClasses(userId: string): Promise<TaxClass[]> {
+    return taxStorage.listClasses(userId);
+  }
+
+  async createClass(userId: string, input: InsertTaxClassInput): Promise<TaxClass> {
+    const values = await this.toClassValues(userId, input);
+    return taxStorage.createClass(userId, values);
+  }
+
+  async updateClass(userId: string, id: string, patch: UpdateTaxClassInput): Promise<TaxClass> {
+    const existing = await taxStorage.getClass(userId, id);
+    if (!existing) throw new TaxNotFoundError("Tax class not found");
+
+    const merged: InsertTaxClassInput = {
+      name: patch.name ?? existing.name,
+      taxRateIds: patch.taxRateIds ?? existing.taxRateIds,
+      categories: patch.categories ?? existing.categories,
+      appliesToTime: patch.appliesToTime ?? existing.appliesToTime,
+    };
+
+    const updated = await taxStorage.updateClass(userId, id, await this.toClassValues(userId, merged, id));
+    if (!updated) throw new TaxNotFoundError("Tax class not found");
+    return updated;
+  }
+
+  async deleteClass(userId: string, id: string): Promise<void> {
+    const ok = await taxStorage.deleteClass(userId, id);
+    if (!ok) throw new TaxNotFoundError("Tax class not found");
+  }
+}
+
+export const taxService = new TaxService();
@@ -0,0 +1,140 @@
+import { taxClasses, taxRates, users, type TaxClass, type TaxRate } from "@shared/schema";
+import { db, type DbExecutor } from "../db";
+import { and, asc, eq, sql } from "drizzle-orm";
+import { buildTaxContext, type TaxContext } from "./utils";
+
+export type TaxRateValues = {
+  name: string;
+  rate: string;
+  isEnabled: boolean;
+};
+
+export type TaxClassValues = {
+  name: string;
+  taxRateIds: string[];
+  categories: string[];
+  appliesToTime: boolean;
+};
+
+class TaxStorage {
+  async listRates(userId: string): Promise<TaxRate[]> {
+    return db
+      .select()
+      .from(taxRates)
+      .where(eq(taxRates.userId, userId))
+      .orderBy(asc(taxRates.createdAt));
+  }
+
+  async getRate(userId: string, id: string): Promise<TaxRate | undefined> {
+    const [row] = await db
+      .select()
+      .from(taxRates)
+      .where(and(eq(taxRates.userId, userId), eq(taxRates.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createRate(userId: string, values: TaxRateValues): Promise<TaxRate> {
+    const [row] = await db
+      .insert(taxRates)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateRate(userId: string, id: string, values: TaxRateValues): Promise<TaxRate | undefined> {
+    const [row] = await db
+      .update(taxRates)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(taxRates.userId, userId), eq(taxRates.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  /** Delete a rate and take it out of every class that charged it. */
+  async deleteRate(userId: string, id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .delete(taxRates)
+        .where(and(eq(taxRates.userId, userId), eq(taxRates.id, id)))
+        .returning();
+      if (rows.length === 0) return false;
+
+      await tx
+        .update(taxClasses)
+        .set({ taxRateIds: sql`array_remove(${taxClasses.taxRateIds}, ${id})`, updatedAt: new Date() })
+        .where(and(eq(taxClasses.userId, userId), sql`${id} = any(${taxClasses.taxRateIds})`));
+      return true;
+    });
+  }
+
+  async listClasses(userId: string): Promise<TaxClass[]> {
+    return db
+      .select()
+      .from(taxClasses)
+      .where(eq(taxClasses.userId, userId))
+      .orderBy(asc(taxClasses.createdAt));
+  }
+
+  async getClass(userId: string, id: string): Promise<TaxClass | undefined> {
+    const [row] = await db
+      .select()
+      .from(taxClasses)
+      .where(and(eq(taxClasses.userId, userId), eq(taxClasses.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createClass(userId: string, values: TaxClassValues): Promise<TaxClass> {
+    const [row] = await db
+      .insert(taxClasses)
+      .values({
+        userId,
+        ...values,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateClass(userId: string, id: string, values: TaxClassValues): Promise<TaxClass | undefined> {
+    const [row] = await db
+      .update(taxClasses)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(taxClasses.userId, userId), eq(taxClasses.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteClass(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(taxClasses)
+      .where(and(eq(taxClasses.userId, userId), eq(taxClasses.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  /** The store's current rates and classes, read inside the caller's transaction when closing. */
+  async loadTaxContext(executor: DbExecutor, userId: string): Promise<TaxContext> {
+    const [user] = await executor
+      .select({ pricesIncludeTax: users.pricesIncludeTax })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    const rates = await executor.select().from(taxRates).where(eq(taxRates.userId, userId));
+    const classes = await executor
+      .select()
+      .from(taxClasses)
+      .where(eq(taxClasses.userId, userId))
+      .orderBy(asc(taxClasses.createdAt));
+    return buildTaxContext(user?.pricesIncludeTax ?? false, rates, classes);
+  }
+}
+
+export const taxStorage = new TaxStorage();
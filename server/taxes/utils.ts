@@ -0,0 +1,41 @@
+import type { TaxClass, TaxRate, TaxRateSnapshot } from "@shared/schema";
+
+/** The store's tax setup as a checkout applies it. */
+export type TaxContext = {
+  inclusive: boolean;
+  timeRates: TaxRateSnapshot[];
+  /** Keyed by categoryKey. */
+  categoryRates: Map<string, TaxRateSnapshot[]>;
+};
+
+/** Menu categories are free text; classes match them ignoring case and surrounding spaces. */
+export function categoryKey(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+export function toTaxRateSnapshot(rate: TaxRate): TaxRateSnapshot {
+  return { taxRateId: rate.id, name: rate.name, rate: Number(rate.rate) };
+}
+
+/** Resolve each class to its enabled rates; classes left with none tax nothing. */
+export function buildTaxContext(inclusive: boolean, rates: TaxRate[], classes: TaxClass[]): TaxContext {
+  const enabled = new Map(rates.filter((rate) => rate.isEnabled).map((rate) => [rate.id, toTaxRateSnapshot(rate)]));
+  const context: TaxContext = { inclusive, timeRates: [], categoryRates: new Map() };
+
+  for (const taxClass of classes) {
+    const classRates = taxClass.taxRateIds.flatMap((id) => {
+      const rate = enabled.get(id);
+      return rate ? [rate] : [];
+    });
+    if (classRates.length === 0) continue;
+    if (taxClass.appliesToTime) context.timeRates = classRates;
+    for (const category of taxClass.categories) {
+      context.categoryRates.set(categoryKey(category), classRates);
+    }
+  }
+  return context;
+}
+
+export function ratesForCategory(context: TaxContext, category: string | null): TaxRateSnapshot[] {
+  return category ? context.categoryRates.get(categoryKey(category)) ?? [] : [];
+}
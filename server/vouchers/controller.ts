@@ -0,0 +1,58 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { issueTimeVouchersSchema, listTimeVouchersQuerySchema } from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { timeVoucherService } from "./service";
+import { toHttpError } from "./errors";
+
+export async function listVouchers(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const query = listTimeVouchersQuerySchema.parse(req.query);
+    const vouchers = await timeVoucherService.listVouchers(userId, query.status);
+    res.json(vouchers);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function lookupVoucher(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const voucher = await timeVoucherService.lookupVoucher(userId, req.params.code);
+    res.json(voucher);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function issueVouchers(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    const input = issueTimeVouchersSchema.parse(req.body);
+    const vouchers = await timeVoucherService.issueVouchers(userId, input, req.user?.email ?? null);
+    res.status(201).json(vouchers);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: err.flatten() });
+    }
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteVoucher(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    await timeVoucherService.deleteVoucher(userId, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,23 @@
+export class TimeVoucherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class TimeVoucherNotFoundError extends TimeVoucherError {}
+export class TimeVoucherValidationError extends TimeVoucherError {}
+export class TimeVoucherConflictError extends TimeVoucherError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof TimeVoucherNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof TimeVoucherValidationError) {
+    return { status: 400, message: err.message };
+  }
+  if (err instanceof TimeVoucherConflictError) {
+    return { status: 409, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
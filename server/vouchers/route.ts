@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import { listVouchers, lookupVoucher, issueVouchers, deleteVoucher } from "./controller";
+
+const router = Router();
+
+router.get("/api/vouchers", requireAuth, listVouchers);
+router.post("/api/vouchers", requireAuth, issueVouchers);
+router.get("/api/vouchers/lookup/:code", requireAuth, lookupVoucher);
+router.delete("/api/vouchers/:id", requireAuth, deleteVoucher);
+
+export const vouchersRouter = router;
@@ -0,0 +1,70 @@
+import type { IssueTimeVouchersInput, TimeVoucher, TimeVoucherStatus } from "@shared/schema";
+import { db } from "../db";
+import { timeVoucherStorage, type NewTimeVoucher } from "./storage";
+import { generateVoucherCode, normalizeVoucherCode, voucherStatus } from "./utils";
+import { TimeVoucherConflictError, TimeVoucherNotFoundError, TimeVoucherValidationError } from "./errors";
+
+const CODE_ATTEMPTS = 5;
+
+export type TimeVoucherDto = TimeVoucher & { status: TimeVoucherStatus };
+
+function toDto(voucher: TimeVoucher): TimeVoucherDto {
+  return { ...voucher, status: voucherStatus(voucher) };
+}
+
+class TimeVoucherService {
+  async listVouchers(userId: string, status?: TimeVoucherStatus): Promise<TimeVoucherDto[]> {
+    const vouchers = await timeVoucherStorage.listVouchers(userId, status);
+    return vouchers.map(toDto);
+  }
+
+  /** Codes may be typed with dashes, spaces or in lower case. */
+  async lookupVoucher(userId: string, code: string): Promise<TimeVoucherDto> {
+    const voucher = await timeVoucherStorage.getVoucherByCode(db, userId, normalizeVoucherCode(code));
+    if (!voucher) throw new TimeVoucherNotFoundError("Voucher not found");
+    return toDto(voucher);
+  }
+
+  async issueVouchers(
+    userId: string,
+    input: IssueTimeVouchersInput,
+    actorEmail: string | null,
+  ): Promise<TimeVoucherDto[]> {
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new TimeVoucherValidationError("Expiry must be in the future");
+    }
+
+    const codes = new Set<string>();
+    while (codes.size < input.count) {
+      let code: string | null = null;
+      for (let attempt = 0; attempt < CODE_ATTEMPTS && !code; attempt++) {
+        const candidate = generateVoucherCode();
+        if (!codes.has(candidate) && !(await timeVoucherStorage.isCodeTaken(candidate))) code = candidate;
+      }
+      if (!code) throw new TimeVoucherConflictError("Couldn't generate a unique voucher code");
+      codes.add(code);
+    }
+
+    const rows: NewTimeVoucher[] = Array.from(codes, (code) => ({
+      code,
+      minutes: input.minutes,
+      stationType: input.stationType ?? null,
+      expiresAt,
+      note: input.note || null,
+      createdByEmail: actorEmail,
+    }));
+    const vouchers = await timeVoucherStorage.createVouchers(userId, rows);
+    return vouchers.map(toDto);
+  }
+
+  async deleteVoucher(userId: string, id: string): Promise<void> {
+    const voucher = await timeVoucherStorage.getVoucher(userId, id);
+    if (!voucher) throw new TimeVoucherNotFoundError("Voucher not found");
+    if (voucher.redeemedAt) throw new TimeVoucherConflictError("Redeemed vouchers can't be deleted");
+    const deleted = await timeVoucherStorage.deleteVoucher(userId, id);
+    if (!deleted) throw new TimeVoucherConflictError("Redeemed vouchers can't be deleted");
+  }
+}
+
+export const timeVoucherService = new TimeVoucherService();
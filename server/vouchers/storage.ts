@@ -0,0 +1,117 @@
+import { timeVouchers, type TimeVoucher, type TimeVoucherStatus } from "@shared/schema";
+import { db, type DbExecutor, type DbTransaction } from "../db";
+import { and, desc, eq, gt, isNotNull, isNull, lte, or, sql } from "drizzle-orm";
+
+export type NewTimeVoucher = Pick<TimeVoucher, "code" | "minutes" | "stationType" | "expiresAt" | "note" | "createdByEmail">;
+
+/** What a checkout spent a voucher on. */
+export type VoucherRedemptionRow = { sessionId: string; minutes: number; amount: number };
+
+function statusFilter(status: TimeVoucherStatus | undefined) {
+  switch (status) {
+    case "redeemed":
+      return isNotNull(timeVouchers.redeemedAt);
+    case "expired":
+      return and(isNull(timeVouchers.redeemedAt), lte(timeVouchers.expiresAt, sql`now()`));
+    case "active":
+      return and(
+        isNull(timeVouchers.redeemedAt),
+        or(isNull(timeVouchers.expiresAt), gt(timeVouchers.expiresAt, sql`now()`)),
+      );
+    default:
+      return undefined;
+  }
+}
+
+class TimeVoucherStorage {
+  /** Newest first. */
+  async listVouchers(userId: string, status?: TimeVoucherStatus): Promise<TimeVoucher[]> {
+    return db
+      .select()
+      .from(timeVouchers)
+      .where(and(eq(timeVouchers.userId, userId), statusFilter(status)))
+      .orderBy(desc(timeVouchers.createdAt));
+  }
+
+  async getVoucher(userId: string, id: string): Promise<TimeVoucher | undefined> {
+    const [row] = await db
+      .select()
+      .from(timeVouchers)
+      .where(and(eq(timeVouchers.userId, userId), eq(timeVouchers.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** `code` must already be normalized. */
+  async getVoucherByCode(executor: DbExecutor, userId: string, code: string): Promise<TimeVoucher | undefined> {
+    const [row] = await executor
+      .select()
+      .from(timeVouchers)
+      .where(and(eq(timeVouchers.userId, userId), eq(timeVouchers.code, code)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** As getVoucherByCode, locking the voucher for the rest of the caller's transaction. */
+  async lockVoucherByCode(tx: DbTransaction, userId: string, code: string): Promise<TimeVoucher | undefined> {
+    const [row] = await tx
+      .select()
+      .from(timeVouchers)
+      .where(and(eq(timeVouchers.userId, userId), eq(timeVouchers.code, code)))
+      .for("update");
+    return row || undefined;
+  }
+
+  /** Codes are unique across every store, so a new one is checked against all of them. */
+  async isCodeTaken(code: string): Promise<boolean> {
+    const [row] = await db.select({ id: timeVouchers.id }).from(timeVouchers).where(eq(timeVouchers.code, code)).limit(1);
+    return !!row;
+  }
+
+  async createVouchers(userId: string, vouchers: NewTimeVoucher[]): Promise<TimeVoucher[]> {
+    if (vouchers.length === 0) return [];
+    return db
+      .insert(timeVouchers)
+      .values(vouchers.map((voucher) => ({ ...voucher, userId, createdAt: new Date(), updatedAt: new Date() })))
+      .returning();
+  }
+
+  /** Only vouchers nobody has spent can be deleted. Undefined when there is no such voucher. */
+  async deleteVoucher(userId: string, id: string): Promise<TimeVoucher | undefined> {
+    const [row] = await db
+      .delete(timeVouchers)
+      .where(and(eq(timeVouchers.userId, userId), eq(timeVouchers.id, id), isNull(timeVouchers.redeemedAt)))
+      .returning();
+    return row || undefined;
+  }
+
+  /** Spend a locked voucher on a checkout, inside the caller's transaction. */
+  async redeemVoucher(tx: DbTransaction, voucherId: string, redemption: VoucherRedemptionRow): Promise<void> {
+    await tx
+      .update(timeVouchers)
+      .set({
+        redeemedAt: new Date(),
+        redeemedSessionId: redemption.sessionId,
+        redeemedMinutes: redemption.minutes,
+        redeemedAmount: redemption.amount.toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(timeVouchers.id, voucherId));
+  }
+
+  /** Make the vouchers a session spent redeemable again, e.g. when its checkout is voided or reopened. */
+  async releaseSessionVouchers(tx: DbTransaction, userId: string, sessionId: string): Promise<void> {
+    await tx
+      .update(timeVouchers)
+      .set({
+        redeemedAt: null,
+        redeemedSessionId: null,
+        redeemedMinutes: null,
+        redeemedAmount: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(timeVouchers.userId, userId), eq(timeVouchers.redeemedSessionId, sessionId)));
+  }
+}
+
+export const timeVoucherStorage = new TimeVoucherStorage();
@@ -0,0 +1,99 @@
+import { randomInt } from "crypto";
+import type { TimeVoucher, TimeVoucherStatus } from "@shared/schema";
+import { roundMoney, type DiscountSpec } from "../payments/utils";
+
+/** The gift card alphabet: no 0/O, 1/I/L or 5/S. */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRTUVWXYZ2346789";
+const CODE_LENGTH = 10;
+
+/** A bill's time as vouchers and memberships spend it. */
+export type TimeSegment = {
+  stationId: string;
+  stationType: string;
+  billableSeconds: number;
+  timeAmount: number;
+};
+
+/** Seconds taken off one segment, and what they were charged. */
+export type TimeTaken = { segment: TimeSegment; seconds: number; amount: number };
+
+export type VoucherRedemption = {
+  voucher: TimeVoucher;
+  spec: DiscountSpec;
+  /** Minutes of the voucher the bill used, rounded to the nearest minute. */
+  minutes: number;
+};
+
+/** A new voucher code, normalized. */
+export function generateVoucherCode(): string {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+}
+
+/** Codes are matched without regard to case, spaces or dashes. */
+export function normalizeVoucherCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function voucherStatus(voucher: TimeVoucher, now = new Date()): TimeVoucherStatus {
+  if (voucher.redeemedAt) return "redeemed";
+  if (voucher.expiresAt && voucher.expiresAt <= now) return "expired";
+  return "active";
+}
+
+/** e.g. "90 min" or "2 h". */
+export function formatVoucherMinutes(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function sameStationType(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Spend `seconds` of a bill's time on its cheapest segments first, each at its own rate. Time that
+ * is already free isn't worth spending on, so it is skipped.
+ */
+export function takeCheapestTime(segments: TimeSegment[], seconds: number): TimeTaken[] {
+  const charged = segments
+    .filter((segment) => segment.billableSeconds > 0 && segment.timeAmount > 0)
+    .sort((a, b) => a.timeAmount / a.billableSeconds - b.timeAmount / b.billableSeconds);
+  const taken: TimeTaken[] = [];
+  let remaining = seconds;
+  for (const segment of charged) {
+    if (remaining <= 0) break;
+    const spent = Math.min(remaining, segment.billableSeconds);
+    taken.push({ segment, seconds: spent, amount: (segment.timeAmount * spent) / segment.billableSeconds });
+    remaining -= spent;
+  }
+  return taken;
+}
+
+/** Price a voucher against a bill's time: its minutes come off the cheapest segments it's good on. */
+export function priceVoucher(voucher: TimeVoucher, segments: TimeSegment[]): VoucherRedemption {
+  const eligible = voucher.stationType
+    ? segments.filter((segment) => sameStationType(segment.stationType, voucher.stationType ?? ""))
+    : segments;
+  const taken = takeCheapestTime(eligible, voucher.minutes * 60);
+  const seconds = taken.reduce((sum, entry) => sum + entry.seconds, 0);
+  if (seconds === 0) throw new Error("Voucher doesn't cover any time on this bill");
+  const amount = taken.reduce((sum, entry) => sum + entry.amount, 0);
+  const stationIds = Array.from(new Set(taken.map((entry) => entry.segment.stationId)));
+
+  return {
+    voucher,
+    spec: {
+      source: "voucher",
+      promotionId: null,
+      code: voucher.code,
+      name: `${formatVoucherMinutes(voucher.minutes)} time voucher`,
+      reasonCode: null,
+      note: null,
+      kind: "amount",
+      value: roundMoney(amount),
+      scope: voucher.stationType ? "stations" : "time",
+      categories: [],
+      stationIds: voucher.stationType ? stationIds : [],
+    },
+    minutes: Math.round(seconds / 60),
+  };
+}
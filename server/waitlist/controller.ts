@@ -0,0 +1,71 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  insertWaitlistEntrySchema,
+  updateWaitlistEntrySchema,
+  waitlistEstimateQuerySchema,
+} from "@shared/schema";
+import { getUserId } from "../middleware/auth";
+import { toHttpError } from "./errors";
+import { waitlistService } from "./service";
+
+export async function listWaitlist(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = await waitlistService.listWaiting(uid);
+    res.json(data);
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function estimateWaitlist(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const { stationType } = waitlistEstimateQuerySchema.parse(req.query);
+    const data = await waitlistService.estimateWait(uid, stationType ?? null);
+    res.json(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function createWaitlistEntry(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const data = insertWaitlistEntrySchema.parse(req.body);
+    const created = await waitlistService.createEntry(uid, data);
+    res.status(201).json(created);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function updateWaitlistEntry(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    const patch = updateWaitlistEntrySchema.parse(req.body);
+    const updated = await waitlistService.updateEntry(uid, req.params.id, patch);
+    res.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) return res.status(400).json({ error: err.flatten() });
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
+
+export async function deleteWaitlistEntry(req: Request, res: Response) {
+  try {
+    const uid = getUserId(req);
+    await waitlistService.deleteEntry(uid, req.params.id);
+    res.status(204).send();
+  } catch (err) {
+    const { status, message } = toHttpError(err);
+    return res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,19 @@
+export class WaitlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class WaitlistNotFoundError extends WaitlistError {}
+export class WaitlistValidationError extends WaitlistError {}
+
+export function toHttpError(err: unknown): { status: number; message: string } {
+  if (err instanceof WaitlistNotFoundError) {
+    return { status: 404, message: err.message };
+  }
+  if (err instanceof WaitlistValidationError) {
+    return { status: 400, message: err.message };
+  }
+  return { status: 500, message: "Internal Server Error" };
+}
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import {
+  createWaitlistEntry,
+  deleteWaitlistEntry,
+  estimateWaitlist,
+  listWaitlist,
+  updateWaitlistEntry,
+} from "./controller";
+
+const router = Router();
+
+router.get("/api/waitlist", requireAuth, listWaitlist);
+router.get("/api/waitlist/estimate", requireAuth, estimateWaitlist);
+router.post("/api/waitlist", requireAuth, createWaitlistEntry);
+router.patch("/api/waitlist/:id", requireAuth, updateWaitlistEntry);
+router.delete("/api/waitlist/:id", requireAuth, deleteWaitlistEntry);
+
+export const waitlistRouter = router;
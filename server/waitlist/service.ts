@@ -0,0 +1,91 @@
+import type { InsertWaitlistEntryInput, UpdateWaitlistEntryInput, WaitlistEntry } from "@shared/schema";
+import { waitlistStorage, type WaitlistValues } from "./storage";
+import { estimateWaitMinutes } from "./utils";
+import { WaitlistNotFoundError, WaitlistValidationError } from "./errors";
+
+const DEFAULT_SESSION_SECONDS = 60 * 60;
+const TYPICAL_LOOKBACK_MS = 30 * 24 * 3600 * 1000;
+
+export type WaitlistEstimateDto = {
+  stationType: string | null;
+  partiesAhead: number;
+  estimatedWaitMinutes: number;
+};
+
+class WaitlistService {
+  /** Average recent session length for the type, kept between 15 minutes and 4 hours. */
+  private async getTypicalSeconds(userId: string, stationType: string | null): Promise<number> {
+    const since = new Date(Date.now() - TYPICAL_LOOKBACK_MS);
+    const average = await waitlistStorage.getAverageSessionSeconds(userId, since, stationType);
+    return Math.min(4 * 3600, Math.max(15 * 60, average ?? DEFAULT_SESSION_SECONDS));
+  }
+
+  /** Waiting parties that would take the same stations: any-station parties compete with everyone. */
+  private countPartiesAhead(waiting: WaitlistEntry[], stationType: string | null): number {
+    if (!stationType) return waiting.length;
+    return waiting.filter((entry) => !entry.stationType || entry.stationType === stationType).length;
+  }
+
+  async estimateWait(userId: string, stationType: string | null, waiting?: WaitlistEntry[]): Promise<WaitlistEstimateDto> {
+    const queue = waiting ?? (await waitlistStorage.listWaiting(userId));
+    const partiesAhead = this.countPartiesAhead(queue, stationType);
+    const estimatedWaitMinutes = estimateWaitMinutes({
+      occupancy: await waitlistStorage.listStationOccupancy(userId),
+      stationType,
+      partiesAhead,
+      typicalSeconds: await this.getTypicalSeconds(userId, stationType),
+      now: new Date(),
+    });
+    if (estimatedWaitMinutes === null) {
+      throw new WaitlistValidationError(stationType ? `No ${stationType} stations are enabled` : "No stations are enabled");
+    }
+    return { stationType, partiesAhead, estimatedWaitMinutes };
+  }
+
+  async listWaiting(userId: string): Promise<WaitlistEntry[]> {
+    return waitlistStorage.listWaiting(userId);
+  }
+
+  async createEntry(userId: string, input: InsertWaitlistEntryInput): Promise<WaitlistEntry> {
+    const stationType = input.stationType ?? null;
+    const quotedWaitMinutes =
+      input.quotedWaitMinutes ?? (await this.estimateWait(userId, stationType)).estimatedWaitMinutes;
+
+    const values: WaitlistValues = {
+      customerName: input.customerName,
+      customerPhone: input.customerPhone || null,
+      partySize: input.partySize,
+      stationType,
+      quotedWaitMinutes,
+      notes: input.notes || null,
+    };
+    return waitlistStorage.createEntry(userId, values);
+  }
+
+  async updateEntry(userId: string, id: string, patch: UpdateWaitlistEntryInput): Promise<WaitlistEntry> {
+    const existing = await waitlistStorage.getEntry(userId, id);
+    if (!existing) throw new WaitlistNotFoundError("Waitlist entry not found");
+    if (existing.status === "seated") {
+      throw new WaitlistValidationError("Seated parties cannot be changed");
+    }
+
+    const updated = await waitlistStorage.updateEntry(userId, id, {
+      customerName: patch.customerName ?? existing.customerName,
+      customerPhone: patch.customerPhone !== undefined ? patch.customerPhone || null : existing.customerPhone,
+      partySize: patch.partySize ?? existing.partySize,
+      stationType: patch.stationType !== undefined ? patch.stationType ?? null : existing.stationType,
+      quotedWaitMinutes: patch.quotedWaitMinutes ?? existing.quotedWaitMinutes,
+      notes: patch.notes !== undefined ? patch.notes || null : existing.notes,
+      status: patch.status ?? existing.status,
+    });
+    if (!updated) throw new WaitlistNotFoundError("Waitlist entry not found");
+    return updated;
+  }
+
+  async deleteEntry(userId: string, id: string): Promise<void> {
+    const ok = await waitlistStorage.deleteEntry(userId, id);
+    if (!ok) throw new WaitlistNotFoundError("Waitlist entry not found");
+  }
+}
+
+export const waitlistService = new WaitlistService();
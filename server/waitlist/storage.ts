@@ -0,0 +1,169 @@
+import { sessions, sessionTimeSegments, stations, waitlistEntries, type WaitlistEntry } from "@shared/schema";
+import { db, type DbExecutor } from "../db";
+import { and, asc, eq, gte, inArray, ne, sql } from "drizzle-orm";
+
+export type WaitlistValues = {
+  customerName: string;
+  customerPhone: string | null;
+  partySize: number;
+  stationType: string | null;
+  quotedWaitMinutes: number;
+  notes: string | null;
+};
+
+export type StationOccupancy = {
+  stationId: string;
+  stationType: string;
+  isEnabled: boolean;
+  /**
+   * Null when the station is free. `segmentSeconds` is what the session played in its closed segments,
+   * before a transfer or headcount change started the running stretch.
+   */
+  session: { startedAt: Date; pausedAt: Date | null; totalPausedSeconds: number; segmentSeconds: number } | null;
+};
+
+class WaitlistStorage {
+  async listWaiting(userId: string): Promise<WaitlistEntry[]> {
+    return db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.userId, userId), eq(waitlistEntries.status, "waiting")))
+      .orderBy(asc(waitlistEntries.createdAt));
+  }
+
+  async getEntry(userId: string, id: string): Promise<WaitlistEntry | undefined> {
+    const [row] = await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.userId, userId), eq(waitlistEntries.id, id)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  /** Every station with the open session on it, if any. */
+  async listStationOccupancy(userId: string): Promise<StationOccupancy[]> {
+    const rows = await db
+      .select({
+        stationId: stations.id,
+        stationType: stations.stationType,
+        isEnabled: stations.isEnabled,
+        sessionId: sessions.id,
+        startedAt: sessions.startedAt,
+        pausedAt: sessions.pausedAt,
+        totalPausedSeconds: sessions.totalPausedSeconds,
+      })
+      .from(stations)
+      .leftJoin(
+        sessions,
+        and(eq(sessions.stationId, stations.id), eq(sessions.userId, userId), ne(sessions.status, "closed")),
+      )
+      .where(eq(stations.userId, userId));
+
+    const sessionIds = rows.map((row) => row.sessionId).filter((id): id is string => !!id);
+    const played =
+      sessionIds.length > 0
+        ? await db
+            .select({
+              sessionId: sessionTimeSegments.sessionId,
+              seconds: sql<number>`coalesce(sum(${sessionTimeSegments.effectiveSeconds}), 0)::int`,
+            })
+            .from(sessionTimeSegments)
+            .where(inArray(sessionTimeSegments.sessionId, sessionIds))
+            .groupBy(sessionTimeSegments.sessionId)
+        : [];
+    const segmentSeconds = new Map(played.map((row) => [row.sessionId, Number(row.seconds)]));
+
+    return rows.map((row) => ({
+      stationId: row.stationId,
+      stationType: row.stationType,
+      isEnabled: row.isEnabled,
+      session:
+        row.sessionId && row.startedAt
+          ? {
+              startedAt: row.startedAt,
+              pausedAt: row.pausedAt,
+              totalPausedSeconds: row.totalPausedSeconds ?? 0,
+              segmentSeconds: segmentSeconds.get(row.sessionId) ?? 0,
+            }
+          : null,
+    }));
+  }
+
+  /**
+   * Average played seconds of sessions closed since `since`, optionally for one station type.
+   * A closed session's play is all in its segments, including any before a transfer.
+   */
+  async getAverageSessionSeconds(userId: string, since: Date, stationType: string | null): Promise<number | null> {
+    const conditions = [
+      eq(sessions.userId, userId),
+      eq(sessions.status, "closed"),
+      gte(sessions.closedAt, since),
+    ];
+    if (stationType) conditions.push(eq(stations.stationType, stationType));
+
+    const [row] = await db
+      .select({
+        avgSeconds: sql<string | null>`sum(${sessionTimeSegments.effectiveSeconds})::numeric / nullif(count(distinct ${sessions.id}), 0)`,
+      })
+      .from(sessions)
+      .innerJoin(stations, eq(stations.id, sessions.stationId))
+      .innerJoin(sessionTimeSegments, eq(sessionTimeSegments.sessionId, sessions.id))
+      .where(and(...conditions));
+
+    const avg = row?.avgSeconds === null || row?.avgSeconds === undefined ? null : Number(row.avgSeconds);
+    return avg !== null && Number.isFinite(avg) ? avg : null;
+  }
+
+  async createEntry(userId: string, values: WaitlistValues): Promise<WaitlistEntry> {
+    const [row] = await db
+      .insert(waitlistEntries)
+      .values({
+        userId,
+        ...values,
+        status: "waiting",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return row;
+  }
+
+  async updateEntry(
+    userId: string,
+    id: string,
+    values: WaitlistValues & { status: "waiting" | "left" },
+  ): Promise<WaitlistEntry | undefined> {
+    const [row] = await db
+      .update(waitlistEntries)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.userId, userId), eq(waitlistEntries.id, id)))
+      .returning();
+    return row || undefined;
+  }
+
+  /** Record where a waiting party was seated. Returns undefined if it was no longer waiting. */
+  async markSeated(
+    executor: DbExecutor,
+    userId: string,
+    id: string,
+    stationId: string,
+    sessionId: string,
+  ): Promise<WaitlistEntry | undefined> {
+    const [row] = await executor
+      .update(waitlistEntries)
+      .set({ status: "seated", stationId, sessionId, seatedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.userId, userId), eq(waitlistEntries.id, id), eq(waitlistEntries.status, "waiting")))
+      .returning();
+    return row || undefined;
+  }
+
+  async deleteEntry(userId: string, id: string): Promise<boolean> {
+    const rows = await db
+      .delete(waitlistEntries)
+      .where(and(eq(waitlistEntries.userId, userId), eq(waitlistEntries.id, id)))
+      .returning();
+    return rows.length > 0;
+  }
+}
+
+export const waitlistStorage = new WaitlistStorage();
@@ -0,0 +1,43 @@
+import type { StationOccupancy } from "./storage";
+
+/** A running session is always assumed to have at least this long left. */
+const MIN_REMAINING_SECONDS = 5 * 60;
+
+/** Seconds the session has played: its closed segments plus the running stretch. */
+export function elapsedSeconds(session: NonNullable<StationOccupancy["session"]>, now: Date): number {
+  const gross = (now.getTime() - session.startedAt.getTime()) / 1000;
+  const pausing = session.pausedAt ? (now.getTime() - session.pausedAt.getTime()) / 1000 : 0;
+  return session.segmentSeconds + Math.max(0, gross - session.totalPausedSeconds - pausing);
+}
+
+/**
+ * Estimate how long the party at position `partiesAhead` waits for a station.
+ * Each matching station frees up when its session reaches the typical length
+ * (free stations now, busy ones after their remaining time); parties take them in turn,
+ * and each further round adds another typical session.
+ * Returns null when no enabled station matches.
+ */
+export function estimateWaitMinutes(params: {
+  occupancy: StationOccupancy[];
+  stationType: string | null;
+  partiesAhead: number;
+  typicalSeconds: number;
+  now: Date;
+}): number | null {
+  const { occupancy, stationType, partiesAhead, typicalSeconds, now } = params;
+  const candidates = occupancy.filter(
+    (station) => station.isEnabled && (!stationType || station.stationType === stationType),
+  );
+  if (candidates.length === 0) return null;
+
+  const freeInSeconds = candidates
+    .map((station) =>
+      station.session ? Math.max(MIN_REMAINING_SECONDS, typicalSeconds - elapsedSeconds(station.session, now)) : 0,
+    )
+    .sort((a, b) => a - b);
+
+  const slot = partiesAhead % freeInSeconds.length;
+  const rounds = Math.floor(partiesAhead / freeInSeconds.length);
+  const waitSeconds = freeInSeconds[slot] + rounds * typicalSeconds;
+  return Math.ceil(waitSeconds / 60 / 5) * 5;
+}
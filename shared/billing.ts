@@ -0,0 +1,58 @@
+export type BillingRoundingMode = "up" | "nearest";
+
+/**
+ * How the players tracked on a session affect its price. "headcount" moves between solo and
+ * group as players come and go; "per_player" charges the tier rate once for each player.
+ */
+export type PlayerBillingMode = "headcount" | "per_player";
+
+/** What the hourly rate is multiplied by; sessions with no tracked players pay it once. */
+export function playerRateMultiplier(mode: PlayerBillingMode, playerCount: number): number {
+  return mode === "per_player" && playerCount > 0 ? playerCount : 1;
+}
+
+/**
+ * How a station turns played seconds into billable seconds.
+ * An increment of 0 bills exact seconds (the original behaviour).
+ */
+export type BillingRule = {
+  billingIncrementMinutes: number;
+  billingRoundingMode: BillingRoundingMode;
+  minimumBillableMinutes: number;
+  graceMinutes: number;
+};
+
+export const DEFAULT_BILLING_RULE: BillingRule = {
+  billingIncrementMinutes: 0,
+  billingRoundingMode: "up",
+  minimumBillableMinutes: 0,
+  graceMinutes: 0,
+};
+
+/**
+ * Apply a billing rule to a stretch of play.
+ * - Play within the grace period is free, so a mistaken start is not charged the minimum.
+ * - Otherwise time is rounded to the increment ("up" bills every started increment),
+ *   then raised to the minimum.
+ */
+export function computeBillableSeconds(effectiveSeconds: number, rule: BillingRule): number {
+  const seconds = Math.max(0, Math.floor(effectiveSeconds));
+  if (seconds === 0 || seconds <= rule.graceMinutes * 60) return 0;
+
+  let billable = seconds;
+  const incrementSeconds = rule.billingIncrementMinutes * 60;
+  if (incrementSeconds > 0) {
+    const increments = rule.billingRoundingMode === "nearest"
+      ? Math.round(seconds / incrementSeconds)
+      : Math.ceil(seconds / incrementSeconds);
+    billable = increments * incrementSeconds;
+  }
+
+  return Math.max(billable, rule.minimumBillableMinutes * 60);
+}
+
+/** Time charge for a stretch of play at an hourly rate, rounded to cents. */
+export function computeTimeCharge(effectiveSeconds: number, hourlyRate: number, rule: BillingRule): number {
+  const billableSeconds = computeBillableSeconds(effectiveSeconds, rule);
+  return Math.round((billableSeconds / 3600) * hourlyRate * 100) / 100;
+}
@@ -1,19 +1,33 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, numeric, integer, boolean, timestamp, pgEnum, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, numeric, integer, boolean, timestamp, pgEnum, decimal, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 /**
  * USERS
  * id = Firebase uid
+ * loyaltyProgram picks how customers are rewarded: "hours" unlocks discountRate after
+ * discountThresholdSeconds of play; "points" earns points per dollar and per hour, spent on rewards.
  */
+export const loyaltyProgramEnum = pgEnum("loyalty_program", ["hours", "points"]);
+
+/** A new store's loyalty settings, until it changes them. */
+export const DEFAULT_DISCOUNT_THRESHOLD_SECONDS = 20 * 3600;
+export const DEFAULT_DISCOUNT_RATE = "0.2";
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey(),
   email: text("email"),
   storeName: text("store_name"),
   logoDataUrl: text("logo_data_url"),
-  discountThresholdSeconds: integer("discount_threshold_seconds").notNull().default(20 * 3600),
-  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }).notNull().default("0.2"),
+  discountThresholdSeconds: integer("discount_threshold_seconds").notNull().default(DEFAULT_DISCOUNT_THRESHOLD_SECONDS),
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }).notNull().default(DEFAULT_DISCOUNT_RATE),
+  loyaltyProgram: loyaltyProgramEnum("loyalty_program").notNull().default("hours"),
+  pointsPerDollar: numeric("points_per_dollar", { precision: 10, scale: 2 }).notNull().default("0"),
+  pointsPerHour: numeric("points_per_hour", { precision: 10, scale: 2 }).notNull().default("0"),
+  timeZone: text("time_zone").notNull().default("UTC"),
+  /** Menu and table prices already include sales tax; checkout backs the tax out instead of adding it. */
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
   cloverMerchantId: text("clover_merchant_id"),
   cloverAccessToken: text("clover_access_token"),
   cloverConnectedAt: timestamp("clover_connected_at"),
@@ -45,6 +59,9 @@ export const menuItems = pgTable("menu_items", {
 /**
  * STATIONS (user-scoped)
  */
+export const billingRoundingModeEnum = pgEnum("billing_rounding_mode", ["up", "nearest"]);
+export const playerBillingModeEnum = pgEnum("player_billing_mode", ["headcount", "per_player"]);
+
 export const stations = pgTable("stations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -52,12 +69,122 @@ export const stations = pgTable("stations", {
   stationType: text("station_type").notNull().default("pool"),
   rateSoloHourly: numeric("rate_solo_hourly", { precision: 10, scale: 2 }).notNull().default("0"),
   rateGroupHourly: numeric("rate_group_hourly", { precision: 10, scale: 2 }).notNull().default("0"),
+  billingIncrementMinutes: integer("billing_increment_minutes").notNull().default(0),
+  billingRoundingMode: billingRoundingModeEnum("billing_rounding_mode").notNull().default("up"),
+  minimumBillableMinutes: integer("minimum_billable_minutes").notNull().default(0),
+  graceMinutes: integer("grace_minutes").notNull().default(0),
+  /** How tracked players change the price: by switching solo/group, or by charging each player. */
+  playerBillingMode: playerBillingModeEnum("player_billing_mode").notNull().default("headcount"),
   isEnabled: boolean("is_enabled").notNull().default(true),
   sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+/**
+ * STATION RATES (user-scoped)
+ * Named tiers a station sells on top of solo and group, e.g. "Student" or "League night",
+ * each at its own flat hourly rate. Rate schedules do not apply to them.
+ */
+export const stationRates = pgTable("station_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  stationId: varchar("station_id").notNull().references(() => stations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  rateHourly: numeric("rate_hourly", { precision: 10, scale: 2 }).notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * RATE SCHEDULES (user-scoped)
+ * Time-of-day / day-of-week rates for one station or every station of a type.
+ * Minutes are local to the store's time zone; endMinute <= startMinute wraps past midnight
+ * and the overnight part belongs to the day the window started on.
+ */
+export const rateSchedules = pgTable("rate_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  stationId: varchar("station_id").references(() => stations.id, { onDelete: "cascade" }),
+  stationType: text("station_type"),
+  daysOfWeek: integer("days_of_week").array().notNull(),
+  startMinute: integer("start_minute").notNull(),
+  endMinute: integer("end_minute").notNull(),
+  rateSoloHourly: numeric("rate_solo_hourly", { precision: 10, scale: 2 }).notNull(),
+  rateGroupHourly: numeric("rate_group_hourly", { precision: 10, scale: 2 }).notNull(),
+  priority: integer("priority").notNull().default(0),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * TAX RATES (user-scoped)
+ * One sales tax the store collects, e.g. state or city tax. rate is a fraction (0.0825 = 8.25%).
+ */
+export const taxRates = pgTable("tax_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  rate: decimal("rate", { precision: 7, scale: 5 }).notNull(),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * TAX CLASSES (user-scoped)
+ * A set of tax rates charged together, assigned to menu categories and/or table time.
+ * A category or table time belongs to at most one class; anything unassigned is not taxed.
+ */
+export const taxClasses = pgTable("tax_classes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  taxRateIds: varchar("tax_rate_ids").array().notNull(),
+  /** Menu item categories, matched without regard to case. */
+  categories: text("categories").array().notNull(),
+  appliesToTime: boolean("applies_to_time").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const discountKindEnum = pgEnum("discount_kind", ["percent", "amount"]);
+export const discountScopeEnum = pgEnum("discount_scope", ["all", "time", "items", "categories", "stations"]);
+
+/**
+ * PROMOTIONS (user-scoped)
+ * A code staff enter at checkout. value is a fraction for percent promotions (0.15 = 15%) and
+ * dollars for amount ones. scope limits what the discount comes off: the whole bill, table time,
+ * items, items in `categories`, or time played on `stationIds`.
+ * The code is accepted between startsAt and endsAt, and for at most maxUses checkouts.
+ */
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** Stored upper-case; unique per store. */
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  kind: discountKindEnum("kind").notNull(),
+  value: numeric("value", { precision: 10, scale: 4 }).notNull(),
+  scope: discountScopeEnum("scope").notNull().default("all"),
+  /** Menu item categories, matched without regard to case. */
+  categories: text("categories").array().notNull(),
+  stationIds: varchar("station_ids").array().notNull(),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  /** Null for unlimited. */
+  maxUses: integer("max_uses"),
+  /** Checkouts that used the code; released when one is reopened. */
+  usesCount: integer("uses_count").notNull().default(0),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
 export const sessionStatusEnum = pgEnum("session_status", ["active", "paused", "closed"]);
 export const pricingTierEnum = pgEnum("pricing_tier", ["solo", "group"]);
 
@@ -69,13 +196,20 @@ export const sessions = pgTable("sessions", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   stationId: varchar("station_id").notNull().references(() => stations.id, { onDelete: "cascade" }),
   customerName: text("customer_name"),
+  /** Loyalty customer attached at start; earns the session's played time when it closes. */
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
   status: sessionStatusEnum("status").notNull().default("active"),
   startedAt: timestamp("started_at").notNull(),
   pausedAt: timestamp("paused_at"),
   totalPausedSeconds: integer("total_paused_seconds").notNull().default(0),
   closedAt: timestamp("closed_at"),
   pricingTier: pricingTierEnum("pricing_tier").notNull(),
+  /** Station tier the open stretch is played at; null for plain solo or group. */
+  stationRateId: varchar("station_rate_id").references(() => stationRates.id, { onDelete: "set null" }),
   rateHourlySnapshot: numeric("rate_hourly_snapshot", { precision: 10, scale: 2 }).notNull(),
+  /** Time bought up front ("1 hour on table 3"); null for open-ended sessions. */
+  prepaidMinutes: integer("prepaid_minutes"),
+  prepaidAmount: numeric("prepaid_amount", { precision: 10, scale: 2 }),
   totalAmount: numeric("total_amount", { precision: 10, scale: 2 }),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
@@ -91,15 +225,57 @@ export const sessionTimeSegments = pgTable("session_time_segments", {
   startedAt: timestamp("started_at").notNull(),
   endedAt: timestamp("ended_at").notNull(),
   effectiveSeconds: integer("effective_seconds").notNull(),
+  billableSeconds: integer("billable_seconds").notNull().default(0),
+  billingIncrementMinutesSnapshot: integer("billing_increment_minutes_snapshot").notNull().default(0),
+  billingRoundingModeSnapshot: billingRoundingModeEnum("billing_rounding_mode_snapshot").notNull().default("up"),
+  minimumBillableMinutesSnapshot: integer("minimum_billable_minutes_snapshot").notNull().default(0),
+  graceMinutesSnapshot: integer("grace_minutes_snapshot").notNull().default(0),
   pricingTier: pricingTierEnum("pricing_tier").notNull(),
   rateSoloHourlySnapshot: numeric("rate_solo_hourly_snapshot", { precision: 10, scale: 2 }).notNull(),
   rateGroupHourlySnapshot: numeric("rate_group_hourly_snapshot", { precision: 10, scale: 2 }).notNull(),
   rateHourlyApplied: numeric("rate_hourly_applied", { precision: 10, scale: 2 }).notNull(),
+  /** Station tier the segment was sold at; its rate is rateHourlyApplied. */
+  stationRateId: varchar("station_rate_id").references(() => stationRates.id, { onDelete: "set null" }),
+  stationRateNameSnapshot: text("station_rate_name_snapshot"),
+  rateScheduleId: varchar("rate_schedule_id").references(() => rateSchedules.id, { onDelete: "set null" }),
+  rateScheduleNameSnapshot: text("rate_schedule_name_snapshot"),
   timeAmount: numeric("time_amount", { precision: 10, scale: 2 }).notNull(),
+  /** Players on the session during the segment; null when none were tracked. */
+  playerCount: integer("player_count"),
+  /** rateHourlyApplied is the tier rate times playerCount. */
+  billedPerPlayer: boolean("billed_per_player").notNull().default(false),
+  /** Written by closeSession from the session's open stretch; reopening removes these rows. */
+  closedStretch: boolean("closed_stretch").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * SESSION PLAYERS
+ * Who is playing on a session. Times are kept on the session's play clock (effective seconds
+ * since the session started, across segments and transfers) so paused time is never counted.
+ */
+export const sessionPlayers = pgTable("session_players", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  joinedAt: timestamp("joined_at").notNull(),
+  leftAt: timestamp("left_at"),
+  /** The session's play clock when the player joined. */
+  joinedAtSeconds: integer("joined_at_seconds").notNull().default(0),
+  /** Seconds played, set when the player leaves or the session closes. */
+  playedSeconds: integer("played_seconds"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+/** A tax rate as it stood when a session closed. */
+export type TaxRateSnapshot = {
+  taxRateId: string | null;
+  name: string;
+  rate: number;
+};
+
 /**
  * SESSION ITEMS (snapshots)
  */
@@ -110,11 +286,191 @@ export const sessionItems = pgTable("session_items", {
   nameSnapshot: text("name_snapshot").notNull(),
   priceSnapshot: numeric("price_snapshot", { precision: 10, scale: 2 }).notNull(),
   qty: integer("qty").notNull(),
+  /** Rates the line was taxed at, written at close from its menu category; null while open. */
+  taxRates: jsonb("tax_rates").$type<TaxRateSnapshot[]>(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/** gift_card payments are taken off a gift card by code rather than chosen as a tender. */
+export const tenderTypeEnum = pgEnum("tender_type", ["cash", "card", "other", "gift_card"]);
+
+/**
+ * SESSION CHECKOUTS (one per closed session, amounts snapshotted at close)
+ */
+export const sessionCheckouts = pgTable("session_checkouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().unique().references(() => sessions.id, { onDelete: "cascade" }),
+  timeSubtotal: numeric("time_subtotal", { precision: 10, scale: 2 }).notNull(),
+  itemsSubtotal: numeric("items_subtotal", { precision: 10, scale: 2 }).notNull(),
+  subtotal: numeric("subtotal", { precision: 10, scale: 2 }).notNull(),
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }).notNull().default("0"),
+  discountAmount: numeric("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  prepaidCredit: numeric("prepaid_credit", { precision: 10, scale: 2 }).notNull().default("0"),
+  /** Sales tax within finalTotal, whether it was added on top or backed out of inclusive prices. */
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxInclusive: boolean("tax_inclusive").notNull().default(false),
+  /** Rates table time was taxed at, kept so edits re-tax the session the same way. */
+  timeTaxRates: jsonb("time_tax_rates").$type<TaxRateSnapshot[]>().notNull().default([]),
+  finalTotal: numeric("final_total", { precision: 10, scale: 2 }).notNull(),
+  splitCount: integer("split_count").notNull().default(1),
+  /** Gratuity on top of finalTotal; never refunded with the sale. */
+  tipAmount: numeric("tip_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  /** Email of the signed-in account that closed the session, for tip payouts. */
+  closedByEmail: text("closed_by_email"),
+  /** Sum of refund payments recorded against this checkout (stored positive). */
+  refundedAmount: numeric("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  voidedAt: timestamp("voided_at"),
+  /** Loyalty seconds credited to this customer at close; zeroed once reversed. */
+  loyaltyCustomerId: varchar("loyalty_customer_id").references(() => customers.id, { onDelete: "set null" }),
+  loyaltySeconds: integer("loyalty_seconds").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * SESSION CHECKOUT TAXES (one line per tax rate charged, snapshotted at close)
+ * taxableAmount is the pre-tax sales the rate applied to.
+ */
+export const sessionCheckoutTaxes = pgTable("session_checkout_taxes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkoutId: varchar("checkout_id").notNull().references(() => sessionCheckouts.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(),
+  taxRateId: varchar("tax_rate_id").references(() => taxRates.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  rate: decimal("rate", { precision: 7, scale: 5 }).notNull(),
+  taxableAmount: numeric("taxable_amount", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * SESSION CHECKOUT DISCOUNTS (one line per discount taken, snapshotted at close)
+ * Each source can appear once: the loyalty discount, a promotion code, a manual discount, a
+ * redeemed points reward and the customer's tier perk. All but loyalty keep their terms and scope
+ * so edits to the session work them out again.
+ * eligibleAmount is what the discount could come off when it was taken.
+ */
+export const discountSourceEnum = pgEnum("discount_source", [
+  "loyalty",
+  "promotion",
+  "manual",
+  "reward",
+  "tier",
+  "voucher",
+  "membership",
+]);
+export const discountReasonEnum = pgEnum("discount_reason", ["comp", "service_recovery", "staff", "price_match", "other"]);
+
+export const sessionCheckoutDiscounts = pgTable("session_checkout_discounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkoutId: varchar("checkout_id").notNull().references(() => sessionCheckouts.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(),
+  source: discountSourceEnum("source").notNull(),
+  promotionId: varchar("promotion_id").references(() => promotions.id, { onDelete: "set null" }),
+  code: text("code"),
+  name: text("name").notNull(),
+  /** Manual discounts only. */
+  reasonCode: discountReasonEnum("reason_code"),
+  note: text("note"),
+  kind: discountKindEnum("kind").notNull(),
+  value: numeric("value", { precision: 10, scale: 4 }).notNull(),
+  scope: discountScopeEnum("scope").notNull().default("all"),
+  categories: text("categories").array().notNull(),
+  stationIds: varchar("station_ids").array().notNull(),
+  eligibleAmount: numeric("eligible_amount", { precision: 10, scale: 2 }).notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * SESSION CHECKOUT PAYERS (itemized split bills; one row per named payer)
+ * Allocations give each payer a share of session item and time segment lines.
+ * Amounts are the payer's portion of the checkout's, apportioned to the cent.
+ */
+export type SplitAllocation = {
+  kind: "item" | "segment";
+  /** Session item or time segment id. */
+  lineId: string;
+  /** Fraction of the line this payer covers, 0 < share <= 1. */
+  share: number;
+};
+
+export const sessionCheckoutPayers = pgTable("session_checkout_payers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkoutId: varchar("checkout_id").notNull().references(() => sessionCheckouts.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(),
+  name: text("name").notNull(),
+  tenderType: tenderTypeEnum("tender_type").notNull(),
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }).notNull().default("0"),
+  timeSubtotal: numeric("time_subtotal", { precision: 10, scale: 2 }).notNull(),
+  itemsSubtotal: numeric("items_subtotal", { precision: 10, scale: 2 }).notNull(),
+  subtotal: numeric("subtotal", { precision: 10, scale: 2 }).notNull(),
+  prepaidCredit: numeric("prepaid_credit", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: numeric("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: numeric("total", { precision: 10, scale: 2 }).notNull(),
+  allocations: jsonb("allocations").$type<SplitAllocation[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * SESSION PAYMENTS (tenders collected for a checkout; one row per payer)
+ */
+export const sessionPayments = pgTable("session_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkoutId: varchar("checkout_id").notNull().references(() => sessionCheckouts.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  /** Set for itemized splits; null for even splits and refunds. */
+  payerId: varchar("payer_id").references(() => sessionCheckoutPayers.id, { onDelete: "set null" }),
+  sequence: integer("sequence").notNull(),
+  tenderType: tenderTypeEnum("tender_type").notNull(),
+  /** The card a gift_card payment, or a refund to one, moved money on. */
+  giftCardId: varchar("gift_card_id").references(() => giftCards.id, { onDelete: "set null" }),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  /** This payment's part of the checkout tip, collected on top of amount. */
+  tipAmount: numeric("tip_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * SESSION ADJUSTMENTS (audit trail of changes made to a session after checkout)
+ * A refund also adds a negative row to session_payments; amount here is positive.
+ * Edits list each corrected field with its value before and after.
+ */
+export const sessionAdjustmentTypeEnum = pgEnum("session_adjustment_type", ["reopen", "void", "refund", "edit"]);
+
+export type SessionEditChange = {
+  target: "segment" | "item" | "checkout";
+  /** Segment or session item id; the checkout id for recomputed totals. */
+  id: string;
+  label: string;
+  field: "startedAt" | "endedAt" | "pricingTier" | "stationRate" | "qty" | "finalTotal";
+  before: string | number;
+  after: string | number;
+};
+
+export const sessionAdjustments = pgTable("session_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  type: sessionAdjustmentTypeEnum("type").notNull(),
+  reason: text("reason").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }),
+  tenderType: tenderTypeEnum("tender_type"),
+  loyaltySecondsReversed: integer("loyalty_seconds_reversed").notNull().default(0),
+  changes: jsonb("changes").$type<SessionEditChange[]>(),
+  /** Email of the signed-in account that made the change. */
+  actorEmail: text("actor_email"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 /**
  * CUSTOMERS (user-scoped)
+ * tags are free-text labels such as "League" or "VIP", kept as typed and matched ignoring case.
  */
 export const customers = pgTable("customers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -122,8 +478,250 @@ export const customers = pgTable("customers", {
   firstName: text("first_name"),
   lastName: text("last_name"),
   phoneNumber: text("phone_number").notNull(),
+  email: text("email"),
+  notes: text("notes"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
   totalSeconds: integer("total_seconds").notNull().default(0),
   isDiscountAvailable: boolean("is_discount_available").notNull().default(false),
+  /** Points left to spend on rewards; the running sum of the ledger's points. */
+  pointsBalance: integer("points_balance").notNull().default(0),
+  /** Points earned and not reversed, whatever was spent; decides the customer's tier. */
+  tierPoints: integer("tier_points").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * LOYALTY TRANSACTIONS
+ * Every change to a customer's played time and points. customers.totalSeconds and pointsBalance
+ * are the running sums of these rows.
+ */
+export const loyaltyTransactionKindEnum = pgEnum("loyalty_transaction_kind", ["earn", "redeem", "adjust", "reverse"]);
+
+export const loyaltyTransactions = pgTable("loyalty_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  kind: loyaltyTransactionKindEnum("kind").notNull(),
+  /** Signed: positive adds time, negative takes it away. */
+  seconds: integer("seconds").notNull(),
+  /** Signed, like seconds. */
+  points: integer("points").notNull().default(0),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "set null" }),
+  /** The reward a redemption paid for. */
+  rewardId: varchar("reward_id").references(() => loyaltyRewards.id, { onDelete: "set null" }),
+  /** Email of the signed-in account that made the change. */
+  actorEmail: text("actor_email"),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * LOYALTY REWARDS (user-scoped catalog for the points program)
+ * free_time takes `minutes` of table time off the bill, free_item one `menuItemId` on the bill,
+ * percent_off `percentOff` (a fraction) off the whole bill.
+ */
+export const loyaltyRewardKindEnum = pgEnum("loyalty_reward_kind", ["free_time", "free_item", "percent_off"]);
+
+export const loyaltyRewards = pgTable("loyalty_rewards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  kind: loyaltyRewardKindEnum("kind").notNull(),
+  pointsCost: integer("points_cost").notNull(),
+  minutes: integer("minutes"),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "set null" }),
+  percentOff: decimal("percent_off", { precision: 5, scale: 4 }),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * LOYALTY TIERS (user-scoped, points program)
+ * A customer holds the highest tier whose minPoints their tierPoints reach. Perks: discountRate off
+ * every checkout and pointsMultiplier on points earned.
+ */
+export const loyaltyTiers = pgTable("loyalty_tiers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  minPoints: integer("min_points").notNull(),
+  discountRate: decimal("discount_rate", { precision: 5, scale: 4 }).notNull().default("0"),
+  pointsMultiplier: numeric("points_multiplier", { precision: 5, scale: 2 }).notNull().default("1"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * GIFT CARDS (user-scoped stored value)
+ * code is the normalized form (upper case, no dashes), unique across stores. balance is the running
+ * sum of the card's transactions; a customer's account balance is the sum of their cards.
+ */
+export const giftCards = pgTable("gift_cards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  code: text("code").notNull().unique(),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  initialAmount: numeric("initial_amount", { precision: 10, scale: 2 }).notNull(),
+  balance: numeric("balance", { precision: 10, scale: 2 }).notNull().default("0"),
+  /** Inactive cards (lost, stolen) keep their balance but can't be redeemed or reloaded. */
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * GIFT CARD TRANSACTIONS (ledger of every change to a card's balance)
+ * amount is signed: issue, reload and refund add, redeem takes away, adjust either way.
+ * tenderType is how the customer paid for an issue or reload.
+ */
+export const giftCardTransactionKindEnum = pgEnum("gift_card_transaction_kind", [
+  "issue",
+  "reload",
+  "redeem",
+  "refund",
+  "adjust",
+]);
+
+export const giftCardTransactions = pgTable("gift_card_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  giftCardId: varchar("gift_card_id").notNull().references(() => giftCards.id, { onDelete: "cascade" }),
+  kind: giftCardTransactionKindEnum("kind").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  balanceAfter: numeric("balance_after", { precision: 10, scale: 2 }).notNull(),
+  tenderType: tenderTypeEnum("tender_type"),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "set null" }),
+  /** Email of the signed-in account that made the change. */
+  actorEmail: text("actor_email"),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * TIME VOUCHERS (user-scoped, single use)
+ * Take up to `minutes` of table time off one checkout, cheapest segments first. stationType limits
+ * a voucher to stations of that type; null means any. code is normalized like a gift card's and
+ * unique across stores. The redeemed* columns record the checkout that spent it, and are cleared
+ * if that checkout is voided or reopened.
+ */
+export const timeVouchers = pgTable("time_vouchers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  code: text("code").notNull().unique(),
+  minutes: integer("minutes").notNull(),
+  stationType: text("station_type"),
+  /** Redeemable until this moment; null never expires. */
+  expiresAt: timestamp("expires_at"),
+  note: text("note"),
+  createdByEmail: text("created_by_email"),
+  redeemedAt: timestamp("redeemed_at"),
+  redeemedSessionId: varchar("redeemed_session_id").references(() => sessions.id, { onDelete: "set null" }),
+  /** What the voucher actually covered; less than `minutes` when the session was shorter. */
+  redeemedMinutes: integer("redeemed_minutes"),
+  redeemedAmount: numeric("redeemed_amount", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * MEMBERSHIP PLANS (user-scoped)
+ * A monthly plan a store sells for price. includedHours of table time are free each period; time past
+ * them is billed at memberRateName, the station rate of that name on stations that sell one.
+ */
+export const membershipPlans = pgTable("membership_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  price: numeric("price", { precision: 10, scale: 2 }).notNull(),
+  includedHours: numeric("included_hours", { precision: 6, scale: 2 }).notNull().default("0"),
+  memberRateName: text("member_rate_name"),
+  /** Disabled plans are kept for their members but can't be given to anyone new. */
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * CUSTOMER MEMBERSHIPS (at most one per customer)
+ * The plan a customer is on for the period from periodStart to renewsAt. usedSeconds is included
+ * time spent this period. Past renewsAt the membership lapses until it is renewed.
+ */
+export const customerMemberships = pgTable("customer_memberships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().unique().references(() => customers.id, { onDelete: "cascade" }),
+  planId: varchar("plan_id").notNull().references(() => membershipPlans.id, { onDelete: "restrict" }),
+  periodStart: timestamp("period_start").notNull(),
+  renewsAt: timestamp("renews_at").notNull(),
+  usedSeconds: integer("used_seconds").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * MEMBERSHIP USAGES (one per checkout a membership priced)
+ * includedSeconds came off the period starting periodStart; amount is what the membership took off
+ * the bill. Kept so a voided or reopened checkout can give the time back.
+ */
+export const membershipUsages = pgTable("membership_usages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  membershipId: varchar("membership_id").notNull().references(() => customerMemberships.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  periodStart: timestamp("period_start").notNull(),
+  includedSeconds: integer("included_seconds").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+/**
+ * RESERVATIONS (user-scoped)
+ * A booking for one station, or for any station of a type when stationId is null.
+ * Seating a reservation starts a session and links it here.
+ */
+export const reservationStatusEnum = pgEnum("reservation_status", ["booked", "seated", "cancelled", "no_show"]);
+
+export const reservations = pgTable("reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  customerName: text("customer_name").notNull(),
+  customerPhone: text("customer_phone"),
+  stationId: varchar("station_id").references(() => stations.id, { onDelete: "cascade" }),
+  stationType: text("station_type"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  partySize: integer("party_size").notNull().default(1),
+  status: reservationStatusEnum("status").notNull().default("booked"),
+  notes: text("notes"),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+/**
+ * WAITLIST (user-scoped)
+ * Walk-in parties waiting for a station; stationType null means any station.
+ * quotedWaitMinutes is what staff told the party when they joined.
+ */
+export const waitlistStatusEnum = pgEnum("waitlist_status", ["waiting", "seated", "left"]);
+
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  customerName: text("customer_name").notNull(),
+  customerPhone: text("customer_phone"),
+  partySize: integer("party_size").notNull().default(1),
+  stationType: text("station_type"),
+  quotedWaitMinutes: integer("quoted_wait_minutes").notNull().default(0),
+  status: waitlistStatusEnum("status").notNull().default("waiting"),
+  notes: text("notes"),
+  stationId: varchar("station_id").references(() => stations.id, { onDelete: "set null" }),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "set null" }),
+  seatedAt: timestamp("seated_at"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -155,6 +753,38 @@ export const updateDiscountSettingsSchema = z.object({
   discountRate: z.coerce.number().min(0).max(1),
 });
 
+export const updateLoyaltyProgramSchema = z.object({
+  loyaltyProgram: z.enum(["hours", "points"]),
+  pointsPerDollar: z.coerce.number().min(0).max(1000),
+  pointsPerHour: z.coerce.number().min(0).max(100000),
+});
+
+const loyaltyRewardFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  kind: z.enum(["free_time", "free_item", "percent_off"]),
+  pointsCost: z.number().int().min(1).max(10_000_000),
+  minutes: z.number().int().min(1).max(24 * 60).nullable().optional(),
+  menuItemId: z.string().min(1).nullable().optional(),
+  /** Fraction, e.g. 0.1 for 10% off. */
+  percentOff: z.coerce.number().positive().max(1).nullable().optional(),
+  isEnabled: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).max(1000).default(0),
+});
+
+export const insertLoyaltyRewardSchema = loyaltyRewardFieldsSchema;
+export const updateLoyaltyRewardSchema = loyaltyRewardFieldsSchema.partial();
+
+const loyaltyTierFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  minPoints: z.number().int().min(0).max(100_000_000),
+  /** Fraction off every checkout. */
+  discountRate: z.coerce.number().min(0).max(1).default(0),
+  pointsMultiplier: z.coerce.number().min(0).max(100).default(1),
+});
+
+export const insertLoyaltyTierSchema = loyaltyTierFieldsSchema;
+export const updateLoyaltyTierSchema = loyaltyTierFieldsSchema.partial();
+
 export const insertMenuItemSchema = createInsertSchema(menuItems).omit({
   id: true,
   userId: true,
@@ -164,7 +794,11 @@ export const insertMenuItemSchema = createInsertSchema(menuItems).omit({
 
 export const updateMenuItemSchema = insertMenuItemSchema.partial();
 
-export const insertStationSchema = createInsertSchema(stations).omit({
+export const insertStationSchema = createInsertSchema(stations, {
+  billingIncrementMinutes: (schema) => schema.int().min(0).max(240),
+  minimumBillableMinutes: (schema) => schema.int().min(0).max(1440),
+  graceMinutes: (schema) => schema.int().min(0).max(240),
+}).omit({
   id: true,
   userId: true,
   sortOrder: true,
@@ -178,28 +812,211 @@ export const reorderStationsSchema = z.object({
   stationIds: z.array(z.string().min(1)).min(1),
 });
 
+export const updateTimeZoneSchema = z.object({
+  timeZone: z.string().min(1).max(64).refine((value) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone"),
+});
+
+export const updateTaxSettingsSchema = z.object({
+  pricesIncludeTax: z.boolean(),
+});
+
+const taxRateFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  /** Fraction, e.g. 0.0825 for 8.25%. */
+  rate: z.coerce.number().min(0).max(1),
+  isEnabled: z.boolean().default(true),
+});
+
+export const insertTaxRateSchema = taxRateFieldsSchema;
+export const updateTaxRateSchema = taxRateFieldsSchema.partial();
+
+const taxClassFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  taxRateIds: z.array(z.string().min(1)).max(20),
+  categories: z.array(z.string().trim().min(1).max(80)).max(100).default([]),
+  appliesToTime: z.boolean().default(false),
+});
+
+export const insertTaxClassSchema = taxClassFieldsSchema;
+export const updateTaxClassSchema = taxClassFieldsSchema.partial();
+
+export const discountKindSchema = z.enum(["percent", "amount"]);
+export const discountScopeSchema = z.enum(["all", "time", "items", "categories", "stations"]);
+export const discountReasonSchema = z.enum(["comp", "service_recovery", "staff", "price_match", "other"]);
+
+const promotionFieldsSchema = z.object({
+  code: z.string().trim().min(2).max(40).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, - and _"),
+  name: z.string().trim().min(1).max(80),
+  kind: discountKindSchema,
+  /** Fraction for percent promotions, dollars for amount ones. */
+  value: z.coerce.number().positive().max(100000),
+  scope: discountScopeSchema.default("all"),
+  categories: z.array(z.string().trim().min(1).max(80)).max(100).default([]),
+  stationIds: z.array(z.string().min(1)).max(100).default([]),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  maxUses: z.number().int().min(1).max(1_000_000).nullable().optional(),
+  isEnabled: z.boolean().default(true),
+});
+
+export const insertPromotionSchema = promotionFieldsSchema;
+export const updatePromotionSchema = promotionFieldsSchema.partial();
+
+const stationRateFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  rateHourly: z.coerce.number().min(0),
+  sortOrder: z.number().int().min(0).max(1000).default(0),
+  isEnabled: z.boolean().default(true),
+});
+
+export const insertStationRateSchema = stationRateFieldsSchema;
+export const updateStationRateSchema = stationRateFieldsSchema.partial();
+
+/** A station tier picked for a stretch of play; null goes back to plain solo or group. */
+const stationRateIdSchema = z.string().min(1).nullable();
+
+const rateScheduleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  stationId: z.string().min(1).nullable().optional(),
+  stationType: z.string().trim().min(1).max(40).nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  startMinute: z.number().int().min(0).max(1439),
+  endMinute: z.number().int().min(1).max(1440),
+  rateSoloHourly: z.coerce.number().min(0),
+  rateGroupHourly: z.coerce.number().min(0),
+  priority: z.number().int().min(0).max(100).default(0),
+  isEnabled: z.boolean().default(true),
+});
+
+export const insertRateScheduleSchema = rateScheduleFieldsSchema;
+export const updateRateScheduleSchema = rateScheduleFieldsSchema.partial();
+
+export const insertWaitlistEntrySchema = z.object({
+  customerName: z.string().trim().min(1).max(100),
+  customerPhone: z.string().trim().max(32).nullable().optional(),
+  partySize: z.number().int().min(1).max(50).default(1),
+  stationType: z.string().trim().min(1).max(40).nullable().optional(),
+  /** Overrides the estimate when staff quote a different wait. */
+  quotedWaitMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+/** Seated entries are set by starting a session, not by editing. */
+export const updateWaitlistEntrySchema = insertWaitlistEntrySchema.partial().extend({
+  status: z.enum(["waiting", "left"]).optional(),
+});
+
+export const waitlistEstimateQuerySchema = z.object({
+  stationType: z.string().trim().min(1).max(40).optional(),
+});
+
+const reportDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/** Inclusive range of local days for GET /api/reports/tips. */
+export const tipsReportQuerySchema = z
+  .object({
+    from: reportDateSchema,
+    to: reportDateSchema,
+  })
+  .refine((value) => value.from <= value.to, { message: "from must be on or before to", path: ["to"] });
+
+export const discountsReportQuerySchema = tipsReportQuerySchema;
+
+export const reservationStatusSchema = z.enum(["booked", "seated", "cancelled", "no_show"]);
+
+const reservationFieldsSchema = z.object({
+  customerName: z.string().trim().min(1).max(100),
+  customerPhone: z.string().trim().max(32).nullable().optional(),
+  stationId: z.string().min(1).nullable().optional(),
+  stationType: z.string().trim().min(1).max(40).nullable().optional(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  partySize: z.number().int().min(1).max(50).default(1),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+export const insertReservationSchema = reservationFieldsSchema;
+/** Seated reservations are set by starting a session, not by editing. */
+export const updateReservationSchema = reservationFieldsSchema.partial().extend({
+  status: reservationStatusSchema.exclude(["seated"]).optional(),
+});
+
+/** Query for GET /api/reservations: an ISO window, defaulting to today and tomorrow. */
+export const listReservationsQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  status: reservationStatusSchema.optional(),
+});
+
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
   userId: true,
+  pointsBalance: true,
+  tierPoints: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   totalSeconds: z.number().int().min(0).default(0),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).default([]),
 });
 
 export const updateCustomerSchema = insertCustomerSchema.partial();
 
+/** CSV text of customers to import; a dry run only reports what would happen to each row. */
+export const importCustomersSchema = z.object({
+  csv: z.string().min(1).max(400_000),
+  dryRun: z.boolean().default(true),
+});
+
+/** Customers folded into the one in the URL, which keeps its phone number. */
+export const mergeCustomersSchema = z.object({
+  sourceIds: z.array(z.string().min(1)).min(1).max(20),
+});
+
 export const startSessionSchema = z.object({
   stationId: z.string().min(1),
   pricingTier: z.enum(["solo", "group"]),
+  /** Play at one of the station's own tiers instead of the solo or group rate. */
+  stationRateId: z.string().min(1).optional(),
   startedAt: z.string().datetime().optional(),
   customerName: z.string().max(100).optional(),
+  prepaidMinutes: z.number().int().min(1).max(24 * 60).optional(),
+  prepaidAmount: z.number().min(0).optional(),
+  /** Seat this booked reservation with the new session. */
+  reservationId: z.string().min(1).optional(),
+  /** Seat this waiting party with the new session. */
+  waitlistEntryId: z.string().min(1).optional(),
+  /** Players present from the start; each joins at startedAt. */
+  players: z.array(z.string().trim().min(1).max(60)).max(20).optional(),
+  /** Attach an existing customer. */
+  customerId: z.string().min(1).optional(),
+  /** Attach the customer with this phone number, creating one if none exists. */
+  customerPhone: z.string().min(1).max(30).optional(),
+}).refine((v) => v.prepaidAmount === undefined || v.prepaidMinutes !== undefined, {
+  message: "prepaidAmount requires prepaidMinutes",
+  path: ["prepaidAmount"],
+}).refine((v) => !(v.customerId && v.customerPhone), {
+  message: "Pass customerId or customerPhone, not both",
+  path: ["customerPhone"],
 });
 
 export const updateSessionNameSchema = z.object({
   customerName: z.string().max(100).nullable(),
 });
 
+export const addSessionPlayerSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
 export const addSessionItemSchema = z.object({
   menuItemId: z.string().min(1),
   qty: z.number().int().positive(),
@@ -215,16 +1032,221 @@ export const removeSessionItemSchema = z.object({
 export const transferSessionSchema = z.object({
   destinationStationId: z.string().min(1),
   endingPricingTier: z.enum(["solo", "group"]).optional(),
+  endingStationRateId: stationRateIdSchema.optional(),
   nextPricingTier: z.enum(["solo", "group"]).optional(),
+  /** A tier of the destination station; the ending tier belongs to the source station. */
+  nextStationRateId: stationRateIdSchema.optional(),
+});
+
+export const mergeSessionSchema = z.object({
+  targetSessionId: z.string().min(1),
+  /** Tier for the source station's closing segment; defaults to the source session's tier. */
+  endingPricingTier: z.enum(["solo", "group"]).optional(),
+  endingStationRateId: stationRateIdSchema.optional(),
+});
+
+export const tenderTypeSchema = z.enum(["cash", "card", "other"]);
+/** Any tender a payment can be recorded with, gift cards included. */
+export const paymentTenderTypeSchema = z.enum(["cash", "card", "other", "gift_card"]);
+
+/**
+ * A line of the quote, by id, for an itemized split. Lines of the stretch being closed have no
+ * segment id yet; they are addressed as `current:<window start>`, the ISO start of their rate window.
+ */
+export const splitAllocationSchema = z.object({
+  kind: z.enum(["item", "segment"]),
+  lineId: z.string().min(1),
+  share: z.number().positive().max(1),
 });
 
+export const checkoutPayerSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  tenderType: tenderTypeSchema.default("card"),
+  /** Apply the store's loyalty discount to this payer's share. */
+  discountApplied: z.boolean().optional(),
+  allocations: z.array(splitAllocationSchema).max(500),
+});
+
+/**
+ * Payment details for POST /api/sessions/:id/close. splits divide the final total evenly;
+ * payers instead assign item and time lines to named people.
+ */
+/** An ad-hoc discount given at the till; the reason code says why for reporting. */
+export const manualDiscountSchema = z
+  .object({
+    kind: discountKindSchema,
+    /** Fraction for percent discounts, dollars for amount ones. */
+    value: z.number().positive().max(100000),
+    scope: discountScopeSchema.extract(["all", "time", "items"]).default("all"),
+    reasonCode: discountReasonSchema,
+    note: z.string().trim().max(200).optional(),
+  })
+  .refine((value) => value.kind !== "percent" || value.value <= 1, {
+    message: "Percent discounts are a fraction up to 1",
+    path: ["value"],
+  });
+
+export const checkoutPaymentSchema = z
+  .object({
+    tenderType: tenderTypeSchema.default("card"),
+    loyaltyDiscountApplied: z.boolean().optional(),
+    /** Promotion code, checked against its dates and usage limit. */
+    promoCode: z.string().trim().min(1).max(40).optional(),
+    manualDiscount: manualDiscountSchema.optional(),
+    /** Points reward the loyalty customer spends on this checkout. */
+    rewardId: z.string().min(1).optional(),
+    /** Take part of the bill off this gift card; tenderType pays the rest. */
+    giftCardCode: z.string().trim().min(1).max(40).optional(),
+    /** Defaults to as much of the bill as the card covers. */
+    giftCardAmount: z.number().positive().max(100000).optional(),
+    /** Time voucher that takes its minutes off the time charge. */
+    voucherCode: z.string().trim().min(1).max(40).optional(),
+    splits: z.array(z.object({ tenderType: tenderTypeSchema })).min(2).max(20).optional(),
+    payers: z.array(checkoutPayerSchema).min(2).max(20).optional(),
+    /** Tip as a fraction of the final total, e.g. 0.18 ... */
+    tipRate: z.number().min(0).max(1).optional(),
+    /** ... or as a dollar amount. */
+    tipAmount: z.number().min(0).max(100000).optional(),
+  })
+  .refine((value) => !(value.splits && value.payers), {
+    message: "Use either splits or payers",
+    path: ["payers"],
+  })
+  .refine((value) => value.tipRate === undefined || value.tipAmount === undefined, {
+    message: "Use either tipRate or tipAmount",
+    path: ["tipAmount"],
+  })
+  .refine((value) => !value.giftCardCode || !(value.splits || value.payers), {
+    message: "Gift cards can't be used on a split bill",
+    path: ["giftCardCode"],
+  });
+
 export const closeSessionSchema = z.object({
   pricingTier: z.enum(["solo", "group"]).optional(),
+  stationRateId: stationRateIdSchema.optional(),
   currentSegmentPricingTier: z.enum(["solo", "group"]).optional(),
+  currentSegmentStationRateId: stationRateIdSchema.optional(),
   segmentTierOverrides: z.array(z.object({
     segmentId: z.string().min(1),
     pricingTier: z.enum(["solo", "group"]),
+    stationRateId: stationRateIdSchema.optional(),
   })).optional(),
+  payment: checkoutPaymentSchema.optional(),
+  /** Credit the played seconds to this loyalty customer. */
+  loyaltyPhone: z.string().trim().max(32).optional(),
+});
+
+export const sessionQuoteSchema = closeSessionSchema;
+
+const adjustmentReasonSchema = z.string().trim().min(1).max(500);
+
+export const reopenSessionSchema = z.object({
+  reason: adjustmentReasonSchema,
+  status: z.enum(["active", "paused"]).default("paused"),
+});
+
+export const voidSessionSchema = z.object({
+  reason: adjustmentReasonSchema,
+});
+
+export const editClosedSessionSchema = z.object({
+  reason: adjustmentReasonSchema,
+  segments: z.array(z.object({
+    id: z.string().min(1),
+    startedAt: z.string().datetime().optional(),
+    endedAt: z.string().datetime().optional(),
+    pricingTier: z.enum(["solo", "group"]).optional(),
+    stationRateId: stationRateIdSchema.optional(),
+  })).max(100).optional(),
+  /** Quantity 0 removes the line. */
+  items: z.array(z.object({
+    id: z.string().min(1),
+    qty: z.number().int().min(0).max(999),
+  })).max(200).optional(),
+});
+
+export const refundSessionSchema = z.object({
+  reason: adjustmentReasonSchema,
+  /** Defaults to everything not yet refunded. */
+  amount: z.coerce.number().positive().optional(),
+  /** Defaults to the tender of the first payment; gift_card puts the money back on the card that paid. */
+  tenderType: paymentTenderTypeSchema.optional(),
+});
+
+const giftCardAmountSchema = z.number().positive().max(10000);
+
+export const issueGiftCardSchema = z.object({
+  amount: giftCardAmountSchema,
+  /** How the customer paid for the card. */
+  tenderType: tenderTypeSchema.default("card"),
+  customerId: z.string().min(1).nullable().optional(),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const reloadGiftCardSchema = z.object({
+  amount: giftCardAmountSchema,
+  tenderType: tenderTypeSchema.default("card"),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const updateGiftCardSchema = z.object({
+  isActive: z.boolean().optional(),
+  customerId: z.string().min(1).nullable().optional(),
+});
+
+/** A correction to a card's balance, up or down, with the reason. */
+export const adjustGiftCardSchema = z.object({
+  amount: z.number().refine((value) => value !== 0, "Amount can't be zero"),
+  note: z.string().trim().min(1).max(200),
+});
+
+export const listGiftCardsQuerySchema = z.object({
+  customerId: z.string().min(1).optional(),
+});
+
+export const issueTimeVouchersSchema = z.object({
+  minutes: z.number().int().min(1).max(24 * 60),
+  stationType: z.string().trim().min(1).max(40).nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  /** Vouchers printed at once, each with its own code. */
+  count: z.number().int().min(1).max(100).default(1),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const listTimeVouchersQuerySchema = z.object({
+  status: z.enum(["active", "redeemed", "expired"]).optional(),
+});
+
+const membershipPlanFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  price: z.coerce.number().min(0).max(100000),
+  includedHours: z.coerce.number().min(0).max(744).default(0),
+  /** Station rate name members pay past their included hours; null keeps the regular rate. */
+  memberRateName: z.string().trim().min(1).max(80).nullable().optional(),
+  isEnabled: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).max(1000).default(0),
+});
+
+export const insertMembershipPlanSchema = membershipPlanFieldsSchema;
+export const updateMembershipPlanSchema = membershipPlanFieldsSchema.partial();
+
+export const insertCustomerMembershipSchema = z.object({
+  customerId: z.string().min(1),
+  planId: z.string().min(1),
+  /** Defaults to a month from now. */
+  renewsAt: z.string().datetime().optional(),
+});
+
+/** Switching plans starts a new period; moving renewsAt alone keeps the time used. */
+export const updateCustomerMembershipSchema = z.object({
+  planId: z.string().min(1).optional(),
+  renewsAt: z.string().datetime().optional(),
+});
+
+export const listMembershipsQuerySchema = z.object({
+  customerId: z.string().min(1).optional(),
+  /** Only memberships that renew (or lapsed) within this many days. */
+  expiringWithinDays: z.coerce.number().int().min(0).max(365).optional(),
 });
 
 export const cloverSyncApplySchema = z.object({
@@ -248,7 +1270,79 @@ export const cloverPushSchema = z.object({
 export type User = typeof users.$inferSelect;
 export type MenuItem = typeof menuItems.$inferSelect;
 export type Station = typeof stations.$inferSelect;
+export type StationRate = typeof stationRates.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type SessionTimeSegment = typeof sessionTimeSegments.$inferSelect;
+export type SessionPlayer = typeof sessionPlayers.$inferSelect;
 export type SessionItem = typeof sessionItems.$inferSelect;
 export type Customer = typeof customers.$inferSelect;
+export type LoyaltyTransaction = typeof loyaltyTransactions.$inferSelect;
+export type LoyaltyTransactionKind = LoyaltyTransaction["kind"];
+export type LoyaltyReward = typeof loyaltyRewards.$inferSelect;
+export type LoyaltyTier = typeof loyaltyTiers.$inferSelect;
+export type LoyaltyProgram = User["loyaltyProgram"];
+export type GiftCard = typeof giftCards.$inferSelect;
+export type GiftCardTransaction = typeof giftCardTransactions.$inferSelect;
+export type GiftCardTransactionKind = GiftCardTransaction["kind"];
+export type TimeVoucher = typeof timeVouchers.$inferSelect;
+export type MembershipPlan = typeof membershipPlans.$inferSelect;
+export type CustomerMembership = typeof customerMemberships.$inferSelect;
+export type MembershipUsage = typeof membershipUsages.$inferSelect;
+export type RateSchedule = typeof rateSchedules.$inferSelect;
+export type TaxRate = typeof taxRates.$inferSelect;
+export type TaxClass = typeof taxClasses.$inferSelect;
+export type Reservation = typeof reservations.$inferSelect;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type SessionCheckout = typeof sessionCheckouts.$inferSelect;
+export type SessionPayment = typeof sessionPayments.$inferSelect;
+export type SessionCheckoutPayer = typeof sessionCheckoutPayers.$inferSelect;
+export type SessionCheckoutTax = typeof sessionCheckoutTaxes.$inferSelect;
+export type SessionCheckoutDiscount = typeof sessionCheckoutDiscounts.$inferSelect;
+export type Promotion = typeof promotions.$inferSelect;
+export type DiscountKind = z.infer<typeof discountKindSchema>;
+export type DiscountScope = z.infer<typeof discountScopeSchema>;
+export type DiscountReason = z.infer<typeof discountReasonSchema>;
+export type DiscountSource = SessionCheckoutDiscount["source"];
+export type ManualDiscountInput = z.infer<typeof manualDiscountSchema>;
+export type InsertPromotionInput = z.infer<typeof insertPromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
+export type InsertLoyaltyRewardInput = z.infer<typeof insertLoyaltyRewardSchema>;
+export type UpdateLoyaltyRewardInput = z.infer<typeof updateLoyaltyRewardSchema>;
+export type InsertLoyaltyTierInput = z.infer<typeof insertLoyaltyTierSchema>;
+export type UpdateLoyaltyTierInput = z.infer<typeof updateLoyaltyTierSchema>;
+export type UpdateLoyaltyProgramInput = z.infer<typeof updateLoyaltyProgramSchema>;
+export type IssueGiftCardInput = z.infer<typeof issueGiftCardSchema>;
+export type ReloadGiftCardInput = z.infer<typeof reloadGiftCardSchema>;
+export type UpdateGiftCardInput = z.infer<typeof updateGiftCardSchema>;
+export type AdjustGiftCardInput = z.infer<typeof adjustGiftCardSchema>;
+export type IssueTimeVouchersInput = z.infer<typeof issueTimeVouchersSchema>;
+export type TimeVoucherStatus = NonNullable<z.infer<typeof listTimeVouchersQuerySchema>["status"]>;
+export type InsertMembershipPlanInput = z.infer<typeof insertMembershipPlanSchema>;
+export type UpdateMembershipPlanInput = z.infer<typeof updateMembershipPlanSchema>;
+export type InsertCustomerMembershipInput = z.infer<typeof insertCustomerMembershipSchema>;
+export type UpdateCustomerMembershipInput = z.infer<typeof updateCustomerMembershipSchema>;
+export type SessionAdjustment = typeof sessionAdjustments.$inferSelect;
+export type TenderType = z.infer<typeof paymentTenderTypeSchema>;
+export type CheckoutPaymentInput = z.infer<typeof checkoutPaymentSchema>;
+export type CheckoutPayerInput = z.infer<typeof checkoutPayerSchema>;
+export type SessionQuoteInput = z.infer<typeof sessionQuoteSchema>;
+export type CloseSessionRequestInput = z.infer<typeof closeSessionSchema>;
+export type StartSessionInput = z.infer<typeof startSessionSchema>;
+export type ReopenSessionInput = z.infer<typeof reopenSessionSchema>;
+export type RefundSessionInput = z.infer<typeof refundSessionSchema>;
+export type EditClosedSessionInput = z.infer<typeof editClosedSessionSchema>;
+export type InsertStationRateInput = z.infer<typeof insertStationRateSchema>;
+export type UpdateStationRateInput = z.infer<typeof updateStationRateSchema>;
+export type InsertRateScheduleInput = z.infer<typeof insertRateScheduleSchema>;
+export type UpdateRateScheduleInput = z.infer<typeof updateRateScheduleSchema>;
+export type InsertTaxRateInput = z.infer<typeof insertTaxRateSchema>;
+export type UpdateTaxRateInput = z.infer<typeof updateTaxRateSchema>;
+export type InsertTaxClassInput = z.infer<typeof insertTaxClassSchema>;
+export type UpdateTaxClassInput = z.infer<typeof updateTaxClassSchema>;
+export type ReservationStatus = z.infer<typeof reservationStatusSchema>;
+export type InsertReservationInput = z.infer<typeof insertReservationSchema>;
+export type UpdateReservationInput = z.infer<typeof updateReservationSchema>;
+export type TipsReportQuery = z.infer<typeof tipsReportQuerySchema>;
+export type DiscountsReportQuery = z.infer<typeof discountsReportQuerySchema>;
+export type InsertWaitlistEntryInput = z.infer<typeof insertWaitlistEntrySchema>;
+export type UpdateWaitlistEntryInput = z.infer<typeof updateWaitlistEntrySchema>;